@@ -0,0 +1,270 @@
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { runCounselorAnalysis } from '@/lib/application/counselor-analysis';
+import { RunControl } from '@/lib/application/run-control';
+import { BudgetLedger } from '@/lib/application/services/budget-ledger';
+import { CostEstimator } from '@/lib/application/services/cost-estimator';
+import { MultiLLMEvaluationService } from '@/lib/application/services/multi-llm-evaluation-service';
+import { createCancelledError } from '@/lib/integration/cancellation';
+
+type RoutePost = (request: NextRequest) => Promise<Response>;
+
+interface StreamEvent {
+  type: string;
+  [key: string]: any;
+}
+
+const GREETING = (name: string) => `안녕하세요 고객님, 핀다 고객경험팀 ${name}입니다. 핀다를 찾아 주셔서 정말 감사합니다 😊`;
+
+const buildUpload = () => {
+  const counselors = [
+    { id: '5', name: '이하늘' },
+    { id: '6', name: '강지희' }
+  ];
+  const chatData: any[] = [];
+  const messageData: any[] = [];
+
+  counselors.forEach(({ id, name }) => {
+    for (let i = 1; i <= 2; i++) {
+      const chatId = `chat-${id}-${i}`;
+      chatData.push({ chat_id: chatId, manager_id: id, tags: '수동종료', createdAt: `2025-07-10T0${i}:00:00.000Z` });
+      messageData.push(
+        { chat_id: chatId, type: 'user', text: `대출 한도 조회가 안 됩니다 (${chatId})` },
+        { chat_id: chatId, type: 'manager', text: GREETING(name) },
+        { chat_id: chatId, type: 'manager', text: `확인해 드리겠습니다. 한도 조회 오류는 재시도로 해결됩니다. (${chatId})` }
+      );
+    }
+  });
+
+  // 평가 대상 태그가 아닌 상담 (제외 목록에 기록)
+  chatData.push({ chat_id: 'chat-test', manager_id: '5', tags: '테스트', createdAt: '2025-07-10T03:00:00.000Z' });
+  messageData.push({ chat_id: 'chat-test', type: 'manager', text: '테스트 메시지' });
+
+  return { userData: [], chatData, messageData };
+};
+
+/**
+ * SSE 응답을 이벤트 목록으로 변환
+ */
+const readEvents = async (response: Response): Promise<StreamEvent[]> => {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter(chunk => chunk.startsWith('data: '))
+    .map(chunk => JSON.parse(chunk.slice('data: '.length)));
+};
+
+/**
+ * mock Provider만 켠 설정 디렉터리에서 상담원별 종합 평가 API 실행
+ * 설정/사용량/캐시 파일은 모두 임시 작업 디렉터리에 기록
+ */
+describe('POST /api/analyze-counselor-comprehensive (mock Provider)', () => {
+  const originalCwd = process.cwd();
+  let workDir: string;
+  let POST: RoutePost;
+
+  const post = (body: any): Promise<Response> =>
+    POST(new Request('http://localhost/api/analyze-counselor-comprehensive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }) as NextRequest);
+
+  beforeAll(async () => {
+    workDir = mkdtempSync(join(tmpdir(), 'counselor-analysis-test-'));
+    cpSync(join(originalCwd, 'config'), join(workDir, 'config'), { recursive: true });
+
+    const modelsPath = join(workDir, 'config', 'models.json');
+    const models = JSON.parse(readFileSync(modelsPath, 'utf-8'));
+    for (const [name, provider] of Object.entries<any>(models.providers)) {
+      provider.enabled = name === 'mock';
+    }
+    models.providers.mock.mock = { seed: 7, latency_ms: 0, failure_rate: 0, malformed_rate: 0 };
+    // 예산 한도 확인용 비용 (기본 예산은 한도 없음)
+    models.providers.mock.cost = { input_per_1k: 0.001, output_per_1k: 0.002 };
+    models.cache = { ...models.cache, enabled: false };
+    writeFileSync(modelsPath, JSON.stringify(models, null, 2));
+
+    process.chdir(workDir);
+    ({ POST } = await import('../route'));
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('종합 평가 진행 상황과 상담원별 결과를 SSE로 전송한다', async () => {
+    const response = await post(buildUpload());
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = await readEvents(response);
+    const types = events.map(event => event.type);
+
+    expect(types).not.toContain('error');
+    expect(types[0]).toBe('progress');
+    expect(types[types.length - 1]).toBe('result');
+    expect(events.filter(event => event.type === 'progress').map(event => event.progress))
+      .toEqual(expect.arrayContaining([5, 10, 30]));
+    expect(types).toContain('debug');
+
+    const result = events[events.length - 1];
+    expect(result.partial).toBe(false);
+    expect(result.excludedChats.map((chat: any) => chat.chat_id)).toEqual(['chat-test']);
+    expect(result.handoffReview).toEqual([]);
+    expect(result.evaluations.map((evaluation: any) => evaluation.counselor_id).sort()).toEqual(['5', '6']);
+
+    for (const evaluation of result.evaluations) {
+      expect(evaluation.evaluation_failed).toBeUndefined();
+      expect(evaluation.evaluation_mode).toBe('comprehensive');
+      expect(evaluation.total_chats_analyzed).toBe(2);
+      expect(evaluation.scores.total_score).toBeGreaterThanOrEqual(1);
+      expect(evaluation.scores.total_score).toBeLessThanOrEqual(5);
+
+      const { multi_llm: multiLlm } = evaluation;
+      expect(multiLlm.promptTemplate.version).toBeTruthy();
+      expect(multiLlm.providers).toEqual([
+        expect.objectContaining({ name: 'mock', model: 'mock-evaluator', success: true })
+      ]);
+      // mock Provider 하나만 성공했으므로 최소 Provider 수 검증은 통과하지 못함
+      expect(multiLlm.validation.isValid).toBe(false);
+      expect(multiLlm.validation.recommendations).toContain('더 많은 Provider를 활성화하거나 재시도하세요.');
+      expect(multiLlm.validation.outliers).toEqual([]);
+      expect(multiLlm.validation.confidence).toBeGreaterThan(0);
+      expect(multiLlm.validation.confidence).toBeLessThanOrEqual(1);
+      expect(['high', 'medium', 'low']).toContain(multiLlm.validation.reliability);
+    }
+  });
+
+  it('상담별 평가 모드는 상담마다 평가한 결과를 함께 전송한다', async () => {
+    const events = await readEvents(await post({ ...buildUpload(), evaluationMode: 'per_chat' }));
+    const result = events[events.length - 1];
+
+    expect(result.type).toBe('result');
+    for (const evaluation of result.evaluations) {
+      expect(evaluation.evaluation_mode).toBe('per_chat');
+      expect(evaluation.chat_evaluations).toHaveLength(2);
+      for (const chat of evaluation.chat_evaluations) {
+        expect(chat.status).toBe('evaluated');
+        expect(chat.providers).toEqual([expect.objectContaining({ name: 'mock', success: true })]);
+        expect(['high', 'medium', 'low']).toContain(chat.reliability);
+      }
+    }
+  });
+
+  it('상담별 평가 도중 취소되면 평가를 마친 상담만으로 부분 집계한다', async () => {
+    const service = MultiLLMEvaluationService.getInstance();
+    const evaluateChat = service.evaluateChat.bind(service);
+    const controller = new AbortController();
+    let first: Promise<any> | undefined;
+    // 첫 상담 평가를 마친 뒤 두 번째 상담 평가 도중 취소
+    const spy = vi.spyOn(service, 'evaluateChat').mockImplementation(async (...args) => {
+      if (!first) return (first = evaluateChat(...args));
+      await first;
+      controller.abort();
+      throw createCancelledError();
+    });
+
+    try {
+      // 연결이 끊기면 SSE로 전송하지 않으므로 평가 결과를 직접 확인
+      const evaluated: string[] = [];
+      const result = await runCounselorAnalysis(
+        { ...buildUpload(), guidelines: '', evaluationMode: 'per_chat' },
+        {
+          progress: () => {},
+          debug: () => {},
+          control: new RunControl(controller.signal),
+          onCounselorEvaluated: counselorId => {
+            evaluated.push(counselorId);
+          }
+        }
+      );
+
+      expect(result.cancelled).toBe(true);
+      expect(result.partial).toBe(true);
+      expect(result.partialCounselors).toEqual(['5']);
+      expect(result.pendingCounselors).toEqual(['6']);
+
+      const [evaluation] = result.evaluations;
+      expect(evaluation).toMatchObject({ counselor_id: '5', partial: true, total_chats_analyzed: 1 });
+      expect(evaluation.chat_evaluations.map((chat: any) => chat.status)).toEqual(['evaluated', 'skipped']);
+      // 부분 집계한 상담원은 재개 시 다시 평가하도록 체크포인트에 기록하지 않음
+      expect(evaluated).toEqual([]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('상담별 평가는 실행 전체에 예산 한도를 적용하고 한도에 도달하면 남은 상담원을 평가하지 않는다', async () => {
+    const service = MultiLLMEvaluationService.getInstance();
+    const createBudgetRun = service.createBudgetRun.bind(service);
+    // 상담 1건만 평가할 수 있는 실행당 한도
+    const spy = vi.spyOn(service, 'createBudgetRun').mockImplementation((sessions, options) => {
+      const run = createBudgetRun(sessions, options);
+      Object.assign(run.budget, { per_run_usd: run.forecast.perChatCost * 1.5, on_limit: 'pause' });
+      return run;
+    });
+
+    try {
+      const evaluated: string[] = [];
+      const result = await runCounselorAnalysis(
+        { ...buildUpload(), guidelines: '', evaluationMode: 'per_chat' },
+        {
+          progress: () => {},
+          debug: () => {},
+          onCounselorEvaluated: counselorId => {
+            evaluated.push(counselorId);
+          }
+        }
+      );
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(result.cancelled).toBe(false);
+      expect(result.partial).toBe(true);
+      expect(result.partialCounselors).toEqual(['5']);
+      expect(result.pendingCounselors).toEqual(['6']);
+      expect(result.evaluations[0].chat_evaluations.map((chat: any) => chat.status)).toEqual(['evaluated', 'skipped']);
+      // 일부 상담만 평가한 상담원은 체크포인트에 기록하지 않음
+      expect(evaluated).toEqual([]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('종합 평가 비용을 월 비용 장부에 기록하고 월 한도에 도달하면 남은 상담원을 평가하지 않는다', async () => {
+    const ledger = BudgetLedger.getInstance();
+    const hooks = { progress: () => {}, debug: () => {} };
+
+    const result = await runCounselorAnalysis({ ...buildUpload(), guidelines: '' }, { ...hooks, runId: 'comprehensive-run' });
+
+    expect(result.usage.cost.total).toBeGreaterThan(0);
+    expect(ledger.getMonth().runs['comprehensive-run'].usage.cost.total).toBeCloseTo(result.usage.cost.total, 10);
+
+    // 이번 달 사용액이 월 한도에 도달한 상태
+    const getBudget = CostEstimator.prototype.getBudget;
+    const spy = vi.spyOn(CostEstimator.prototype, 'getBudget').mockImplementation(function (this: CostEstimator, override) {
+      return { ...getBudget.call(this, override), per_month_usd: ledger.getMonthSpent() };
+    });
+
+    try {
+      const limited = await runCounselorAnalysis({ ...buildUpload(), guidelines: '' }, { ...hooks, runId: 'limited-run' });
+
+      expect(limited.partial).toBe(true);
+      expect(limited.evaluations).toEqual([]);
+      expect(limited.failedCounselors).toEqual([]);
+      expect(limited.pendingCounselors).toEqual(['5', '6']);
+      expect(ledger.getMonth().runs['limited-run']).toBeUndefined();
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('필수 데이터가 없으면 error 이벤트를 전송한다', async () => {
+    const events = await readEvents(await post({ userData: [], chatData: [] }));
+
+    expect(events[events.length - 1]).toEqual({ type: 'error', message: '필수 데이터가 누락되었습니다.' });
+  });
+});
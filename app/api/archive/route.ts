@@ -1,5 +1,24 @@
 import type { NextRequest } from "next/server"
-import { put, list, del } from "@vercel/blob"
+import { getStorageAdapter } from "@/lib/integration/storage/storage-factory"
+import type { ArchiveRecord } from "@/lib/persistence/evaluation-repository"
+import { importLegacyArchives } from "@/lib/persistence/legacy-archive-import"
+import { getEvaluationRepository } from "@/lib/persistence/repository-factory"
+
+// 아카이브 목록/응답 형식 (원본 문서는 데이터베이스에서 ?id=로 조회)
+function toArchiveItem(archive: ArchiveRecord) {
+  const url = `/api/archive?id=${encodeURIComponent(archive.id)}`
+  return {
+    id: archive.id,
+    type: archive.type,
+    filename: archive.filename,
+    description: archive.description,
+    url,
+    size: archive.size,
+    uploadedAt: archive.createdAt,
+    downloadUrl: archive.storageUrl || `${url}&download=true`,
+    criteriaVersion: archive.criteriaVersion,
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,49 +31,24 @@ export async function POST(request: NextRequest) {
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
     const finalFilename = filename || `${type}_archive_${timestamp}.json`
+    // 평가 결과를 생성한 평가 기준 버전
+    const criteriaVersion = data.criteriaVersion || data.metadata?.criteriaVersion
 
-    // Blob 토큰이 없거나 더미 토큰인 경우만 시뮬레이션 모드
-    const isSimulationMode = !process.env.BLOB_READ_WRITE_TOKEN || 
-                            process.env.BLOB_READ_WRITE_TOKEN.includes('dummy') ||
-                            process.env.BLOB_READ_WRITE_TOKEN === 'your-blob-token-here' ||
-                            process.env.BLOB_READ_WRITE_TOKEN.length < 20
-    
-    if (isSimulationMode) {
-      return Response.json({
-        success: true,
-        archive: {
-          id: `archive_${Date.now()}`,
-          type,
-          filename: finalFilename,
-          url: `#local-dev-mode`,
-          size: JSON.stringify(data).length,
-          createdAt: timestamp,
-          downloadUrl: `#local-dev-mode`
-        },
-        message: `시뮬레이션 모드: 데이터가 임시로 아카이빙되었습니다. (Vercel Blob Storage 토큰 필요)`
-      })
-    }
+    // 파일 저장소에 원본 사본 저장
+    const stored = await getStorageAdapter().put(`archives/${finalFilename}`, JSON.stringify(data, null, 2), "application/json")
 
-    // Vercel Blob Storage에 실제 저장
-    const blob = await put(finalFilename, JSON.stringify(data, null, 2), {
-      access: "public",
-      contentType: "application/json",
-      allowOverwrite: true, // Add this line to allow overwriting existing files
-    })
-
-    const archiveData = {
-      id: `archive_${Date.now()}`,
+    const archive = await getEvaluationRepository().saveArchive({
       type,
       filename: finalFilename,
-      url: blob.url,
-      size: 0, // Vercel Blob API does not provide size directly
-      createdAt: timestamp,
-      downloadUrl: blob.downloadUrl || blob.url,
-    }
+      criteriaVersion,
+      storageKey: stored.key,
+      storageUrl: stored.downloadUrl,
+      data,
+    })
 
     return Response.json({
       success: true,
-      archive: archiveData,
+      archive: toArchiveItem(archive),
       message: `데이터가 성공적으로 아카이빙되었습니다.`,
     })
   } catch (error) {
@@ -66,47 +60,42 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+// 아카이브 목록 조회 (?type=&criteriaVersion=), ?id=는 원본 문서 반환 (download=true면 파일로 다운로드)
+// 목록 조회 시 저장소 도입 전 파일 저장소 최상위 경로에 저장한 아카이브도 등록
+export async function GET(request: NextRequest) {
   try {
-    // Blob 토큰이 없거나 더미 토큰인 경우만 시뮬레이션 모드
-    const isSimulationMode = !process.env.BLOB_READ_WRITE_TOKEN || 
-                            process.env.BLOB_READ_WRITE_TOKEN.includes('dummy') ||
-                            process.env.BLOB_READ_WRITE_TOKEN === 'your-blob-token-here' ||
-                            process.env.BLOB_READ_WRITE_TOKEN.length < 20
-    
-    if (isSimulationMode) {
-      return Response.json({
-        success: true,
-        archives: [],
-        total: 0,
-        message: "시뮬레이션 모드: Vercel Blob Storage 토큰이 설정되지 않음"
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get("id")
+    const repository = getEvaluationRepository()
+
+    if (id) {
+      const archive = await repository.getArchive(id)
+      const data = archive ? await repository.getArchiveData(id) : null
+      if (!archive || data === null) {
+        return Response.json({ error: "아카이브를 찾을 수 없습니다." }, { status: 404 })
+      }
+
+      return new Response(JSON.stringify(data, null, 2), {
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          ...(searchParams.get("download") === "true" && {
+            "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(archive.filename)}`,
+          }),
+        },
       })
     }
 
-    const { blobs } = await list()
-
-    const archives = blobs
-      .filter(
-        (blob) =>
-          blob.pathname.includes("archive") || 
-          blob.pathname.includes("feedback") || 
-          blob.pathname.includes("chat") ||
-          blob.pathname.includes("counselor_evaluations") ||
-          blob.pathname.includes("uploaded_data") ||
-          blob.pathname.includes("종합평가결과") ||
-          blob.pathname.includes("test_") ||
-          blob.pathname.includes("comprehensive_evaluation"),
-      )
-      .map((blob) => ({
-        id: blob.pathname,
-        filename: blob.pathname,
-        url: blob.url,
-        size: blob.size,
-        uploadedAt: blob.uploadedAt,
-        downloadUrl: blob.downloadUrl,
-        type: blob.pathname.includes("feedback") ? "feedback" : "chat",
-      }))
-      .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())
+    // 이전 아카이브를 가져오지 못해도 등록된 목록은 반환
+    await importLegacyArchives(repository, getStorageAdapter()).catch((error) =>
+      console.error("이전 아카이브 가져오기 오류:", error),
+    )
+
+    const archives = (
+      await repository.listArchives({
+        type: searchParams.get("type") || undefined,
+        criteriaVersion: searchParams.get("criteriaVersion") || undefined,
+      })
+    ).map(toArchiveItem)
 
     return Response.json({
       success: true,
@@ -122,53 +111,43 @@ export async function GET() {
 export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const filename = searchParams.get("filename")
-    const deleteType = searchParams.get("type") // 'all', 'uploaded_data', 'individual_feedback', 'comprehensive_analysis'
-
-    // Blob 토큰이 없거나 더미 토큰인 경우만 시뮬레이션 모드
-    const isSimulationMode = !process.env.BLOB_READ_WRITE_TOKEN || 
-                            process.env.BLOB_READ_WRITE_TOKEN.includes('dummy') ||
-                            process.env.BLOB_READ_WRITE_TOKEN === 'your-blob-token-here' ||
-                            process.env.BLOB_READ_WRITE_TOKEN.length < 20
-    
-    if (isSimulationMode) {
-      return Response.json({
-        success: true,
-        message: `시뮬레이션 모드: 아카이브 삭제가 시뮬레이션되었습니다.`
-      })
-    }
+    const id = searchParams.get("id")
+    const deleteType = searchParams.get("type") // 'all' 또는 아카이브 타입 (uploaded_data, counselor_evaluations 등)
+    const repository = getEvaluationRepository()
 
-    if (deleteType === "all") {
-      // 모든 아카이브 삭제
-      const { blobs } = await list()
-      const deletePromises = blobs.map((blob) => del(blob.pathname))
-      await Promise.all(deletePromises)
+    // 데이터베이스에서 삭제한 아카이브의 원본 사본도 함께 삭제 (사본 삭제 실패는 기록만 남김)
+    const deleteStoredCopies = (archives: ArchiveRecord[]) =>
+      getStorageAdapter()
+        .delete(archives.map((archive) => archive.storageKey).filter((key): key is string => !!key))
+        .catch((error) => console.error("아카이브 원본 사본 삭제 오류:", error))
 
-      return Response.json({
-        success: true,
-        message: `총 ${blobs.length}개의 아카이브가 삭제되었습니다.`,
-      })
-    } else if (deleteType && ["uploaded_data", "individual_feedback", "comprehensive_analysis"].includes(deleteType)) {
-      // 특정 타입의 아카이브만 삭제
-      const { blobs } = await list()
-      const targetBlobs = blobs.filter((blob) => blob.pathname.includes(deleteType))
-      const deletePromises = targetBlobs.map((blob) => del(blob.pathname))
-      await Promise.all(deletePromises)
+    if (deleteType) {
+      // 모든 아카이브 또는 특정 타입의 아카이브 삭제
+      const deleted = await repository.deleteArchives(deleteType === "all" ? undefined : deleteType)
+      await deleteStoredCopies(deleted)
 
       return Response.json({
         success: true,
-        message: `${deleteType} 타입의 ${targetBlobs.length}개 아카이브가 삭제되었습니다.`,
+        message: deleteType === "all"
+          ? `총 ${deleted.length}개의 아카이브가 삭제되었습니다.`
+          : `${deleteType} 타입의 ${deleted.length}개 아카이브가 삭제되었습니다.`,
       })
-    } else if (filename) {
-      // 개별 파일 삭제
-      await del(filename)
+    } else if (id) {
+      // 개별 아카이브 삭제
+      const archive = await repository.getArchive(id)
+      if (!archive) {
+        return Response.json({ error: "아카이브를 찾을 수 없습니다." }, { status: 404 })
+      }
+
+      await repository.deleteArchive(id)
+      await deleteStoredCopies([archive])
 
       return Response.json({
         success: true,
         message: "아카이브가 성공적으로 삭제되었습니다.",
       })
     } else {
-      return Response.json({ error: "삭제할 파일명 또는 타입이 필요합니다." }, { status: 400 })
+      return Response.json({ error: "삭제할 아카이브 ID 또는 타입이 필요합니다." }, { status: 400 })
     }
   } catch (error) {
     console.error("아카이브 삭제 오류:", error)
@@ -1,5 +1,6 @@
 import type { NextRequest } from "next/server"
-import { put } from "@vercel/blob"
+import { getStorageAdapter } from "@/lib/integration/storage/storage-factory"
+import { getEvaluationRepository } from "@/lib/persistence/repository-factory"
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,27 +16,35 @@ export async function POST(request: NextRequest) {
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
     const filename = `${type}_${timestamp}.json`
 
-    // Vercel Blob Storage에 실제 저장
-    const blob = await put(filename, JSON.stringify(data, null, 2), {
-      access: "public",
-      contentType: "application/json",
-      allowOverwrite: true, // Add this line to allow overwriting existing files
+    // 파일 저장소에 원본 사본 저장
+    const stored = await getStorageAdapter().put(`archives/${filename}`, JSON.stringify(data, null, 2), "application/json")
+
+    const archive = await getEvaluationRepository().saveArchive({
+      type,
+      filename,
+      description,
+      criteriaVersion: data.criteriaVersion, // 평가 결과를 생성한 평가 기준 버전
+      storageKey: stored.key,
+      storageUrl: stored.downloadUrl,
+      data,
     })
 
-    console.log("자동 아카이빙 성공:", { filename, url: blob.url })
+    console.log("자동 아카이빙 성공:", { id: archive.id, filename })
 
+    const url = `/api/archive?id=${encodeURIComponent(archive.id)}`
     return Response.json({
       success: true,
       message: `${description || type} 자동 저장 완료`,
       archive: {
-        id: `auto_${Date.now()}`,
+        id: archive.id,
         type,
         filename,
-        url: blob.url,
-        size: 0, // Vercel Blob API does not provide size directly
-        createdAt: timestamp,
-        downloadUrl: blob.downloadUrl || blob.url,
+        url,
+        size: archive.size,
+        createdAt: archive.createdAt,
+        downloadUrl: stored.downloadUrl,
         description,
+        criteriaVersion: archive.criteriaVersion,
       },
     })
   } catch (error) {
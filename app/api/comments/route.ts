@@ -1,16 +1,5 @@
 import type { NextRequest } from "next/server"
-import { put, list, del } from "@vercel/blob"
-
-// 코멘트 데이터 타입
-interface Comment {
-  id: string
-  chatId: string
-  managerId: string
-  managerName: string
-  comment: string
-  createdAt: string
-  createdBy: string
-}
+import { getEvaluationRepository } from "@/lib/persistence/repository-factory"
 
 // 코멘트 저장
 export async function POST(request: NextRequest) {
@@ -22,21 +11,12 @@ export async function POST(request: NextRequest) {
       return Response.json({ error: "ChatID와 코멘트는 필수입니다." }, { status: 400 })
     }
 
-    const commentData: Comment = {
-      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    const commentData = await getEvaluationRepository().addComment({
       chatId,
       managerId: managerId || "",
       managerName: managerName || "",
       comment,
-      createdAt: new Date().toISOString(),
       createdBy: createdBy || "관리자",
-    }
-
-    // Vercel Blob Storage에 저장
-    const filename = `comments/${commentData.id}.json`
-    const blob = await put(filename, JSON.stringify(commentData, null, 2), {
-      access: "public",
-      contentType: "application/json",
     })
 
     return Response.json({
@@ -58,28 +38,13 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const chatId = searchParams.get("chatId")
+    const managerId = searchParams.get("managerId")
 
-    const { blobs } = await list({ prefix: "comments/" })
-
-    const comments: Comment[] = []
-
-    // 모든 코멘트 파일을 읽어서 필터링
-    for (const blob of blobs) {
-      try {
-        const response = await fetch(blob.url)
-        const commentData = await response.json()
-
-        // chatId가 지정된 경우 해당 상담의 코멘트만 반환
-        if (!chatId || commentData.chatId === chatId) {
-          comments.push(commentData)
-        }
-      } catch (error) {
-        console.error(`코멘트 파일 읽기 오류 (${blob.pathname}):`, error)
-      }
-    }
-
-    // 최신순으로 정렬
-    comments.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    // 최신순으로 정렬된 코멘트 (chatId/managerId가 지정된 경우 해당 상담/상담원의 코멘트만)
+    const comments = await getEvaluationRepository().listComments({
+      chatId: chatId || undefined,
+      managerId: managerId || undefined,
+    })
 
     return Response.json({
       success: true,
@@ -102,8 +67,10 @@ export async function DELETE(request: NextRequest) {
       return Response.json({ error: "삭제할 코멘트 ID가 필요합니다." }, { status: 400 })
     }
 
-    const filename = `comments/${commentId}.json`
-    await del(filename)
+    const deleted = await getEvaluationRepository().deleteComment(commentId)
+    if (!deleted) {
+      return Response.json({ error: "코멘트를 찾을 수 없습니다." }, { status: 404 })
+    }
 
     return Response.json({
       success: true,
@@ -0,0 +1,62 @@
+import type { NextRequest } from "next/server"
+import { CriteriaVersionService } from "@/lib/config/criteria-versions"
+import { ConfigManager } from "@/lib/config/manager"
+import { TeamStatisticsCalculator } from "@/lib/domain/team-statistics"
+import { getEvaluationRepository } from "@/lib/persistence/repository-factory"
+
+// 팀 대시보드 통계 (평가 이력의 상담원별 점수 기준)
+// ?runId=  : 특정 평가 실행, ?latest=true : 가장 최근 평가 실행
+// 그 외    : since/until(상담 기간 시작 일자) 범위의 전체 이력, criteriaVersion과 confidence(기본 0.95) 조건
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const param = (name: string) => searchParams.get(name) || undefined
+    const repository = getEvaluationRepository()
+
+    const criteriaVersion = param("criteriaVersion")
+    if (criteriaVersion && !CriteriaVersionService.getInstance().exists(criteriaVersion)) {
+      return Response.json({ error: `평가 기준 버전 ${criteriaVersion}을(를) 찾을 수 없습니다.` }, { status: 400 })
+    }
+    const confidence = param("confidence") === undefined ? 0.95 : Number(param("confidence"))
+    if (!(confidence > 0 && confidence < 1)) {
+      return Response.json({ error: "confidence는 0과 1 사이의 값이어야 합니다." }, { status: 400 })
+    }
+
+    const latest = param("latest") === "true"
+    const runId = latest ? (await repository.listEvaluationRuns({ criteriaVersion, limit: 1 }))[0]?.id : param("runId")
+    // 최근 평가 실행이 없으면 빈 통계
+    const history =
+      latest && !runId
+        ? []
+        : await repository.listScoreHistory({ runId, criteriaVersion, since: param("since"), until: param("until") })
+
+    // 문제 상담 수는 점수 이력에 남은 평가(같은 상담 기간은 최근 저장분)만 집계
+    const recorded = new Set(history.map((record) => `${record.runId}\u0000${record.counselorId}`))
+    const results = (await repository.listEvaluationResults({ runId, criteriaVersion })).filter((result) =>
+      recorded.has(`${result.runId}\u0000${result.counselorId}`),
+    )
+
+    const criteria = ConfigManager.getInstance().getEvaluationCriteria(criteriaVersion)
+    const calculator = new TeamStatisticsCalculator({
+      scale: criteria.scoring.scale,
+      confidence,
+      sectionOrder: Object.fromEntries(
+        Object.entries(criteria.evaluation_criteria).map(([section, config]) => [section, Object.keys(config.subcriteria)]),
+      ),
+    })
+
+    return Response.json({
+      success: true,
+      runId,
+      runs: new Set(history.map((record) => record.runId)).size,
+      criteriaVersion: criteria.version,
+      dashboard: calculator.build(history, results),
+    })
+  } catch (error) {
+    console.error("팀 대시보드 조회 오류:", error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : "팀 대시보드 조회 중 오류가 발생했습니다." },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import type { NextRequest } from "next/server";
+import { ResponseCache } from "@/lib/integration/response-cache";
+
+/**
+ * 평가 응답 캐시 현황 API
+ * GET /api/evaluate-multi/cache
+ * 설정(활성화, TTL), Provider별 저장 항목 수, 서버 기동 후 적중률
+ */
+export async function GET() {
+  try {
+    return Response.json({
+      success: true,
+      cache: ResponseCache.getInstance().getStats()
+    });
+  } catch (error) {
+    console.error("[Cache] 캐시 현황 조회 실패:", error);
+    return Response.json(
+      {
+        error: "캐시 현황을 조회할 수 없습니다",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 평가 응답 캐시 무효화 API
+ * DELETE /api/evaluate-multi/cache?provider=&chatId=&criteriaVersion=&expired=true
+ * 조건이 없으면 전체 삭제, expired=true면 만료된 항목만 삭제
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const removed = ResponseCache.getInstance().invalidate({
+      provider: searchParams.get("provider") || undefined,
+      chatId: searchParams.get("chatId") || undefined,
+      criteriaVersion: searchParams.get("criteriaVersion") || undefined,
+      expiredOnly: searchParams.get("expired") === "true"
+    });
+
+    return Response.json({ success: true, removed });
+  } catch (error) {
+    console.error("[Cache] 캐시 삭제 실패:", error);
+    return Response.json(
+      {
+        error: "캐시를 삭제할 수 없습니다",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
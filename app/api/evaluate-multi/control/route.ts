@@ -0,0 +1,50 @@
+import type { NextRequest } from "next/server";
+import { RunControlRegistry } from "@/lib/application/run-control";
+
+const ACTIONS = ["pause", "resume", "cancel"];
+
+/**
+ * 진행 중인 배치 평가 일시정지/재개/취소 API
+ * POST /api/evaluate-multi/control
+ * body: { runId, action: "pause" | "resume" | "cancel" }
+ * 일시정지는 진행 중인 상담 평가가 끝난 뒤 적용되고, 취소는 진행 중인 Provider 호출까지 중단
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { runId, action } = await request.json();
+
+    if (!ACTIONS.includes(action)) {
+      return Response.json(
+        { error: `지원하지 않는 제어 동작입니다: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    const control = runId ? RunControlRegistry.getInstance().get(String(runId)) : undefined;
+    if (!control) {
+      return Response.json(
+        { error: `실행 중인 배치 평가를 찾을 수 없습니다: ${runId}` },
+        { status: 404 }
+      );
+    }
+
+    if (!control.apply(action)) {
+      return Response.json(
+        { error: `현재 상태에서 적용할 수 없는 동작입니다: ${control.getState()} → ${action}` },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[EvaluateMulti] 배치 평가 제어: ${runId} (${action})`);
+    return Response.json({ success: true, runId, state: control.getState() });
+  } catch (error) {
+    console.error("[EvaluateMulti] 배치 평가 제어 실패:", error);
+    return Response.json(
+      {
+        error: "배치 평가를 제어할 수 없습니다",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import type { NextRequest } from "next/server";
+import { buildChatSession } from "@/lib/application/chat-session";
+import { CostEstimator } from "@/lib/application/services/cost-estimator";
+import { BudgetLedger } from "@/lib/application/services/budget-ledger";
+import { ConfigManager } from "@/lib/config/manager";
+import { EvaluationTargetRules } from "@/lib/domain/evaluation-target-rules";
+import type { ChatSession } from "@/lib/types/evaluation";
+
+/**
+ * 배치 평가 사전 비용 추정 API
+ * POST /api/evaluate-multi/estimate
+ * body: { userData, chatData, messageData, budget? }
+ * 평가 대상 규칙을 통과한 상담만 활성 Provider별 토큰/비용을 추정하고 예산 한도와 비교
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userData = [], chatData, messageData, budget } = await request.json();
+
+    if (!Array.isArray(chatData) || !Array.isArray(messageData)) {
+      return Response.json(
+        { error: "유효하지 않은 요청입니다", details: "chatData와 messageData가 필요합니다" },
+        { status: 400 }
+      );
+    }
+
+    const targetRules = new EvaluationTargetRules(ConfigManager.getInstance().getEvaluationCriteria().filters);
+    const sessions: ChatSession[] = [];
+    let excluded = 0;
+    let invalid = 0;
+
+    for (const chat of chatData) {
+      const chatId = chat.chatId || chat.chat_id || chat.id;
+      try {
+        const session = buildChatSession(userData, chatData, messageData, chatId);
+        if (!session) {
+          invalid++;
+          continue;
+        }
+
+        const decision = targetRules.evaluate({
+          chatId: session.chatId,
+          tags: session.metadata.tags || [],
+          messages: session.messages,
+          rating: session.metadata.rating
+        });
+        if (decision.included) {
+          sessions.push(session);
+        } else {
+          excluded++;
+        }
+      } catch {
+        // 메시지가 없는 상담 등 변환할 수 없는 상담은 평가에서도 제외됨
+        invalid++;
+      }
+    }
+
+    const forecast = new CostEstimator().forecast(sessions, BudgetLedger.getInstance().getMonthSpent(), budget);
+    console.log(`[Estimate] ${sessions.length}건 예상 비용: $${forecast.cost.total.toFixed(4)} (제외 ${excluded}건, 변환 실패 ${invalid}건)`);
+
+    return Response.json({
+      success: true,
+      forecast,
+      excluded,
+      invalid
+    });
+  } catch (error) {
+    console.error("[Estimate] 비용 추정 실패:", error);
+    return Response.json(
+      {
+        error: "비용 추정에 실패했습니다",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,115 +1,17 @@
 import type { NextRequest } from "next/server";
 import { MultiLLMEvaluationService } from "@/lib/application/services/multi-llm-evaluation-service";
-import { ChatSession, Message } from "@/lib/types/evaluation";
+import { CounselorRosterService } from "@/lib/config/counselor-roster";
+import { ConfigManager } from "@/lib/config/manager";
+import { EvaluationTargetRules } from "@/lib/domain/evaluation-target-rules";
+import { buildChatSession } from "@/lib/application/chat-session";
+import { RunControl, RunControlRegistry } from "@/lib/application/run-control";
+import type { ChatSession } from "@/lib/types/evaluation";
 
 /**
  * Multi-LLM 평가 API 엔드포인트
  * 새로운 5-Layer 아키텍처 기반 평가 시스템
  */
 
-// 텍스트 디코딩 함수
-function decodeText(text: string): string {
-  if (!text) return "";
-
-  try {
-    const htmlDecoded = text
-      .replace(/&amp;/g, "&")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/&nbsp;/g, " ");
-
-    return htmlDecoded.trim().replace(/\s+/g, " ");
-  } catch (error) {
-    console.error("텍스트 디코딩 오류:", error);
-    return text;
-  }
-}
-
-// 상담원 이름 매핑
-const MANAGER_NAMES: Record<string, string> = {
-  "5": "이하늘",
-  "6": "강지희", 
-  "8": "김예림",
-  "10": "이지영",
-  "1": "CX",
-};
-
-// 레거시 데이터를 ChatSession으로 변환
-function convertToMTUChatSession(
-  userData: any[],
-  chatData: any[],
-  messageData: any[],
-  targetChatId: string
-): ChatSession | null {
-  // 해당 채팅 찾기
-  const chat = chatData.find(c => 
-    (c.chatId || c.chat_id || c.id) === targetChatId
-  );
-  
-  if (!chat) {
-    throw new Error(`채팅 ID ${targetChatId}를 찾을 수 없습니다.`);
-  }
-
-  const managerId = chat.managerId || chat.manager_id || chat.counselor_id;
-  const userId = chat.userId || chat.user_id;
-  
-  // 해당 채팅의 메시지들 찾기
-  const messages = messageData.filter((msg: any) => 
-    (msg.chatId || msg.chat_id || msg.id) === targetChatId
-  );
-
-  if (messages.length === 0) {
-    throw new Error(`채팅 ID ${targetChatId}에 대한 메시지를 찾을 수 없습니다.`);
-  }
-
-  // 사용자 정보 찾기
-  const user = userData.find((u: any) => 
-    (u.userId || u.user_id) === userId
-  );
-
-  // 메시지 정렬 및 변환
-  const sortedMessages: Message[] = messages
-    .sort((a: any, b: any) => {
-      const timeA = Number.parseInt(a.createdAt || a.created_at) || new Date(a.date).getTime();
-      const timeB = Number.parseInt(b.createdAt || b.created_at) || new Date(b.date).getTime();
-      return timeA - timeB;
-    })
-    .map((msg: any) => ({
-      type: (msg.type || msg.sender_type || "manager") as 'user' | 'manager' | 'bot',
-      text: decodeText(msg.text || msg.content || msg.message || ""),
-      timestamp: new Date(Number.parseInt(msg.createdAt || msg.created_at) || new Date(msg.date).getTime()),
-      createdAt: msg.createdAt || msg.created_at,
-      date: msg.date
-    }));
-
-  // 태그 처리
-  const tagsString = chat.tags || "";
-  const tags = tagsString
-    ? tagsString.split(",").map((t: string) => t.trim()).filter((t: string) => t.length > 0)
-    : [];
-
-  // ChatSession 객체 생성
-  const chatSession: ChatSession = {
-    chatId: targetChatId,
-    userId: userId || "unknown",
-    managerId: managerId || "unknown",
-    messages: sortedMessages,
-    metadata: {
-      startTime: new Date(chat.createdAt || chat.created_at || chat.date),
-      endTime: sortedMessages.length > 0 ? sortedMessages[sortedMessages.length - 1].timestamp : undefined,
-      device: user?.device,
-      channel: user?.channel_type || user?.channelType || "unknown",
-      tags,
-      rating: Number.parseFloat(chat.rating) || undefined,
-      duration: undefined // 계산 가능하지만 현재는 생략
-    }
-  };
-
-  return chatSession;
-}
-
 export async function POST(request: NextRequest) {
   console.log("=== Multi-LLM 평가 API 시작 ===");
 
@@ -128,14 +30,23 @@ export async function POST(request: NextRequest) {
     // 환경변수 확인
     const openaiKey = process.env.OPENAI_API_KEY;
     const geminiKey = process.env.GOOGLE_AI_API_KEY;
+    const anthropicKey = process.env.ANTHROPIC_API_KEY;
 
     console.log("환경변수 확인:");
     console.log("- OPENAI_API_KEY 존재:", !!openaiKey);
     console.log("- GOOGLE_AI_API_KEY 존재:", !!geminiKey);
+    console.log("- ANTHROPIC_API_KEY 존재:", !!anthropicKey);
+
+    // 로컬 모델(OpenAI 호환 서버)과 mock Provider는 API 키 없이 사용 가능
+    const configuredProviders = ConfigManager.getInstance().getModelConfig().providers;
+    const localEnabled = !!configuredProviders.local?.enabled;
+    const mockEnabled = !!configuredProviders.mock?.enabled;
+    console.log("- 로컬 모델 활성화:", localEnabled);
+    console.log("- Mock Provider 활성화:", mockEnabled);
 
-    if (!openaiKey && !geminiKey) {
+    if (!openaiKey && !geminiKey && !anthropicKey && !localEnabled && !mockEnabled) {
       return Response.json(
-        { error: "최소한 하나의 API 키(OpenAI 또는 Google AI)가 필요합니다." },
+        { error: "최소한 하나의 API 키(OpenAI, Google AI 또는 Anthropic) 또는 로컬 모델 설정이 필요합니다." },
         { status: 400 }
       );
     }
@@ -144,30 +55,35 @@ export async function POST(request: NextRequest) {
     const evaluationService = MultiLLMEvaluationService.getInstance();
     await evaluationService.initialize();
 
+    // 상담원 이름 매핑 (상담원 명부 기준)
+    const managerNames = CounselorRosterService.getInstance().getNameMap();
+
     // 스트리밍 응답 설정
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
+        // 클라이언트 연결이 끊긴 뒤에는 스트림에 쓰지 않음 (평가는 request.signal로 취소됨)
+        const send = (payload: any) => {
+          if (request.signal.aborted) return;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        };
+
+        const sendError = (message: string) => {
+          send({ type: "error", message });
+        };
+
         try {
           const sendProgress = (progress: number, message: string, details?: any) => {
-            const data = `data: ${JSON.stringify({ type: "progress", progress, message, details })}\n\n`;
-            controller.enqueue(encoder.encode(data));
+            send({ type: "progress", progress, message, details });
           };
 
           const sendDebug = (info: string) => {
             console.log(info);
-            const data = `data: ${JSON.stringify({ type: "debug", info })}\n\n`;
-            controller.enqueue(encoder.encode(data));
+            send({ type: "debug", info });
           };
 
           const sendResult = (result: any) => {
-            const data = `data: ${JSON.stringify({ type: "result", ...result })}\n\n`;
-            controller.enqueue(encoder.encode(data));
-          };
-
-          const sendError = (message: string) => {
-            const data = `data: ${JSON.stringify({ type: "error", message })}\n\n`;
-            controller.enqueue(encoder.encode(data));
+            send({ type: "result", ...result });
           };
 
           sendProgress(10, "Multi-LLM 평가 시스템 초기화 완료");
@@ -182,13 +98,26 @@ export async function POST(request: NextRequest) {
             sendProgress(20, `채팅 ID ${chatId} 데이터 변환 중...`);
 
             // 레거시 데이터를 ChatSession으로 변환
-            const chatSession = convertToMTUChatSession(userData, chatData, messageData, chatId);
+            const chatSession = buildChatSession(userData, chatData, messageData, chatId);
             
             if (!chatSession) {
               throw new Error(`채팅 ID ${chatId}를 처리할 수 없습니다.`);
             }
 
-            sendDebug(`변환 완료: ${chatSession.messages.length}개 메시지, 상담원: ${MANAGER_NAMES[chatSession.managerId] || chatSession.managerId}`);
+            sendDebug(`변환 완료: ${chatSession.messages.length}개 메시지, 상담원: ${managerNames[chatSession.managerId] || chatSession.managerId}`);
+
+            // 평가 대상 규칙 판정 (단일 평가는 요청된 상담이므로 결과만 기록)
+            const targetDecision = new EvaluationTargetRules(
+              ConfigManager.getInstance().getEvaluationCriteria().filters
+            ).evaluate({
+              chatId: chatSession.chatId,
+              tags: chatSession.metadata.tags || [],
+              messages: chatSession.messages,
+              rating: chatSession.metadata.rating
+            });
+            if (!targetDecision.included) {
+              sendDebug(`평가 대상 규칙 미충족: ${targetDecision.explanation.filter(line => line.includes("✗")).join(" / ")}`);
+            }
 
             sendProgress(40, "Multi-LLM 평가 실행 중...");
 
@@ -197,7 +126,8 @@ export async function POST(request: NextRequest) {
               strictValidation: options.strictValidation || false,
               generateReport: options.generateReport || true,
               includeAdvancedAnalysis: options.includeAdvancedAnalysis || false,
-              timeout: options.timeout || 60000
+              timeout: options.timeout || 60000,
+              signal: request.signal
             });
 
             sendProgress(80, "평가 결과 처리 중...");
@@ -206,7 +136,9 @@ export async function POST(request: NextRequest) {
             const legacyCompatibleResult = {
               chatId: chatSession.chatId,
               managerId: chatSession.managerId,
-              managerName: MANAGER_NAMES[chatSession.managerId] || `상담원 ${chatSession.managerId}`,
+              managerName: managerNames[chatSession.managerId] || `상담원 ${chatSession.managerId}`,
+              operatingHours: chatSession.metadata.operatingHours,
+              targetDecision,
               
               // Multi-LLM 평가 결과
               multiLLMResult: {
@@ -217,7 +149,8 @@ export async function POST(request: NextRequest) {
                   model: p.model,
                   success: p.success,
                   responseTime: p.responseTime,
-                  cost: p.cost
+                  cost: p.cost,
+                  cached: !!p.cached
                 })),
                 metadata: evaluationResult.result.metadata
               },
@@ -258,9 +191,86 @@ export async function POST(request: NextRequest) {
             });
 
           } else if (mode === "batch") {
-            // 배치 평가 (향후 구현)
-            sendError("배치 모드는 아직 구현되지 않았습니다.");
-            
+            // 배치 평가 (평가 대상 규칙을 통과한 상담만 평가)
+            if (!Array.isArray(chatData)) {
+              throw new Error("배치 평가 모드에서는 chatData가 필요합니다.");
+            }
+
+            const targetRules = new EvaluationTargetRules(ConfigManager.getInstance().getEvaluationCriteria().filters);
+            const chatSessions: ChatSession[] = [];
+            let excluded = 0;
+
+            for (const chat of chatData) {
+              const batchChatId = chat.chatId || chat.chat_id || chat.id;
+              try {
+                const session = buildChatSession(userData, chatData, messageData, batchChatId);
+                if (!session) continue;
+
+                const decision = targetRules.evaluate({
+                  chatId: session.chatId,
+                  tags: session.metadata.tags || [],
+                  messages: session.messages,
+                  rating: session.metadata.rating
+                });
+                if (decision.included) {
+                  chatSessions.push(session);
+                } else {
+                  excluded++;
+                }
+              } catch {
+                // 메시지가 없는 상담 등 변환할 수 없는 상담은 제외
+                excluded++;
+              }
+            }
+
+            // 실행 ID로 /api/evaluate-multi/control에서 일시정지/재개/취소 (연결이 끊기면 자동 취소)
+            const runId = options.runId || `batch-${Date.now()}`;
+            const control = new RunControl(request.signal);
+            const registry = RunControlRegistry.getInstance();
+            registry.register(runId, control);
+            control.onStateChange(state => {
+              send({ type: "control", runId, state });
+              sendDebug(`배치 평가 제어: ${state}`);
+            });
+
+            try {
+              send({ type: "run", runId, total: chatSessions.length, excluded });
+              sendDebug(`배치 평가 대상: ${chatSessions.length}건 (제외 ${excluded}건)`);
+              sendProgress(20, `${chatSessions.length}건 배치 평가 시작...`);
+
+              const batchResult = await evaluationService.evaluateChatsBatch(chatSessions, {
+                batchSize: options.batchSize,
+                parallelism: options.parallelism,
+                strictValidation: options.strictValidation || false,
+                errorHandling: options.errorHandling || "continue",
+                runId,
+                budget: options.budget,
+                control,
+                progressCallback: (completed, total, current) => {
+                  sendProgress(20 + Math.round((completed / Math.max(total, 1)) * 70), `배치 평가 중... (${completed}/${total})`, current);
+                }
+              });
+
+              if (batchResult.summary.cancelled) {
+                sendDebug(`평가 취소됨 - 부분 결과 ${batchResult.results.length}건, 미평가 ${batchResult.summary.cancelledChatIds.length}건`);
+              }
+
+              sendResult({
+                mode: "batch",
+                runId,
+                partial: batchResult.summary.partial,
+                results: batchResult.results.map(r => ({
+                  ...r,
+                  managerName: managerNames[r.managerId] || `상담원 ${r.managerId}`
+                })),
+                summary: batchResult.summary,
+                errors: batchResult.errors
+              });
+            } finally {
+              registry.unregister(runId);
+            }
+
+
           } else if (mode === "stream") {
             // 스트림 평가 (향후 구현)
             sendError("스트림 모드는 아직 구현되지 않았습니다.");
@@ -275,14 +285,11 @@ export async function POST(request: NextRequest) {
           const errorMessage = error instanceof Error ? error.message : "알 수 없는 오류가 발생했습니다.";
           console.error("Multi-LLM 평가 오류:", errorMessage);
           
-          const sendError = (message: string) => {
-            const data = `data: ${JSON.stringify({ type: "error", message })}\n\n`;
-            controller.enqueue(encoder.encode(data));
-          };
-          
           sendError(errorMessage);
         } finally {
-          controller.close();
+          if (!request.signal.aborted) {
+            controller.close();
+          }
         }
       },
     });
@@ -1,5 +1,5 @@
 import type { NextRequest } from "next/server"
-import { put } from "@vercel/blob"
+import { getStorageAdapter } from "@/lib/integration/storage/storage-factory"
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,22 +15,18 @@ export async function POST(request: NextRequest) {
     // HTML 보고서 생성
     const htmlContent = generateHTMLReport(counselorEvaluations)
 
-    // Vercel Blob에 저장
+    // 파일 저장소에 저장
     const filename = `상담평가보고서_${new Date().toISOString().split("T")[0]}_${Date.now()}.html`
-    const blob = await put(filename, htmlContent, {
-      access: "public",
-      contentType: "text/html; charset=utf-8",
-      allowOverwrite: true,
-    })
+    const stored = await getStorageAdapter().put(`reports/${filename}`, htmlContent, "text/html; charset=utf-8")
 
     return Response.json({
       success: true,
       message: "HTML 보고서가 생성되었습니다.",
       report: {
         filename,
-        url: blob.url,
-        downloadUrl: blob.downloadUrl || blob.url,
-        size: 0, // Vercel Blob API does not provide size directly
+        url: stored.url,
+        downloadUrl: stored.downloadUrl,
+        size: stored.size,
       },
     })
   } catch (error) {
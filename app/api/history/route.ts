@@ -0,0 +1,63 @@
+import type { NextRequest } from "next/server"
+import { getEvaluationRepository } from "@/lib/persistence/repository-factory"
+
+// 평가 이력 조회 (아카이브 원본을 내려받지 않고 데이터베이스 행으로 조회)
+// ?chatId=   : 업로드별 상담, 메시지, 코멘트
+// 그 외      : 평가 실행 목록과 상담원별 결과 (counselorId, criteriaVersion, kind, since, until, runId 조건)
+//              runId 또는 counselorId를 지정하면 Provider별 결과 포함
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const param = (name: string) => searchParams.get(name) || undefined
+    const repository = getEvaluationRepository()
+
+    const chatId = param("chatId")
+    if (chatId) {
+      const chats = await repository.listChats({ chatId })
+      const sessions = await Promise.all(
+        chats.map(async (chat) => ({
+          ...chat,
+          messages: (await repository.listMessages(chat.uploadId, chatId)).map((message) => message.data),
+        })),
+      )
+
+      return Response.json({
+        success: true,
+        chatId,
+        sessions,
+        comments: await repository.listComments({ chatId }),
+      })
+    }
+
+    const runId = param("runId")
+    const counselorId = param("counselorId")
+    const criteriaVersion = param("criteriaVersion")
+    const since = param("since")
+    const until = param("until")
+
+    const runs = await repository.listEvaluationRuns({
+      kind: param("kind"),
+      criteriaVersion,
+      since,
+      until,
+      limit: Number(param("limit")) || undefined,
+    })
+    const results = await repository.listEvaluationResults({ runId, counselorId, criteriaVersion, since, until })
+    const runIds = new Set(runs.map((run) => run.id))
+
+    return Response.json({
+      success: true,
+      runs: runId ? runs.filter((run) => run.id === runId) : runs,
+      results: results.filter((result) => runIds.has(result.runId)),
+      ...((runId || counselorId) && {
+        providers: (await repository.listProviderResults({ runId, counselorId })).filter((provider) => runIds.has(provider.runId)),
+      }),
+    })
+  } catch (error) {
+    console.error("평가 이력 조회 오류:", error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : "평가 이력 조회 중 오류가 발생했습니다." },
+      { status: 500 },
+    )
+  }
+}
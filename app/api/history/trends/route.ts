@@ -0,0 +1,55 @@
+import type { NextRequest } from "next/server"
+import { PerformanceTrendAnalyzer, type TrendGranularity } from "@/lib/domain/performance-trend"
+import { getEvaluationRepository } from "@/lib/persistence/repository-factory"
+
+// 상담원 성과 추이 (평가한 상담 기간 기준)
+// counselorId 없음 : 점수 이력이 있는 상담원 목록
+// ?counselorId=    : 업무능력/문장력/기본_태도 세부 항목과 총점의 기간별 평균, 기간 사이 변화의 Welch t-검정 결과
+//                    (granularity=month|week, alpha 기본 0.05, criteriaVersion, since, until 조건)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const param = (name: string) => searchParams.get(name) || undefined
+    const repository = getEvaluationRepository()
+
+    const counselorId = param("counselorId")
+    if (!counselorId) {
+      return Response.json({ success: true, counselors: await repository.listHistoryCounselors() })
+    }
+
+    const granularity = (param("granularity") || "month") as TrendGranularity
+    if (granularity !== "month" && granularity !== "week") {
+      return Response.json({ error: "granularity는 month 또는 week이어야 합니다." }, { status: 400 })
+    }
+    const alpha = param("alpha") === undefined ? 0.05 : Number(param("alpha"))
+    if (!(alpha > 0 && alpha < 1)) {
+      return Response.json({ error: "alpha는 0과 1 사이의 값이어야 합니다." }, { status: 400 })
+    }
+
+    const history = await repository.listScoreHistory({
+      counselorId,
+      criteriaVersion: param("criteriaVersion"),
+      since: param("since"),
+      until: param("until"),
+    })
+    if (history.length === 0) {
+      return Response.json({ error: "상담원의 평가 이력이 없습니다." }, { status: 404 })
+    }
+
+    return Response.json({
+      success: true,
+      counselorId,
+      counselorName: history[history.length - 1].counselorName,
+      granularity,
+      alpha,
+      runs: new Set(history.map((record) => record.runId)).size,
+      series: new PerformanceTrendAnalyzer({ granularity, alpha }).analyze(history),
+    })
+  } catch (error) {
+    console.error("성과 추이 조회 오류:", error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : "성과 추이 조회 중 오류가 발생했습니다." },
+      { status: 500 },
+    )
+  }
+}
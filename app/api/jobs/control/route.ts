@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EvaluationJobRunner } from '@/lib/application/services/evaluation-job-runner';
+import { EvaluationJobStore } from '@/lib/application/services/evaluation-job-store';
+
+const ACTIONS = ['pause', 'resume', 'cancel'];
+
+/**
+ * 실행 중인 평가 작업 일시정지/재개/취소 API
+ * POST /api/jobs/control
+ * body: { jobId, action: 'pause' | 'resume' | 'cancel' }
+ * 취소 시 진행 중인 Provider 호출을 중단하고, 그때까지 평가한 상담원은 부분 결과로 저장
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { jobId, action } = await request.json();
+    const runner = EvaluationJobRunner.getInstance();
+    const job = jobId ? runner.getJob(String(jobId)) : null;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `지원하지 않는 제어 동작입니다: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `평가 작업을 찾을 수 없습니다: ${jobId}` },
+        { status: 404 }
+      );
+    }
+
+    if (!runner.isActive(job.id)) {
+      return NextResponse.json(
+        { error: `실행 중인 작업이 아닙니다: ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    const applied = runner.control(job.id, action);
+
+    return NextResponse.json({
+      success: true,
+      applied,
+      job: EvaluationJobStore.summarize(runner.getJob(job.id) || job)
+    });
+  } catch (error) {
+    console.error('[Jobs] 평가 작업 제어 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '평가 작업을 제어할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
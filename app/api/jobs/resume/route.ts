@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EvaluationJobRunner } from '@/lib/application/services/evaluation-job-runner';
+import { EvaluationJobStore } from '@/lib/application/services/evaluation-job-store';
+
+/**
+ * 중단/실패한 평가 작업 재개 API (마지막 체크포인트부터 이어서 평가)
+ * POST /api/jobs/resume
+ * body: { jobId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { jobId } = await request.json();
+    const runner = EvaluationJobRunner.getInstance();
+    const job = jobId ? runner.getJob(String(jobId)) : null;
+
+    if (!job) {
+      return NextResponse.json(
+        { error: `평가 작업을 찾을 수 없습니다: ${jobId}` },
+        { status: 404 }
+      );
+    }
+
+    if (!runner.canResume(job)) {
+      return NextResponse.json(
+        { error: `재개할 수 없는 작업 상태입니다: ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    const resumed = runner.resume(job.id);
+
+    return NextResponse.json(
+      { success: true, job: EvaluationJobStore.summarize(resumed) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('[Jobs] 평가 작업 재개 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '평가 작업을 재개할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
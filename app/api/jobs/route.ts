@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EvaluationJobRunner } from '@/lib/application/services/evaluation-job-runner';
+import { EvaluationJobStore } from '@/lib/application/services/evaluation-job-store';
+import { CounselorEvaluationMode } from '@/lib/types/evaluation';
+
+const EVALUATION_MODES: CounselorEvaluationMode[] = ['comprehensive', 'per_chat'];
+
+/**
+ * 평가 작업 목록 / 특정 작업 상태 조회 API
+ * GET /api/jobs
+ * GET /api/jobs?id=&since= (since: 이미 받은 디버그 로그 커서, 이후 로그만 반환)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('id');
+    const runner = EvaluationJobRunner.getInstance();
+
+    if (!jobId) {
+      return NextResponse.json({ success: true, jobs: runner.listJobs() });
+    }
+
+    const job = runner.getJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: `평가 작업을 찾을 수 없습니다: ${jobId}` },
+        { status: 404 }
+      );
+    }
+
+    const since = Number.parseInt(searchParams.get('since') || '0', 10) || 0;
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        ...EvaluationJobStore.summarize(job),
+        result: job.result
+      },
+      logs: job.logs.slice(Math.max(0, since - job.logOffset)),
+      logCursor: job.logOffset + job.logs.length,
+      canResume: runner.canResume(job)
+    });
+  } catch (error) {
+    console.error('[Jobs] 평가 작업 조회 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '평가 작업을 조회할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 상담원별 종합 평가 작업 등록 API (등록 즉시 백그라운드 실행)
+ * POST /api/jobs
+ * body: { userData, chatData, messageData, guidelines?, evaluationMode? }
+ * evaluationMode: comprehensive(기본, 상담원별 전체 상담 일괄 평가) | per_chat(상담별 개별 평가 후 상담원 단위 집계)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userData, chatData, messageData, guidelines, evaluationMode } = await request.json();
+
+    if (!Array.isArray(userData) || !Array.isArray(chatData) || !Array.isArray(messageData)) {
+      return NextResponse.json(
+        { error: '필수 데이터가 누락되었습니다.', details: 'userData, chatData, messageData가 필요합니다' },
+        { status: 400 }
+      );
+    }
+
+    if (evaluationMode !== undefined && !EVALUATION_MODES.includes(evaluationMode)) {
+      return NextResponse.json(
+        { error: '평가 방식이 올바르지 않습니다.', details: `evaluationMode는 ${EVALUATION_MODES.join(', ')} 중 하나여야 합니다` },
+        { status: 400 }
+      );
+    }
+
+    const job = EvaluationJobRunner.getInstance().submit({ userData, chatData, messageData, guidelines, evaluationMode });
+
+    return NextResponse.json(
+      { success: true, job: EvaluationJobStore.summarize(job) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('[Jobs] 평가 작업 등록 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '평가 작업을 등록할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
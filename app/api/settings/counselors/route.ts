@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CounselorRosterService } from '@/lib/config/counselor-roster';
+
+/**
+ * 상담원 명부 조회 API
+ * GET /api/settings/counselors
+ */
+export async function GET() {
+  try {
+    const rosterService = CounselorRosterService.getInstance();
+
+    return NextResponse.json({
+      success: true,
+      counselors: rosterService.list()
+    });
+  } catch (error) {
+    console.error('[Settings] 상담원 명부 조회 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '상담원 명부를 조회할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 상담원 추가 API
+ * POST /api/settings/counselors
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+    const rosterService = CounselorRosterService.getInstance();
+
+    const validationResult = rosterService.validateCounselor(input);
+    if (!validationResult.isValid) {
+      return NextResponse.json(
+        {
+          error: '유효하지 않은 상담원 정보입니다',
+          details: validationResult.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const id = String(input.id).trim();
+    if (rosterService.get(id)) {
+      return NextResponse.json(
+        { error: `이미 등록된 상담원 ID입니다: ${id}` },
+        { status: 409 }
+      );
+    }
+
+    const counselor = rosterService.create(input);
+    console.log(`[Settings] 상담원 추가 완료: ${counselor.id} (${counselor.name})`);
+
+    return NextResponse.json({
+      success: true,
+      message: '상담원이 추가되었습니다',
+      counselor
+    });
+  } catch (error) {
+    console.error('[Settings] 상담원 추가 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '상담원 추가에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 상담원 정보 수정 API
+ * PUT /api/settings/counselors
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { id, ...changes } = await request.json();
+    const rosterService = CounselorRosterService.getInstance();
+
+    if (!id || !rosterService.get(String(id))) {
+      return NextResponse.json(
+        { error: `상담원을 찾을 수 없습니다: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const validationResult = rosterService.validateCounselor({ ...rosterService.get(String(id)), ...changes });
+    if (!validationResult.isValid) {
+      return NextResponse.json(
+        {
+          error: '유효하지 않은 상담원 정보입니다',
+          details: validationResult.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const counselor = rosterService.update(String(id), changes);
+    console.log(`[Settings] 상담원 수정 완료: ${counselor.id} (${counselor.name})`);
+
+    return NextResponse.json({
+      success: true,
+      message: '상담원 정보가 수정되었습니다',
+      counselor
+    });
+  } catch (error) {
+    console.error('[Settings] 상담원 수정 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '상담원 수정에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 상담원 삭제 API
+ * DELETE /api/settings/counselors?id=
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const rosterService = CounselorRosterService.getInstance();
+
+    if (!id || !rosterService.get(id)) {
+      return NextResponse.json(
+        { error: `상담원을 찾을 수 없습니다: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    rosterService.remove(id);
+    console.log(`[Settings] 상담원 삭제 완료: ${id}`);
+
+    return NextResponse.json({
+      success: true,
+      message: '상담원이 삭제되었습니다'
+    });
+  } catch (error) {
+    console.error('[Settings] 상담원 삭제 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '상담원 삭제에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CriteriaVersionService } from '@/lib/config/criteria-versions';
+
+/**
+ * 평가 기준 버전 활성화 API
+ * POST /api/settings/criteria/activate
+ * body: { version }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { version } = await request.json();
+    const versionService = CriteriaVersionService.getInstance();
+
+    if (!version || !versionService.exists(String(version))) {
+      return NextResponse.json(
+        { error: `평가 기준 버전을 찾을 수 없습니다: v${version}` },
+        { status: 404 }
+      );
+    }
+
+    const errors = versionService.validateCriteria(versionService.get(String(version))!);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: '유효하지 않은 평가 기준입니다',
+          details: errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const previousVersion = versionService.getActiveVersion();
+    const activated = versionService.activate(String(version));
+    console.log(`[Settings] 평가 기준 활성화: v${previousVersion} → v${activated.version}`);
+
+    return NextResponse.json({
+      success: true,
+      message: `평가 기준 v${activated.version}이 활성화되었습니다`,
+      previousVersion,
+      activeVersion: activated.version
+    });
+  } catch (error) {
+    console.error('[Settings] 평가 기준 활성화 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '평가 기준 활성화에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CriteriaVersionService } from '@/lib/config/criteria-versions';
+
+/**
+ * 평가 기준 버전 비교 API
+ * GET /api/settings/criteria/diff?from=&to=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const versionService = CriteriaVersionService.getInstance();
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: '비교할 두 버전(from, to)이 필요합니다' },
+        { status: 400 }
+      );
+    }
+
+    for (const version of [from, to]) {
+      if (!versionService.exists(version)) {
+        return NextResponse.json(
+          { error: `평가 기준 버전을 찾을 수 없습니다: v${version}` },
+          { status: 404 }
+        );
+      }
+    }
+
+    const changes = versionService.diff(from, to);
+
+    return NextResponse.json({
+      success: true,
+      from,
+      to,
+      changes,
+      summary: {
+        added: changes.filter(change => change.type === 'added').length,
+        removed: changes.filter(change => change.type === 'removed').length,
+        changed: changes.filter(change => change.type === 'changed').length
+      }
+    });
+  } catch (error) {
+    console.error('[Settings] 평가 기준 비교 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '평가 기준을 비교할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CriteriaVersionService } from '@/lib/config/criteria-versions';
+
+/**
+ * 평가 기준 버전 목록 / 특정 버전 조회 API
+ * GET /api/settings/criteria
+ * GET /api/settings/criteria?version=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const version = searchParams.get('version');
+    const versionService = CriteriaVersionService.getInstance();
+
+    if (version) {
+      const criteria = versionService.get(version);
+      if (!criteria) {
+        return NextResponse.json(
+          { error: `평가 기준 버전을 찾을 수 없습니다: v${version}` },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        criteria,
+        active: version === versionService.getActiveVersion()
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      activeVersion: versionService.getActiveVersion(),
+      versions: versionService.list(),
+      history: versionService.getHistory()
+    });
+  } catch (error) {
+    console.error('[Settings] 평가 기준 조회 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '평가 기준을 조회할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 평가 기준 새 버전 생성 API (기존 버전 복제)
+ * POST /api/settings/criteria
+ * body: { base_version, version?, author?, description?, changes? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+    const versionService = CriteriaVersionService.getInstance();
+
+    if (!input.base_version || !versionService.exists(String(input.base_version))) {
+      return NextResponse.json(
+        { error: `복제할 평가 기준 버전을 찾을 수 없습니다: v${input.base_version}` },
+        { status: 404 }
+      );
+    }
+
+    if (input.version && versionService.exists(String(input.version))) {
+      return NextResponse.json(
+        { error: `이미 존재하는 평가 기준 버전입니다: v${input.version}` },
+        { status: 409 }
+      );
+    }
+
+    const criteria = versionService.create({
+      ...input,
+      base_version: String(input.base_version),
+      version: input.version ? String(input.version) : undefined
+    });
+    console.log(`[Settings] 평가 기준 버전 생성 완료: v${criteria.version} (원본 v${criteria.based_on})`);
+
+    return NextResponse.json({
+      success: true,
+      message: `평가 기준 v${criteria.version}이 생성되었습니다`,
+      criteria
+    });
+  } catch (error) {
+    console.error('[Settings] 평가 기준 버전 생성 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '평가 기준 버전 생성에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+}
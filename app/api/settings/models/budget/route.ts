@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CostEstimator } from '@/lib/application/services/cost-estimator';
+import { BudgetLedger } from '@/lib/application/services/budget-ledger';
+
+/**
+ * 예산 설정 및 월 사용액 조회 API
+ * GET /api/settings/models/budget?month=YYYY-MM
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const month = request.nextUrl.searchParams.get('month') || undefined;
+    const estimator = new CostEstimator();
+    const budget = estimator.getBudget();
+    const usage = BudgetLedger.getInstance().getMonth(month);
+
+    return NextResponse.json({
+      success: true,
+      budget,
+      status: { ...estimator.getStatus(budget, usage.usage.cost.total), month: usage.month },
+      usage
+    });
+  } catch (error) {
+    console.error('[Settings] 예산 사용액 조회 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '예산 사용액을 조회할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
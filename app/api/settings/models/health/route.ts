@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProviderFactory } from '@/lib/integration/provider-factory';
+
+/**
+ * Provider 연결 확인 API (저장 전 설정 기준)
+ * POST /api/settings/models/health
+ * body: { providerId, config }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { providerId, config } = await request.json();
+
+    if (!providerId || !config || typeof config !== 'object') {
+      return NextResponse.json(
+        {
+          error: '유효하지 않은 요청입니다',
+          details: 'providerId와 config가 필요합니다'
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ProviderFactory.getInstance().testProviderConfig(providerId, config);
+    console.log(`[Settings] ${providerId} 연결 확인: ${result.success ? '성공' : '실패'} - ${result.message}`);
+
+    return NextResponse.json({
+      success: true,
+      health: result
+    });
+  } catch (error) {
+    console.error('[Settings] Provider 연결 확인 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Provider 연결 확인에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
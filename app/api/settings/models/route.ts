@@ -166,6 +166,18 @@ function validateModelConfig(config: any): { isValid: boolean; errors: string[]
         }
       }
 
+      // Anthropic은 temperature 0-1 범위만 지원
+      if (providerId === 'anthropic' && typeof p.temperature === 'number' && p.temperature > 1) {
+        errors.push(`Provider ${providerId}의 temperature 설정이 유효하지 않습니다 (0-1 범위)`);
+      }
+
+      // 로컬 모델은 OpenAI 호환 서버 주소 필요
+      if (providerId === 'local') {
+        if (!p.base_url || typeof p.base_url !== 'string' || !/^https?:\/\/\S+$/.test(p.base_url)) {
+          errors.push(`Provider ${providerId}의 base_url 설정이 유효하지 않습니다 (예: http://localhost:11434/v1)`);
+        }
+      }
+
       // Gemini 전용 설정 검증
       if (providerId === 'gemini-25') {
         if (p.top_p && (typeof p.top_p !== 'number' || p.top_p < 0 || p.top_p > 1)) {
@@ -197,6 +209,36 @@ function validateModelConfig(config: any): { isValid: boolean; errors: string[]
     }
   }
 
+  // budget 필드 검증 (선택)
+  if (config.budget !== undefined) {
+    const budget = config.budget;
+    if (!budget || typeof budget !== 'object') {
+      errors.push('budget 설정이 유효하지 않습니다');
+    } else {
+      for (const key of ['per_run_usd', 'per_month_usd']) {
+        if (budget[key] !== undefined && (typeof budget[key] !== 'number' || budget[key] < 0)) {
+          errors.push(`budget.${key} 설정이 유효하지 않습니다 (0 이상, 0은 제한 없음)`);
+        }
+      }
+
+      if (!['pause', 'downgrade'].includes(budget.on_limit)) {
+        errors.push('budget.on_limit 설정이 유효하지 않습니다 (pause 또는 downgrade)');
+      }
+
+      if (budget.downgrade !== undefined) {
+        if (!budget.downgrade || typeof budget.downgrade !== 'object') {
+          errors.push('budget.downgrade 설정이 유효하지 않습니다');
+        } else {
+          for (const providerId of Object.keys(budget.downgrade)) {
+            if (!config.providers?.[providerId]) {
+              errors.push(`budget.downgrade의 Provider ${providerId}가 providers에 없습니다`);
+            }
+          }
+        }
+      }
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -265,6 +307,21 @@ function getDefaultModelConfig() {
         top_p: 0.95,
         top_k: 40
       },
+      "anthropic": {
+        enabled: false,
+        model: "claude-sonnet-4-20250514",
+        temperature: 0.1,
+        max_tokens: 4000,
+        endpoint: "https://api.anthropic.com/v1/messages"
+      },
+      "local": {
+        enabled: false,
+        model: "qwen2.5:14b-instruct",
+        temperature: 0.1,
+        max_tokens: 4000,
+        timeout: 120000,
+        base_url: "http://localhost:11434/v1"
+      },
       "openai": {
         enabled: false,
         model: "gpt-4o",
@@ -276,6 +333,14 @@ function getDefaultModelConfig() {
       multi_llm: true,
       comparison_mode: "weighted_average",
       confidence_threshold: 0.8
+    },
+    budget: {
+      per_run_usd: 0,
+      per_month_usd: 0,
+      on_limit: "downgrade",
+      downgrade: {
+        "openai-gpt5": { reasoningEffort: "low" }
+      }
     }
   };
 }
\ No newline at end of file
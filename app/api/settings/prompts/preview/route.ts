@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildChatSession } from '@/lib/application/chat-session';
+import { PromptTemplateService } from '@/lib/config/prompt-templates';
+
+/**
+ * 프롬프트 미리보기 API
+ * 편집 중인 템플릿을 업로드 데이터의 샘플 상담에 적용하여 Provider별 렌더링 결과와 추정 토큰 수 반환
+ * POST /api/settings/prompts/preview
+ * body: { chatId, userData, chatData, messageData, changes? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { chatId, userData = [], chatData = [], messageData = [], changes } = await request.json();
+
+    if (!chatId) {
+      return NextResponse.json(
+        { error: '미리보기할 상담(chatId)을 선택하세요' },
+        { status: 400 }
+      );
+    }
+
+    const session = buildChatSession(userData, chatData, messageData, String(chatId));
+    if (!session) {
+      return NextResponse.json(
+        { error: `채팅 ID ${chatId}를 처리할 수 없습니다` },
+        { status: 400 }
+      );
+    }
+
+    const templateService = PromptTemplateService.getInstance();
+    const previews = templateService.preview(session, changes);
+
+    return NextResponse.json({
+      success: true,
+      chatId: session.chatId,
+      managerId: session.managerId,
+      messageCount: session.messages.length,
+      baseVersion: templateService.getCurrent().version,
+      previews
+    });
+  } catch (error) {
+    console.error('[Settings] 프롬프트 미리보기 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '프롬프트 미리보기에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PromptTemplateService } from '@/lib/config/prompt-templates';
+
+/**
+ * 프롬프트 템플릿 롤백 API (선택한 버전 내용을 새 리비전으로 저장)
+ * POST /api/settings/prompts/rollback
+ * body: { version, author? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { version, author } = await request.json();
+    const templateService = PromptTemplateService.getInstance();
+
+    if (!version || !templateService.get(String(version))) {
+      return NextResponse.json(
+        { error: `프롬프트 템플릿 버전을 찾을 수 없습니다: v${version}` },
+        { status: 404 }
+      );
+    }
+
+    const previousVersion = templateService.getCurrent().version;
+    const template = templateService.rollback(String(version), author);
+    console.log(`[Settings] 프롬프트 롤백: v${previousVersion} → v${template.version} (v${version} 내용)`);
+
+    return NextResponse.json({
+      success: true,
+      message: `v${version} 내용으로 롤백했습니다 (새 버전 v${template.version})`,
+      previousVersion,
+      template
+    });
+  } catch (error) {
+    console.error('[Settings] 프롬프트 롤백 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '프롬프트 롤백에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+}
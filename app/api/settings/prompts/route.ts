@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PromptTemplateService } from '@/lib/config/prompt-templates';
+import { PromptRenderer } from '@/lib/integration/prompt-renderer';
+
+/**
+ * 프롬프트 템플릿 / 리비전 목록 조회 API
+ * GET /api/settings/prompts
+ * GET /api/settings/prompts?version=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const version = searchParams.get('version');
+    const templateService = PromptTemplateService.getInstance();
+
+    if (version) {
+      const template = templateService.get(version);
+      if (!template) {
+        return NextResponse.json(
+          { error: `프롬프트 템플릿 버전을 찾을 수 없습니다: v${version}` },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        template,
+        active: version === templateService.getCurrent().version
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      template: templateService.getCurrent(),
+      revisions: templateService.list(),
+      placeholders: PromptRenderer.placeholders,
+      counselorPlaceholders: PromptRenderer.counselorPlaceholders
+    });
+  } catch (error) {
+    console.error('[Settings] 프롬프트 템플릿 조회 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '프롬프트 템플릿을 조회할 수 없습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 프롬프트 템플릿 리비전 저장 API
+ * POST /api/settings/prompts
+ * body: { name, author?, description?, changes: { system?, user?, critical_rules?, counselor_system?, counselor_user?, counselor_guidelines? } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+    const templateService = PromptTemplateService.getInstance();
+
+    if (!input.name?.trim()) {
+      return NextResponse.json(
+        { error: '리비전 이름을 입력하세요' },
+        { status: 400 }
+      );
+    }
+
+    const template = templateService.saveRevision(input);
+    console.log(`[Settings] 프롬프트 리비전 저장 완료: v${template.version} (${template.name})`);
+
+    return NextResponse.json({
+      success: true,
+      message: `프롬프트 v${template.version} "${template.name}"이 저장되었습니다`,
+      template
+    });
+  } catch (error) {
+    console.error('[Settings] 프롬프트 리비전 저장 실패:', error);
+
+    return NextResponse.json(
+      {
+        error: '프롬프트 리비전 저장에 실패했습니다',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import type { NextRequest } from "next/server"
+import { getStorageAdapter } from "@/lib/integration/storage/storage-factory"
+
+// 파일 저장소의 파일 내려받기 (로컬 파일/비공개 S3 저장소용, ?key=&download=true)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const key = searchParams.get("key")
+
+    if (!key) {
+      return Response.json({ error: "파일 key가 필요합니다." }, { status: 400 })
+    }
+
+    const file = await getStorageAdapter().get(key)
+    if (!file) {
+      return Response.json({ error: "파일을 찾을 수 없습니다." }, { status: 404 })
+    }
+
+    const filename = key.split("/").pop() || key
+    return new Response(new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        ...(searchParams.get("download") === "true" && {
+          "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        }),
+      },
+    })
+  } catch (error) {
+    console.error("파일 조회 오류:", error)
+    return Response.json(
+      { error: error instanceof Error ? error.message : "파일 조회 중 오류가 발생했습니다." },
+      { status: 500 },
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { getStorageAdapter } from '@/lib/integration/storage/storage-factory';
 
 /**
  * 환경 테스트 API 엔드포인트
@@ -16,10 +17,21 @@ export async function POST() {
         configured: !!process.env.GOOGLE_AI_API_KEY,
         valid: process.env.GOOGLE_AI_API_KEY?.startsWith('AIza') || false
       },
+      anthropic: {
+        configured: !!process.env.ANTHROPIC_API_KEY,
+        valid: process.env.ANTHROPIC_API_KEY?.startsWith('sk-ant-') || false
+      },
+      local: {
+        baseUrl: process.env.LOCAL_LLM_BASE_URL || null,
+        apiKeyConfigured: !!process.env.LOCAL_LLM_API_KEY
+      },
       blob: {
         configured: !!process.env.BLOB_READ_WRITE_TOKEN,
         isDummy: process.env.BLOB_READ_WRITE_TOKEN?.includes('dummy') || false
       },
+      storage: {
+        backend: getStorageAdapter().backend
+      },
       environment: {
         nodeEnv: process.env.NODE_ENV,
         port: process.env.PORT || '3000',
@@ -0,0 +1,394 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Bar, BarChart, CartesianGrid, ErrorBar, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowLeft, BarChart3, Grid3X3, LayoutDashboard, RefreshCw, Trophy } from 'lucide-react';
+
+interface ScoreColumn {
+  section: string;
+  item: string;
+}
+
+interface TeamDashboard {
+  scale: { min: number; max: number };
+  confidence: number;
+  counselorCount: number;
+  columns: ScoreColumn[];
+  distributions: Array<
+    ScoreColumn & {
+      n: number;
+      mean: number;
+      median: number;
+      stdDev: number;
+      min: number;
+      max: number;
+      bins: Array<{ from: number; to: number; count: number }>;
+    }
+  >;
+  rankings: Array<{
+    rank: number;
+    counselorId: string;
+    counselorName: string;
+    mean: number;
+    lower?: number;
+    upper?: number;
+    n: number;
+  }>;
+  problematicRates: Array<{
+    counselorId: string;
+    counselorName: string;
+    chatsAnalyzed: number;
+    problematicChats: number;
+    rate: number;
+  }>;
+  heatmap: Array<{ counselorId: string; counselorName: string; scores: Record<string, number> }>;
+}
+
+type DashboardRange = 'latest' | '30' | '90' | 'all';
+
+const RANGE_OPTIONS: Array<{ value: DashboardRange; label: string }> = [
+  { value: 'latest', label: '최근 평가' },
+  { value: '30', label: '최근 30일' },
+  { value: '90', label: '최근 90일' },
+  { value: 'all', label: '전체 이력' },
+];
+
+const columnKey = (column: ScoreColumn) => `${column.section}.${column.item}`;
+
+const columnLabel = (column: ScoreColumn) =>
+  column.section === 'total'
+    ? '총점'
+    : column.item === 'subtotal'
+      ? `${column.section.replace(/_/g, ' ')} 소계`
+      : column.item.replace(/_/g, ' ');
+
+const rankingChartConfig: ChartConfig = {
+  mean: { label: '총점 평균', color: 'hsl(var(--chart-1))' },
+};
+const distributionChartConfig: ChartConfig = {
+  count: { label: '상담원 수', color: 'hsl(var(--chart-2))' },
+};
+const problematicChartConfig: ChartConfig = {
+  percent: { label: '문제 상담 비율(%)', color: 'hsl(var(--chart-5))' },
+};
+
+export default function TeamDashboardPage(): JSX.Element {
+  const [range, setRange] = useState<DashboardRange>('latest');
+  const [dashboard, setDashboard] = useState<TeamDashboard | null>(null);
+  const [runs, setRuns] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [distributionKey, setDistributionKey] = useState('total.total_score');
+
+  useEffect(() => {
+    fetchDashboard(range);
+  }, [range]);
+
+  const fetchDashboard = async (selectedRange: DashboardRange) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (selectedRange === 'latest') {
+        params.set('latest', 'true');
+      } else if (selectedRange !== 'all') {
+        const since = new Date(Date.now() - Number(selectedRange) * 24 * 60 * 60 * 1000);
+        params.set('since', since.toISOString().split('T')[0]);
+      }
+
+      const response = await fetch(`/api/dashboard?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `팀 대시보드 로드 실패: ${response.status}`);
+      }
+
+      setDashboard(data.dashboard);
+      setRuns(data.runs);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다';
+      setError(errorMessage);
+      console.error('팀 대시보드 로드 오류:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 점수를 척도 범위 안에서 빨강(낮음) → 초록(높음)으로 표시
+  const heatColor = (score: number | undefined) => {
+    if (score === undefined || !dashboard) return undefined;
+    const { min, max } = dashboard.scale;
+    const ratio = Math.min(Math.max((score - min) / (max - min), 0), 1);
+    return `hsl(${Math.round(ratio * 120)} 70% 85%)`;
+  };
+
+  const distribution = dashboard?.distributions.find((entry) => columnKey(entry) === distributionKey);
+  const rankingData = (dashboard?.rankings || []).map((ranking) => ({
+    ...ranking,
+    error: ranking.lower !== undefined && ranking.upper !== undefined
+      ? [ranking.mean - ranking.lower, ranking.upper - ranking.mean]
+      : [0, 0],
+  }));
+  const problematicData = (dashboard?.problematicRates || []).map((entry) => ({
+    ...entry,
+    percent: Math.round(entry.rate * 1000) / 10,
+  }));
+
+  return (
+    <div className="container mx-auto p-6 max-w-6xl">
+      {/* 헤더 */}
+      <div className="mb-8 flex items-end justify-between">
+        <div>
+          <Link href="/" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            상담 평가
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            <LayoutDashboard className="inline-block w-8 h-8 mr-3" />
+            팀 대시보드
+          </h1>
+          <p className="text-gray-600">
+            저장된 평가 결과로 세부 항목별 점수 분포, 상담원 순위, 문제 상담 비율을 비교합니다.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {dashboard && (
+            <Badge variant="secondary">
+              상담원 {dashboard.counselorCount}명 / 평가 {runs}회
+            </Badge>
+          )}
+          <Select value={range} onValueChange={(value) => setRange(value as DashboardRange)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-500" />
+            <p className="text-lg text-gray-600">평가 결과를 집계하는 중...</p>
+          </div>
+        </div>
+      ) : dashboard && dashboard.counselorCount === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-12">
+          선택한 기간에 저장된 평가 결과가 없습니다. 상담원별 종합 평가를 실행하면 결과가 자동으로 저장됩니다.
+        </p>
+      ) : dashboard && (
+        <div className="space-y-6">
+          {/* 상담원 순위 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="w-5 h-5" />
+                상담원 순위
+              </CardTitle>
+              <CardDescription>
+                기간 내 총점 평균과 {Math.round(dashboard.confidence * 100)}% 신뢰구간 (t-분포, 점수가 2건 이상인 상담원만 구간 표시)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ChartContainer config={rankingChartConfig} className="h-72 w-full aspect-auto">
+                <BarChart data={rankingData} margin={{ left: 0, right: 12, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="counselorName" tickLine={false} axisLine={false} />
+                  <YAxis domain={[dashboard.scale.min, dashboard.scale.max]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="mean" fill="var(--color-mean)" radius={4}>
+                    <ErrorBar dataKey="error" width={6} strokeWidth={1.5} stroke="hsl(var(--foreground))" />
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">순위</TableHead>
+                    <TableHead>상담원</TableHead>
+                    <TableHead className="text-right">총점 평균</TableHead>
+                    <TableHead className="text-right">신뢰구간</TableHead>
+                    <TableHead className="text-right">평가 수</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dashboard.rankings.map((ranking) => (
+                    <TableRow key={ranking.counselorId}>
+                      <TableCell className="font-medium">{ranking.rank}</TableCell>
+                      <TableCell>
+                        {ranking.counselorName}
+                        <span className="ml-2 font-mono text-xs text-gray-400">{ranking.counselorId}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{ranking.mean.toFixed(2)}</TableCell>
+                      <TableCell className="text-right text-gray-600">
+                        {ranking.lower !== undefined && ranking.upper !== undefined
+                          ? `${ranking.lower.toFixed(2)} – ${ranking.upper.toFixed(2)}`
+                          : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{ranking.n}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* 세부 항목별 점수 분포 */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <BarChart3 className="w-5 h-5" />
+                    점수 분포
+                  </span>
+                  <Select value={distributionKey} onValueChange={setDistributionKey}>
+                    <SelectTrigger className="w-48 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dashboard.distributions.map((entry) => (
+                        <SelectItem key={columnKey(entry)} value={columnKey(entry)}>
+                          {columnLabel(entry)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardTitle>
+                <CardDescription>상담원별 평균 점수의 분포</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {distribution ? (
+                  <>
+                    <ChartContainer config={distributionChartConfig} className="h-56 w-full aspect-auto">
+                      <BarChart
+                        data={distribution.bins.map((bin) => ({ ...bin, label: `${bin.from.toFixed(1)}–${bin.to.toFixed(1)}` }))}
+                        margin={{ left: 0, right: 12, top: 8 }}
+                      >
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                    <div className="mt-3 flex flex-wrap gap-4 text-sm text-gray-600">
+                      <span>평균 {distribution.mean.toFixed(2)}</span>
+                      <span>중앙값 {distribution.median.toFixed(2)}</span>
+                      <span>표준편차 {distribution.stdDev.toFixed(2)}</span>
+                      <span>
+                        범위 {distribution.min.toFixed(2)} – {distribution.max.toFixed(2)}
+                      </span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">선택한 항목의 점수가 없습니다.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* 상담원별 문제 상담 비율 */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5" />
+                  문제 상담 비율
+                </CardTitle>
+                <CardDescription>분석한 상담 중 문제 상담으로 판정된 비율 (제외 처리한 상담은 빼고 집계)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={problematicChartConfig} className="h-56 w-full aspect-auto">
+                  <BarChart data={problematicData} margin={{ left: 0, right: 12, top: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="counselorName" tickLine={false} axisLine={false} />
+                    <YAxis unit="%" tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="percent" fill="var(--color-percent)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <div className="mt-3 space-y-1 text-sm text-gray-600">
+                  {dashboard.problematicRates.map((entry) => (
+                    <div key={entry.counselorId} className="flex justify-between">
+                      <span>{entry.counselorName}</span>
+                      <span>
+                        {entry.problematicChats}/{entry.chatsAnalyzed}건 ({(entry.rate * 100).toFixed(1)}%)
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* 세부 항목 × 상담원 히트맵 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Grid3X3 className="w-5 h-5" />
+                세부 항목 히트맵
+              </CardTitle>
+              <CardDescription>
+                상담원별 세부 항목 평균 점수 ({dashboard.scale.min}–{dashboard.scale.max}점, 낮을수록 붉게 표시)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="sticky left-0 bg-white">상담원</TableHead>
+                    {dashboard.columns.map((column) => (
+                      <TableHead key={columnKey(column)} className="text-center text-xs whitespace-nowrap">
+                        {columnLabel(column)}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-center text-xs">총점</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dashboard.heatmap.map((row) => (
+                    <TableRow key={row.counselorId}>
+                      <TableCell className="sticky left-0 bg-white font-medium whitespace-nowrap">{row.counselorName}</TableCell>
+                      {[...dashboard.columns, { section: 'total', item: 'total_score' }].map((column) => {
+                        const score = row.scores[columnKey(column)];
+                        return (
+                          <TableCell
+                            key={columnKey(column)}
+                            className="text-center text-sm"
+                            style={{ backgroundColor: heatColor(score) }}
+                          >
+                            {score === undefined ? '-' : score.toFixed(1)}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -26,8 +26,17 @@ import {
   ChevronDown,
   ChevronUp,
   AlertCircle,
+  Sparkles,
+  Server,
+  Pause,
+  Play,
+  LayoutDashboard,
 } from "lucide-react"
+import Link from "next/link"
 import { EditableEvaluationContent } from "@/components/evaluation/EditableEvaluationContent"
+import { HandoffReviewPanel, type HandoffReviewChat } from "@/components/evaluation/HandoffReviewPanel"
+import { CounselorTrendChart } from "@/components/evaluation/CounselorTrendChart"
+import { ChatEvaluationTable, type ChatEvaluation } from "@/components/evaluation/ChatEvaluationTable"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -41,45 +50,14 @@ import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
 
-// 상담원 이름 매핑
-const MANAGER_NAMES: Record<string, string> = {
-  "5": "이하늘",
-  "6": "강지희",
-  "8": "김예림",
-  "10": "이지영",
-  "1": "CX",
-}
-
-// 사용자 제공 원본 프롬프트 기반 + 5점 체계 적용
-const DEFAULT_GUIDELINES = `🧠 핀다 CX 상담 평가 AI 프롬프트 (v1.1 - 평가 대상 명확화)
-
-🎯 CORE MISSION
-상담원별 전체 상담 데이터를 분석하여 평균 이하 상담 건에 대한 구체적 개선 피드백 제공
-
-⚠️ CRITICAL RULES (절대 준수)
-1. **평가 대상: 오직 '상담원'의 메시지만 평가합니다. 고객의 메시지는 상황 파악을 위한 문맥으로만 사용하며, 고객의 언어 사용(예: ㅎㅎ)이나 태도는 평가에 절대 반영하지 않습니다.**
-2. 자동 메시지 완전 제외: "15분 자동 메시지", "30분 자동 메시지"
-3. 서포트봇 메시지 제외: "안녕하세요 고객님, 핀다 고객경험팀 [상담원명]입니다" 이전 모든 메시지 (상담원명: 이하늘, 강지희, 김예림, 이지영)
-4. 상황 공감 = 상황 파악 + 해결 방향 제시 (감정 표현 ≠ 상황 공감)
-5. 문제 파악 적극 노력 = 필수 가점 요소
-6. 점수 다양성 확보 (1.0-5.0 전 범위 활용)
-7. 상담 조기 종료 시 가점 부여
-
-🎯 **문제가 되는 상담 식별 기준:**
-1. **총점 기준**: 총점 3.8점 미만인 모든 상담
-2. **개별 항목별 세부 기준**: 
-   - 업무능력: 3.5점 미만
-   - 문장력: 3.0점 미만  
-   - 기본태도: 3.0점 미만
-3. **상대적 품질 기준**: 해당 상담원 평균보다 0.3점 이상 낮은 상담
-4. **구체적 문제점이 발견된 상담**: 가이드라인 위반, 부적절한 응답, 고객 불만족 야기 등
-5. **심각도 분류**: 높음(즉시 개선 필요), 중간(주의 필요), 낮음(경미한 개선점)`
-
 // 새로운 평가 항목에 맞춘 상담원별 종합 평가 결과 타입
 interface CounselorEvaluation {
   counselor_id: string
   counselor_name: string
   evaluation_date: string
+  criteria_version?: string
+  // 평가 방식 (per_chat: 상담별 개별 평가 후 평균)
+  evaluation_mode?: "comprehensive" | "per_chat"
   total_chats_analyzed: number
   scores: {
     업무능력: {
@@ -149,14 +127,39 @@ interface CounselorEvaluation {
       is_excluded?: boolean
     }>
     reason?: string
+    operating_hours?: "in_hours" | "off_hours" | "unknown"
   }>
   overall_comment: string
+  // 상담별 평가 결과 (per_chat 평가만)
+  chat_evaluations?: ChatEvaluation[]
   modification_history?: Array<{
     timestamp: string
     type: "score_adjustment" | "problem_exclusion" | "message_selection" | "message_exclusion"
     details: string
     modified_by?: string
   }>
+  // Multi-LLM 평가 정보 (Provider별 결과 및 비용)
+  multi_llm?: {
+    primaryProvider: string
+    criteriaVersion: string
+    totalCost: number
+    validation: {
+      consistency: number
+      confidence: number
+      reliability: "high" | "medium" | "low"
+      outliers: string[]
+    }
+    providers: Array<{
+      name: string
+      model: string
+      success: boolean
+      total_score?: number
+      responseTime: number
+      tokens: number
+      cost: number
+      error?: string
+    }>
+  }
 }
 
 interface ArchiveItem {
@@ -166,7 +169,9 @@ interface ArchiveItem {
   size: number
   uploadedAt: string
   downloadUrl: string
-  type: "feedback" | "chat"
+  type: string
+  description?: string
+  criteriaVersion?: string
 }
 
 // 진행상황 상세 정보 타입
@@ -181,14 +186,26 @@ interface ProgressDetails {
   percentage?: number
   totalCounselors?: number
   counselorNames?: string[]
+  rateLimit?: Array<{ provider: string; queued: number; active: number; pausedUntil?: string }>
 }
 
+// 진행 중인 상담원별 평가 작업 ID (새로고침 후 재연결용)
+const COUNSELOR_JOB_STORAGE_KEY = "counselorEvaluationJobId"
+const JOB_POLL_INTERVAL_MS = 2000
+
 export default function FintechFeedbackSystem() {
   // 중단 기능 관련
   const [abortController, setAbortController] = useState<AbortController | null>(null)
 
-  // 수정된 가이드라인 (문제점 해결)
-  const [guidelines, setGuidelines] = useState(DEFAULT_GUIDELINES)
+  // 평가 작업 (새로고침/탭 종료 후 재연결)
+  const [counselorJobId, setCounselorJobId] = useState<string | null>(null)
+  const [resumableJob, setResumableJob] = useState<any>(null)
+  const [counselorJobStatus, setCounselorJobStatus] = useState<string>("")
+
+  // 상담 가이드라인 (config/prompts/base-template.json의 종합 평가 가이드라인)
+  const [guidelines, setGuidelines] = useState("")
+  const [defaultGuidelines, setDefaultGuidelines] = useState("")
+  const [promptVersion, setPromptVersion] = useState<string | null>(null)
 
   // 가이드라인 관련 상태 추가
   const [isEditingGuidelines, setIsEditingGuidelines] = useState(false)
@@ -205,6 +222,8 @@ export default function FintechFeedbackSystem() {
   const [counselorProgressText, setCounselorProgressText] = useState("대기 중...")
   const [counselorProgressDetails, setCounselorProgressDetails] = useState<ProgressDetails>({})
   const [counselorEvaluations, setCounselorEvaluations] = useState<CounselorEvaluation[]>([])
+  const [perChatEvaluation, setPerChatEvaluation] = useState(false)
+  const [handoffReviewChats, setHandoffReviewChats] = useState<HandoffReviewChat[]>([])
   const [tempStorageStatus, setTempStorageStatus] = useState("")
 
   // 공통
@@ -311,6 +330,22 @@ export default function FintechFeedbackSystem() {
     }
   }
 
+  // 프롬프트 템플릿의 종합 평가 가이드라인 로드
+  const loadPromptGuidelines = async () => {
+    try {
+      const response = await fetch("/api/settings/prompts")
+      if (!response.ok) {
+        throw new Error(`프롬프트 템플릿 로드 실패: ${response.status}`)
+      }
+      const data = await response.json()
+      setDefaultGuidelines(data.template.guidelines.counselor || "")
+      setGuidelines(data.template.guidelines.counselor || "")
+      setPromptVersion(data.template.version)
+    } catch (err) {
+      console.error("가이드라인 로드 오류:", err)
+    }
+  }
+
   // 모델 설정 저장
   const saveModelConfig = async () => {
     if (!modelConfig) return
@@ -483,6 +518,7 @@ export default function FintechFeedbackSystem() {
         },
         metadata: {
           totalCounselors: counselorEvaluations.length,
+          criteriaVersion: counselorEvaluations.find(e => e.criteria_version)?.criteria_version,
           averageScore: (counselorEvaluations.reduce((sum, evaluation) => sum + (evaluation.adjusted_scores || evaluation.scores).total_score, 0) / counselorEvaluations.length).toFixed(2),
           hasModifications: hasModifications
         }
@@ -502,12 +538,6 @@ export default function FintechFeedbackSystem() {
       
       if (result.success) {
         let message = `✅ ${result.message}\n파일명: ${result.archive.filename}`
-        
-        // 시뮬레이션 모드인 경우 추가 안내
-        if (result.message.includes('시뮬레이션')) {
-          message += '\n\n⚠️ 실제 저장을 위해서는 Vercel Blob Storage 토큰 설정이 필요합니다.'
-        }
-        
         message += '\n\n아카이브 페이지로 이동하시겠습니까?'
         
         const shouldRedirect = confirm(message)
@@ -582,7 +612,7 @@ export default function FintechFeedbackSystem() {
     setDeletingArchiveId(archiveId)
     
     try {
-      const response = await fetch(`/api/archive?filename=${encodeURIComponent(archiveId)}`, {
+      const response = await fetch(`/api/archive?id=${encodeURIComponent(archiveId)}`, {
         method: 'DELETE',
       })
       
@@ -612,6 +642,12 @@ export default function FintechFeedbackSystem() {
     loadArchives()
     checkEnvironment()
     loadModelConfig()
+    loadPromptGuidelines()
+
+    const savedJobId = localStorage.getItem(COUNSELOR_JOB_STORAGE_KEY)
+    if (savedJobId) {
+      attachCounselorJob(savedJobId)
+    }
   }, [])
 
   // 자동 저장 함수 추가
@@ -678,7 +714,116 @@ export default function FintechFeedbackSystem() {
     }
   }
 
-  // 상담원별 종합 평가 처리 (새로운 방식)
+  // 평가 작업 결과 반영 (완료된 작업 재연결 시에도 사용)
+  const applyCounselorJobResult = async (result: any) => {
+    setCounselorEvaluations(result.evaluations)
+    setHandoffReviewChats(result.handoffReview || [])
+    if (!result.partial) {
+      setCounselorProgress(100)
+      setCounselorProgressText("상담원별 종합 평가 완료!")
+    }
+
+    await autoSaveData(
+      "counselor_evaluations",
+      {
+        evaluations: result.evaluations,
+        analyzedAt: new Date().toISOString(),
+        totalCounselors: result.evaluations.length,
+        criteriaVersion: result.criteriaVersion,
+        partial: !!result.partial,
+      },
+      result.partial ? "상담원별 종합 평가 결과 (부분)" : "상담원별 종합 평가 결과",
+    )
+
+    setTempStorageStatus(
+      result.partial
+        ? `⚠️ 평가 취소됨 - 부분 결과가 임시 저장되었습니다 (미평가 상담원 ${result.pendingCounselors?.length || 0}명, 일부 상담만 평가 ${result.partialCounselors?.length || 0}명).`
+        : "✅ 상담원별 종합 평가 완료 - 결과가 임시 저장되었습니다.",
+    )
+  }
+
+  // 서버에서 실행 중인 평가 작업에 연결하여 진행 상황 표시 (탭을 닫아도 작업은 계속됨)
+  const attachCounselorJob = async (jobId: string) => {
+    const controller = new AbortController()
+    setAbortController(controller)
+    setCounselorJobId(jobId)
+    setResumableJob(null)
+    setIsProcessingCounselor(true)
+    setError("")
+
+    let logCursor = 0
+
+    try {
+      while (!controller.signal.aborted) {
+        const response = await fetch(`/api/jobs?id=${jobId}&since=${logCursor}`, { signal: controller.signal })
+        const data = await response.json()
+
+        if (!response.ok) {
+          if (response.status === 404) {
+            localStorage.removeItem(COUNSELOR_JOB_STORAGE_KEY)
+          }
+          throw new Error(data.error || `API 오류: ${response.status}`)
+        }
+
+        const { job, logs } = data
+        logCursor = data.logCursor
+        if (logs.length > 0) {
+          setDebugInfo((prev) => prev + logs.join("\n") + "\n")
+        }
+        setCounselorJobStatus(job.status)
+        setCounselorProgress(job.progress.percent)
+        setCounselorProgressText(job.progress.message)
+        if (job.progress.details) {
+          setCounselorProgressDetails(job.progress.details)
+        }
+
+        if (job.status === "completed") {
+          localStorage.removeItem(COUNSELOR_JOB_STORAGE_KEY)
+          await applyCounselorJobResult(job.result)
+          if (data.canResume) {
+            setResumableJob(job)
+          }
+          break
+        }
+
+        // 취소 전까지 평가한 상담원은 부분 결과로 반영하고, 나머지는 이어서 평가 가능
+        if (job.status === "cancelled") {
+          localStorage.removeItem(COUNSELOR_JOB_STORAGE_KEY)
+          if (job.result) {
+            await applyCounselorJobResult(job.result)
+          }
+          setResumableJob(job)
+          break
+        }
+
+        if (job.status === "failed" || job.status === "interrupted") {
+          setResumableJob(job)
+          throw new Error(
+            job.status === "failed"
+              ? `평가 작업이 실패했습니다: ${job.error}`
+              : `평가 작업이 중단되었습니다 (완료된 상담원 ${job.completedCounselors}명). 이어서 평가할 수 있습니다.`,
+          )
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+      }
+    } catch (err) {
+      console.error("상담원별 종합 평가 오류:", err)
+
+      if (err instanceof Error && err.name === "AbortError") {
+        setCounselorProgressText("진행 상황 연결 해제됨")
+      } else {
+        const errorMessage = err instanceof Error ? err.message : "알 수 없는 오류가 발생했습니다."
+        setError(`❌ ${errorMessage}`)
+      }
+    } finally {
+      setIsProcessingCounselor(false)
+      setCounselorJobStatus("")
+      setAbortController(null)
+    }
+  }
+
+  // 상담원별 종합 평가 처리 (평가 작업 등록 후 진행 상황 연결)
   const processCounselorEvaluation = async () => {
     if (
       !organizedData ||
@@ -689,14 +834,12 @@ export default function FintechFeedbackSystem() {
       return
     }
 
-    const controller = new AbortController()
-    setAbortController(controller)
-
     setIsProcessingCounselor(true)
     setError("")
     setCounselorProgress(0)
     setCounselorProgressText("상담원별 종합 평가 시작...")
     setCounselorProgressDetails({})
+    setHandoffReviewChats([])
     setDebugInfo("")
 
     try {
@@ -705,102 +848,82 @@ export default function FintechFeedbackSystem() {
       const messageData =
         organizedData?.message || uploadedFiles.find((f) => f.fileName.includes("message"))?.data || []
 
-      const response = await fetch("/api/analyze-counselor-comprehensive", {
+      const response = await fetch("/api/jobs", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userData, chatData, messageData, guidelines }),
-        signal: controller.signal,
+        body: JSON.stringify({
+          userData,
+          chatData,
+          messageData,
+          guidelines,
+          evaluationMode: perChatEvaluation ? "per_chat" : "comprehensive",
+        }),
       })
+      const result = await response.json()
 
       if (!response.ok) {
-        const errorText = await response.text()
-        let errorData
-        try {
-          errorData = JSON.parse(errorText)
-        } catch {
-          errorData = { error: errorText }
-        }
-        throw new Error(errorData.error || `API 오류: ${response.status}`)
+        throw new Error(result.error || `API 오류: ${response.status}`)
       }
 
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ""
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
+      localStorage.setItem(COUNSELOR_JOB_STORAGE_KEY, result.job.id)
+      await attachCounselorJob(result.job.id)
+    } catch (err) {
+      console.error("상담원별 종합 평가 오류:", err)
+      const errorMessage = err instanceof Error ? err.message : "알 수 없는 오류가 발생했습니다."
+      setError(`❌ ${errorMessage}`)
+      setIsProcessingCounselor(false)
+    }
+  }
 
-          if (controller.signal.aborted) {
-            throw new Error("분석이 사용자에 의해 중단되었습니다.")
-          }
+  // 중단/실패한 평가 작업을 마지막 체크포인트부터 이어서 평가
+  const resumeCounselorJob = async () => {
+    if (!resumableJob) return
 
-          const chunk = decoder.decode(value, { stream: true })
-          buffer += chunk
-
-          const lines = buffer.split("\n")
-          buffer = lines.pop() || ""
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              try {
-                const jsonStr = line.slice(6).trim()
-                if (jsonStr) {
-                  const data = JSON.parse(jsonStr)
-
-                  if (data.type === "progress") {
-                    setCounselorProgress(data.progress)
-                    setCounselorProgressText(data.message)
-                    if (data.details) {
-                      setCounselorProgressDetails(data.details)
-                    }
-                  } else if (data.type === "debug") {
-                    setDebugInfo((prev) => prev + data.info + "\n")
-                  } else if (data.type === "result") {
-                    setCounselorEvaluations(data.evaluations)
-                    setCounselorProgress(100)
-                    setCounselorProgressText("상담원별 종합 평가 완료!")
-
-                    await autoSaveData(
-                      "counselor_evaluations",
-                      {
-                        evaluations: data.evaluations,
-                        analyzedAt: new Date().toISOString(),
-                        totalCounselors: data.evaluations.length,
-                      },
-                      "상담원별 종합 평가 결과",
-                    )
+    try {
+      const response = await fetch("/api/jobs/resume", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jobId: resumableJob.id }),
+      })
+      const result = await response.json()
 
-                    setTempStorageStatus("✅ 상담원별 종합 평가 완료 - 결과가 임시 저장되었습니다.")
-                  } else if (data.type === "error") {
-                    throw new Error(data.message)
-                  }
-                }
-              } catch (parseError) {
-                console.warn("JSON 파싱 오류 (무시):", parseError)
-              }
-            }
-          }
-        }
+      if (!response.ok) {
+        throw new Error(result.error || `API 오류: ${response.status}`)
       }
+
+      localStorage.setItem(COUNSELOR_JOB_STORAGE_KEY, resumableJob.id)
+      setDebugInfo("")
+      await attachCounselorJob(resumableJob.id)
     } catch (err) {
-      console.error("상담원별 종합 평가 오류:", err)
+      const errorMessage = err instanceof Error ? err.message : "알 수 없는 오류가 발생했습니다."
+      setError(`❌ ${errorMessage}`)
+    }
+  }
 
-      if (err instanceof Error && err.name === "AbortError") {
-        setError("분석이 중단되었습니다.")
-        setCounselorProgressText("분석 중단됨")
-      } else {
-        const errorMessage = err instanceof Error ? err.message : "알 수 없는 오류가 발생했습니다."
-        setError(`❌ ${errorMessage}`)
+  // 실행 중인 평가 작업 일시정지/재개/취소 (취소 시 진행 중인 LLM 호출도 중단)
+  const controlCounselorJob = async (action: "pause" | "resume" | "cancel") => {
+    if (!counselorJobId) return
+
+    try {
+      const response = await fetch("/api/jobs/control", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jobId: counselorJobId, action }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || `API 오류: ${response.status}`)
       }
-    } finally {
-      setIsProcessingCounselor(false)
-      setAbortController(null)
+
+      setCounselorJobStatus(result.job.status)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "알 수 없는 오류가 발생했습니다."
+      setError(`❌ ${errorMessage}`)
     }
   }
 
-  // 분석 중단 함수
+  // 진행 상황 연결 해제 (서버의 평가 작업은 계속 진행되며 새로고침 시 다시 연결)
   const stopAnalysis = () => {
     if (abortController) {
       abortController.abort()
@@ -833,8 +956,8 @@ export default function FintechFeedbackSystem() {
   }
 
   const resetGuidelines = () => {
-    if (confirm("가이드라인을 기본값으로 초기화하시겠습니까?")) {
-      setGuidelines(DEFAULT_GUIDELINES)
+    if (confirm("가이드라인을 저장된 프롬프트 템플릿 값으로 초기화하시겠습니까?")) {
+      setGuidelines(defaultGuidelines)
       setIsEditingGuidelines(false)
     }
   }
@@ -907,6 +1030,12 @@ export default function FintechFeedbackSystem() {
               )}
             </div>
             <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="gap-2" asChild>
+                <Link href="/dashboard">
+                  <LayoutDashboard className="w-4 h-4" />
+                  팀 대시보드
+                </Link>
+              </Button>
               <Button
                 onClick={() => setShowSystemInfo(!showSystemInfo)}
                 variant="outline"
@@ -1038,7 +1167,7 @@ export default function FintechFeedbackSystem() {
                     className="flex items-center gap-2 hover:opacity-80 transition-opacity"
                   >
                     <Target className="w-5 h-5" />
-                    상담 평가 가이드라인 (v1.1)
+                    상담 평가 가이드라인{promptVersion && ` (프롬프트 v${promptVersion})`}
                     {isGuidelineCollapsed ? (
                       <ChevronDown className="w-4 h-4" />
                     ) : (
@@ -1089,8 +1218,8 @@ export default function FintechFeedbackSystem() {
                     <div className="flex justify-between items-center mt-2">
                       <p className="text-xs text-gray-500">
                         {isEditingGuidelines
-                          ? "⚠️ 수정 중입니다. 저장하면 다음 분석부터 적용됩니다."
-                          : "💡 v1.1 개선사항: 평가 대상을 '상담원 메시지'로 명확화하여 AI 정확도 향상"}
+                          ? "⚠️ 수정 중입니다. 저장하면 이번 세션의 다음 분석부터 적용됩니다."
+                          : "💡 기본 가이드라인은 설정 > 평가 프롬프트에서 리비전으로 관리됩니다."}
                       </p>
                       {isEditingGuidelines && <div className="text-xs text-gray-500">{tempGuidelines.length} 문자</div>}
                     </div>
@@ -1123,6 +1252,24 @@ export default function FintechFeedbackSystem() {
                     </AlertDescription>
                   </Alert>
 
+                  <div className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <Label htmlFor="per-chat-evaluation" className="font-medium">
+                        상담별 개별 평가
+                      </Label>
+                      <p className="text-sm text-gray-600 mt-1">
+                        상담마다 따로 평가한 뒤 평균으로 상담원 점수를 계산합니다. 상담별 점수와 근거를 확인할 수 있지만
+                        호출 횟수와 비용이 상담 수만큼 늘어납니다.
+                      </p>
+                    </div>
+                    <Switch
+                      id="per-chat-evaluation"
+                      checked={perChatEvaluation}
+                      onCheckedChange={setPerChatEvaluation}
+                      disabled={isProcessingCounselor}
+                    />
+                  </div>
+
                   <div className="flex gap-2">
                     <Button
                       onClick={processCounselorEvaluation}
@@ -1131,13 +1278,57 @@ export default function FintechFeedbackSystem() {
                     >
                       {isProcessingCounselor ? "상담원별 평가 진행 중..." : "상담원별 종합 평가 시작"}
                     </Button>
+                    {isProcessingCounselor && counselorJobId && (
+                      <>
+                        {counselorJobStatus === "paused" ? (
+                          <Button onClick={() => controlCounselorJob("resume")} variant="outline" size="lg">
+                            <Play className="h-4 w-4 mr-2" />
+                            재개
+                          </Button>
+                        ) : (
+                          <Button onClick={() => controlCounselorJob("pause")} variant="outline" size="lg">
+                            <Pause className="h-4 w-4 mr-2" />
+                            일시정지
+                          </Button>
+                        )}
+                        <Button onClick={() => controlCounselorJob("cancel")} variant="destructive" size="lg">
+                          취소
+                        </Button>
+                      </>
+                    )}
                     {isProcessingCounselor && (
-                      <Button onClick={stopAnalysis} variant="destructive" size="lg">
-                        분석 중단
+                      <Button onClick={stopAnalysis} variant="outline" size="lg">
+                        연결 해제
                       </Button>
                     )}
                   </div>
 
+                  {isProcessingCounselor && counselorJobId && (
+                    <p className="text-xs text-gray-500">
+                      평가 작업 {counselorJobId} - 창을 닫아도 서버에서 계속 진행되며, 다시 열면 자동으로 연결됩니다.
+                    </p>
+                  )}
+
+                  {!isProcessingCounselor && resumableJob && (
+                    <Alert>
+                      <RefreshCw className="h-4 w-4" />
+                      <AlertDescription>
+                        <div className="flex items-center justify-between gap-4">
+                          <span>
+                            평가 작업 {resumableJob.id}: 완료된 상담원 {resumableJob.completedCounselors}명
+                            {resumableJob.failedCounselors.length > 0 &&
+                              `, 평가 실패 ${resumableJob.failedCounselors.length}명`}
+                            {resumableJob.status === "cancelled" && " (취소됨)"}
+                            . 완료된 상담원은 건너뛰고 나머지만 평가합니다.
+                          </span>
+                          <Button onClick={resumeCounselorJob} size="sm" variant="outline">
+                            이어서 평가
+                          </Button>
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {isProcessingCounselor && (
                     <div className="space-y-4">
                       <Progress value={counselorProgress} className="w-full" />
@@ -1194,6 +1385,20 @@ export default function FintechFeedbackSystem() {
                           </div>
                         )}
 
+                        {/* Provider 호출 한도 대기열 */}
+                        {counselorProgressDetails.rateLimit?.some((limit) => limit.queued > 0 || limit.pausedUntil) && (
+                          <div className="mt-3 flex flex-wrap gap-1">
+                            {counselorProgressDetails.rateLimit
+                              .filter((limit) => limit.queued > 0 || limit.pausedUntil)
+                              .map((limit) => (
+                                <Badge key={limit.provider} variant="secondary" className="text-xs">
+                                  {limit.provider} 호출 한도 대기 {limit.queued}건 (실행 중 {limit.active}건)
+                                  {limit.pausedUntil && " · Retry-After 대기"}
+                                </Badge>
+                              ))}
+                          </div>
+                        )}
+
                         {/* 상담원 목록 표시 */}
                         {counselorProgressDetails.counselorNames &&
                           counselorProgressDetails.counselorNames.length > 0 && (
@@ -1264,6 +1469,8 @@ export default function FintechFeedbackSystem() {
                               .map(([providerId, _]: [string, any]) => 
                                 providerId === 'openai-gpt5' ? 'GPT-5-mini' : 
                                 providerId === 'gemini-25' ? 'Gemini 2.5' : 
+                                providerId === 'anthropic' ? 'Claude' : 
+                                providerId === 'local' ? '로컬 모델' : 
                                 providerId === 'openai' ? 'GPT-4' : providerId
                               ).join(', ')}
                             <br />• 평가 방식: {modelConfig.evaluation_mode?.multi_llm ? 'Multi-LLM 교차 검증' : '단일 모델 평가'}
@@ -1310,6 +1517,7 @@ export default function FintechFeedbackSystem() {
                               evaluations: counselorEvaluations,
                               modifiedAt: new Date().toISOString(),
                               totalCounselors: counselorEvaluations.length,
+                              criteriaVersion: counselorEvaluations.find((e) => e.criteria_version)?.criteria_version,
                             },
                             "수정된 상담원별 종합 평가 결과",
                           )
@@ -1431,6 +1639,9 @@ export default function FintechFeedbackSystem() {
                                     <Badge variant="outline" className="text-xs">
                                       {providerId === 'openai-gpt5' ? 'GPT-5-mini' : 
                                        providerId === 'gemini-25' ? 'Gemini 2.5' : 
+                                       providerId === 'anthropic' ? 'Claude' : 
+                                       providerId === 'local' ? '로컬 모델' : 
+                                providerId === 'local' ? '로컬 모델' : 
                                        providerId === 'openai' ? 'GPT-4' : providerId}
                                     </Badge>
                                     <span className="text-gray-600">{providerConfig.model}</span>
@@ -1461,12 +1672,17 @@ export default function FintechFeedbackSystem() {
                           <br />• 총 평가 상담원: {counselorEvaluations.length}명
                           <br />• 총 분석 상담: {counselorEvaluations.reduce((sum, e) => sum + e.total_chats_analyzed, 0)}건
                           <br />• 평가 방식: {modelConfig.evaluation_mode?.multi_llm ? 'Multi-LLM 교차 검증' : '단일 모델 평가'}
+                          <br />• AI 평가 비용: $
+                          {counselorEvaluations.reduce((sum, e) => sum + (e.multi_llm?.totalCost || 0), 0).toFixed(4)}
                         </p>
                       </div>
                     </CardContent>
                   </Card>
                 )}
 
+                {/* 상담원 전환 미탐지 상담 (검토 필요) */}
+                <HandoffReviewPanel chats={handoffReviewChats} />
+
                 {/* 팀 전체 요약 */}
                 <Card>
                   <CardHeader>
@@ -1561,7 +1777,22 @@ export default function FintechFeedbackSystem() {
                                 </h3>
                                 <p className="text-sm text-gray-600">
                                   분석 상담: {evaluation.total_chats_analyzed}건 | 평가일: {evaluation.evaluation_date}
+                                  {evaluation.criteria_version && ` | 평가 기준: v${evaluation.criteria_version}`}
+                                  {evaluation.evaluation_mode === "per_chat" && " | 상담별 개별 평가"}
                                 </p>
+                                {evaluation.multi_llm && (
+                                  <p className="text-xs text-gray-500">
+                                    신뢰도: {evaluation.multi_llm.validation.reliability} (
+                                    {(evaluation.multi_llm.validation.confidence * 100).toFixed(0)}%) |{" "}
+                                    {evaluation.multi_llm.providers
+                                      .map((provider) =>
+                                        provider.success
+                                          ? `${provider.name} ${provider.total_score?.toFixed(2) ?? "-"}점 $${provider.cost.toFixed(4)}`
+                                          : `${provider.name} 실패`,
+                                      )
+                                      .join(" · ")}
+                                  </p>
+                                )}
                               </div>
                             </button>
                             <div className="text-right">
@@ -1615,6 +1846,13 @@ export default function FintechFeedbackSystem() {
                               }}
                             />
 
+                            {/* 평가 이력 기반 성과 추이 */}
+                            <CounselorTrendChart counselorId={evaluation.counselor_id} />
+
+                            {evaluation.chat_evaluations && evaluation.chat_evaluations.length > 0 && (
+                              <ChatEvaluationTable chatEvaluations={evaluation.chat_evaluations} />
+                            )}
+
                             {/* 문제가 되는 상담 */}
                             {evaluation.problematic_chats && evaluation.problematic_chats.length > 0 && (
                               <div className="bg-red-50 p-4 rounded-lg">
@@ -1679,6 +1917,11 @@ export default function FintechFeedbackSystem() {
                                             >
                                               {problemChat.severity}
                                             </Badge>
+                                            {problemChat.operating_hours === "off_hours" && (
+                                              <Badge variant="outline" className="text-xs text-gray-500">
+                                                운영시간 외
+                                              </Badge>
+                                            )}
                                           </div>
                                           <div className="flex items-center gap-2">
                                             <label className="flex items-center gap-1 text-xs">
@@ -2322,6 +2565,18 @@ export default function FintechFeedbackSystem() {
                           description: 'Google의 Gemini 2.5 Pro/Flash 모델',
                           features: ['빠른 처리', '문화적 감수성', '다각적 관점']
                         },
+                        'anthropic': {
+                          name: 'Claude',
+                          icon: <Sparkles className="w-4 h-4" />,
+                          description: 'Anthropic의 Claude 모델 (Messages API)',
+                          features: ['교차 검증', '상세한 근거', '지시 준수']
+                        },
+                        'local': {
+                          name: '로컬 모델',
+                          icon: <Server className="w-4 h-4" />,
+                          description: 'Ollama, vLLM, llama.cpp 등 OpenAI 호환 서버 (상담 데이터 외부 전송 없음)',
+                          features: ['외부 전송 없음', '비용 없음', 'OpenAI 호환 API']
+                        },
                         'openai': {
                           name: 'GPT-4',
                           icon: <MessageSquare className="w-4 h-4" />,
@@ -0,0 +1,269 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Plus, Settings, Trash2, Users } from 'lucide-react';
+
+interface Counselor {
+  id: string;
+  name: string;
+  active: boolean;
+  evaluation_target: boolean;
+}
+
+export default function CounselorSettingsPage(): JSX.Element {
+  const [counselors, setCounselors] = useState<Counselor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [newCounselor, setNewCounselor] = useState({ id: '', name: '' });
+
+  // 명부 로드
+  useEffect(() => {
+    fetchCounselors();
+  }, []);
+
+  const fetchCounselors = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/settings/counselors');
+      if (!response.ok) {
+        throw new Error(`상담원 명부 로드 실패: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setCounselors(data.counselors);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다';
+      setError(errorMessage);
+      console.error('상담원 명부 로드 오류:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 공통 요청 처리
+  const submit = async (method: 'POST' | 'PUT' | 'DELETE', body?: any, query = '') => {
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(null);
+
+      const response = await fetch(`/api/settings/counselors${query}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        const details = Array.isArray(data.details) ? data.details.join(', ') : data.details;
+        throw new Error(details ? `${data.error}: ${details}` : data.error);
+      }
+
+      setSuccess(data.message);
+      setTimeout(() => setSuccess(null), 3000);
+      await fetchCounselors();
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '저장 중 오류가 발생했습니다';
+      setError(errorMessage);
+      console.error('상담원 명부 저장 오류:', err);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 상담원 추가
+  const addCounselor = async () => {
+    const created = await submit('POST', {
+      id: newCounselor.id.trim(),
+      name: newCounselor.name.trim(),
+      active: true,
+      evaluation_target: true
+    });
+
+    if (created) {
+      setNewCounselor({ id: '', name: '' });
+    }
+  };
+
+  // 상담원 속성 토글
+  const toggleCounselor = (counselor: Counselor, key: 'active' | 'evaluation_target') => {
+    submit('PUT', { id: counselor.id, [key]: !counselor[key] });
+  };
+
+  // 상담원 삭제
+  const removeCounselor = (counselor: Counselor) => {
+    if (confirm(`${counselor.name} 상담원을 명부에서 삭제하시겠습니까?`)) {
+      submit('DELETE', undefined, `?id=${encodeURIComponent(counselor.id)}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <Settings className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-500" />
+            <p className="text-lg text-gray-600">상담원 명부를 불러오는 중...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      {/* 헤더 */}
+      <div className="mb-8">
+        <Link href="/settings" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          AI 모델 설정
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          <Users className="inline-block w-8 h-8 mr-3" />
+          상담원 명부
+        </h1>
+        <p className="text-gray-600">
+          상담원 ID-이름 매핑, 인사 메시지 인식 이름, 종합 평가 대상 상담원을 관리합니다.
+        </p>
+      </div>
+
+      {/* 알림 메시지 */}
+      {error && (
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="mb-6 border-green-200 bg-green-50">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* 상담원 추가 */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            상담원 추가
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-4 items-end">
+            <div>
+              <Label htmlFor="counselor-id" className="text-xs text-gray-600">상담원 ID (manager_id)</Label>
+              <Input
+                id="counselor-id"
+                value={newCounselor.id}
+                onChange={(e) => setNewCounselor({ ...newCounselor, id: e.target.value })}
+                placeholder="예: 12"
+                className="h-8"
+              />
+            </div>
+            <div>
+              <Label htmlFor="counselor-name" className="text-xs text-gray-600">이름</Label>
+              <Input
+                id="counselor-name"
+                value={newCounselor.name}
+                onChange={(e) => setNewCounselor({ ...newCounselor, name: e.target.value })}
+                placeholder="예: 홍길동"
+                className="h-8"
+              />
+            </div>
+            <Button
+              onClick={addCounselor}
+              disabled={saving || !newCounselor.id.trim() || !newCounselor.name.trim()}
+              size="sm"
+            >
+              추가
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 상담원 목록 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              등록된 상담원
+            </span>
+            <Badge variant="secondary">
+              평가 대상 {counselors.filter(c => c.active && c.evaluation_target).length}명 / 전체 {counselors.length}명
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead>이름</TableHead>
+                <TableHead className="text-center">활성</TableHead>
+                <TableHead className="text-center">종합 평가 대상</TableHead>
+                <TableHead className="text-right">관리</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {counselors.map((counselor) => (
+                <TableRow key={counselor.id} className={counselor.active ? '' : 'opacity-60'}>
+                  <TableCell className="font-mono">{counselor.id}</TableCell>
+                  <TableCell className="font-medium">{counselor.name}</TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={counselor.active}
+                      disabled={saving}
+                      onCheckedChange={() => toggleCounselor(counselor, 'active')}
+                    />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={counselor.evaluation_target}
+                      disabled={saving || !counselor.active}
+                      onCheckedChange={() => toggleCounselor(counselor, 'evaluation_target')}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => removeCounselor(counselor)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {counselors.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-6">등록된 상담원이 없습니다.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { AlertTriangle, Settings, Zap, Brain, MessageSquare, CheckCircle2, XCircle } from 'lucide-react';
+import { AlertTriangle, Settings, Zap, Brain, MessageSquare, CheckCircle2, XCircle, Users, FileText, Sparkles, Server, Wallet } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
 interface ProviderConfig {
@@ -20,6 +22,26 @@ interface ProviderConfig {
   verbosity?: string;
   top_p?: number;
   top_k?: number;
+  base_url?: string;
+}
+
+interface ProviderHealth {
+  success: boolean;
+  message: string;
+  responseTime?: number;
+}
+
+interface BudgetSettings {
+  per_run_usd?: number;
+  per_month_usd?: number;
+  on_limit: 'pause' | 'downgrade';
+  downgrade?: Record<string, Record<string, any>>;
+}
+
+interface MonthlyUsage {
+  month: string;
+  spent: number;
+  runs: number;
 }
 
 interface ModelConfig {
@@ -28,6 +50,7 @@ interface ModelConfig {
     multi_llm: boolean;
     comparison_mode: string;
   };
+  budget?: BudgetSettings;
 }
 
 interface SettingsPageProps {}
@@ -38,6 +61,9 @@ export default function SettingsPage(): JSX.Element {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [healthChecks, setHealthChecks] = useState<Record<string, ProviderHealth>>({});
+  const [checkingProvider, setCheckingProvider] = useState<string | null>(null);
+  const [monthlyUsage, setMonthlyUsage] = useState<MonthlyUsage | null>(null);
 
   // 모델 정보 정의
   const modelInfo = {
@@ -60,6 +86,22 @@ export default function SettingsPage(): JSX.Element {
         model: ['models/gemini-2.5-pro', 'models/gemini-2.5-flash']
       }
     },
+    'anthropic': {
+      name: 'Claude',
+      icon: <Sparkles className="w-4 h-4" />,
+      description: 'Anthropic의 Claude 모델 (Messages API)',
+      features: ['교차 검증', '상세한 근거', '지시 준수'],
+      options: {
+        model: ['claude-sonnet-4-20250514', 'claude-3-5-haiku-20241022']
+      }
+    },
+    'local': {
+      name: '로컬 모델',
+      icon: <Server className="w-4 h-4" />,
+      description: 'Ollama, vLLM, llama.cpp 등 OpenAI 호환 서버 (상담 데이터 외부 전송 없음)',
+      features: ['외부 전송 없음', '비용 없음', 'OpenAI 호환 API'],
+      options: {}
+    },
     'openai': {
       name: 'GPT-4',
       icon: <MessageSquare className="w-4 h-4" />,
@@ -72,8 +114,26 @@ export default function SettingsPage(): JSX.Element {
   // 설정 로드
   useEffect(() => {
     fetchConfig();
+    fetchMonthlyUsage();
   }, []);
 
+  // 이번 달 평가 비용 (예산 한도 비교용)
+  const fetchMonthlyUsage = async () => {
+    try {
+      const response = await fetch('/api/settings/models/budget');
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setMonthlyUsage({
+        month: data.usage.month,
+        spent: data.usage.usage.cost.total,
+        runs: Object.keys(data.usage.runs || {}).length
+      });
+    } catch (err) {
+      console.error('예산 사용액 조회 오류:', err);
+    }
+  };
+
   const fetchConfig = async () => {
     try {
       setLoading(true);
@@ -161,6 +221,54 @@ export default function SettingsPage(): JSX.Element {
     });
   };
 
+  // Provider 연결 확인 (저장 전 설정 기준)
+  const checkProviderHealth = async (providerId: string) => {
+    if (!config) return;
+
+    try {
+      setCheckingProvider(providerId);
+
+      const response = await fetch('/api/settings/models/health', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ providerId, config: config.providers[providerId] }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `연결 확인 실패: ${response.status}`);
+      }
+
+      setHealthChecks(prev => ({ ...prev, [providerId]: data.health }));
+    } catch (err) {
+      setHealthChecks(prev => ({
+        ...prev,
+        [providerId]: {
+          success: false,
+          message: err instanceof Error ? err.message : '연결 확인 중 오류가 발생했습니다'
+        }
+      }));
+    } finally {
+      setCheckingProvider(null);
+    }
+  };
+
+  // 예산 설정 업데이트
+  const updateBudget = (key: keyof BudgetSettings, value: any) => {
+    if (!config) return;
+
+    setConfig({
+      ...config,
+      budget: {
+        on_limit: 'pause',
+        ...config.budget,
+        [key]: value
+      }
+    });
+  };
+
   // Multi-LLM 모드 토글
   const toggleMultiLLM = () => {
     if (!config) return;
@@ -213,14 +321,30 @@ export default function SettingsPage(): JSX.Element {
   return (
     <div className="container mx-auto p-6 max-w-4xl">
       {/* 헤더 */}
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">
-          <Settings className="inline-block w-8 h-8 mr-3" />
-          AI 모델 설정
-        </h1>
-        <p className="text-gray-600">
-          평가에 사용할 AI 모델을 선택하고 설정을 조정하세요.
-        </p>
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            <Settings className="inline-block w-8 h-8 mr-3" />
+            AI 모델 설정
+          </h1>
+          <p className="text-gray-600">
+            평가에 사용할 AI 모델을 선택하고 설정을 조정하세요.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/settings/prompts">
+              <FileText className="w-4 h-4 mr-2" />
+              평가 프롬프트
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/settings/counselors">
+              <Users className="w-4 h-4 mr-2" />
+              상담원 명부
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {/* 알림 메시지 */}
@@ -279,6 +403,82 @@ export default function SettingsPage(): JSX.Element {
             </CardContent>
           </Card>
 
+          {/* 예산 한도 */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="w-5 h-5" />
+                예산 한도
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label className="text-sm">실행당 한도 (USD)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={config.budget?.per_run_usd ?? 0}
+                    onChange={(e) => updateBudget('per_run_usd', Math.max(0, parseFloat(e.target.value) || 0))}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm">월 한도 (USD)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={config.budget?.per_month_usd ?? 0}
+                    onChange={(e) => updateBudget('per_month_usd', Math.max(0, parseFloat(e.target.value) || 0))}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm">한도 도달 시</Label>
+                  <Select
+                    value={config.budget?.on_limit || 'pause'}
+                    onValueChange={(value) => updateBudget('on_limit', value)}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pause">남은 평가 중단</SelectItem>
+                      <SelectItem value="downgrade">하향 모델로 전환</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">0은 제한 없음. 배치 평가 시작 전 예상 비용을 계산하고, 평가 중 한도에 도달하면 설정한 동작을 적용합니다.</p>
+
+              {config.budget?.on_limit === 'downgrade' && (
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(config.budget.downgrade || {}).map(([providerId, override]) => (
+                    <Badge key={providerId} variant="outline">
+                      {modelInfo[providerId as keyof typeof modelInfo]?.name || providerId} → {Object.values(override).join(', ')}
+                    </Badge>
+                  ))}
+                  {Object.keys(config.budget.downgrade || {}).length === 0 && (
+                    <span className="text-xs text-amber-700">하향 설정(budget.downgrade)이 없어 한도 도달 시 평가를 중단합니다.</span>
+                  )}
+                </div>
+              )}
+
+              {monthlyUsage && (
+                <div className="bg-gray-50 p-3 rounded-lg text-sm text-gray-700">
+                  {monthlyUsage.month} 사용액: <strong>${monthlyUsage.spent.toFixed(4)}</strong> ({monthlyUsage.runs}회 실행)
+                  {!!config.budget?.per_month_usd && (
+                    <span className={monthlyUsage.spent >= config.budget.per_month_usd ? 'text-red-600 ml-2' : 'ml-2'}>
+                      / 월 한도 ${config.budget.per_month_usd.toFixed(2)}
+                    </span>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Provider 설정 */}
           <div className="space-y-6">
             {Object.entries(config.providers).map(([providerId, providerConfig]) => {
@@ -338,7 +538,15 @@ export default function SettingsPage(): JSX.Element {
                           
                           <div>
                             <Label htmlFor={`model-${providerId}`} className="text-xs text-gray-600">모델</Label>
-                            {info?.options?.model ? (
+                            {providerId === 'local' ? (
+                              <Input
+                                id={`model-${providerId}`}
+                                className="h-8"
+                                value={providerConfig.model}
+                                placeholder="qwen2.5:14b-instruct"
+                                onChange={(e) => updateProviderConfig(providerId, 'model', e.target.value)}
+                              />
+                            ) : info?.options?.model ? (
                               <Select 
                                 value={providerConfig.model} 
                                 onValueChange={(value) => updateProviderConfig(providerId, 'model', value)}
@@ -350,7 +558,9 @@ export default function SettingsPage(): JSX.Element {
                                   {info.options.model.map((model) => (
                                     <SelectItem key={model} value={model}>
                                       {model.includes('pro') ? '🚀 Pro (고성능)' : 
-                                       model.includes('flash') ? '⚡ Flash (고속)' : model}
+                                       model.includes('flash') ? '⚡ Flash (고속)' :
+                                       model.includes('sonnet') ? '🎯 Sonnet (고성능)' :
+                                       model.includes('haiku') ? '⚡ Haiku (고속)' : model}
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
@@ -464,6 +674,39 @@ export default function SettingsPage(): JSX.Element {
                               </div>
                             </>
                           )}
+
+                          {/* 로컬 모델 전용 설정 */}
+                          {providerId === 'local' && (
+                            <>
+                              <div>
+                                <Label htmlFor={`base-url-${providerId}`} className="text-xs text-gray-600">서버 주소 (Base URL)</Label>
+                                <Input
+                                  id={`base-url-${providerId}`}
+                                  className="h-8"
+                                  value={providerConfig.base_url || ''}
+                                  placeholder="http://localhost:11434/v1"
+                                  onChange={(e) => updateProviderConfig(providerId, 'base_url', e.target.value)}
+                                />
+                              </div>
+
+                              <div className="flex items-center gap-2">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => checkProviderHealth(providerId)}
+                                  disabled={checkingProvider === providerId || !providerConfig.base_url}
+                                >
+                                  {checkingProvider === providerId ? '확인 중...' : '연결 확인'}
+                                </Button>
+                                {healthChecks[providerId] && (
+                                  <span className={`text-xs ${healthChecks[providerId].success ? 'text-green-700' : 'text-red-600'}`}>
+                                    {healthChecks[providerId].message}
+                                    {healthChecks[providerId].responseTime !== undefined && ` (${healthChecks[providerId].responseTime}ms)`}
+                                  </span>
+                                )}
+                              </div>
+                            </>
+                          )}
                         </div>
                       </div>
                     </CardContent>
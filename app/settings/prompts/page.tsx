@@ -0,0 +1,646 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Eye, FileText, History, RotateCcw, Save, Settings, Upload } from 'lucide-react';
+
+interface PromptTemplate {
+  version: string;
+  name?: string;
+  templates: {
+    system: { content: string };
+    user: { content: string };
+    counselor?: {
+      system: { content: string };
+      user: { content: string };
+    };
+  };
+  guidelines: {
+    critical_rules: string[];
+    counselor?: string;
+  };
+}
+
+interface PromptRevision {
+  version: string;
+  name?: string;
+  description?: string;
+  author?: string;
+  lastUpdated?: string;
+  based_on?: string;
+  active: boolean;
+}
+
+interface PromptDraft {
+  system: string;
+  user: string;
+  critical_rules: string;
+  counselor_system: string;
+  counselor_user: string;
+  counselor_guidelines: string;
+}
+
+interface PromptPreview {
+  provider: string;
+  model: string;
+  enabled: boolean;
+  template: { version: string; override?: string };
+  system: string;
+  user: string;
+  estimatedTokens: number;
+  estimatedCost: number;
+}
+
+interface SampleData {
+  user: any[];
+  chat: any[];
+  message: any[];
+}
+
+const MAX_SAMPLE_CHATS = 200;
+
+const toDraft = (template: PromptTemplate): PromptDraft => ({
+  system: template.templates.system.content,
+  user: template.templates.user.content,
+  critical_rules: template.guidelines.critical_rules.join('\n'),
+  counselor_system: template.templates.counselor?.system.content || '',
+  counselor_user: template.templates.counselor?.user.content || '',
+  counselor_guidelines: template.guidelines.counselor || ''
+});
+
+const toChanges = (draft: PromptDraft) => ({
+  system: draft.system,
+  user: draft.user,
+  critical_rules: draft.critical_rules.split('\n'),
+  counselor_system: draft.counselor_system,
+  counselor_user: draft.counselor_user,
+  counselor_guidelines: draft.counselor_guidelines
+});
+
+const getChatId = (chat: any): string => String(chat.chat_id ?? chat.chatId ?? chat.id ?? '');
+
+export default function PromptSettingsPage(): JSX.Element {
+  const [template, setTemplate] = useState<PromptTemplate | null>(null);
+  const [revisions, setRevisions] = useState<PromptRevision[]>([]);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [counselorPlaceholders, setCounselorPlaceholders] = useState<string[]>([]);
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const [revisionName, setRevisionName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // 미리보기 관련
+  const [uploadedArchives, setUploadedArchives] = useState<any[]>([]);
+  const [sampleData, setSampleData] = useState<SampleData | null>(null);
+  const [sampleChatId, setSampleChatId] = useState('');
+  const [previews, setPreviews] = useState<PromptPreview[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    fetchTemplate();
+    fetchUploadedArchives();
+  }, []);
+
+  const fetchTemplate = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/settings/prompts');
+      if (!response.ok) {
+        throw new Error(`프롬프트 템플릿 로드 실패: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setTemplate(data.template);
+      setRevisions(data.revisions);
+      setPlaceholders(data.placeholders);
+      setCounselorPlaceholders(data.counselorPlaceholders || []);
+      setDraft(toDraft(data.template));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다';
+      setError(errorMessage);
+      console.error('프롬프트 템플릿 로드 오류:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 아카이브된 업로드 데이터 목록
+  const fetchUploadedArchives = async () => {
+    try {
+      const response = await fetch('/api/archive?type=uploaded_data');
+      const data = await response.json();
+      setUploadedArchives(data.archives || []);
+    } catch (err) {
+      console.error('업로드 데이터 목록 로드 오류:', err);
+    }
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const readResponse = async (response: Response) => {
+    const data = await response.json();
+    if (!response.ok) {
+      const details = Array.isArray(data.details) ? data.details.join(', ') : data.details;
+      throw new Error(details ? `${data.error}: ${details}` : data.error);
+    }
+    return data;
+  };
+
+  // 샘플 데이터 설정
+  const applySampleData = (organizedData: SampleData) => {
+    setSampleData(organizedData);
+    setSampleChatId(organizedData.chat.length > 0 ? getChatId(organizedData.chat[0]) : '');
+    setPreviews([]);
+  };
+
+  const loadArchivedSample = async (url: string) => {
+    try {
+      setError(null);
+      const response = await fetch(url);
+      const archiveData = await response.json();
+      if (!archiveData.organizedData) {
+        throw new Error('업로드 데이터 형식이 아닙니다');
+      }
+      applySampleData(archiveData.organizedData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '업로드 데이터를 불러올 수 없습니다');
+    }
+  };
+
+  const uploadSampleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    try {
+      setError(null);
+      const formData = new FormData();
+      Array.from(files).forEach((file) => formData.append('files', file));
+
+      const response = await fetch('/api/upload', { method: 'POST', body: formData });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      applySampleData(result.organizedData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '파일 업로드 중 오류가 발생했습니다');
+    }
+  };
+
+  // 편집 중인 템플릿으로 미리보기
+  const runPreview = async () => {
+    if (!draft || !sampleData || !sampleChatId) return;
+
+    try {
+      setPreviewing(true);
+      setError(null);
+
+      const chat = sampleData.chat.find((c) => getChatId(c) === sampleChatId);
+      const userId = chat?.user_id ?? chat?.userId;
+      const response = await fetch('/api/settings/prompts/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          chatId: sampleChatId,
+          chatData: chat ? [chat] : [],
+          messageData: sampleData.message.filter((msg) => String(msg.chat_id ?? msg.chatId) === sampleChatId),
+          userData: sampleData.user.filter((user) => (user.user_id ?? user.userId) === userId),
+          changes: toChanges(draft)
+        }),
+      });
+
+      const data = await readResponse(response);
+      setPreviews(data.previews);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '미리보기 중 오류가 발생했습니다');
+      console.error('프롬프트 미리보기 오류:', err);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  // 리비전 저장
+  const saveRevision = async () => {
+    if (!draft) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/settings/prompts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: revisionName.trim(), changes: toChanges(draft) }),
+      });
+
+      const data = await readResponse(response);
+      showSuccess(data.message);
+      setRevisionName('');
+      await fetchTemplate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '저장 중 오류가 발생했습니다');
+      console.error('프롬프트 리비전 저장 오류:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 이전 리비전으로 롤백
+  const rollback = async (revision: PromptRevision) => {
+    const label = revision.name ? `v${revision.version} (${revision.name})` : `v${revision.version}`;
+    if (!confirm(`${label} 내용으로 롤백하시겠습니까? 롤백 내용은 새 리비전으로 저장됩니다.`)) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/settings/prompts/rollback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ version: revision.version }),
+      });
+
+      const data = await readResponse(response);
+      showSuccess(data.message);
+      await fetchTemplate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '롤백 중 오류가 발생했습니다');
+      console.error('프롬프트 롤백 오류:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isDirty = !!template && !!draft && JSON.stringify(draft) !== JSON.stringify(toDraft(template));
+
+  if (loading || !draft) {
+    return (
+      <div className="container mx-auto p-6">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <Settings className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-500" />
+            <p className="text-lg text-gray-600">프롬프트 템플릿을 불러오는 중...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl">
+      {/* 헤더 */}
+      <div className="mb-8">
+        <Link href="/settings" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          AI 모델 설정
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          <FileText className="inline-block w-8 h-8 mr-3" />
+          평가 프롬프트 관리
+        </h1>
+        <p className="text-gray-600">
+          시스템/사용자 프롬프트와 평가 가이드라인을 편집하고, 샘플 상담으로 미리본 뒤 리비전으로 저장합니다.
+        </p>
+      </div>
+
+      {/* 알림 메시지 */}
+      {error && (
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="mb-6 border-green-200 bg-green-50">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* 프롬프트 편집 */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              프롬프트 편집
+            </span>
+            <span className="flex items-center gap-2">
+              <Badge variant="secondary">
+                현재 v{template?.version}{template?.name ? ` · ${template.name}` : ''}
+              </Badge>
+              {isDirty && <Badge className="bg-orange-100 text-orange-800">저장되지 않은 변경</Badge>}
+            </span>
+          </CardTitle>
+          <CardDescription>
+            시스템/사용자 프롬프트와 평가 규칙은 상담별 평가에, 종합 평가 탭은 상담원별 종합 평가에 적용됩니다.
+            Provider별 재정의(system_append, instructions)는 미리보기에 함께 적용됩니다.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="system">
+            <TabsList>
+              <TabsTrigger value="system">시스템 프롬프트</TabsTrigger>
+              <TabsTrigger value="user">사용자 프롬프트</TabsTrigger>
+              <TabsTrigger value="rules">평가 규칙</TabsTrigger>
+              <TabsTrigger value="counselor_system">종합 평가 시스템</TabsTrigger>
+              <TabsTrigger value="counselor_user">종합 평가 사용자</TabsTrigger>
+              <TabsTrigger value="counselor">종합 평가 가이드라인</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="system">
+              <Textarea
+                rows={12}
+                value={draft.system}
+                onChange={(e) => setDraft({ ...draft, system: e.target.value })}
+                className="font-mono text-sm"
+              />
+            </TabsContent>
+
+            <TabsContent value="user">
+              <Textarea
+                rows={16}
+                value={draft.user}
+                onChange={(e) => setDraft({ ...draft, user: e.target.value })}
+                className="font-mono text-sm"
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {placeholders.map((placeholder) => (
+                  <Badge key={placeholder} variant="outline" className="font-mono text-xs">
+                    {`{{${placeholder}}}`}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {'{{conversation}}'}과 {'{{response_format}}'}은 필수입니다. 응답 형식의 scores는 활성 평가 기준으로 생성됩니다.
+              </p>
+            </TabsContent>
+
+            <TabsContent value="rules">
+              <Textarea
+                rows={10}
+                value={draft.critical_rules}
+                onChange={(e) => setDraft({ ...draft, critical_rules: e.target.value })}
+                className="text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                한 줄에 하나씩 입력합니다. 사용자 프롬프트의 {'{{guidelines}}'} 위치에 목록으로 삽입됩니다.
+              </p>
+            </TabsContent>
+
+            <TabsContent value="counselor_system">
+              <Textarea
+                rows={12}
+                value={draft.counselor_system}
+                onChange={(e) => setDraft({ ...draft, counselor_system: e.target.value })}
+                className="font-mono text-sm"
+                disabled={!template?.templates.counselor}
+              />
+            </TabsContent>
+
+            <TabsContent value="counselor_user">
+              <Textarea
+                rows={16}
+                value={draft.counselor_user}
+                onChange={(e) => setDraft({ ...draft, counselor_user: e.target.value })}
+                className="font-mono text-sm"
+                disabled={!template?.templates.counselor}
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {counselorPlaceholders.map((placeholder) => (
+                  <Badge key={placeholder} variant="outline" className="font-mono text-xs">
+                    {`{{${placeholder}}}`}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {'{{chats}}'}과 {'{{response_format}}'}은 필수입니다. 응답 형식의 scores는 활성 평가 기준으로 생성됩니다.
+              </p>
+            </TabsContent>
+
+            <TabsContent value="counselor">
+              <Textarea
+                rows={16}
+                value={draft.counselor_guidelines}
+                onChange={(e) => setDraft({ ...draft, counselor_guidelines: e.target.value })}
+                className="text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                상담원별 종합 평가 요청의 {'{{guidelines}}'} 위치에 삽입됩니다. 상담원 이름은 {'{{counselor_names}}'}로 상담원 명단에서 채워집니다. ({draft.counselor_guidelines.length} 문자)
+              </p>
+            </TabsContent>
+          </Tabs>
+
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-4 items-end mt-6">
+            <div>
+              <Label htmlFor="revision-name" className="text-xs text-gray-600">리비전 이름</Label>
+              <Input
+                id="revision-name"
+                value={revisionName}
+                onChange={(e) => setRevisionName(e.target.value)}
+                placeholder="예: 신속한 응대 기준 명확화"
+                className="h-8"
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!isDirty || saving}
+              onClick={() => template && setDraft(toDraft(template))}
+            >
+              편집 취소
+            </Button>
+            <Button size="sm" disabled={!isDirty || !revisionName.trim() || saving} onClick={saveRevision}>
+              <Save className="w-4 h-4 mr-2" />
+              리비전 저장
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 미리보기 */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Eye className="w-5 h-5" />
+            미리보기
+          </CardTitle>
+          <CardDescription>
+            업로드 데이터에서 상담을 선택하면 편집 중인 프롬프트를 Provider별로 렌더링합니다. 토큰 수는 문자 수 기반 추정치입니다.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <Label className="text-xs text-gray-600">저장된 업로드 데이터</Label>
+              <Select onValueChange={loadArchivedSample} disabled={uploadedArchives.length === 0}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder={uploadedArchives.length > 0 ? '업로드 데이터 선택' : '저장된 업로드 데이터 없음'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {uploadedArchives.map((archive) => (
+                    <SelectItem key={archive.id} value={archive.url}>
+                      {new Date(archive.uploadedAt).toLocaleString('ko-KR')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="sample-files" className="text-xs text-gray-600">
+                <Upload className="inline-block w-3 h-3 mr-1" />
+                또는 파일 업로드 (user/chat/message)
+              </Label>
+              <Input
+                id="sample-files"
+                type="file"
+                multiple
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => uploadSampleFiles(e.target.files)}
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+
+          {sampleData && (
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4 items-end mb-4">
+              <div>
+                <Label className="text-xs text-gray-600">샘플 상담 ({sampleData.chat.length}건)</Label>
+                <Select value={sampleChatId} onValueChange={setSampleChatId}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="상담 선택" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sampleData.chat.slice(0, MAX_SAMPLE_CHATS).map((chat) => (
+                      <SelectItem key={getChatId(chat)} value={getChatId(chat)}>
+                        {getChatId(chat)} · 상담원 {chat.manager_id ?? chat.managerId ?? '-'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button size="sm" onClick={runPreview} disabled={!sampleChatId || previewing}>
+                <Eye className="w-4 h-4 mr-2" />
+                {previewing ? '렌더링 중...' : '미리보기'}
+              </Button>
+            </div>
+          )}
+
+          {previews.length > 0 && (
+            <Tabs defaultValue={previews[0].provider}>
+              <TabsList>
+                {previews.map((preview) => (
+                  <TabsTrigger key={preview.provider} value={preview.provider}>
+                    {preview.provider}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {previews.map((preview) => (
+                <TabsContent key={preview.provider} value={preview.provider}>
+                  <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                    <Badge variant={preview.enabled ? 'default' : 'secondary'}>
+                      {preview.enabled ? '활성' : '비활성'}
+                    </Badge>
+                    <span className="font-mono text-gray-700">{preview.model}</span>
+                    {preview.template.override && (
+                      <Badge variant="outline">재정의 {preview.template.override}</Badge>
+                    )}
+                    <span className="ml-auto text-gray-600">
+                      추정 입력 토큰 <strong>{preview.estimatedTokens.toLocaleString()}</strong>
+                      {' · '}
+                      ${preview.estimatedCost.toFixed(4)}
+                    </span>
+                  </div>
+                  <Label className="text-xs text-gray-600">System</Label>
+                  <pre className="whitespace-pre-wrap bg-gray-50 border rounded p-3 text-xs mb-3 max-h-60 overflow-auto">
+                    {preview.system}
+                  </pre>
+                  <Label className="text-xs text-gray-600">User</Label>
+                  <pre className="whitespace-pre-wrap bg-gray-50 border rounded p-3 text-xs max-h-96 overflow-auto">
+                    {preview.user}
+                  </pre>
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 리비전 이력 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            리비전 이력
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>버전</TableHead>
+                <TableHead>이름</TableHead>
+                <TableHead>원본</TableHead>
+                <TableHead>수정일</TableHead>
+                <TableHead className="text-right">관리</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {revisions.map((revision) => (
+                <TableRow key={revision.version}>
+                  <TableCell className="font-mono">
+                    v{revision.version}
+                    {revision.active && <Badge className="ml-2 bg-green-100 text-green-800">현재</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{revision.name || '-'}</div>
+                    {revision.description && revision.description !== revision.name && (
+                      <div className="text-xs text-gray-500">{revision.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-gray-600">
+                    {revision.based_on ? `v${revision.based_on}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-gray-600">
+                    {revision.lastUpdated ? new Date(revision.lastUpdated).toLocaleString('ko-KR') : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!revision.active && (
+                      <Button variant="ghost" size="sm" disabled={saving} onClick={() => rollback(revision)}>
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        롤백
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
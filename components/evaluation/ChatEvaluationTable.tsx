@@ -0,0 +1,232 @@
+"use client"
+
+import { Fragment, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronRight, ChevronUp, ListChecks } from "lucide-react"
+
+export interface ChatEvaluation {
+  chat_id: string
+  status: "evaluated" | "failed" | "skipped"
+  local_date?: string
+  scores?: Record<string, any>
+  total_score?: number
+  confidence?: number
+  reliability?: "high" | "medium" | "low"
+  problematic?: boolean
+  severity?: "none" | "low" | "medium" | "high"
+  reasons?: string[]
+  evidence?: {
+    positive: string[]
+    negative: string[]
+    quotes: string[]
+  }
+  providers?: Array<{
+    name: string
+    model: string
+    success: boolean
+    total_score?: number
+    error?: string
+  }>
+  error?: string
+}
+
+interface ChatEvaluationTableProps {
+  chatEvaluations: ChatEvaluation[]
+}
+
+type SortKey = "chat_id" | "local_date" | "total_score" | "confidence" | "severity" | string
+
+const SECTIONS = ["업무능력", "문장력", "기본_태도"]
+
+const SEVERITY_ORDER: Record<string, number> = { none: 0, low: 1, medium: 2, high: 3 }
+
+const SEVERITY_LABELS: Record<string, string> = { none: "정상", low: "낮음", medium: "중간", high: "높음" }
+
+const getSortValue = (chat: ChatEvaluation, key: SortKey): number | string | undefined => {
+  if (key === "chat_id") return chat.chat_id
+  if (key === "local_date") return chat.local_date
+  if (key === "total_score") return chat.total_score
+  if (key === "confidence") return chat.confidence
+  if (key === "severity") return chat.severity ? SEVERITY_ORDER[chat.severity] : undefined
+  return chat.scores?.[key]?.subtotal
+}
+
+const scoreColor = (score?: number) =>
+  score === undefined ? "text-gray-400" : score >= 4 ? "text-green-600" : score >= 3 ? "text-yellow-600" : "text-red-600"
+
+// 상담별 평가 결과 (per_chat 평가의 상담원 점수 근거, 평가하지 못한 상담은 항상 아래에 표시)
+export function ChatEvaluationTable({ chatEvaluations }: ChatEvaluationTableProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [sortKey, setSortKey] = useState<SortKey>("total_score")
+  const [sortAscending, setSortAscending] = useState(true)
+  const [openChatId, setOpenChatId] = useState<string | null>(null)
+
+  const evaluated = chatEvaluations.filter((chat) => chat.status === "evaluated")
+  const sorted = [...chatEvaluations].sort((a, b) => {
+    const left = getSortValue(a, sortKey)
+    const right = getSortValue(b, sortKey)
+    if (left === undefined || right === undefined) return left === undefined ? (right === undefined ? 0 : 1) : -1
+    const order = typeof left === "number" && typeof right === "number" ? left - right : String(left).localeCompare(String(right))
+    return sortAscending ? order : -order
+  })
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortKey(key)
+      setSortAscending(key === "chat_id" || key === "local_date" || key === "total_score")
+    }
+  }
+
+  const sortableHead = (key: SortKey, label: string, className = "") => (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-gray-900" onClick={() => toggleSort(key)}>
+        {label}
+        {sortKey !== key ? (
+          <ArrowUpDown className="w-3 h-3 text-gray-300" />
+        ) : sortAscending ? (
+          <ArrowUp className="w-3 h-3" />
+        ) : (
+          <ArrowDown className="w-3 h-3" />
+        )}
+      </button>
+    </TableHead>
+  )
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium flex items-center gap-2">
+          <ListChecks className="w-4 h-4 text-blue-600" />
+          상담별 평가 ({evaluated.length}/{chatEvaluations.length}건)
+        </h4>
+        <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+          {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 bg-white rounded border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                {sortableHead("chat_id", "상담 ID")}
+                {sortableHead("local_date", "상담일")}
+                {sortableHead("total_score", "총점", "text-right")}
+                {SECTIONS.map((section) => sortableHead(section, section.replace(/_/g, " "), "text-right"))}
+                {sortableHead("confidence", "신뢰도", "text-right")}
+                {sortableHead("severity", "문제 심각도")}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.map((chat) => {
+                const isOpen = openChatId === chat.chat_id
+                return (
+                  <Fragment key={chat.chat_id}>
+                    <TableRow
+                      className={chat.status === "evaluated" ? "cursor-pointer" : "text-gray-400"}
+                      onClick={() => chat.status === "evaluated" && setOpenChatId(isOpen ? null : chat.chat_id)}
+                    >
+                      <TableCell>
+                        {chat.status === "evaluated" &&
+                          (isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{chat.chat_id}</TableCell>
+                      <TableCell className="text-sm">{chat.local_date || "-"}</TableCell>
+                      {chat.status === "evaluated" ? (
+                        <>
+                          <TableCell className={`text-right font-semibold ${scoreColor(chat.total_score)}`}>
+                            {chat.total_score?.toFixed(2) ?? "-"}
+                          </TableCell>
+                          {SECTIONS.map((section) => {
+                            const subtotal = chat.scores?.[section]?.subtotal
+                            return (
+                              <TableCell key={section} className={`text-right ${scoreColor(subtotal)}`}>
+                                {subtotal?.toFixed(2) ?? "-"}
+                              </TableCell>
+                            )
+                          })}
+                          <TableCell className="text-right text-sm">
+                            {chat.confidence !== undefined ? `${(chat.confidence * 100).toFixed(0)}%` : "-"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={chat.problematic ? "destructive" : "outline"}
+                              className={chat.problematic ? "" : "text-gray-500"}
+                            >
+                              {SEVERITY_LABELS[chat.severity || "none"]}
+                            </Badge>
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={SECTIONS.length + 3} className="text-sm">
+                          {chat.status === "failed" ? "평가 실패" : "평가하지 않음"}: {chat.error}
+                        </TableCell>
+                      )}
+                    </TableRow>
+
+                    {isOpen && (
+                      <TableRow className="bg-slate-50 hover:bg-slate-50">
+                        <TableCell />
+                        <TableCell colSpan={SECTIONS.length + 5} className="space-y-3 py-3">
+                          {chat.reasons && chat.reasons.length > 0 && (
+                            <p className="text-sm text-red-700">문제 판정: {chat.reasons.join(" / ")}</p>
+                          )}
+                          {chat.evidence && chat.evidence.quotes.length > 0 && (
+                            <div>
+                              <p className="text-sm font-medium mb-1">인용</p>
+                              <ul className="space-y-1">
+                                {chat.evidence.quotes.map((quote, index) => (
+                                  <li key={index} className="text-sm text-gray-700 border-l-2 border-gray-300 pl-2">
+                                    {quote}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          <div className="grid gap-3 md:grid-cols-2">
+                            <div>
+                              <p className="text-sm font-medium text-green-700 mb-1">잘한 점</p>
+                              <ul className="list-disc pl-5 text-sm text-gray-700">
+                                {(chat.evidence?.positive || []).map((item, index) => (
+                                  <li key={index}>{item}</li>
+                                ))}
+                              </ul>
+                            </div>
+                            <div>
+                              <p className="text-sm font-medium text-red-700 mb-1">개선할 점</p>
+                              <ul className="list-disc pl-5 text-sm text-gray-700">
+                                {(chat.evidence?.negative || []).map((item, index) => (
+                                  <li key={index}>{item}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          </div>
+                          {chat.providers && (
+                            <p className="text-xs text-gray-500">
+                              {chat.providers
+                                .map((provider) =>
+                                  provider.success
+                                    ? `${provider.name} ${provider.total_score?.toFixed(2) ?? "-"}점`
+                                    : `${provider.name} 실패`,
+                                )
+                                .join(" · ")}
+                            </p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
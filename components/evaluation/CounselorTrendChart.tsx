@@ -0,0 +1,210 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronDown, ChevronUp, RefreshCw, TrendingUp } from "lucide-react"
+
+interface PeriodChange {
+  from: string
+  to: string
+  delta: number
+  pValue?: number
+  significant: boolean
+  direction: "improved" | "declined" | "unchanged"
+}
+
+interface TrendSeries {
+  section: string
+  item: string
+  periods: Array<{ period: string; mean: number; stdDev: number; n: number }>
+  changes: PeriodChange[]
+  overall?: PeriodChange
+}
+
+interface CounselorTrendChartProps {
+  counselorId: string
+}
+
+const SECTIONS = [
+  { value: "total", label: "총점" },
+  { value: "업무능력", label: "업무능력" },
+  { value: "문장력", label: "문장력" },
+  { value: "기본_태도", label: "기본 태도" },
+]
+
+const LINE_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+  "#6366f1",
+  "#64748b",
+]
+
+const itemLabel = (item: string) => (item === "subtotal" ? "소계" : item === "total_score" ? "총점" : item.replace(/_/g, " "))
+
+// 상담원 성과 추이 (평가 이력의 기간별 평균 점수와 직전 기간 대비 변화의 유의성)
+export function CounselorTrendChart({ counselorId }: CounselorTrendChartProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [granularity, setGranularity] = useState<"month" | "week">("month")
+  const [section, setSection] = useState("total")
+  const [series, setSeries] = useState<TrendSeries[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!expanded) return
+
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+    fetch(`/api/history/trends?counselorId=${encodeURIComponent(counselorId)}&granularity=${granularity}`)
+      .then(async (response) => {
+        const result = await response.json()
+        if (cancelled) return
+        if (!response.ok) {
+          setSeries(null)
+          setError(result.error || "성과 추이를 불러올 수 없습니다.")
+          return
+        }
+        setSeries(result.series)
+      })
+      .catch(() => !cancelled && setError("성과 추이를 불러올 수 없습니다."))
+      .finally(() => !cancelled && setIsLoading(false))
+
+    return () => {
+      cancelled = true
+    }
+  }, [expanded, counselorId, granularity])
+
+  const sectionSeries = (series || []).filter((entry) => entry.section === section)
+  const periods = Array.from(new Set(sectionSeries.flatMap((entry) => entry.periods.map((period) => period.period)))).sort()
+  const chartData = periods.map((period) => ({
+    period,
+    ...Object.fromEntries(
+      sectionSeries.map((entry) => [entry.item, entry.periods.find((value) => value.period === period)?.mean]),
+    ),
+  }))
+  const chartConfig: ChartConfig = Object.fromEntries(
+    sectionSeries.map((entry, index) => [
+      entry.item,
+      { label: itemLabel(entry.item), color: LINE_COLORS[index % LINE_COLORS.length] },
+    ]),
+  )
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-blue-600" />
+          성과 추이
+        </h4>
+        <div className="flex items-center gap-2">
+          {expanded && (
+            <>
+              <Select value={section} onValueChange={setSection}>
+                <SelectTrigger className="h-8 w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SECTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={granularity} onValueChange={(value) => setGranularity(value as "month" | "week")}>
+                <SelectTrigger className="h-8 w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="month">월별</SelectItem>
+                  <SelectItem value="week">주별</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <RefreshCw className="w-4 h-4 animate-spin" />
+              불러오는 중...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-gray-500">{error}</p>
+          ) : periods.length === 0 ? (
+            <p className="text-sm text-gray-500">평가 이력이 없습니다. 평가 결과를 아카이브에 저장하면 이력이 쌓입니다.</p>
+          ) : (
+            <>
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                <LineChart data={chartData} margin={{ left: 0, right: 12, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={32} domain={["auto", "auto"]} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {sectionSeries.map((entry) => (
+                    <Line
+                      key={entry.item}
+                      dataKey={entry.item}
+                      type="monotone"
+                      stroke={`var(--color-${entry.item})`}
+                      strokeWidth={entry.item === "subtotal" || entry.item === "total_score" ? 3 : 1.5}
+                      dot={{ r: 3 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+
+              {/* 직전 기간 대비 변화 (Welch t-검정, 유의한 변화만 개선/하락으로 표시) */}
+              <div className="space-y-1">
+                {sectionSeries.map((entry) => {
+                  const latest = entry.changes[entry.changes.length - 1]
+                  if (!latest) return null
+                  return (
+                    <div key={entry.item} className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="w-40 text-gray-700">{itemLabel(entry.item)}</span>
+                      <span className="text-gray-500">
+                        {latest.from} → {latest.to}: {latest.delta > 0 ? "+" : ""}
+                        {latest.delta.toFixed(2)}
+                      </span>
+                      <Badge
+                        variant="outline"
+                        className={
+                          latest.direction === "improved"
+                            ? "border-green-300 text-green-700"
+                            : latest.direction === "declined"
+                              ? "border-red-300 text-red-700"
+                              : "text-gray-500"
+                        }
+                      >
+                        {latest.direction === "improved" ? "개선" : latest.direction === "declined" ? "하락" : "유의한 변화 없음"}
+                      </Badge>
+                      <span className="text-xs text-gray-400">
+                        {latest.pValue === undefined ? "표본 부족 (기간별 2건 이상 필요, 상담별 평가로 표본 확보)" : `p=${latest.pValue.toFixed(3)}`}
+                      </span>
+                    </div>
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, ChevronDown, ChevronUp } from "lucide-react"
+
+export interface HandoffReviewChat {
+  chat_id: string
+  counselor_id: string
+  counselor_name: string
+  tags: string[]
+  manager_message_count: number
+  preview: string[]
+}
+
+interface HandoffReviewPanelProps {
+  chats: HandoffReviewChat[]
+}
+
+// 상담원 전환 규칙에 매칭되지 않은 상담 (전체 메시지가 서포트봇으로 간주되어 평가에서 제외됨)
+export function HandoffReviewPanel({ chats }: HandoffReviewPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (chats.length === 0) return null
+
+  return (
+    <Card className="border-orange-200 bg-orange-50/30">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <AlertTriangle className="w-5 h-5 text-orange-600" />
+              상담원 전환 미탐지 상담
+              <Badge variant="outline" className="border-orange-300 text-orange-700">
+                {chats.length}건
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              전환 규칙(config/evaluation/handoff-rules.json)에 일치하지 않아 평가에서 제외된 상담입니다. 규칙 보완
+              여부를 검토해 주세요.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+
+      {expanded && (
+        <CardContent className="space-y-3">
+          {chats.map((chat) => (
+            <div key={chat.chat_id} className="bg-white p-3 rounded-lg border">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="font-mono text-sm font-medium">ChatID {chat.chat_id}</span>
+                <Badge variant="secondary">{chat.counselor_name}</Badge>
+                <span className="text-xs text-gray-500">상담원 메시지 {chat.manager_message_count}개</span>
+                {chat.tags.map((tag) => (
+                  <Badge key={tag} variant="outline" className="text-xs">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+              <ul className="space-y-1">
+                {chat.preview.map((text, index) => (
+                  <li key={index} className="text-sm text-gray-700">
+                    {index + 1}. {text || <span className="text-gray-400">(빈 메시지)</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
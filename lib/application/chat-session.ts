@@ -0,0 +1,106 @@
+import { ConfigManager } from '@/lib/config/manager';
+import { OperatingHoursCalendar } from '@/lib/domain/operating-hours-calendar';
+import { ChatSession, Message } from '@/lib/types/evaluation';
+
+/**
+ * HTML 엔티티 디코딩 및 공백 정리 (한글은 그대로 유지)
+ */
+export function decodeText(text: string): string {
+  if (!text) return '';
+
+  try {
+    const htmlDecoded = text
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&nbsp;/g, ' ');
+
+    return htmlDecoded.trim().replace(/\s+/g, ' ');
+  } catch (error) {
+    console.error('텍스트 디코딩 오류:', error);
+    return text;
+  }
+}
+
+/**
+ * 업로드된 user/chat/message 레거시 데이터를 ChatSession으로 변환
+ */
+export function buildChatSession(
+  userData: any[],
+  chatData: any[],
+  messageData: any[],
+  targetChatId: string
+): ChatSession | null {
+  // 해당 채팅 찾기
+  const chat = chatData.find(c => 
+    (c.chatId || c.chat_id || c.id) === targetChatId
+  );
+  
+  if (!chat) {
+    throw new Error(`채팅 ID ${targetChatId}를 찾을 수 없습니다.`);
+  }
+
+  const managerId = chat.managerId || chat.manager_id || chat.counselor_id;
+  const userId = chat.userId || chat.user_id;
+  
+  // 해당 채팅의 메시지들 찾기
+  const messages = messageData.filter((msg: any) => 
+    (msg.chatId || msg.chat_id || msg.id) === targetChatId
+  );
+
+  if (messages.length === 0) {
+    throw new Error(`채팅 ID ${targetChatId}에 대한 메시지를 찾을 수 없습니다.`);
+  }
+
+  // 사용자 정보 찾기
+  const user = userData.find((u: any) => 
+    (u.userId || u.user_id) === userId
+  );
+
+  // 메시지 정렬 및 변환
+  const sortedMessages: Message[] = messages
+    .sort((a: any, b: any) => {
+      const timeA = Number.parseInt(a.createdAt || a.created_at) || new Date(a.date).getTime();
+      const timeB = Number.parseInt(b.createdAt || b.created_at) || new Date(b.date).getTime();
+      return timeA - timeB;
+    })
+    .map((msg: any) => ({
+      type: (msg.type || msg.sender_type || 'manager') as 'user' | 'manager' | 'bot',
+      text: decodeText(msg.text || msg.content || msg.message || ''),
+      timestamp: new Date(Number.parseInt(msg.createdAt || msg.created_at) || new Date(msg.date).getTime()),
+      createdAt: msg.createdAt || msg.created_at,
+      date: msg.date
+    }));
+
+  // 태그 처리
+  const tagsString = chat.tags || '';
+  const tags = tagsString
+    ? tagsString.split(',').map((t: string) => t.trim()).filter((t: string) => t.length > 0)
+    : [];
+
+  // 운영시간 판정 (config/operating-hours.json)
+  const operatingHours = new OperatingHoursCalendar(ConfigManager.getInstance().getOperatingHours());
+  const chatCreationTime = chat.createdAt || chat.created_at || chat.date;
+
+  // ChatSession 객체 생성
+  const chatSession: ChatSession = {
+    chatId: targetChatId,
+    userId: userId || 'unknown',
+    managerId: managerId || 'unknown',
+    messages: sortedMessages,
+    metadata: {
+      startTime: operatingHours.parseDate(chatCreationTime) || new Date(chatCreationTime),
+      endTime: sortedMessages.length > 0 ? sortedMessages[sortedMessages.length - 1].timestamp : undefined,
+      device: user?.device,
+      channel: user?.channel_type || user?.channelType || 'unknown',
+      tags,
+      rating: Number.parseFloat(chat.rating) || undefined,
+      duration: undefined, // 계산 가능하지만 현재는 생략
+      operatingHours: operatingHours.classify(chatCreationTime).status
+    }
+  };
+
+  return chatSession;
+}
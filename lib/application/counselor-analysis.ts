@@ -0,0 +1,1023 @@
+import { decodeText } from '@/lib/application/chat-session';
+import { RunControl } from '@/lib/application/run-control';
+import { BudgetRun, MultiLLMEvaluationService } from '@/lib/application/services/multi-llm-evaluation-service';
+import { CounselorRosterService } from '@/lib/config/counselor-roster';
+import { ConfigManager } from '@/lib/config/manager';
+import { EvaluationTargetRules } from '@/lib/domain/evaluation-target-rules';
+import { isBudgetExceededError } from '@/lib/domain/budget-guard';
+import { HandoffDetector } from '@/lib/domain/handoff-detector';
+import { OperatingHoursCalendar } from '@/lib/domain/operating-hours-calendar';
+import { ScoringEngine } from '@/lib/domain/scoring-engine';
+import { UsageAccounting } from '@/lib/domain/usage-accounting';
+import { createCancelledError, isCancelledError } from '@/lib/integration/cancellation';
+import {
+  ChatSession,
+  CounselorEvaluationMode,
+  CounselorEvaluationRequest,
+  EvaluationCriteria,
+  HandoffDetection,
+  ProblematicChat,
+  UsageSummary
+} from '@/lib/types/evaluation';
+
+export interface CounselorAnalysisInput {
+  userData: any[];
+  chatData: any[];
+  messageData: any[];
+  guidelines: string;
+  criteriaVersion?: string;
+  /** 평가 방식 (기본 comprehensive) */
+  evaluationMode?: CounselorEvaluationMode;
+}
+
+export interface CounselorAnalysisResult {
+  evaluations: any[];
+  handoffReview: any[];
+  excludedChats: any[];
+  criteriaVersion: string;
+  usage: UsageSummary;
+  failedCounselors: string[];
+  /** 취소·예산 한도로 평가하지 못한 상담원이나 상담이 있으면 true (evaluations는 부분 결과) */
+  partial: boolean;
+  cancelled: boolean;
+  pendingCounselors: string[];
+  /** 취소·예산 한도로 일부 상담만 평가해 집계한 상담원 (상담별 평가, 재개 시 다시 평가) */
+  partialCounselors: string[];
+}
+
+/**
+ * 평가를 마친 상담원 결과 (재개 시 다시 평가하지 않음)
+ */
+export interface CounselorAnalysisCheckpoint {
+  evaluations: Record<string, any>;
+  usages: Record<string, UsageSummary>;
+}
+
+export interface CounselorAnalysisHooks {
+  progress(progress: number, message: string, details?: any): void;
+  debug(info: string): void;
+  checkpoint?: CounselorAnalysisCheckpoint;
+  /** 일시정지/재개/취소 제어 (상담원 단위로 적용, 취소는 진행 중인 Provider 호출까지 중단) */
+  control?: RunControl;
+  /** 월 비용 장부에 기록할 실행 ID (평가 작업은 작업 ID) */
+  runId?: string;
+  onCounselorEvaluated?(counselorId: string, evaluation: any, usage: UsageSummary): Promise<void> | void;
+  onCounselorFailed?(counselorId: string, error: unknown): Promise<void> | void;
+}
+
+// 자동 메시지 패턴 검증
+function isAutomaticMessage(text: string): boolean {
+  if (!text) return false;
+
+  const patterns = [
+    /고객님,\s*궁금증\/불편사항은\s*모두\s*해결\s*되셨나요/,
+    /다른\s*문의사항이\s*있다면.*상담사에게\s*알려주세요/,
+    /대기\s*중인\s*고객분들의\s*상담을\s*위해.*자동\s*종료/,
+    /일정시간\s*말씀이\s*없으셔서\s*상담이\s*자동종료/,
+    /다른\s*문의가\s*있으실\s*경우.*다시\s*문의\s*해주세요/,
+    /만족도\s*조사.*발송/,
+    /상담이\s*자동\s*종료/,
+    /자동\s*종료\s*됩니다/
+  ];
+
+  return patterns.some(pattern => pattern.test(text));
+}
+
+// 🔥 규칙 기반 서포트봇 메시지 구분 함수 (config/evaluation/handoff-rules.json)
+function filterRealManagerMessages(
+  messages: any[],
+  chatId: string,
+  detector: HandoffDetector
+): { messages: any[]; handoff: HandoffDetection } {
+  const managerMessages = messages.filter(m => m.type === 'manager');
+  if (managerMessages.length === 0) return { messages: [], handoff: { status: 'unmatched', index: -1 } };
+
+  console.log(`\n📝 ChatID ${chatId}: 전체 상담원 메시지 ${managerMessages.length}개 분석 시작`);
+
+  // 규칙을 순서대로 적용하여 상담원 전환 지점 탐지
+  const handoff = detector.detect(managerMessages, msg =>
+    decodeText(msg.text || '')
+      .replace(/\n/g, ' ')
+      .trim()
+  );
+
+  // 찾지 못한 경우 - 검토 대상으로 표시
+  if (handoff.status === 'unmatched') {
+    console.log(`❌ ChatID ${chatId}: 일치하는 전환 규칙 없음 - 모든 메시지를 서포트봇으로 간주 (검토 필요)`);
+    return { messages: [], handoff };
+  }
+
+  const greetingIndex = handoff.index;
+  const foundCounselor = handoff.counselorName || '알 수 없음';
+  const matchedRule =
+    handoff.patternIndex !== undefined ? `${handoff.ruleId} (패턴 ${handoff.patternIndex + 1})` : handoff.ruleId;
+  console.log(`✅ 상담원 전환 지점 발견! 위치: ${greetingIndex + 1}, 상담원: ${foundCounselor}, 매칭: ${matchedRule}`);
+
+  // 🔥 핵심: 전환 지점부터 시작하는 실제 상담원 메시지 추출
+  const realManagerMessages = managerMessages.slice(greetingIndex);
+
+  console.log(`📊 ChatID ${chatId} 결과:`);
+  console.log(`  - 서포트봇 메시지: ${greetingIndex}개 (제외됨)`);
+  console.log(`  - 실제 상담원 메시지: ${realManagerMessages.length}개 (인사 메시지 포함)`);
+  console.log(`  - 발견된 상담원: ${foundCounselor}`);
+  console.log(`  - 매칭 규칙: ${matchedRule}`);
+
+  // 서포트봇으로 제외된 메시지들 상세 로그
+  if (greetingIndex > 0) {
+    console.log(`🤖 ChatID ${chatId} 서포트봇으로 제외된 메시지들:`);
+    for (let i = 0; i < greetingIndex; i++) {
+      const text = decodeText(managerMessages[i].text || '');
+      console.log(`    ${i + 1}. "${text.slice(0, 80)}${text.length > 80 ? '...' : ''}"`);
+    }
+  }
+
+  // 자동 메시지 추가 필터링
+  const finalMessages = realManagerMessages.filter(msg => {
+    const text = decodeText(msg.text || '');
+    const isAuto = isAutomaticMessage(text);
+    if (isAuto) {
+      console.log(`🚫 ChatID ${chatId}: 자동 메시지 제외 - "${text.slice(0, 50)}..."`);
+    }
+    return !isAuto;
+  });
+
+  console.log(`✅ ChatID ${chatId}: 최종 실제 상담원 메시지 ${finalMessages.length}개`);
+
+  return { messages: finalMessages, handoff };
+}
+
+// 상담원 원본 통계
+function buildRawData(counselor: any) {
+  return {
+    totalChats: counselor.chats.length,
+    totalMessages: counselor.totalMessages,
+    totalManagerMessages: counselor.totalManagerMessages,
+    totalRealManagerMessages: counselor.totalRealManagerMessages,
+    totalSupportBotMessages: counselor.totalSupportBotMessages,
+    supportBotExclusionRate: ((counselor.totalSupportBotMessages / counselor.totalManagerMessages) * 100 || 0).toFixed(2),
+    supportBotStats: counselor.supportBotStats,
+    handoffStats: counselor.handoffStats,
+    operatingHoursStats: counselor.operatingHoursStats
+  };
+}
+
+/**
+ * 평가한 상담의 기간 (운영시간 시간대 기준 상담 일자, 일자를 알 수 없으면 undefined)
+ */
+function getChatPeriod(chats: any[]): { start: string; end: string } | undefined {
+  const dates: string[] = chats.map(chat => chat.local_date).filter(Boolean).sort();
+  return dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : undefined;
+}
+
+// 평가에 전달할 대화 (고객 메시지와 서포트봇/자동 메시지를 제외한 실제 상담원 메시지)
+function getEvaluatedConversation(chat: any): any[] {
+  return chat.conversation.filter((msg: any) => {
+    if (msg.type === 'user') return true;
+    return chat.realManagerMessages.some(
+      (realMsg: any) => decodeText(realMsg.text || realMsg.content || realMsg.message || '') === msg.text
+    );
+  });
+}
+
+// 문제 상담에 대화 내용과 판정 근거 추가
+function attachChatDetails(problemChat: ProblematicChat, counselor: any) {
+  const chatData = counselor.chats.find((c: any) => c.chat_id === problemChat.chat_id);
+  if (!chatData) return problemChat;
+
+  return {
+    ...problemChat,
+    handoff: chatData.handoff,
+    operating_hours: chatData.operating_hours,
+    target_explanation: chatData.target_explanation,
+    full_conversation: chatData.conversation,
+    real_manager_messages: chatData.realManagerMessages.map((msg: any) => ({
+      type: msg.type,
+      text: decodeText(msg.text || msg.content || msg.message || ''),
+      createdAt: msg.createdAt || msg.created_at,
+      date: msg.date
+    }))
+  };
+}
+
+// 상담별 평가용 세션 (종합 평가와 같은 대화 범위)
+function toChatSession(chat: any, managerId: string): ChatSession {
+  const messages = getEvaluatedConversation(chat).map((msg: any) => ({
+    type: (msg.type === 'user' ? 'user' : 'manager') as 'user' | 'manager',
+    text: msg.text,
+    timestamp: new Date(Number.parseInt(msg.createdAt) || new Date(msg.date).getTime()),
+    createdAt: msg.createdAt,
+    date: msg.date
+  }));
+
+  return {
+    chatId: chat.chat_id,
+    userId: 'unknown',
+    managerId,
+    messages,
+    metadata: {
+      startTime: messages[0]?.timestamp || new Date(),
+      endTime: messages[messages.length - 1]?.timestamp,
+      tags: chat.tags,
+      operatingHours: chat.operating_hours
+    }
+  };
+}
+
+const SEVERITY_LABELS: Record<string, string> = { high: '높음', medium: '중간', low: '낮음' };
+
+// 여러 상담에서 나온 근거 문장을 자주 언급된 순으로 정리
+function topByFrequency(texts: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  texts.forEach(text => counts.set(text, (counts.get(text) || 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([text]) => text);
+}
+
+/**
+ * 상담별 개별 평가 (per_chat 모드)
+ * 상담마다 evaluateChatsBatch로 Multi-LLM 평가하고 세부 항목 평균을 상담원 점수로 사용
+ * 문제 상담은 상담별 점수가 평가 기준의 문제 상담 기준에 미달한 상담, 서술형 피드백은 상담별 근거와 항목 평균으로 구성
+ */
+async function evaluateCounselorPerChat(
+  counselor: any,
+  context: {
+    evaluationService: MultiLLMEvaluationService;
+    criteria: EvaluationCriteria;
+    scoringEngine: ScoringEngine;
+    control?: RunControl;
+    /** 실행 전체가 공유하는 예산 (상담원마다 실행당 한도를 새로 적용하지 않음) */
+    budgetRun?: BudgetRun;
+    onProgress(completed: number, total: number): void;
+    debug(info: string): void;
+  }
+): Promise<{ evaluation: any | null; usage: UsageSummary }> {
+  const { criteria, scoringEngine } = context;
+  const counselorId = counselor.counselor_id;
+  const counselorName = counselor.counselor_name;
+  const sessions = counselor.chats.map((chat: any) => toChatSession(chat, counselorId));
+
+  context.debug(`${counselorName} 상담 ${sessions.length}건 개별 Multi-LLM 평가 요청...`);
+
+  const batch = await context.evaluationService.evaluateChatsBatch(sessions, {
+    criteriaVersion: criteria.version,
+    errorHandling: 'continue',
+    control: context.control,
+    budgetRun: context.budgetRun,
+    progressCallback: (completed, total) => context.onProgress(completed, total)
+  });
+
+  const results = batch.results.filter(r => r.result.detailScores);
+
+  // 취소 전에 평가를 마친 상담이 없으면 상담원 단위로 취소 (받은 응답의 사용량은 집계)
+  if (batch.summary.cancelled && results.length === 0) {
+    throw Object.assign(createCancelledError(), { usage: batch.summary.usage });
+  }
+  // 예산 한도로 평가를 마친 상담이 없으면 평가 결과 없음 (재개 시 다시 평가)
+  if (batch.summary.budget.paused && results.length === 0) {
+    return { evaluation: null, usage: batch.summary.usage };
+  }
+  if (results.length === 0) {
+    throw new Error(`상담별 평가에 모두 실패했습니다: ${batch.errors.map(e => e.error).join(', ') || '평가 결과 없음'}`);
+  }
+
+  const chatById = new Map<string, any>(counselor.chats.map((chat: any) => [chat.chat_id, chat]));
+  const chatEvaluations = [
+    ...results.map(r => ({
+      chat_id: r.chatId,
+      status: 'evaluated',
+      local_date: chatById.get(r.chatId)?.local_date,
+      scores: r.result.detailScores,
+      total_score: r.result.detailScores.total_score,
+      confidence: r.result.validation.confidence,
+      reliability: r.result.validation.reliability,
+      problematic: r.result.assessment.problematic,
+      severity: r.result.assessment.severity,
+      reasons: r.result.assessment.reasons,
+      evidence: r.result.evidence,
+      providers: r.result.providers.map((provider: any) => ({
+        name: provider.name,
+        model: provider.model,
+        success: provider.success,
+        total_score: provider.scores.total_score,
+        error: provider.error
+      }))
+    })),
+    ...batch.errors.map(e => ({ chat_id: e.chatId, status: 'failed', error: e.error })),
+    ...batch.summary.cancelledChatIds.map(chatId => ({ chat_id: chatId, status: 'skipped', error: '취소로 평가하지 않음' })),
+    ...batch.summary.budget.pendingChatIds.map(chatId => ({
+      chat_id: chatId,
+      status: 'skipped',
+      error: batch.summary.budget.reason || '예산 한도로 평가하지 않음'
+    }))
+  ];
+
+  const scores = scoringEngine.average(results.map(r => r.result.detailScores));
+  const problematicChats = results
+    .filter(r => r.result.assessment.problematic)
+    .map(r =>
+      attachChatDetails(
+        {
+          chat_id: r.chatId,
+          issues: r.result.assessment.reasons,
+          severity: SEVERITY_LABELS[r.result.assessment.severity] || r.result.assessment.severity,
+          reason: r.result.evidence.negative.slice(0, 2).join(' / ') || undefined,
+          flagged_by: r.result.providers.filter((provider: any) => provider.success).map((provider: any) => provider.name)
+        },
+        counselor
+      )
+    );
+
+  // 항목 평균이 낮은 순 (개선 우선순위)
+  const itemAverages = scoringEngine.sections.flatMap(section =>
+    Object.entries((scores as any)[section] || {})
+      .filter(([item]) => item !== 'subtotal')
+      .map(([item, value]) => ({ item, value: value as number }))
+  );
+  const lowestItems = [...itemAverages].sort((a, b) => a.value - b.value).slice(0, 3);
+  const highestItems = [...itemAverages].sort((a, b) => b.value - a.value).slice(0, 2);
+  const describe = ({ item, value }: { item: string; value: number }) => `${item.replace(/_/g, ' ')} (평균 ${value.toFixed(2)}점)`;
+
+  const positive = topByFrequency(results.flatMap(r => r.result.evidence.positive), 5);
+  const negative = topByFrequency(results.flatMap(r => r.result.evidence.negative), 5);
+  const unevaluated = chatEvaluations.length - results.length;
+
+  // Provider별 상담 평가 결과 합계
+  const providerStats = new Map<string, any>();
+  results.forEach(r => {
+    r.result.providers.forEach((provider: any) => {
+      const stats = providerStats.get(provider.name) || {
+        name: provider.name,
+        model: provider.model,
+        successes: 0,
+        failures: 0,
+        scores: [] as number[],
+        responseTime: 0,
+        tokens: 0,
+        cost: 0,
+        error: undefined as string | undefined
+      };
+      if (provider.success) {
+        stats.successes++;
+        if (typeof provider.scores.total_score === 'number') stats.scores.push(provider.scores.total_score);
+      } else {
+        stats.failures++;
+        stats.error = provider.error;
+      }
+      stats.responseTime += provider.responseTime;
+      stats.tokens += provider.tokens;
+      stats.cost += provider.cost;
+      providerStats.set(provider.name, stats);
+    });
+  });
+  const providers = Array.from(providerStats.values()).map(stats => ({
+    name: stats.name,
+    model: stats.model,
+    success: stats.successes > 0,
+    total_score: stats.scores.length > 0 ? stats.scores.reduce((sum: number, score: number) => sum + score, 0) / stats.scores.length : undefined,
+    responseTime: Math.round(stats.responseTime / (stats.successes + stats.failures)),
+    tokens: stats.tokens,
+    cost: stats.cost,
+    error: stats.failures > 0 ? `${stats.failures}/${stats.successes + stats.failures}건 실패: ${stats.error}` : undefined
+  }));
+
+  const reliabilityCounts = topByFrequency(results.map(r => r.result.validation.reliability), 1);
+  const averageOf = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const evaluation = {
+    counselor_id: counselorId,
+    counselor_name: counselorName,
+    evaluation_date: new Date().toISOString().split('T')[0],
+    criteria_version: criteria.version,
+    evaluation_mode: 'per_chat' as CounselorEvaluationMode,
+    // 취소·예산 한도로 일부 상담만 평가해 집계한 결과
+    partial: batch.summary.partial === true,
+    total_chats_analyzed: results.length,
+    chat_period: getChatPeriod(counselor.chats.filter((chat: any) => results.some(r => r.chatId === chat.chat_id))),
+    scores,
+    comprehensive_feedback: {
+      strengths: positive.length > 0 ? positive : highestItems.map(describe),
+      weaknesses: negative.length > 0 ? negative : lowestItems.map(describe),
+      improvement_priorities: lowestItems.map(describe)
+    },
+    problematic_chats: problematicChats,
+    overall_comment:
+      `${counselorName} 상담원의 상담 ${results.length}건을 개별 평가한 결과 평균 ${scores.total_score.toFixed(2)}점이며, ` +
+      `문제 상담은 ${problematicChats.length}건입니다.` +
+      (unevaluated > 0 ? ` (평가하지 못한 상담 ${unevaluated}건 제외)` : ''),
+    chat_evaluations: chatEvaluations,
+    assessment: scoringEngine.assess(scores),
+    raw_data: buildRawData(counselor),
+    multi_llm: {
+      // 가장 많은 상담을 평가한 Provider
+      primaryProvider: Array.from(providerStats.values()).sort((a, b) => b.successes - a.successes)[0]?.name,
+      criteriaVersion: criteria.version,
+      totalCost: batch.summary.usage.cost.total,
+      usage: batch.summary.usage,
+      validation: {
+        consistency: averageOf(results.map(r => r.result.validation.consistency)),
+        confidence: averageOf(results.map(r => r.result.validation.confidence)),
+        reliability: reliabilityCounts[0],
+        outliers: [],
+        isValid: results.every(r => r.validation.isValid),
+        recommendations: Array.from(new Set(results.flatMap(r => r.validation.recommendations || [])))
+      },
+      providers
+    }
+  };
+
+  context.debug(
+    `${counselorName} 상담별 평가 ${results.length}/${chatEvaluations.length}건 성공, 평균 신뢰도 ${(evaluation.multi_llm.validation.confidence * 100).toFixed(0)}%, 비용 $${evaluation.multi_llm.totalCost.toFixed(4)}`
+  );
+
+  return { evaluation, usage: batch.summary.usage };
+}
+
+/**
+ * 상담원별 종합 평가 (v4.1 - 전체 상담 분석)
+ * 업로드 데이터를 상담원별로 구성하고 상담원마다 Multi-LLM 평가를 수행
+ * hooks.checkpoint에 있는 상담원은 저장된 결과를 그대로 사용하고 나머지만 평가
+ */
+export async function runCounselorAnalysis(
+  input: CounselorAnalysisInput,
+  hooks: CounselorAnalysisHooks
+): Promise<CounselorAnalysisResult> {
+  const { userData, chatData, messageData, guidelines } = input;
+  const evaluationMode = input.evaluationMode || 'comprehensive';
+  const { progress: sendProgress, debug: sendDebug } = hooks;
+  const checkpoint = hooks.checkpoint || { evaluations: {}, usages: {} };
+
+  sendProgress(5, '데이터 검증 중...');
+  sendDebug('=== 상담원별 종합 평가 시작 (v4.1 - 전체 상담 분석) ===');
+
+  // 데이터 검증
+  if (!userData || !chatData || !messageData) {
+    throw new Error('필수 데이터가 누락되었습니다.');
+  }
+
+  // Multi-LLM 평가 서비스 초기화 (활성화된 Provider 및 API 키 검증)
+  const evaluationService = MultiLLMEvaluationService.getInstance();
+  await evaluationService.initialize();
+
+  sendDebug(`데이터 현황: User(${userData.length}), Chat(${chatData.length}), Message(${messageData.length})`);
+
+  // 상담원별 데이터 구성
+  sendProgress(10, '상담원별 데이터 구성 중...');
+
+  const counselorData: Record<string, any> = {};
+
+  // 상담원 명부 로드
+  const rosterService = CounselorRosterService.getInstance();
+  const evaluationTargets = rosterService.getEvaluationTargets();
+  const managerNames = Object.fromEntries(evaluationTargets.map(c => [c.id, c.name]));
+  const greetingNames = rosterService.getGreetingNames();
+
+  // 상담원 전환 탐지 규칙 로드
+  const handoffRules = ConfigManager.getInstance().getHandoffRules();
+  const handoffDetector = new HandoffDetector(handoffRules.rules, greetingNames);
+  const handoffReview: any[] = [];
+
+  // 평가 기준 버전 고정 (평가 도중 활성 버전이 바뀌어도 같은 기준 사용)
+  const criteria = ConfigManager.getInstance().getEvaluationCriteria(input.criteriaVersion);
+  sendDebug(`평가 기준 v${criteria.version} 적용 (${evaluationMode === 'per_chat' ? '상담별 개별 평가' : '상담원 종합 평가'})`);
+
+  // 평가 대상 선정 규칙 로드 (평가 기준 파일의 filters)
+  const targetRules = new EvaluationTargetRules(criteria.filters);
+  const excludedChats: any[] = [];
+
+  // 점수 계산 엔진 (평가 기준 가중치 및 문제 상담 기준)
+  const scoringEngine = new ScoringEngine(criteria);
+
+  // 운영시간 캘린더 로드
+  const operatingHours = new OperatingHoursCalendar(ConfigManager.getInstance().getOperatingHours());
+  sendDebug(
+    `상담원 전환 규칙 v${handoffRules.version}: ${handoffRules.rules
+      .filter(rule => rule.enabled)
+      .map(rule => rule.id)
+      .join(' → ')}`
+  );
+
+  // 상담원 초기화
+  evaluationTargets.forEach(({ id, name }) => {
+    counselorData[id] = {
+      counselor_id: id,
+      counselor_name: name,
+      chats: [],
+      totalMessages: 0,
+      totalManagerMessages: 0,
+      totalRealManagerMessages: 0,
+      totalSupportBotMessages: 0,
+      supportBotStats: {
+        totalChats: 0,
+        chatsWithSupportBot: 0,
+        averageSupportBotMessages: 0
+      },
+      handoffStats: {
+        matchedByRule: {} as Record<string, number>,
+        unmatchedChats: 0
+      },
+      operatingHoursStats: {
+        in_hours: 0,
+        off_hours: 0,
+        unknown: 0
+      }
+    };
+  });
+
+  sendProgress(15, '상담원 초기화 완료', {
+    totalCounselors: Object.keys(counselorData).length,
+    counselorNames: Object.values(managerNames)
+  });
+
+  // 채팅 데이터 처리
+  let processedChats = 0;
+  let totalSupportBotMessages = 0;
+  let chatsWithSupportBot = 0;
+
+  for (const chat of chatData) {
+    const managerId = chat.manager_id?.toString() || chat.managerId?.toString();
+    if (!managerId || !counselorData[managerId]) continue;
+
+    const chatId = chat.chat_id?.toString() || chat.chatId?.toString();
+    if (!chatId) continue;
+
+    // 태그 검증 (평가 대상인지 확인)
+    const tagsString = chat.tags || '';
+    const tags = tagsString
+      ? tagsString
+          .split(',')
+          .map((t: string) => t.trim())
+          .filter((t: string) => t.length > 0)
+      : [];
+
+    // 해당 채팅의 메시지들
+    const chatMessages = messageData.filter((msg: any) => {
+      const msgChatId = msg.chat_id?.toString() || msg.chatId?.toString();
+      return msgChatId === chatId;
+    });
+
+    // 평가 대상 판정 (태그, 메시지 수, 만족도)
+    const targetDecision = targetRules.evaluate({
+      chatId,
+      tags,
+      messages: chatMessages.map((msg: any) => ({
+        type: msg.type || 'manager',
+        text: decodeText(msg.text || msg.content || msg.message || '')
+      })),
+      rating: chat.rating !== undefined && chat.rating !== '' ? Number.parseFloat(chat.rating) : undefined
+    });
+
+    if (!targetDecision.included) {
+      const failedConditions = targetDecision.explanation.filter(line => line.includes('✗'));
+      sendDebug(`평가 대상 제외: ChatID ${chatId} - ${failedConditions.join(' / ')}`);
+      excludedChats.push({
+        chat_id: chatId,
+        counselor_id: managerId,
+        tags,
+        explanation: targetDecision.explanation
+      });
+      continue;
+    }
+
+    const chatCreationTime = chat.createdAt || chat.created_at || chat.date;
+    const operatingHoursResult = operatingHours.classify(chatCreationTime);
+    const openedDuringOperatingHours = operatingHours.isWithinOperatingHours(chatCreationTime);
+    if (operatingHoursResult.status === 'unknown') {
+      console.error(`날짜 파싱 오류: ChatID ${chatId} - ${chatCreationTime}`);
+    }
+
+    console.log(
+      `\n🔍 ChatID ${chatId} 분석 시작 (상담원: ${managerNames[managerId]}) - 운영시간 내 문의: ${openedDuringOperatingHours}`
+    );
+
+    // 🔥 개선된 실제 상담원 메시지 필터링
+    const allManagerMessages = chatMessages.filter((m: any) => m.type === 'manager');
+    const { messages: realManagerMessages, handoff } = filterRealManagerMessages(
+      chatMessages,
+      chatId,
+      handoffDetector
+    );
+    const supportBotMessages = allManagerMessages.length - realManagerMessages.length;
+
+    // 전환 규칙 기록
+    const handoffRecord = {
+      status: handoff.status,
+      rule_id: handoff.ruleId || null,
+      rule_type: handoff.ruleType || null,
+      pattern_index: handoff.patternIndex ?? null,
+      counselor_name: handoff.counselorName || null,
+      bot_message_count: handoff.status === 'matched' ? handoff.index : allManagerMessages.length
+    };
+
+    if (handoff.status === 'matched' && handoff.ruleId) {
+      const matchedByRule = counselorData[managerId].handoffStats.matchedByRule;
+      matchedByRule[handoff.ruleId] = (matchedByRule[handoff.ruleId] || 0) + 1;
+    } else if (allManagerMessages.length > 0) {
+      counselorData[managerId].handoffStats.unmatchedChats++;
+      handoffReview.push({
+        chat_id: chatId,
+        counselor_id: managerId,
+        counselor_name: managerNames[managerId],
+        tags,
+        manager_message_count: allManagerMessages.length,
+        preview: allManagerMessages
+          .slice(0, 3)
+          .map((msg: any) => decodeText(msg.text || msg.content || msg.message || '').slice(0, 120))
+      });
+    }
+
+    // 통계 업데이트
+    if (supportBotMessages > 0) {
+      chatsWithSupportBot++;
+      totalSupportBotMessages += supportBotMessages;
+    }
+
+    const conversation = chatMessages.map((msg: any) => ({
+      type: msg.type || 'manager',
+      text: decodeText(msg.text || msg.content || msg.message || ''),
+      createdAt: msg.createdAt || msg.created_at,
+      date: msg.date
+    }));
+
+    counselorData[managerId].chats.push({
+      chat_id: chatId,
+      messages: chatMessages,
+      allManagerMessages,
+      realManagerMessages,
+      supportBotMessages,
+      conversation,
+      tags, // 태그 정보 추가
+      opened_during_operating_hours: openedDuringOperatingHours, // 운영 시간 정보 추가
+      operating_hours: operatingHoursResult.status, // in_hours / off_hours / unknown
+      operating_hours_reason: operatingHoursResult.reason,
+      local_date: operatingHoursResult.localDate, // 상담 일자 (운영시간 시간대 기준)
+      handoff: handoffRecord, // 상담원 전환 규칙 매칭 정보
+      target_explanation: targetDecision.explanation // 평가 대상 선정 근거
+    });
+
+    counselorData[managerId].totalMessages += chatMessages.length;
+    counselorData[managerId].totalManagerMessages += allManagerMessages.length;
+    counselorData[managerId].totalRealManagerMessages += realManagerMessages.length;
+    counselorData[managerId].totalSupportBotMessages += supportBotMessages;
+    counselorData[managerId].supportBotStats.totalChats++;
+    counselorData[managerId].operatingHoursStats[operatingHoursResult.status]++;
+
+    if (supportBotMessages > 0) {
+      counselorData[managerId].supportBotStats.chatsWithSupportBot++;
+    }
+
+    processedChats++;
+    if (processedChats % 10 === 0) {
+      sendProgress(15 + (processedChats / chatData.length) * 10, `${processedChats}개 상담 처리 완료...`);
+    }
+  }
+
+  // 상담원별 통계 계산 및 출력
+  Object.values(counselorData).forEach((counselor: any) => {
+    if (counselor.chats.length > 0) {
+      counselor.supportBotStats.averageSupportBotMessages =
+        counselor.totalSupportBotMessages / counselor.chats.length;
+
+      sendDebug(`📊 ${counselor.counselor_name} 상세 통계:`);
+      sendDebug(`  - 총 상담: ${counselor.chats.length}건`);
+      sendDebug(`  - 전체 상담원 메시지: ${counselor.totalManagerMessages}개`);
+      sendDebug(`  - 서포트봇 메시지: ${counselor.totalSupportBotMessages}개 (제외됨)`);
+      sendDebug(`  - 실제 상담원 메시지: ${counselor.totalRealManagerMessages}개 (평가 대상)`);
+      sendDebug(`  - 서포트봇 포함 상담: ${counselor.supportBotStats.chatsWithSupportBot}/${counselor.chats.length}건`);
+      sendDebug(`  - 평균 서포트봇 메시지: ${counselor.supportBotStats.averageSupportBotMessages.toFixed(2)}개/상담`);
+      sendDebug(
+        `  - 서포트봇 비율: ${((counselor.totalSupportBotMessages / counselor.totalManagerMessages) * 100).toFixed(2)}%`
+      );
+      sendDebug(
+        `  - 운영시간 내/외 상담: ${counselor.operatingHoursStats.in_hours}/${counselor.operatingHoursStats.off_hours}건 (판정 불가 ${counselor.operatingHoursStats.unknown}건)`
+      );
+    }
+  });
+
+  // 전체 서포트봇 통계
+  sendDebug(`\n🤖 전체 서포트봇 통계:`);
+  sendDebug(`  - 총 처리된 상담: ${processedChats}건`);
+  sendDebug(`  - 서포트봇 포함 상담: ${chatsWithSupportBot}건 (${((chatsWithSupportBot / processedChats) * 100).toFixed(2)}%)`);
+  sendDebug(`  - 총 서포트봇 메시지: ${totalSupportBotMessages}개`);
+  sendDebug(`  - 평균 서포트봇 메시지: ${(totalSupportBotMessages / processedChats).toFixed(2)}개/상담`);
+  sendDebug(`  - 전환 규칙 미매칭 상담: ${handoffReview.length}건 (검토 필요)`);
+  sendDebug(`  - 평가 대상 규칙으로 제외된 상담: ${excludedChats.length}건`);
+
+  // 상담원별 진행상황 업데이트
+  const counselorIds = Object.keys(counselorData).filter(id => counselorData[id].chats.length > 0);
+  const resumedIds = counselorIds.filter(id => checkpoint.evaluations[id]);
+
+  sendProgress(30, 'AI 평가 시작...', {
+    totalCounselors: counselorIds.length,
+    counselorNames: counselorIds.map(id => managerNames[id]),
+    resumedCounselors: resumedIds.length
+  });
+  if (resumedIds.length > 0) {
+    sendDebug(`체크포인트에서 재개: ${resumedIds.length}명 평가 결과 재사용 (${resumedIds.map(id => managerNames[id]).join(', ')})`);
+  }
+
+  const evaluationResults: any[] = [];
+  const counselorUsages: UsageSummary[] = [];
+  const failedCounselors: string[] = [];
+  const pendingCounselors: string[] = [];
+  const partialCounselors: string[] = [];
+  const runId = hooks.runId || `counselor-analysis-${Date.now()}`;
+  // 종합 평가 도중 월 한도에 도달한 사유
+  let budgetLimitReason: string | undefined;
+
+  // 상담별 평가는 상담원마다 배치를 나눠 실행하므로 예산 한도는 실행 전체에 한 번 적용
+  const budgetRun =
+    evaluationMode === 'per_chat'
+      ? evaluationService.createBudgetRun(
+          counselorIds
+            .filter(id => !checkpoint.evaluations[id])
+            .flatMap(id => counselorData[id].chats.map((chat: any) => toChatSession(chat, id))),
+          { runId }
+        )
+      : undefined;
+
+  // 각 상담원별 AI 평가
+  for (let i = 0; i < counselorIds.length; i++) {
+    const counselorId = counselorIds[i];
+    const counselor = counselorData[counselorId];
+    const counselorName = counselor.counselor_name;
+
+    // 이전 실행에서 평가를 마친 상담원
+    if (checkpoint.evaluations[counselorId]) {
+      evaluationResults.push(checkpoint.evaluations[counselorId]);
+      if (checkpoint.usages[counselorId]) {
+        counselorUsages.push(checkpoint.usages[counselorId]);
+      }
+      continue;
+    }
+
+    // 일시정지 중이면 재개될 때까지 대기, 취소되었으면 남은 상담원은 평가하지 않음
+    try {
+      await hooks.control?.proceed();
+    } catch {
+      pendingCounselors.push(counselorId);
+      continue;
+    }
+
+    // 예산 한도에 도달했으면 남은 상담원은 평가하지 않음
+    if (budgetRun?.state.paused || budgetLimitReason) {
+      pendingCounselors.push(counselorId);
+      continue;
+    }
+
+    sendProgress(30 + (i * 60) / counselorIds.length, `${counselorName} 상담원 AI 평가 중...`, {
+      current: i + 1,
+      total: counselorIds.length,
+      managerName: counselorName,
+      managerId: counselorId,
+      totalChats: counselor.chats.length
+    });
+
+    try {
+      if (evaluationMode === 'per_chat') {
+        const { evaluation, usage } = await evaluateCounselorPerChat(counselor, {
+          evaluationService,
+          criteria,
+          scoringEngine,
+          control: hooks.control,
+          budgetRun,
+          onProgress: (completed, total) =>
+            sendProgress(
+              30 + ((i + completed / total) * 60) / counselorIds.length,
+              `${counselorName} 상담 ${completed}/${total}건 평가 중...`,
+              { current: i + 1, total: counselorIds.length, managerName: counselorName, managerId: counselorId, totalChats: total }
+            ),
+          debug: sendDebug
+        });
+        counselorUsages.push(usage);
+        if (!evaluation) {
+          sendDebug(`${counselorName} 평가 중단됨 - 예산 한도 도달 (${budgetRun?.state.reason})`);
+          pendingCounselors.push(counselorId);
+          continue;
+        }
+        evaluationResults.push(evaluation);
+
+        // 일부 상담만 집계한 결과는 체크포인트에 기록하지 않음 (재개 시 다시 평가)
+        if (evaluation.partial) {
+          partialCounselors.push(counselorId);
+          sendDebug(
+            `${counselorName} 평가 중단됨 - 평가를 마친 상담 ${evaluation.total_chats_analyzed}/${evaluation.chat_evaluations.length}건으로 부분 집계`
+          );
+        } else {
+          sendDebug(`${counselorName} 평가 완료 - 점수: ${evaluation.scores.total_score.toFixed(2)}, 문제 상담: ${evaluation.problematic_chats.length}건`);
+          await hooks.onCounselorEvaluated?.(counselorId, evaluation, usage);
+        }
+      } else {
+        // 🔥 전체 상담 데이터를 AI에게 전달 (서포트봇 메시지 제외)
+        const evaluationRequest: CounselorEvaluationRequest = {
+          counselorId,
+          counselorName,
+          chats: counselor.chats.map((chat: any) => ({
+            chatId: chat.chat_id,
+            tags: chat.tags,
+            openedDuringOperatingHours: chat.opened_during_operating_hours,
+            realManagerMessageCount: chat.realManagerMessages.length,
+            conversation: getEvaluatedConversation(chat).map((msg: any) => ({
+              type: msg.type === 'user' ? 'user' : 'manager',
+              text: msg.text
+            }))
+          })),
+          guidelines,
+          totalRealManagerMessages: counselor.totalRealManagerMessages,
+          evaluationDate: new Date().toISOString().split('T')[0],
+          criteriaVersion: criteria.version
+        };
+
+        sendDebug(`${counselorName} 전체 상담 ${counselor.chats.length}건 Multi-LLM 평가 요청...`);
+
+        const { result, validation, metadata } = await evaluationService.evaluateCounselor(evaluationRequest, {
+          signal: hooks.control?.signal,
+          runId
+        });
+        counselorUsages.push(metadata.usage);
+
+        sendDebug(`${counselorName} AI 평가 응답 수신 (프롬프트 템플릿 v${metadata.promptTemplate.version}, 길이: ${metadata.promptLength}자, ${metadata.processingTime}ms)`);
+        result.providers.forEach(provider => {
+          sendDebug(
+            provider.success
+              ? `  - ${provider.name} (${provider.model}): 총점 ${provider.scores.total_score?.toFixed(2)}, ${provider.responseTime}ms, 비용 $${provider.cost.toFixed(4)}`
+              : `  - ${provider.name} (${provider.model}): 실패 - ${provider.error}`
+          );
+        });
+        sendDebug(
+          `${counselorName} 토큰 - 입력 ${metadata.usage.tokens.input}, 출력 ${metadata.usage.tokens.output} (추론 ${metadata.usage.tokens.reasoning}), 비용 $${metadata.usage.cost.input.toFixed(4)} + $${metadata.usage.cost.output.toFixed(4)}${metadata.usage.estimatedCalls > 0 ? ` (추정 ${metadata.usage.estimatedCalls}건 포함)` : ''}`
+        );
+        sendDebug(
+          `${counselorName} 검증 - 일관성: ${result.validation.consistency.toFixed(2)}, 신뢰도: ${result.validation.confidence.toFixed(2)} (${result.validation.reliability}), 아웃라이어: ${result.validation.outliers.length > 0 ? result.validation.outliers.join(', ') : '없음'}, 총 비용: $${metadata.totalCost.toFixed(4)}`
+        );
+
+        // 소계/총점은 평가 기준 가중치로 계산됨 (ScoringEngine)
+        const scores = result.scores;
+
+        const evaluation = {
+          counselor_id: counselorId,
+          counselor_name: counselorName,
+          evaluation_date: evaluationRequest.evaluationDate,
+          criteria_version: criteria.version,
+          evaluation_mode: 'comprehensive' as CounselorEvaluationMode,
+          total_chats_analyzed: counselor.chats.length,
+          chat_period: getChatPeriod(counselor.chats),
+          scores,
+          comprehensive_feedback: result.comprehensive_feedback,
+          // 대화 내용 추가
+          problematic_chats: result.problematic_chats.map(problemChat => attachChatDetails(problemChat, counselor)),
+          overall_comment: result.overall_comment,
+          assessment: scoringEngine.assess(scores),
+          raw_data: buildRawData(counselor),
+          // Multi-LLM 평가 정보 (Provider별 결과, 검증, 비용)
+          multi_llm: {
+            primaryProvider: result.metadata.primaryProvider,
+            criteriaVersion: result.metadata.criteriaVersion,
+            promptTemplate: metadata.promptTemplate,
+            totalCost: metadata.totalCost,
+            usage: metadata.usage,
+            validation: {
+              ...result.validation,
+              isValid: validation.isValid,
+              recommendations: validation.recommendations
+            },
+            providers: result.providers.map(provider => ({
+              name: provider.name,
+              model: provider.model,
+              success: provider.success,
+              total_score: provider.scores.total_score,
+              responseTime: provider.responseTime,
+              tokens: provider.tokens,
+              cost: provider.cost,
+              usage: provider.usage,
+              costBreakdown: provider.costBreakdown,
+              error: provider.error
+            }))
+          }
+        };
+
+        evaluationResults.push(evaluation);
+        sendDebug(
+          `${counselorName} 평가 완료 - 점수: ${scores.total_score.toFixed(2)} (${scoringEngine.sections
+            .map(section => `${section}: ${(scores as any)[section]?.subtotal?.toFixed(2) ?? '-'}`)
+            .join(', ')})`
+        );
+        sendDebug(`${counselorName} 문제 상담: ${evaluation.problematic_chats.length}건 식별됨`);
+
+        await hooks.onCounselorEvaluated?.(counselorId, evaluation, metadata.usage);
+      }
+    } catch (error) {
+      // 실패·취소된 평가도 응답을 받은 호출의 사용량은 집계
+      const failedUsage: UsageSummary | undefined = (error as any)?.usage;
+      if (failedUsage) {
+        counselorUsages.push(failedUsage);
+      }
+
+      if (isCancelledError(error)) {
+        sendDebug(`${counselorName} 평가 취소됨`);
+        pendingCounselors.push(counselorId);
+        continue;
+      }
+
+      if (isBudgetExceededError(error)) {
+        budgetLimitReason = error instanceof Error ? error.message : String(error);
+        sendDebug(`${counselorName} 평가 중단됨 - ${budgetLimitReason}`);
+        pendingCounselors.push(counselorId);
+        continue;
+      }
+
+      sendDebug(`${counselorName} 평가 오류: ${error}`);
+      failedCounselors.push(counselorId);
+
+      const defaultEvaluation = {
+        counselor_id: counselorId,
+        counselor_name: counselorName,
+        evaluation_date: new Date().toISOString().split('T')[0],
+        criteria_version: criteria.version,
+        total_chats_analyzed: counselor.chats.length,
+        chat_period: getChatPeriod(counselor.chats),
+        // 기본 점수로 채운 결과 (평가 이력/통계에서 제외)
+        evaluation_failed: true,
+        scores: scoringEngine.getDefaultScores(),
+        comprehensive_feedback: {
+          strengths: [`${counselorName} 상담원의 기본적인 상담 진행`],
+          weaknesses: ['평가 중 오류 발생으로 상세 분석 불가'],
+          improvement_priorities: [`${counselorName} 상담원 시스템 재평가 필요`]
+        },
+        problematic_chats: [],
+        overall_comment: `${counselorName} 상담원 평가 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`,
+        raw_data: buildRawData(counselor)
+      };
+
+      evaluationResults.push(defaultEvaluation);
+      await hooks.onCounselorFailed?.(counselorId, error);
+    }
+
+    sendProgress(30 + ((i + 1) * 60) / counselorIds.length, `${counselorName} 평가 완료`, {
+      current: i + 1,
+      total: counselorIds.length,
+      managerName: counselorName,
+      usage: UsageAccounting.merge(counselorUsages)
+    });
+  }
+
+  sendProgress(95, '평가 결과 정리 중...');
+  sendDebug(`총 ${evaluationResults.length}명의 상담원 평가 완료`);
+  if (pendingCounselors.length > 0) {
+    sendDebug(
+      `취소·예산 한도로 평가하지 못한 상담원 ${pendingCounselors.length}명 (${pendingCounselors.map(id => managerNames[id]).join(', ')}) - 부분 결과`
+    );
+  }
+  if (partialCounselors.length > 0) {
+    sendDebug(
+      `취소·예산 한도로 일부 상담만 평가한 상담원 ${partialCounselors.length}명 (${partialCounselors.map(id => managerNames[id]).join(', ')})`
+    );
+  }
+
+  // 팀 평균 대비 문제 상담원 판정 (평가 기준 relative_threshold)
+  const assessedResults = evaluationResults.filter(evaluation => evaluation.assessment);
+  if (assessedResults.length > 1) {
+    const teamAverage =
+      assessedResults.reduce((sum, evaluation) => sum + evaluation.scores.total_score, 0) / assessedResults.length;
+    assessedResults.forEach(evaluation => {
+      evaluation.assessment = scoringEngine.assess(evaluation.scores, teamAverage);
+      if (evaluation.assessment.problematic) {
+        sendDebug(
+          `${evaluation.counselor_name}: 기준 미달 (${evaluation.assessment.severity}) - ${evaluation.assessment.reasons.join(' / ')}`
+        );
+      }
+    });
+  }
+
+  // 문제 상담 통계 출력
+  const totalProblematicChats = evaluationResults.reduce(
+    (sum, evaluation) => sum + (evaluation.problematic_chats?.length || 0),
+    0
+  );
+  sendDebug(`전체 문제 상담: ${totalProblematicChats}건 식별됨`);
+
+  evaluationResults.forEach(evaluation => {
+    if (evaluation.problematic_chats && evaluation.problematic_chats.length > 0) {
+      sendDebug(`${evaluation.counselor_name}: ${evaluation.problematic_chats.length}건의 문제 상담 발견`);
+    }
+  });
+
+  const usage = UsageAccounting.merge(counselorUsages);
+  sendDebug(
+    `전체 사용량: 토큰 ${usage.tokens.total} (입력 ${usage.tokens.input}, 출력 ${usage.tokens.output}), 비용 $${usage.cost.total.toFixed(4)}`
+  );
+
+  return {
+    evaluations: evaluationResults,
+    handoffReview,
+    excludedChats,
+    criteriaVersion: criteria.version,
+    usage,
+    failedCounselors,
+    partial: pendingCounselors.length > 0 || partialCounselors.length > 0,
+    cancelled: hooks.control?.isCancelled() === true,
+    pendingCounselors,
+    partialCounselors
+  };
+}
@@ -0,0 +1,127 @@
+import { createCancelledError } from '@/lib/integration/cancellation';
+
+export type RunControlState = 'running' | 'paused' | 'cancelled';
+export type RunControlAction = 'pause' | 'resume' | 'cancel';
+
+/**
+ * 실행 중인 평가의 일시정지/재개/취소 제어
+ * 취소는 signal로 진행 중인 Provider HTTP 호출까지 중단하고, 일시정지는 다음 평가 단위(상담/상담원) 시작 전에 적용
+ */
+export class RunControl {
+  private controller = new AbortController();
+  private state: RunControlState = 'running';
+  private waiters: Array<() => void> = [];
+  private listeners: Array<(state: RunControlState) => void> = [];
+
+  /**
+   * parentSignal(예: 요청의 request.signal)이 중단되면 함께 취소
+   */
+  constructor(parentSignal?: AbortSignal) {
+    if (parentSignal?.aborted) {
+      this.cancel();
+    } else {
+      parentSignal?.addEventListener('abort', () => this.cancel(), { once: true });
+    }
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  getState(): RunControlState {
+    return this.state;
+  }
+
+  isCancelled(): boolean {
+    return this.state === 'cancelled';
+  }
+
+  pause(): boolean {
+    if (this.state !== 'running') return false;
+    this.setState('paused');
+    return true;
+  }
+
+  resume(): boolean {
+    if (this.state !== 'paused') return false;
+    this.setState('running');
+    this.release();
+    return true;
+  }
+
+  cancel(): boolean {
+    if (this.state === 'cancelled') return false;
+    this.setState('cancelled');
+    this.controller.abort();
+    this.release();
+    return true;
+  }
+
+  apply(action: RunControlAction): boolean {
+    switch (action) {
+      case 'pause':
+        return this.pause();
+      case 'resume':
+        return this.resume();
+      case 'cancel':
+        return this.cancel();
+      default:
+        throw new Error(`지원하지 않는 제어 동작입니다: ${action}`);
+    }
+  }
+
+  /**
+   * 다음 평가 단위 시작 전 호출 (일시정지 중이면 재개될 때까지 대기, 취소되었으면 취소 오류)
+   */
+  async proceed(): Promise<void> {
+    while (this.state === 'paused') {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    if (this.state === 'cancelled') {
+      throw createCancelledError();
+    }
+  }
+
+  onStateChange(listener: (state: RunControlState) => void): void {
+    this.listeners.push(listener);
+  }
+
+  private setState(state: RunControlState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private release(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+/**
+ * 실행 ID(배치 runId, 평가 작업 ID)별 제어 객체 등록소
+ * 제어 API 요청은 평가를 실행 중인 요청과 다른 요청이므로 프로세스 내 등록소로 연결
+ */
+export class RunControlRegistry {
+  private static instance: RunControlRegistry;
+  private controls = new Map<string, RunControl>();
+
+  static getInstance(): RunControlRegistry {
+    if (!this.instance) {
+      this.instance = new RunControlRegistry();
+    }
+    return this.instance;
+  }
+
+  register(runId: string, control: RunControl): void {
+    this.controls.set(runId, control);
+  }
+
+  get(runId: string): RunControl | undefined {
+    return this.controls.get(runId);
+  }
+
+  unregister(runId: string): void {
+    this.controls.delete(runId);
+  }
+}
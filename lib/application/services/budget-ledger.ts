@@ -0,0 +1,95 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { UsageAccounting } from '@/lib/domain/usage-accounting';
+import { UsageSummary } from '@/lib/types/evaluation';
+
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+export interface MonthlyUsage {
+  month: string;
+  usage: UsageSummary;
+  runs: Record<string, {
+    startedAt: string;
+    updatedAt: string;
+    chats: number;
+    usage: UsageSummary;
+  }>;
+}
+
+/**
+ * 월별 평가 비용 장부
+ * 배치 실행마다 상담 평가 사용량을 누적해 월 예산 한도 판단에 사용
+ * USAGE_LEDGER_DIR(기본 data/usage)에 월별 JSON 파일(YYYY-MM.json)로 저장
+ */
+export class BudgetLedger {
+  private static instance: BudgetLedger;
+  private ledgerDir: string;
+
+  private constructor() {
+    this.ledgerDir = process.env.USAGE_LEDGER_DIR || join(process.cwd(), 'data', 'usage');
+  }
+
+  static getInstance(): BudgetLedger {
+    if (!this.instance) {
+      this.instance = new BudgetLedger();
+    }
+    return this.instance;
+  }
+
+  /**
+   * 월 사용량 조회 (기본 이번 달)
+   */
+  getMonth(month: string = this.currentMonth()): MonthlyUsage {
+    if (!MONTH_PATTERN.test(month)) {
+      throw new Error(`유효하지 않은 월 형식입니다 (YYYY-MM): ${month}`);
+    }
+
+    const filePath = this.getFilePath(month);
+    if (!existsSync(filePath)) {
+      return { month, usage: UsageAccounting.emptySummary(), runs: {} };
+    }
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      console.error(`[BudgetLedger] 장부 파일 읽기 실패 (${filePath}):`, error);
+      throw new Error(`비용 장부를 읽을 수 없습니다: ${month}`);
+    }
+  }
+
+  getMonthSpent(month?: string): number {
+    return this.getMonth(month).usage.cost.total;
+  }
+
+  /**
+   * 상담 1건 평가 사용량 기록
+   */
+  record(runId: string, usage: UsageSummary | undefined): void {
+    if (!usage) return;
+
+    const now = new Date().toISOString();
+    const ledger = this.getMonth();
+    const run = ledger.runs[runId] || { startedAt: now, updatedAt: now, chats: 0, usage: UsageAccounting.emptySummary() };
+
+    ledger.usage = UsageAccounting.merge([ledger.usage, usage]);
+    ledger.runs[runId] = {
+      ...run,
+      updatedAt: now,
+      chats: run.chats + 1,
+      usage: UsageAccounting.merge([run.usage, usage])
+    };
+
+    if (!existsSync(this.ledgerDir)) {
+      mkdirSync(this.ledgerDir, { recursive: true });
+    }
+    writeFileSync(this.getFilePath(ledger.month), JSON.stringify(ledger, null, 2));
+  }
+
+  private getFilePath(month: string): string {
+    return join(this.ledgerDir, `${month}.json`);
+  }
+
+  private currentMonth(): string {
+    return new Date().toISOString().slice(0, 7);
+  }
+}
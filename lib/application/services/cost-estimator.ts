@@ -0,0 +1,178 @@
+import { ConfigManager } from '@/lib/config/manager';
+import { PromptRenderer } from '@/lib/integration/prompt-renderer';
+import { UsageAccounting } from '@/lib/domain/usage-accounting';
+import {
+  BudgetConfig,
+  BudgetStatus,
+  ChatSession,
+  CostBreakdown,
+  CostForecast,
+  ModelConfig,
+  ProviderConfig,
+  ProviderCostForecast,
+  ProviderOverrides
+} from '@/lib/types/evaluation';
+
+export const DEFAULT_BUDGET: BudgetConfig = {
+  on_limit: 'pause',
+  estimate: {
+    output_tokens: 800,
+    reasoning_tokens: { minimal: 0, low: 1000, medium: 2500, high: 6000 }
+  }
+};
+
+// reasoningEffort 설정이 없지만 기본으로 추론(thinking)하는 Provider
+const DEFAULT_REASONING_EFFORT: Record<string, string> = {
+  'gemini-25': 'medium'
+};
+
+/**
+ * 배치 평가 사전 비용 추정
+ * 업로드된 상담마다 실제 평가 프롬프트를 렌더링해 입력 토큰을 계산하고, 출력/추론 토큰은 budget.estimate 기준으로 추정
+ */
+export class CostEstimator {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  /**
+   * 활성 Provider별 토큰/비용 추정
+   */
+  forecast(sessions: ChatSession[], monthSpent: number, budgetOverride?: Partial<BudgetConfig>): CostForecast {
+    const modelConfig = this.configManager.getModelConfig();
+    const budget = this.getBudget(budgetOverride);
+    const providers = this.forecastProviders(sessions, modelConfig, budget);
+    const totals = this.sumSelected(providers);
+
+    const forecast: CostForecast = {
+      chats: sessions.length,
+      providers,
+      tokens: totals.tokens,
+      cost: totals.cost,
+      perChatCost: sessions.length > 0 ? totals.cost.total / sessions.length : 0,
+      budget: this.getStatus(budget, monthSpent, totals.cost.total)
+    };
+
+    if (budget.downgrade && Object.keys(budget.downgrade).length > 0) {
+      const downgradedProviders = this.forecastProviders(sessions, modelConfig, budget, budget.downgrade);
+      const downgradedTotals = this.sumSelected(downgradedProviders);
+      forecast.downgraded = {
+        providers: downgradedProviders,
+        cost: downgradedTotals.cost,
+        perChatCost: sessions.length > 0 ? downgradedTotals.cost.total / sessions.length : 0
+      };
+    }
+
+    return forecast;
+  }
+
+  /**
+   * models.json budget 설정 (요청별 덮어쓰기 포함)
+   */
+  getBudget(override?: Partial<BudgetConfig>): BudgetConfig {
+    const configured = this.configManager.getModelConfig().budget;
+    return {
+      ...DEFAULT_BUDGET,
+      ...configured,
+      ...override,
+      estimate: { ...DEFAULT_BUDGET.estimate!, ...configured?.estimate, ...override?.estimate }
+    };
+  }
+
+  /**
+   * 한도 대비 현재 상태
+   */
+  getStatus(budget: BudgetConfig, monthSpent: number, expectedCost: number = 0): BudgetStatus {
+    const perRunLimit = budget.per_run_usd || undefined;
+    const perMonthLimit = budget.per_month_usd || undefined;
+
+    return {
+      month: new Date().toISOString().slice(0, 7),
+      monthSpent,
+      perRunLimit,
+      perMonthLimit,
+      monthRemaining: perMonthLimit !== undefined ? Math.max(0, perMonthLimit - monthSpent) : undefined,
+      onLimit: budget.on_limit,
+      exceedsRunLimit: perRunLimit !== undefined && expectedCost > perRunLimit,
+      exceedsMonthLimit: perMonthLimit !== undefined && monthSpent + expectedCost > perMonthLimit
+    };
+  }
+
+  private forecastProviders(
+    sessions: ChatSession[],
+    modelConfig: ModelConfig,
+    budget: BudgetConfig,
+    overrides?: ProviderOverrides
+  ): ProviderCostForecast[] {
+    const renderer = new PromptRenderer(this.configManager.getPromptTemplate());
+    const criteria = this.configManager.getEvaluationCriteria();
+    const selected = this.selectProviders(modelConfig);
+
+    return Object.entries(modelConfig.providers)
+      .filter(([_, config]) => config.enabled)
+      .map(([provider, baseConfig]) => {
+        const config: ProviderConfig = { ...baseConfig, ...overrides?.[provider] };
+        const reasoningEffort = config.reasoningEffort || DEFAULT_REASONING_EFFORT[provider];
+        const charsPerToken = UsageAccounting.charsPerToken(provider);
+
+        const input = sessions.reduce((sum, session) => {
+          const { system, user } = renderer.render(provider, config.model, { session, criteria });
+          return sum + Math.ceil(`${system}\n\n${user}`.length / charsPerToken);
+        }, 0);
+        const reasoning = sessions.length * (reasoningEffort ? budget.estimate!.reasoning_tokens[reasoningEffort] || 0 : 0);
+        const output = sessions.length * budget.estimate!.output_tokens + reasoning;
+
+        const tokens = { input, output, reasoning, total: input + output };
+        const cost = UsageAccounting.cost({ ...tokens, estimated: true }, UsageAccounting.modelCost(config));
+
+        return {
+          provider,
+          model: config.model,
+          reasoningEffort,
+          selected: selected.includes(provider),
+          chats: sessions.length,
+          tokens,
+          cost,
+          perChatCost: sessions.length > 0 ? cost.total / sessions.length : 0
+        };
+      });
+  }
+
+  /**
+   * 평가에 사용될 Provider (ProviderFactory.getProvidersForEvaluation과 같은 기준)
+   */
+  private selectProviders(modelConfig: ModelConfig): string[] {
+    const enabled = Object.entries(modelConfig.providers)
+      .filter(([_, config]) => config.enabled)
+      .map(([provider]) => provider);
+    const { multi_llm, min_providers, fallback_to_single } = modelConfig.evaluation_mode;
+
+    if (multi_llm && enabled.length >= min_providers) {
+      return enabled.slice(0, min_providers);
+    }
+    return fallback_to_single ? enabled.slice(0, 1) : [];
+  }
+
+  private sumSelected(providers: ProviderCostForecast[]): { tokens: ProviderCostForecast['tokens']; cost: CostBreakdown } {
+    return providers
+      .filter(provider => provider.selected)
+      .reduce((sum, provider) => ({
+        tokens: {
+          input: sum.tokens.input + provider.tokens.input,
+          output: sum.tokens.output + provider.tokens.output,
+          reasoning: sum.tokens.reasoning + provider.tokens.reasoning,
+          total: sum.tokens.total + provider.tokens.total
+        },
+        cost: {
+          input: sum.cost.input + provider.cost.input,
+          output: sum.cost.output + provider.cost.output,
+          total: sum.cost.total + provider.cost.total
+        }
+      }), {
+        tokens: { input: 0, output: 0, reasoning: 0, total: 0 },
+        cost: { input: 0, output: 0, total: 0 }
+      });
+  }
+}
@@ -0,0 +1,270 @@
+import { runCounselorAnalysis } from '@/lib/application/counselor-analysis';
+import { RunControl, RunControlAction } from '@/lib/application/run-control';
+import {
+  EvaluationJob,
+  EvaluationJobStore,
+  EvaluationJobSummary
+} from '@/lib/application/services/evaluation-job-store';
+import { ConfigManager } from '@/lib/config/manager';
+import { RateLimiterRegistry } from '@/lib/integration/rate-limiter';
+import { CounselorEvaluationMode } from '@/lib/types/evaluation';
+
+// 실행 중인 작업은 주기적으로 updatedAt을 갱신하고, 갱신이 멈춘 작업은 중단된 것으로 판단
+const HEARTBEAT_INTERVAL_MS = 15000;
+const STALE_AFTER_MS = 60000;
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+export interface EvaluationJobSubmission {
+  userData: any[];
+  chatData: any[];
+  messageData: any[];
+  guidelines?: string;
+  evaluationMode?: CounselorEvaluationMode;
+}
+
+/**
+ * 상담원별 종합 평가 작업 실행기
+ * 요청 스트림과 분리해 백그라운드에서 평가하고, 상담원 평가가 끝날 때마다 체크포인트를 저장
+ * 프로세스 종료/타임아웃으로 중단되거나 취소된 작업은 resume()으로 마지막 체크포인트부터 이어서 평가
+ */
+export class EvaluationJobRunner {
+  private static instance: EvaluationJobRunner;
+  private store: EvaluationJobStore;
+  private active = new Map<string, RunControl>();
+
+  private constructor() {
+    this.store = EvaluationJobStore.getInstance();
+  }
+
+  static getInstance(): EvaluationJobRunner {
+    if (!this.instance) {
+      this.instance = new EvaluationJobRunner();
+    }
+    return this.instance;
+  }
+
+  /**
+   * 평가 작업 등록 후 바로 실행 (평가 기준 버전, 가이드라인, 평가 방식은 등록 시점 값으로 고정)
+   */
+  submit(submission: EvaluationJobSubmission): EvaluationJob {
+    const configManager = ConfigManager.getInstance();
+    const guidelines = submission.guidelines || configManager.getPromptTemplate().guidelines.counselor || '';
+    const criteriaVersion = configManager.getActiveCriteriaVersion();
+    const evaluationMode = submission.evaluationMode || 'comprehensive';
+    const now = new Date().toISOString();
+
+    const job: EvaluationJob = {
+      id: `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+      attempts: 0,
+      criteriaVersion,
+      evaluationMode,
+      counts: {
+        users: submission.userData.length,
+        chats: submission.chatData.length,
+        messages: submission.messageData.length
+      },
+      progress: { percent: 0, message: '대기 중...' },
+      checkpoint: { evaluations: {}, usages: {} },
+      failedCounselors: [],
+      logs: [],
+      logOffset: 0
+    };
+
+    this.store.create(job, {
+      userData: submission.userData,
+      chatData: submission.chatData,
+      messageData: submission.messageData,
+      guidelines,
+      criteriaVersion,
+      evaluationMode
+    });
+    console.log(`[EvaluationJobRunner] 작업 등록: ${job.id} (상담 ${job.counts.chats}건, 평가 기준 v${criteriaVersion}, ${evaluationMode})`);
+
+    this.start(job.id);
+    return job;
+  }
+
+  /**
+   * 작업 조회 (갱신이 멈춘 실행 중 작업은 interrupted로 표시)
+   */
+  getJob(jobId: string): EvaluationJob | null {
+    const job = this.store.get(jobId);
+    return job ? this.withLiveness(job) : null;
+  }
+
+  listJobs(): EvaluationJobSummary[] {
+    return this.store.list().map(job => EvaluationJobStore.summarize(this.withLiveness(job)));
+  }
+
+  /**
+   * 재개 가능 여부 (중단/취소/실패 작업, 또는 일부 상담원 평가가 실패했거나 일부 상담만 평가한 완료 작업)
+   */
+  canResume(job: EvaluationJob): boolean {
+    return job.status === 'interrupted' ||
+      job.status === 'cancelled' ||
+      job.status === 'failed' ||
+      (job.status === 'completed' && (job.failedCounselors.length > 0 || job.result?.partial === true));
+  }
+
+  /**
+   * 마지막 체크포인트부터 다시 실행 (체크포인트에 없는 상담원만 평가)
+   */
+  resume(jobId: string): EvaluationJob {
+    const job = this.getJob(jobId);
+    if (!job) {
+      throw new Error(`평가 작업을 찾을 수 없습니다: ${jobId}`);
+    }
+    if (!this.canResume(job)) {
+      throw new Error(`재개할 수 없는 작업 상태입니다: ${job.status}`);
+    }
+
+    job.status = 'queued';
+    job.progress = { ...job.progress, message: '재개 대기 중...' };
+    this.store.save(job);
+    console.log(`[EvaluationJobRunner] 작업 재개: ${jobId} (완료된 상담원 ${Object.keys(job.checkpoint.evaluations).length}명)`);
+
+    this.start(jobId);
+    return job;
+  }
+
+  isActive(jobId: string): boolean {
+    return this.active.has(jobId);
+  }
+
+  /**
+   * 실행 중인 작업 일시정지/재개/취소 (이 프로세스에서 실행 중인 작업만 제어 가능)
+   */
+  control(jobId: string, action: RunControlAction): boolean {
+    const control = this.active.get(jobId);
+    if (!control) return false;
+
+    console.log(`[EvaluationJobRunner] 작업 제어: ${jobId} (${action})`);
+    return control.apply(action);
+  }
+
+  private start(jobId: string): void {
+    this.active.set(jobId, new RunControl());
+    this.execute(jobId)
+      .catch(error => console.error(`[EvaluationJobRunner] 작업 실행 오류 (${jobId}):`, error))
+      .finally(() => this.active.delete(jobId));
+  }
+
+  private async execute(jobId: string): Promise<void> {
+    const job = this.store.get(jobId);
+    const input = this.store.getInput(jobId);
+    if (!job || !input) {
+      throw new Error(`작업 데이터를 찾을 수 없습니다: ${jobId}`);
+    }
+
+    job.status = 'running';
+    job.attempts++;
+    job.startedAt = job.startedAt || new Date().toISOString();
+    job.failedCounselors = [];
+    delete job.completedAt;
+    delete job.error;
+    delete job.result;
+    if (job.attempts > 1) {
+      job.logs.push(`=== 작업 재개 (${job.attempts}번째 실행, 완료된 상담원 ${Object.keys(job.checkpoint.evaluations).length}명) ===`);
+    }
+    this.store.save(job);
+
+    const control = this.active.get(jobId);
+    control?.onStateChange(state => {
+      if (state === 'paused') {
+        job.status = 'paused';
+        job.logs.push('=== 작업 일시정지 (진행 중인 상담원 평가 후 멈춤) ===');
+      } else if (state === 'running') {
+        job.status = 'running';
+        job.logs.push('=== 작업 재개 ===');
+      } else {
+        job.logs.push('=== 작업 취소 요청 (진행 중인 Provider 호출 중단) ===');
+      }
+      this.store.save(job);
+    });
+
+    const heartbeat = setInterval(() => this.store.save(job), HEARTBEAT_INTERVAL_MS);
+    let lastProgressSave = 0;
+    const saveProgress = () => {
+      if (Date.now() - lastProgressSave >= PROGRESS_SAVE_INTERVAL_MS) {
+        lastProgressSave = Date.now();
+        this.store.save(job);
+      }
+    };
+
+    // Provider 호출 한도 대기열 현황을 진행 상황에 함께 기록 (한도 대기 중에도 갱신)
+    const rateLimiters = RateLimiterRegistry.getInstance();
+    const unsubscribeRateLimit = rateLimiters.subscribe(rateLimit => {
+      job.progress = { ...job.progress, details: { ...job.progress.details, rateLimit } };
+      saveProgress();
+    });
+
+    try {
+      const result = await runCounselorAnalysis(input, {
+        progress: (percent, message, details) => {
+          job.progress = { percent, message, details: { ...details, rateLimit: rateLimiters.getStatus() } };
+          saveProgress();
+        },
+        debug: info => {
+          console.log(info);
+          job.logs.push(info);
+        },
+        checkpoint: job.checkpoint,
+        control,
+        runId: jobId,
+        onCounselorEvaluated: (counselorId, evaluation, usage) => {
+          job.checkpoint.evaluations[counselorId] = evaluation;
+          job.checkpoint.usages[counselorId] = usage;
+          this.store.save(job);
+        },
+        onCounselorFailed: counselorId => {
+          job.failedCounselors.push(counselorId);
+          this.store.save(job);
+        }
+      });
+
+      job.result = result;
+      job.completedAt = new Date().toISOString();
+
+      if (result.cancelled) {
+        // 취소 전까지 평가한 상담원만 포함된 부분 결과
+        job.status = 'cancelled';
+        job.progress = {
+          percent: job.progress.percent,
+          message: `평가 취소됨 - 부분 결과 (미평가 상담원 ${result.pendingCounselors.length}명, 일부 상담만 평가 ${result.partialCounselors.length}명)`
+        };
+        console.log(`[EvaluationJobRunner] 작업 취소: ${jobId} (평가 완료 ${result.evaluations.length}명, 미평가 ${result.pendingCounselors.length}명, 부분 평가 ${result.partialCounselors.length}명)`);
+      } else {
+        job.status = 'completed';
+        job.progress = {
+          percent: 100,
+          message: result.partial
+            ? `상담원별 종합 평가 완료 - 부분 결과 (예산 한도로 미평가 상담원 ${result.pendingCounselors.length}명, 일부 상담만 평가 ${result.partialCounselors.length}명)`
+            : '상담원별 종합 평가 완료!'
+        };
+        console.log(`[EvaluationJobRunner] 작업 완료: ${jobId} (상담원 ${result.evaluations.length}명, 실패 ${result.failedCounselors.length}명, 부분 평가 ${result.partialCounselors.length}명)`);
+      }
+    } catch (error) {
+      console.error(`[EvaluationJobRunner] 작업 실패 (${jobId}):`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.';
+      job.logs.push(`작업 실패: ${job.error}`);
+    } finally {
+      clearInterval(heartbeat);
+      unsubscribeRateLimit();
+      this.store.save(job);
+    }
+  }
+
+  private withLiveness(job: EvaluationJob): EvaluationJob {
+    const pending = job.status === 'running' || job.status === 'paused' || job.status === 'queued';
+    const stale = Date.now() - new Date(job.updatedAt).getTime() > STALE_AFTER_MS;
+
+    if (pending && !this.active.has(job.id) && stale) {
+      return { ...job, status: 'interrupted' };
+    }
+    return job;
+  }
+}
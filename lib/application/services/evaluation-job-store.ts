@@ -0,0 +1,129 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  CounselorAnalysisCheckpoint,
+  CounselorAnalysisInput,
+  CounselorAnalysisResult
+} from '@/lib/application/counselor-analysis';
+import { CounselorEvaluationMode } from '@/lib/types/evaluation';
+
+const JOB_ID_PATTERN = /^job-[a-z0-9-]+$/;
+const MAX_LOGS = 1000;
+
+export type EvaluationJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed' | 'interrupted';
+
+export interface EvaluationJob {
+  id: string;
+  status: EvaluationJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  attempts: number;
+  criteriaVersion: string;
+  /** 평가 방식 (이전에 등록된 작업은 없음 = comprehensive) */
+  evaluationMode?: CounselorEvaluationMode;
+  counts: { users: number; chats: number; messages: number };
+  progress: { percent: number; message: string; details?: any };
+  checkpoint: CounselorAnalysisCheckpoint;
+  failedCounselors: string[];
+  // 오래된 디버그 로그는 잘라내고 logOffset에 잘린 개수를 기록 (로그 커서 = logOffset + logs.length)
+  logs: string[];
+  logOffset: number;
+  result?: CounselorAnalysisResult;
+  error?: string;
+}
+
+export type EvaluationJobSummary = Omit<EvaluationJob, 'checkpoint' | 'logs' | 'result'> & {
+  completedCounselors: number;
+};
+
+/**
+ * 상담원별 종합 평가 작업 저장소
+ * 작업마다 디렉터리를 만들어 입력 데이터(input.json)와 진행 상태/체크포인트(job.json)를 분리 저장
+ * EVALUATION_JOBS_DIR(기본 data/jobs) 아래에 저장하며, 쓰기 도중 중단되어도 파일이 깨지지 않도록 임시 파일 후 교체
+ */
+export class EvaluationJobStore {
+  private static instance: EvaluationJobStore;
+  private jobsDir: string;
+
+  private constructor() {
+    this.jobsDir = process.env.EVALUATION_JOBS_DIR || join(process.cwd(), 'data', 'jobs');
+  }
+
+  static getInstance(): EvaluationJobStore {
+    if (!this.instance) {
+      this.instance = new EvaluationJobStore();
+    }
+    return this.instance;
+  }
+
+  create(job: EvaluationJob, input: CounselorAnalysisInput): void {
+    const jobDir = this.getJobDir(job.id);
+    mkdirSync(jobDir, { recursive: true });
+    this.writeJson(join(jobDir, 'input.json'), input);
+    this.save(job);
+  }
+
+  get(jobId: string): EvaluationJob | null {
+    if (!JOB_ID_PATTERN.test(jobId)) return null;
+    return this.readJson<EvaluationJob>(join(this.getJobDir(jobId), 'job.json'));
+  }
+
+  getInput(jobId: string): CounselorAnalysisInput | null {
+    return this.readJson<CounselorAnalysisInput>(join(this.getJobDir(jobId), 'input.json'));
+  }
+
+  save(job: EvaluationJob): void {
+    if (job.logs.length > MAX_LOGS) {
+      const dropped = job.logs.length - MAX_LOGS;
+      job.logs = job.logs.slice(dropped);
+      job.logOffset += dropped;
+    }
+
+    job.updatedAt = new Date().toISOString();
+    this.writeJson(join(this.getJobDir(job.id), 'job.json'), job);
+  }
+
+  /**
+   * 작업 목록 (최근 생성 순)
+   */
+  list(): EvaluationJob[] {
+    if (!existsSync(this.jobsDir)) return [];
+
+    return readdirSync(this.jobsDir)
+      .filter(jobId => JOB_ID_PATTERN.test(jobId))
+      .map(jobId => this.get(jobId))
+      .filter((job): job is EvaluationJob => job !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  static summarize(job: EvaluationJob): EvaluationJobSummary {
+    const { checkpoint, logs, result, ...summary } = job;
+    return { ...summary, completedCounselors: Object.keys(checkpoint.evaluations).length };
+  }
+
+  private getJobDir(jobId: string): string {
+    if (!JOB_ID_PATTERN.test(jobId)) {
+      throw new Error(`유효하지 않은 작업 ID입니다: ${jobId}`);
+    }
+    return join(this.jobsDir, jobId);
+  }
+
+  private readJson<T>(filePath: string): T | null {
+    if (!existsSync(filePath)) return null;
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      console.error(`[EvaluationJobStore] 작업 파일 읽기 실패 (${filePath}):`, error);
+      return null;
+    }
+  }
+
+  private writeJson(filePath: string, data: unknown): void {
+    const tempPath = `${filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(data));
+    renameSync(tempPath, filePath);
+  }
+}
@@ -1,13 +1,54 @@
 import { EvaluationOrchestrator } from '@/lib/integration/evaluation-orchestrator';
+import { isCancelledError } from '@/lib/integration/cancellation';
+import { RateLimiterRegistry } from '@/lib/integration/rate-limiter';
+import { CircuitBreakerStatus } from '@/lib/integration/circuit-breaker';
+import { CacheHitSummary, ResponseCache } from '@/lib/integration/response-cache';
+import { RunControl } from '@/lib/application/run-control';
 import { EvaluationValidator } from '@/lib/domain/evaluation-validator';
 import { ConfigManager } from '@/lib/config/manager';
+import { CounselorRosterService } from '@/lib/config/counselor-roster';
+import { PromptRenderer } from '@/lib/integration/prompt-renderer';
+import { OperatingHoursCalendar } from '@/lib/domain/operating-hours-calendar';
+import { UsageAccounting } from '@/lib/domain/usage-accounting';
+import { BudgetGuard, createBudgetExceededError } from '@/lib/domain/budget-guard';
+import { CostEstimator } from './cost-estimator';
+import { BudgetLedger } from './budget-ledger';
 import { 
   EvaluationRequest, 
   ConsolidatedResult, 
   ChatSession,
-  EvaluationCriteria 
+  EvaluationCriteria,
+  CounselorEvaluationRequest,
+  ConsolidatedCounselorResult,
+  BatchBudgetReport,
+  BudgetConfig,
+  CostForecast,
+  PromptTemplateVersion,
+  ProviderOverrides,
+  RenderedPrompt,
+  UsageSummary
 } from '@/lib/types/evaluation';
 
+export interface BatchBudgetState {
+  expectedCost: number;
+  overrides?: ProviderOverrides;
+  paused: boolean;
+  reason?: string;
+}
+
+/**
+ * 배치 평가 예산 실행
+ * 여러 배치가 공유하면 실행당 한도, 하향 모델 전환, 한도 도달 후 중단이 배치 사이에 이어짐
+ */
+export interface BudgetRun {
+  /** 월 비용 장부에 기록할 실행 ID */
+  runId: string;
+  budget: BudgetConfig;
+  forecast: CostForecast;
+  guard: BudgetGuard;
+  state: BatchBudgetState;
+}
+
 /**
  * Multi-LLM 평가 서비스
  * 전체 평가 프로세스를 조율하고 관리하는 핵심 Application Service
@@ -68,6 +109,12 @@ export class MultiLLMEvaluationService {
       generateReport?: boolean;
       includeAdvancedAnalysis?: boolean;
       timeout?: number;
+      /** Provider 설정 덮어쓰기 (예산 한도 도달 시 하향 모델 등) */
+      providerOverrides?: ProviderOverrides;
+      /** 평가에 사용할 평가 기준 버전 (미지정 시 활성 버전) */
+      criteriaVersion?: string;
+      /** 사용자 취소 신호 */
+      signal?: AbortSignal;
     }
   ): Promise<{
     result: ConsolidatedResult;
@@ -94,7 +141,10 @@ export class MultiLLMEvaluationService {
       const evaluationRequest = await this.buildEvaluationRequest(chatSession, options);
       
       // Multi-LLM 평가 실행
-      const evaluationResult = await this.orchestrator.evaluateChat(evaluationRequest);
+      const evaluationResult = await this.orchestrator.evaluateChat(evaluationRequest, {
+        providerOverrides: options?.providerOverrides,
+        signal: options?.signal
+      });
       
       // 결과 검증
       const validation = await this.validator.validateEvaluationResults(
@@ -124,6 +174,8 @@ export class MultiLLMEvaluationService {
               id: providerId,
               name: providerId === 'openai-gpt5' ? 'GPT-5-mini' : 
                     providerId === 'gemini-25' ? 'Gemini 2.5' : 
+                    providerId === 'anthropic' ? 'Claude' : 
+                    providerId === 'local' ? '로컬 모델' : 
                     providerId === 'openai' ? 'GPT-4' : providerId,
               model: providerConfig.model,
               temperature: providerConfig.temperature,
@@ -153,11 +205,125 @@ export class MultiLLMEvaluationService {
         ...(validation.report && { report: validation.report })
       };
     } catch (error) {
-      console.error(`[MultiLLMEvaluationService] 평가 실패 (${chatSession.chatId}):`, error);
+      if (isCancelledError(error)) {
+        console.log(`[MultiLLMEvaluationService] 평가 취소 (${chatSession.chatId})`);
+      } else {
+        console.error(`[MultiLLMEvaluationService] 평가 실패 (${chatSession.chatId}):`, error);
+      }
       throw error;
     }
   }
 
+  /**
+   * 상담원 종합 평가
+   * 상담원의 전체 상담을 하나의 프롬프트로 구성하여 활성화된 Provider들로 평가
+   */
+  async evaluateCounselor(
+    request: CounselorEvaluationRequest,
+    options?: {
+      strictValidation?: boolean;
+      /** 사용자 취소 신호 */
+      signal?: AbortSignal;
+      /** 월 비용 장부에 기록할 실행 ID */
+      runId?: string;
+    }
+  ): Promise<{
+    result: ConsolidatedCounselorResult;
+    validation: any;
+    metadata: {
+      processingTime: number;
+      timestamp: string;
+      providersUsed: string[];
+      totalCost: number;
+      providerCosts: Record<string, number>;
+      usage: UsageSummary;
+      promptLength: number;
+      promptTemplate: PromptTemplateVersion;
+    };
+  }> {
+    const startTime = Date.now();
+    const runId = options?.runId || `counselor-${request.counselorId}-${startTime}`;
+
+    try {
+      console.log(`[MultiLLMEvaluationService] 상담원 종합 평가 시작: ${request.counselorName} (${request.chats.length}건)`);
+
+      // 초기화 확인
+      if (!this.isInitialized) {
+        await this.initialize();
+      }
+
+      // 월 한도에 도달했으면 Provider를 호출하지 않음
+      const limitReason = this.getMonthLimitReason();
+      if (limitReason) {
+        throw createBudgetExceededError(limitReason);
+      }
+
+      const criteria = this.configManager.getEvaluationCriteria(request.criteriaVersion);
+      const prompt = this.renderCounselorPrompt(request, criteria);
+
+      // Multi-LLM 평가 실행
+      const result = await this.orchestrator.evaluateCounselor(prompt, criteria, options?.signal);
+      const usage = result.usage || UsageAccounting.summarize(result.providers.filter(p => p.success || p.usage));
+      this.recordUsage(runId, usage);
+
+      // 결과 검증
+      const validation = await this.validator.validateEvaluationResults(result.providers, {
+        strictMode: options?.strictValidation
+      });
+
+      if (!validation.isValid && options?.strictValidation) {
+        throw new Error(`평가 결과 검증 실패: ${validation.recommendations.join(', ')}`);
+      }
+
+      const metadata = {
+        processingTime: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        providersUsed: result.providers.map(p => p.name),
+        totalCost: result.metadata.totalCost,
+        providerCosts: Object.fromEntries(result.providers.map(p => [p.name, p.cost])),
+        usage,
+        promptLength: prompt.user.length,
+        promptTemplate: prompt.template
+      };
+
+      console.log(`[MultiLLMEvaluationService] 상담원 종합 평가 완료: ${metadata.processingTime}ms`);
+
+      return { result, validation, metadata };
+    } catch (error) {
+      // 실패·취소된 평가도 응답을 받은 호출의 비용은 장부에 기록
+      this.recordUsage(runId, (error as any)?.usage);
+
+      if (isCancelledError(error)) {
+        console.log(`[MultiLLMEvaluationService] 상담원 종합 평가 취소 (${request.counselorId})`);
+      } else {
+        console.error(`[MultiLLMEvaluationService] 상담원 종합 평가 실패 (${request.counselorId}):`, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 사전 비용 추정과 예산 한도를 담은 예산 실행 생성
+   */
+  createBudgetRun(chatSessions: ChatSession[], options: { runId: string; budget?: Partial<BudgetConfig> }): BudgetRun {
+    const estimator = new CostEstimator();
+    const budget = estimator.getBudget(options.budget);
+    const forecast = estimator.forecast(chatSessions, BudgetLedger.getInstance().getMonthSpent(), options.budget);
+
+    console.log(`[MultiLLMEvaluationService] 예상 비용: $${forecast.cost.total.toFixed(4)} (상담당 $${forecast.perChatCost.toFixed(4)}), 이번 달 사용: $${forecast.budget.monthSpent.toFixed(4)}`);
+    if (forecast.budget.exceedsRunLimit || forecast.budget.exceedsMonthLimit) {
+      console.warn(`[MultiLLMEvaluationService] 예상 비용이 예산 한도를 초과합니다 (한도 도달 시 ${budget.on_limit === 'downgrade' ? '하향 모델로 전환' : '중단'})`);
+    }
+
+    return {
+      runId: options.runId,
+      budget,
+      forecast,
+      guard: new BudgetGuard(budget, forecast.budget.monthSpent),
+      state: { expectedCost: forecast.perChatCost, paused: false }
+    };
+  }
+
   /**
    * 배치 상담 평가
    */
@@ -170,6 +336,18 @@ export class MultiLLMEvaluationService {
       progressCallback?: (completed: number, total: number, current?: any) => void;
       errorHandling?: 'fail-fast' | 'continue' | 'retry';
       retryAttempts?: number;
+      /** 월 비용 장부에 기록할 실행 ID */
+      runId?: string;
+      /** 이번 실행에만 적용할 예산 설정 (models.json budget 덮어쓰기) */
+      budget?: Partial<BudgetConfig>;
+      /** 평가에 사용할 평가 기준 버전 (미지정 시 활성 버전) */
+      criteriaVersion?: string;
+      /** 사용자 취소 신호 (control이 없을 때 사용) */
+      signal?: AbortSignal;
+      /** 일시정지/재개/취소 제어 */
+      control?: RunControl;
+      /** 여러 배치가 공유하는 예산 실행 (지정하면 runId, budget 대신 사용) */
+      budgetRun?: BudgetRun;
     }
   ): Promise<{
     results: any[];
@@ -179,6 +357,15 @@ export class MultiLLMEvaluationService {
       failed: number;
       averageProcessingTime: number;
       averageConfidence: number;
+      usage: UsageSummary;
+      usageByCounselor: Record<string, UsageSummary>;
+      budget: BatchBudgetReport;
+      /** 취소 또는 예산 한도로 평가하지 못한 상담이 있으면 true (결과는 부분 결과) */
+      partial: boolean;
+      cancelled: boolean;
+      cancelledChatIds: string[];
+      /** Provider별 응답 캐시 적중률 */
+      cache: CacheHitSummary;
     };
     errors: any[];
   }> {
@@ -186,13 +373,30 @@ export class MultiLLMEvaluationService {
     const batchSize = options?.batchSize || 10;
     const parallelism = options?.parallelism || 3;
     const retryAttempts = options?.retryAttempts || 2;
+    const control = options?.control || new RunControl(options?.signal);
     
     console.log(`[MultiLLMEvaluationService] 배치 평가 시작: ${chatSessions.length}건`);
 
+    // 사전 비용 추정 및 예산 한도
+    const { runId, budget, forecast, guard, state: budgetState } =
+      options?.budgetRun ||
+      this.createBudgetRun(chatSessions, { runId: options?.runId || `batch-${startTime}`, budget: options?.budget });
+    const pendingChatIds: string[] = [];
+
     const results: any[] = [];
     const errors: any[] = [];
+    const cancelledChatIds: string[] = [];
+    // 평가 도중 취소된 상담에서 이미 받은 응답의 사용량
+    const cancelledUsages: Array<{ managerId: string; usage: UsageSummary }> = [];
     let completed = 0;
 
+    // 진행 상황마다 Provider 호출 한도 대기열 현황 포함
+    const reportProgress = (current: any) =>
+      options?.progressCallback?.(completed, chatSessions.length, {
+        ...current,
+        rateLimit: RateLimiterRegistry.getInstance().getStatus()
+      });
+
     // 배치 단위로 처리
     for (let i = 0; i < chatSessions.length; i += batchSize) {
       const batch = chatSessions.slice(i, i + batchSize);
@@ -204,30 +408,72 @@ export class MultiLLMEvaluationService {
         
         for (let j = startIndex; j < batch.length; j += parallelism) {
           const chatSession = batch[j];
+
+          // 일시정지 중이면 재개될 때까지 대기, 취소되었으면 남은 상담은 평가하지 않음
+          try {
+            await control.proceed();
+          } catch {
+            cancelledChatIds.push(chatSession.chatId);
+            continue;
+          }
+
+          // 예산 한도 확인 (한도 도달 시 하향 모델로 전환하거나 남은 상담 중단)
+          const expectedCost = this.reserveBudget(guard, budgetState, budget, forecast, current =>
+            reportProgress(current)
+          );
+          if (expectedCost === null) {
+            pendingChatIds.push(chatSession.chatId);
+            continue;
+          }
+
           let attempts = 0;
           let lastError: any;
+          let cancelled = false;
+          // 실패한 시도에서도 응답을 받은 호출의 사용량 (비용 정산 및 장부 기록)
+          const failedUsages: UsageSummary[] = [];
 
           while (attempts <= retryAttempts) {
             try {
               const result = await this.evaluateChat(chatSession, {
                 strictValidation: options?.strictValidation,
                 generateReport: false,
-                includeAdvancedAnalysis: false
+                includeAdvancedAnalysis: false,
+                providerOverrides: budgetState.overrides,
+                criteriaVersion: options?.criteriaVersion,
+                signal: control.signal
               });
 
+              const usage = UsageAccounting.merge([result.result.usage, ...failedUsages]);
+              result.result.usage = usage;
+              guard.settle(expectedCost, usage.cost.total);
+              this.recordUsage(runId, usage);
+
               results.push({
                 chatId: chatSession.chatId,
+                managerId: chatSession.managerId,
                 ...result
               });
 
               completed++;
-              options?.progressCallback?.(completed, chatSessions.length, {
+              reportProgress({
                 chatId: chatSession.chatId,
-                status: 'completed'
+                status: 'completed',
+                usage: result.result.usage,
+                runUsage: UsageAccounting.merge(results.map(r => r.result.usage))
               });
 
               break; // 성공시 루프 종료
             } catch (error) {
+              const usage: UsageSummary | undefined = (error as any)?.usage;
+              if (usage) {
+                failedUsages.push(usage);
+              }
+
+              if (isCancelledError(error) || control.isCancelled()) {
+                cancelled = true;
+                break;
+              }
+
               lastError = error;
               attempts++;
               
@@ -238,18 +484,41 @@ export class MultiLLMEvaluationService {
             }
           }
 
+          // 평가 도중 취소·실패해도 이미 받은 응답의 비용은 정산
+          const failedUsage = UsageAccounting.merge(failedUsages);
+          if (failedUsages.length > 0 && (cancelled || attempts > retryAttempts)) {
+            this.recordUsage(runId, failedUsage);
+          }
+
+          // 평가 도중 취소 (진행 중이던 Provider 호출은 중단됨)
+          if (cancelled) {
+            guard.settle(expectedCost, failedUsage.cost.total);
+            cancelledChatIds.push(chatSession.chatId);
+            if (failedUsages.length > 0) {
+              cancelledUsages.push({ managerId: chatSession.managerId, usage: failedUsage });
+            }
+            reportProgress({
+              chatId: chatSession.chatId,
+              status: 'cancelled'
+            });
+            continue;
+          }
+
           // 모든 재시도 실패
           if (attempts > retryAttempts) {
             const errorInfo = {
               chatId: chatSession.chatId,
+              managerId: chatSession.managerId,
               error: lastError instanceof Error ? lastError.message : '알 수 없는 오류',
-              attempts
+              attempts,
+              usage: failedUsage
             };
 
             errors.push(errorInfo);
+            guard.settle(expectedCost, failedUsage.cost.total);
             completed++;
 
-            options?.progressCallback?.(completed, chatSessions.length, {
+            reportProgress({
               chatId: chatSession.chatId,
               status: 'failed',
               error: errorInfo.error
@@ -267,9 +536,30 @@ export class MultiLLMEvaluationService {
     }
 
     // 요약 통계 계산
-    const summary = this.calculateBatchSummary(results, errors, startTime);
+    const summary = this.calculateBatchSummary(results, errors, startTime, cancelledUsages);
+    summary.budget = {
+      forecast,
+      runSpent: guard.getRunSpent(),
+      monthSpent: guard.getMonthSpent(),
+      downgraded: guard.isDowngraded(),
+      paused: budgetState.paused,
+      reason: budgetState.reason,
+      pendingChatIds
+    } as BatchBudgetReport;
+
+    summary.cancelled = control.isCancelled();
+    summary.cancelledChatIds = cancelledChatIds;
+    summary.partial = cancelledChatIds.length > 0 || pendingChatIds.length > 0;
+    summary.cache = ResponseCache.summarizeHits(results.flatMap(r => r.result.providers));
+
+    if (budgetState.paused) {
+      console.warn(`[MultiLLMEvaluationService] 예산 한도로 ${pendingChatIds.length}건 평가 중단: ${budgetState.reason}`);
+    }
+    if (summary.cancelled) {
+      console.warn(`[MultiLLMEvaluationService] 사용자 취소로 ${cancelledChatIds.length}건 평가 중단 (부분 결과 ${results.length}건)`);
+    }
 
-    console.log(`[MultiLLMEvaluationService] 배치 평가 완료: ${summary.successful}/${summary.total}건 성공`);
+    console.log(`[MultiLLMEvaluationService] 배치 평가 완료: ${summary.successful}/${summary.total}건 성공 (캐시 적중률 ${(summary.cache.hitRate * 100).toFixed(1)}%)`);
 
     // 모델 설정 정보 추가
     const modelConfig = this.configManager.getModelConfig();
@@ -283,6 +573,8 @@ export class MultiLLMEvaluationService {
             id: providerId,
             name: providerId === 'openai-gpt5' ? 'GPT-5-mini' : 
                   providerId === 'gemini-25' ? 'Gemini 2.5' : 
+                  providerId === 'anthropic' ? 'Claude' : 
+                  providerId === 'local' ? '로컬 모델' : 
                   providerId === 'openai' ? 'GPT-4' : providerId,
             model: providerConfig.model,
             temperature: providerConfig.temperature,
@@ -371,10 +663,22 @@ export class MultiLLMEvaluationService {
     options?: any
   ): Promise<EvaluationRequest> {
     // 평가 기준 로드
-    const criteria = this.configManager.getEvaluationCriteria();
-    
+    const criteria = this.configManager.getEvaluationCriteria(options?.criteriaVersion);
+
+    // 운영시간 태그가 없는 세션은 캘린더 기준으로 판정
+    const session: ChatSession = chatSession.metadata.operatingHours
+      ? chatSession
+      : {
+          ...chatSession,
+          metadata: {
+            ...chatSession.metadata,
+            operatingHours: new OperatingHoursCalendar(this.configManager.getOperatingHours())
+              .classify(chatSession.metadata.startTime).status
+          }
+        };
+
     return {
-      session: chatSession,
+      session,
       criteria,
       options: {
         timeout: options?.timeout,
@@ -383,6 +687,18 @@ export class MultiLLMEvaluationService {
     };
   }
 
+  /**
+   * 상담원 종합 평가 프롬프트 렌더링 (프롬프트 템플릿의 templates.counselor)
+   */
+  private renderCounselorPrompt(request: CounselorEvaluationRequest, criteria: EvaluationCriteria): RenderedPrompt {
+    return new PromptRenderer(this.configManager.getPromptTemplate()).renderCounselor(
+      request,
+      criteria,
+      new OperatingHoursCalendar(this.configManager.getOperatingHours()),
+      CounselorRosterService.getInstance().getGreetingNames()
+    );
+  }
+
   /**
    * 배치 스트림 처리
    */
@@ -432,10 +748,75 @@ export class MultiLLMEvaluationService {
     return results;
   }
 
+  /**
+   * 다음 상담의 예상 비용 예약
+   * 한도에 도달하면 budget.downgrade 설정으로 전환하고, 전환 후에도 초과하면 이후 상담을 모두 중단 (null 반환)
+   */
+  private reserveBudget(
+    guard: BudgetGuard,
+    state: BatchBudgetState,
+    budget: BudgetConfig,
+    forecast: CostForecast,
+    notify: (current: any) => void
+  ): number | null {
+    if (state.paused) return null;
+
+    let decision = guard.reserve(state.expectedCost);
+
+    if (decision.action === 'downgrade') {
+      guard.markDowngraded();
+      state.overrides = budget.downgrade;
+      state.expectedCost = forecast.downgraded?.perChatCost ?? state.expectedCost;
+
+      console.warn(`[MultiLLMEvaluationService] ${decision.reason} - 하향 모델로 전환: ${JSON.stringify(budget.downgrade)}`);
+      notify({ status: 'budget', action: 'downgrade', reason: decision.reason, overrides: budget.downgrade });
+
+      decision = guard.reserve(state.expectedCost);
+    }
+
+    if (decision.action !== 'proceed') {
+      state.paused = true;
+      state.reason = decision.reason;
+      notify({ status: 'budget', action: 'pause', reason: decision.reason });
+      return null;
+    }
+
+    return state.expectedCost;
+  }
+
+  /**
+   * 월 한도 도달 사유 (도달하지 않았으면 null)
+   */
+  private getMonthLimitReason(): string | null {
+    const budget = new CostEstimator().getBudget();
+    const monthSpent = BudgetLedger.getInstance().getMonthSpent();
+
+    if (budget.per_month_usd && monthSpent >= budget.per_month_usd) {
+      return `월 한도 $${budget.per_month_usd} 도달 (이번 달 사용 $${monthSpent.toFixed(4)})`;
+    }
+    return null;
+  }
+
+  /**
+   * 월 비용 장부 기록 (장부 저장 실패가 평가 실패로 처리되지 않도록 분리)
+   */
+  private recordUsage(runId: string, usage?: UsageSummary): void {
+    try {
+      BudgetLedger.getInstance().record(runId, usage);
+    } catch (error) {
+      console.error('[MultiLLMEvaluationService] 비용 장부 기록 실패:', error);
+    }
+  }
+
   /**
    * 배치 요약 계산
    */
-  private calculateBatchSummary(results: any[], errors: any[], startTime: number): any {
+  private calculateBatchSummary(
+    results: any[],
+    errors: any[],
+    startTime: number,
+    cancelledUsages: Array<{ managerId: string; usage: UsageSummary }> = []
+  ): any {
     const total = results.length + errors.length;
     const successful = results.length;
     const failed = errors.length;
@@ -447,6 +828,13 @@ export class MultiLLMEvaluationService {
     const averageConfidence = successful > 0 ?
       results.reduce((sum, r) => sum + r.validation.confidence, 0) / successful : 0;
 
+    // 사용량 집계 (상담 → 상담원 → 배치, 실패·취소된 상담의 호출 비용 포함)
+    const usageByCounselor: Record<string, UsageSummary> = {};
+    [...results.map(r => ({ managerId: r.managerId, usage: r.result.usage })), ...errors, ...cancelledUsages].forEach(r => {
+      const key = r.managerId || 'unknown';
+      usageByCounselor[key] = UsageAccounting.merge([usageByCounselor[key], r.usage]);
+    });
+
     return {
       total,
       successful,
@@ -454,7 +842,9 @@ export class MultiLLMEvaluationService {
       successRate: total > 0 ? successful / total : 0,
       averageProcessingTime: Math.round(averageProcessingTime),
       totalProcessingTime,
-      averageConfidence: parseFloat(averageConfidence.toFixed(3))
+      averageConfidence: parseFloat(averageConfidence.toFixed(3)),
+      usage: UsageAccounting.merge(Object.values(usageByCounselor)),
+      usageByCounselor
     };
   }
 
@@ -490,18 +880,21 @@ export class MultiLLMEvaluationService {
     orchestrator: any;
     validator: any;
     config: any;
+    circuitBreakers: CircuitBreakerStatus[];
     health: {
       status: 'healthy' | 'degraded' | 'unhealthy';
       details: any;
     };
   }> {
     const health = await this.performHealthCheck();
+    const orchestratorStatus = this.orchestrator.getStatus();
     
     return {
       initialized: this.isInitialized,
-      orchestrator: this.orchestrator.getStatus(),
+      orchestrator: orchestratorStatus,
       validator: 'ready', // EvaluationValidator는 getStatus 메서드가 없음
       config: this.configManager.getConfigInfo(),
+      circuitBreakers: orchestratorStatus.providerFactory.circuitBreakers,
       health
     };
   }
@@ -530,6 +923,19 @@ export class MultiLLMEvaluationService {
         };
       }
 
+      // 회로가 차단된 Provider는 복구될 때까지 평가에서 제외됨
+      const openCircuits = orchestratorStatus.providerFactory.circuitBreakers
+        .filter((breaker: CircuitBreakerStatus) => breaker.state !== 'closed')
+        .map((breaker: CircuitBreakerStatus) => `${breaker.provider} (${breaker.model})`);
+      if (openCircuits.length > 0) {
+        return {
+          status: openCircuits.length >= orchestratorStatus.providerFactory.activeProviders && !orchestratorStatus.providerFactory.fallbackProvider
+            ? 'unhealthy'
+            : 'degraded',
+          details: { reason: 'Circuit open', providers: openCircuits }
+        };
+      }
+
       if (orchestratorStatus.providerFactory.activeProviders === 1) {
         return {
           status: 'degraded',
@@ -0,0 +1,171 @@
+import { ConfigManager } from '@/lib/config/manager';
+import { CounselorProfile } from '@/lib/types/evaluation';
+
+/**
+ * 상담원 명부 서비스
+ * config/counselors.json을 기준으로 상담원 ID-이름 매핑과 평가 대상 목록을 제공
+ */
+export class CounselorRosterService {
+  private static instance: CounselorRosterService;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  static getInstance(): CounselorRosterService {
+    if (!this.instance) {
+      this.instance = new CounselorRosterService();
+    }
+    return this.instance;
+  }
+
+  /**
+   * 전체 상담원 목록
+   */
+  list(): CounselorProfile[] {
+    return this.configManager.getCounselorRoster().counselors;
+  }
+
+  /**
+   * 특정 상담원 조회
+   */
+  get(id: string): CounselorProfile | undefined {
+    return this.list().find(counselor => counselor.id === id);
+  }
+
+  /**
+   * 활성 상담원의 ID-이름 매핑
+   */
+  getNameMap(): Record<string, string> {
+    return Object.fromEntries(
+      this.list()
+        .filter(counselor => counselor.active)
+        .map(counselor => [counselor.id, counselor.name])
+    );
+  }
+
+  /**
+   * 종합 평가 대상 상담원 (활성 + 평가 대상)
+   */
+  getEvaluationTargets(): CounselorProfile[] {
+    return this.list().filter(counselor => counselor.active && counselor.evaluation_target);
+  }
+
+  /**
+   * 인사 메시지 패턴에 사용할 상담원 이름
+   */
+  getGreetingNames(): string[] {
+    return this.getEvaluationTargets().map(counselor => counselor.name);
+  }
+
+  /**
+   * 상담원 추가
+   */
+  create(input: CounselorProfile): CounselorProfile {
+    const validation = this.validateCounselor(input);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join(', '));
+    }
+
+    // 중복 확인은 저장 형식(앞뒤 공백 제거)의 ID로
+    const counselor = this.normalize(input);
+    const roster = this.configManager.getCounselorRoster();
+    if (roster.counselors.some(existing => existing.id === counselor.id)) {
+      throw new Error(`이미 등록된 상담원 ID입니다: ${counselor.id}`);
+    }
+
+    this.configManager.saveCounselorRoster({
+      ...roster,
+      counselors: [...roster.counselors, counselor]
+    });
+
+    return counselor;
+  }
+
+  /**
+   * 상담원 정보 수정
+   */
+  update(id: string, changes: Partial<CounselorProfile>): CounselorProfile {
+    const roster = this.configManager.getCounselorRoster();
+    const current = roster.counselors.find(counselor => counselor.id === id);
+
+    if (!current) {
+      throw new Error(`상담원을 찾을 수 없습니다: ${id}`);
+    }
+
+    const updated = this.normalize({ ...current, ...changes, id });
+    const validation = this.validateCounselor(updated);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join(', '));
+    }
+
+    this.configManager.saveCounselorRoster({
+      ...roster,
+      counselors: roster.counselors.map(counselor => counselor.id === id ? updated : counselor)
+    });
+
+    return updated;
+  }
+
+  /**
+   * 상담원 삭제
+   */
+  remove(id: string): void {
+    const roster = this.configManager.getCounselorRoster();
+
+    if (!roster.counselors.some(counselor => counselor.id === id)) {
+      throw new Error(`상담원을 찾을 수 없습니다: ${id}`);
+    }
+
+    this.configManager.saveCounselorRoster({
+      ...roster,
+      counselors: roster.counselors.filter(counselor => counselor.id !== id)
+    });
+  }
+
+  /**
+   * 상담원 입력값 유효성 검증
+   */
+  validateCounselor(value: unknown): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!value || typeof value !== 'object') {
+      return { isValid: false, errors: ['상담원 정보가 유효하지 않습니다'] };
+    }
+
+    const input = value as Record<string, unknown>;
+    if (input.id === undefined || input.id === null || String(input.id).trim() === '') {
+      errors.push('상담원 ID가 누락되었습니다');
+    }
+
+    if (!input.name || typeof input.name !== 'string' || input.name.trim() === '') {
+      errors.push('상담원 이름이 누락되었습니다');
+    }
+
+    if (input.active !== undefined && typeof input.active !== 'boolean') {
+      errors.push('active 설정이 유효하지 않습니다');
+    }
+
+    if (input.evaluation_target !== undefined && typeof input.evaluation_target !== 'boolean') {
+      errors.push('evaluation_target 설정이 유효하지 않습니다');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * 저장 형식으로 정규화
+   */
+  private normalize(input: CounselorProfile): CounselorProfile {
+    return {
+      id: String(input.id).trim(),
+      name: input.name.trim(),
+      active: input.active ?? true,
+      evaluation_target: input.evaluation_target ?? true
+    };
+  }
+}
@@ -0,0 +1,225 @@
+import { ConfigManager } from '@/lib/config/manager';
+import {
+  CriteriaDiffEntry,
+  CriteriaVersionInfo,
+  EvaluationCriteria
+} from '@/lib/types/evaluation';
+
+const VERSION_PATTERN = /^\d+\.\d+$/;
+
+/**
+ * 평가 기준 버전 관리 서비스
+ * config/evaluation/criteria-v{version}.json 파일을 버전별로 보관하고 활성 버전을 전환
+ * 기존 버전 파일은 수정하지 않으므로 과거 평가 결과는 생성 당시 버전으로 계속 조회 가능
+ */
+export class CriteriaVersionService {
+  private static instance: CriteriaVersionService;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  static getInstance(): CriteriaVersionService {
+    if (!this.instance) {
+      this.instance = new CriteriaVersionService();
+    }
+    return this.instance;
+  }
+
+  /**
+   * 전체 버전 목록 (버전 오름차순)
+   */
+  list(): CriteriaVersionInfo[] {
+    const activeVersion = this.getActiveVersion();
+
+    return this.configManager
+      .listCriteriaVersions()
+      .sort((a, b) => this.compareVersions(a, b))
+      .map(version => {
+        const criteria = this.configManager.getEvaluationCriteria(version);
+        return {
+          version,
+          lastUpdated: criteria.lastUpdated,
+          author: criteria.author,
+          description: criteria.description,
+          based_on: criteria.based_on,
+          active: version === activeVersion
+        };
+      });
+  }
+
+  /**
+   * 특정 버전 조회
+   */
+  get(version: string): EvaluationCriteria | undefined {
+    if (!this.exists(version)) return undefined;
+    return this.configManager.getEvaluationCriteria(version);
+  }
+
+  exists(version: string): boolean {
+    return this.configManager.listCriteriaVersions().includes(version);
+  }
+
+  getActiveVersion(): string {
+    return this.configManager.getActiveCriteriaVersion();
+  }
+
+  /**
+   * 활성화 이력
+   */
+  getHistory() {
+    return this.configManager.getCriteriaRegistry().history;
+  }
+
+  /**
+   * 기존 버전을 복제하여 새 버전 생성
+   * changes로 전달된 evaluation_criteria / scoring / filters는 섹션 단위로 교체
+   */
+  create(input: {
+    base_version: string;
+    version?: string;
+    author?: string;
+    description?: string;
+    changes?: Partial<Pick<EvaluationCriteria, 'evaluation_criteria' | 'scoring' | 'filters'>>;
+  }): EvaluationCriteria {
+    const base = this.get(input.base_version);
+    if (!base) {
+      throw new Error(`복제할 평가 기준 버전을 찾을 수 없습니다: v${input.base_version}`);
+    }
+
+    const version = input.version?.trim() || this.getNextVersion();
+    if (!VERSION_PATTERN.test(version)) {
+      throw new Error(`버전 형식이 올바르지 않습니다 (예: 1.1): ${version}`);
+    }
+    if (this.exists(version)) {
+      throw new Error(`이미 존재하는 평가 기준 버전입니다: v${version}`);
+    }
+
+    const criteria: EvaluationCriteria = {
+      ...structuredClone(base),
+      ...structuredClone(input.changes || {}),
+      version,
+      author: input.author?.trim() || base.author,
+      description: input.description?.trim() || `v${base.version} 복제`,
+      based_on: base.version
+    };
+
+    const errors = this.validateCriteria(criteria);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    return this.configManager.saveEvaluationCriteria(criteria);
+  }
+
+  /**
+   * 두 버전 비교
+   */
+  diff(fromVersion: string, toVersion: string): CriteriaDiffEntry[] {
+    const from = this.get(fromVersion);
+    const to = this.get(toVersion);
+
+    if (!from) throw new Error(`평가 기준 버전을 찾을 수 없습니다: v${fromVersion}`);
+    if (!to) throw new Error(`평가 기준 버전을 찾을 수 없습니다: v${toVersion}`);
+
+    const entries: CriteriaDiffEntry[] = [];
+    for (const key of ['description', 'evaluation_criteria', 'scoring', 'filters'] as const) {
+      this.collectDiff(key, from[key], to[key], entries);
+    }
+    return entries;
+  }
+
+  /**
+   * 활성 버전 전환
+   */
+  activate(version: string): CriteriaVersionInfo {
+    const criteria = this.get(version);
+    if (!criteria) {
+      throw new Error(`평가 기준 버전을 찾을 수 없습니다: v${version}`);
+    }
+
+    const errors = this.validateCriteria(criteria);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    const registry = this.configManager.getCriteriaRegistry();
+    this.configManager.saveCriteriaRegistry({
+      ...registry,
+      active_version: version,
+      history: [...registry.history, { version, activated_at: new Date().toISOString() }]
+    });
+
+    return this.list().find(info => info.version === version)!;
+  }
+
+  /**
+   * 평가 기준 유효성 검증
+   */
+  validateCriteria(criteria: EvaluationCriteria): string[] {
+    const errors: string[] = [];
+
+    if (!criteria.evaluation_criteria || Object.keys(criteria.evaluation_criteria).length === 0) {
+      errors.push('평가 섹션이 없습니다');
+      return errors;
+    }
+    if (!criteria.scoring?.scale || !criteria.scoring?.thresholds || !criteria.scoring?.problematic_criteria) {
+      errors.push('scoring 설정이 누락되었습니다');
+    }
+    if (!criteria.filters) {
+      errors.push('filters 설정이 누락되었습니다');
+    }
+
+    for (const [name, section] of Object.entries(criteria.evaluation_criteria)) {
+      if (typeof section.weight !== 'number' || section.weight < 0) {
+        errors.push(`${name} 가중치가 유효하지 않습니다`);
+      }
+      for (const [item, subcriteria] of Object.entries(section.subcriteria || {})) {
+        if (typeof subcriteria.weight !== 'number' || subcriteria.weight < 0) {
+          errors.push(`${name}.${item} 가중치가 유효하지 않습니다`);
+        }
+      }
+    }
+
+    return errors.length > 0 ? errors : this.configManager.validateCriteriaWeights(criteria);
+  }
+
+  /**
+   * 다음 버전 번호 (가장 높은 버전의 minor + 1)
+   */
+  private getNextVersion(): string {
+    const latest = this.configManager
+      .listCriteriaVersions()
+      .filter(version => VERSION_PATTERN.test(version))
+      .sort((a, b) => this.compareVersions(a, b))
+      .pop() || '1.0';
+    const [major, minor] = latest.split('.').map(Number);
+    return `${major}.${minor + 1}`;
+  }
+
+  private compareVersions(a: string, b: string): number {
+    const [aMajor = 0, aMinor = 0] = a.split('.').map(Number);
+    const [bMajor = 0, bMinor = 0] = b.split('.').map(Number);
+    return aMajor - bMajor || aMinor - bMinor;
+  }
+
+  private collectDiff(path: string, from: unknown, to: unknown, entries: CriteriaDiffEntry[]): void {
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    if (isObject(from) && isObject(to)) {
+      const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]));
+      keys.forEach(key => this.collectDiff(`${path}.${key}`, from[key], to[key], entries));
+      return;
+    }
+
+    if (from === undefined && to !== undefined) {
+      entries.push({ path, type: 'added', to });
+    } else if (from !== undefined && to === undefined) {
+      entries.push({ path, type: 'removed', from });
+    } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+      entries.push({ path, type: 'changed', from, to });
+    }
+  }
+}
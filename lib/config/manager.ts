@@ -1,13 +1,27 @@
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, writeFileSync, readdirSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { EvaluationCriteria, ModelConfig, ThresholdConfig } from '@/lib/types/evaluation';
+import {
+  EvaluationCriteria,
+  CriteriaVersionRegistry,
+  ModelConfig,
+  ThresholdConfig,
+  CounselorRosterConfig,
+  HandoffRuleConfig,
+  OperatingHoursConfig,
+  PromptTemplateConfig
+} from '@/lib/types/evaluation';
 
 export class ConfigManager {
   private static instance: ConfigManager;
   private configPath: string;
-  private criteria: EvaluationCriteria | null = null;
+  private criteria: Map<string, EvaluationCriteria> = new Map();
+  private criteriaRegistry: CriteriaVersionRegistry | null = null;
   private models: ModelConfig | null = null;
   private thresholds: ThresholdConfig | null = null;
+  private counselors: CounselorRosterConfig | null = null;
+  private handoffRules: HandoffRuleConfig | null = null;
+  private operatingHours: OperatingHoursConfig | null = null;
+  private promptTemplate: PromptTemplateConfig | null = null;
   private lastUpdate: Map<string, number> = new Map();
 
   private constructor() {
@@ -22,10 +36,10 @@ export class ConfigManager {
   }
 
   /**
-   * 평가 기준 설정 로드
+   * 평가 기준 설정 로드 (버전 미지정 시 활성 버전)
    */
-  getEvaluationCriteria(version = '1.0'): EvaluationCriteria {
-    const filePath = join(this.configPath, 'evaluation', `criteria-v${version}.json`);
+  getEvaluationCriteria(version = this.getActiveCriteriaVersion()): EvaluationCriteria {
+    const filePath = this.getCriteriaFilePath(version);
     
     if (!existsSync(filePath)) {
       throw new Error(`평가 기준 파일을 찾을 수 없습니다: ${filePath}`);
@@ -35,28 +49,125 @@ export class ConfigManager {
     const stat = require('fs').statSync(filePath);
     const lastModified = stat.mtime.getTime();
     const cacheKey = `criteria-${version}`;
+    const cached = this.criteria.get(version);
 
-    if (!this.criteria || this.lastUpdate.get(cacheKey) !== lastModified) {
+    if (!cached || this.lastUpdate.get(cacheKey) !== lastModified) {
       try {
         const content = readFileSync(filePath, 'utf-8');
-        this.criteria = JSON.parse(content);
+        this.criteria.set(version, JSON.parse(content));
         this.lastUpdate.set(cacheKey, lastModified);
         console.log(`[Config] 평가 기준 로드됨: v${version}`);
       } catch (error) {
         console.error(`[Config] 평가 기준 로드 실패:`, error);
         // 이전 버전으로 롤백 시도
-        if (this.criteria) {
-          console.log(`[Config] 이전 버전 사용: v${this.criteria.version}`);
-          return this.criteria;
+        if (cached) {
+          console.log(`[Config] 이전 버전 사용: v${cached.version}`);
+          return cached;
         }
         throw new Error(`평가 기준 로드 실패: ${error}`);
       }
     }
 
-    if (!this.criteria) {
+    const criteria = this.criteria.get(version);
+    if (!criteria) {
       throw new Error('평가 기준을 로드할 수 없습니다');
     }
-    return this.criteria;
+    return criteria;
+  }
+
+  /**
+   * 평가 기준 파일이 존재하는 버전 목록
+   */
+  listCriteriaVersions(): string[] {
+    return readdirSync(join(this.configPath, 'evaluation'))
+      .map(file => file.match(/^criteria-v(.+)\.json$/)?.[1])
+      .filter((version): version is string => !!version);
+  }
+
+  /**
+   * 새 평가 기준 버전 저장 (기존 버전 파일은 덮어쓰지 않음)
+   */
+  saveEvaluationCriteria(criteria: EvaluationCriteria): EvaluationCriteria {
+    const filePath = this.getCriteriaFilePath(criteria.version);
+
+    if (existsSync(filePath)) {
+      throw new Error(`이미 존재하는 평가 기준 버전입니다: v${criteria.version}`);
+    }
+
+    const formatted: EvaluationCriteria = {
+      ...criteria,
+      lastUpdated: new Date().toISOString()
+    };
+
+    writeFileSync(filePath, JSON.stringify(formatted, null, 2));
+    console.log(`[Config] 평가 기준 저장됨: v${formatted.version}`);
+
+    return formatted;
+  }
+
+  /**
+   * 평가 기준 버전 레지스트리 로드
+   */
+  getCriteriaRegistry(): CriteriaVersionRegistry {
+    const filePath = join(this.configPath, 'evaluation', 'criteria-registry.json');
+
+    // 레지스트리 도입 이전 설정은 v1.0을 활성 버전으로 간주
+    if (!existsSync(filePath)) {
+      return { active_version: '1.0', history: [], lastUpdated: '' };
+    }
+
+    const stat = require('fs').statSync(filePath);
+    const lastModified = stat.mtime.getTime();
+    const cacheKey = 'criteria-registry';
+
+    if (!this.criteriaRegistry || this.lastUpdate.get(cacheKey) !== lastModified) {
+      try {
+        const content = readFileSync(filePath, 'utf-8');
+        this.criteriaRegistry = JSON.parse(content);
+        this.lastUpdate.set(cacheKey, lastModified);
+        console.log(`[Config] 평가 기준 레지스트리 로드됨`);
+      } catch (error) {
+        console.error(`[Config] 평가 기준 레지스트리 로드 실패:`, error);
+        if (this.criteriaRegistry) {
+          return this.criteriaRegistry;
+        }
+        throw new Error(`평가 기준 레지스트리 로드 실패: ${error}`);
+      }
+    }
+
+    if (!this.criteriaRegistry) {
+      throw new Error('평가 기준 레지스트리를 로드할 수 없습니다');
+    }
+    return this.criteriaRegistry;
+  }
+
+  /**
+   * 평가 기준 버전 레지스트리 저장
+   */
+  saveCriteriaRegistry(registry: CriteriaVersionRegistry): CriteriaVersionRegistry {
+    const filePath = join(this.configPath, 'evaluation', 'criteria-registry.json');
+    const formatted: CriteriaVersionRegistry = {
+      ...registry,
+      lastUpdated: new Date().toISOString()
+    };
+
+    writeFileSync(filePath, JSON.stringify(formatted, null, 2));
+    this.criteriaRegistry = null;
+    this.lastUpdate.delete('criteria-registry');
+    console.log(`[Config] 활성 평가 기준 버전: v${formatted.active_version}`);
+
+    return formatted;
+  }
+
+  /**
+   * 현재 활성 평가 기준 버전
+   */
+  getActiveCriteriaVersion(): string {
+    return this.getCriteriaRegistry().active_version;
+  }
+
+  private getCriteriaFilePath(version: string): string {
+    return join(this.configPath, 'evaluation', `criteria-v${version}.json`);
   }
 
   /**
@@ -131,20 +242,220 @@ export class ConfigManager {
 
   /**
    * 프롬프트 템플릿 로드
+   * 버전 미지정 시 현재 템플릿(base-template.json), 지정 시 prompts/versions의 이전 버전
    */
-  getPromptTemplate(): any {
+  getPromptTemplate(version?: string): PromptTemplateConfig {
     const filePath = join(this.configPath, 'prompts', 'base-template.json');
     
     if (!existsSync(filePath)) {
       throw new Error(`프롬프트 템플릿을 찾을 수 없습니다: ${filePath}`);
     }
 
-    try {
-      const content = readFileSync(filePath, 'utf-8');
-      return JSON.parse(content);
-    } catch (error) {
-      throw new Error(`프롬프트 템플릿 로드 실패: ${error}`);
+    const stat = require('fs').statSync(filePath);
+    const lastModified = stat.mtime.getTime();
+    const cacheKey = 'prompt-template';
+
+    if (!this.promptTemplate || this.lastUpdate.get(cacheKey) !== lastModified) {
+      try {
+        const content = readFileSync(filePath, 'utf-8');
+        this.promptTemplate = JSON.parse(content);
+        this.lastUpdate.set(cacheKey, lastModified);
+        console.log(`[Config] 프롬프트 템플릿 로드됨: v${this.promptTemplate!.version}`);
+      } catch (error) {
+        console.error(`[Config] 프롬프트 템플릿 로드 실패:`, error);
+        if (!this.promptTemplate) {
+          throw new Error(`프롬프트 템플릿 로드 실패: ${error}`);
+        }
+      }
+    }
+
+    if (!this.promptTemplate) {
+      throw new Error('프롬프트 템플릿을 로드할 수 없습니다');
+    }
+
+    if (!version || version === this.promptTemplate.version) {
+      return this.promptTemplate;
     }
+
+    const versionPath = join(this.configPath, 'prompts', 'versions', `base-template-v${version}.json`);
+    if (!existsSync(versionPath)) {
+      throw new Error(`프롬프트 템플릿 버전을 찾을 수 없습니다: v${version}`);
+    }
+    return JSON.parse(readFileSync(versionPath, 'utf-8'));
+  }
+
+  /**
+   * 프롬프트 템플릿 버전 목록 (현재 템플릿 포함)
+   */
+  listPromptTemplateVersions(): string[] {
+    const versionsPath = join(this.configPath, 'prompts', 'versions');
+    const versions = existsSync(versionsPath)
+      ? readdirSync(versionsPath)
+          .map(file => file.match(/^base-template-v(.+)\.json$/)?.[1])
+          .filter((version): version is string => !!version)
+      : [];
+
+    const current = this.getPromptTemplate().version;
+    return versions.includes(current) ? versions : [...versions, current];
+  }
+
+  /**
+   * 새 프롬프트 템플릿 버전 저장
+   * 현재 템플릿을 prompts/versions에 보관한 뒤 base-template.json을 교체 (기존 버전 파일은 덮어쓰지 않음)
+   */
+  savePromptTemplate(template: PromptTemplateConfig): PromptTemplateConfig {
+    const versionsPath = join(this.configPath, 'prompts', 'versions');
+    const versionPath = (version: string) => join(versionsPath, `base-template-v${version}.json`);
+
+    if (existsSync(versionPath(template.version))) {
+      throw new Error(`이미 존재하는 프롬프트 템플릿 버전입니다: v${template.version}`);
+    }
+
+    if (!existsSync(versionsPath)) {
+      mkdirSync(versionsPath, { recursive: true });
+    }
+
+    const current = this.getPromptTemplate();
+    if (!existsSync(versionPath(current.version))) {
+      writeFileSync(versionPath(current.version), JSON.stringify(current, null, 2));
+    }
+
+    const formatted: PromptTemplateConfig = {
+      ...template,
+      lastUpdated: new Date().toISOString()
+    };
+    const content = JSON.stringify(formatted, null, 2);
+
+    writeFileSync(versionPath(formatted.version), content);
+    writeFileSync(join(this.configPath, 'prompts', 'base-template.json'), content);
+    this.promptTemplate = null;
+    this.lastUpdate.delete('prompt-template');
+    console.log(`[Config] 프롬프트 템플릿 저장됨: v${formatted.version}`);
+
+    return formatted;
+  }
+
+  /**
+   * 상담원 명부 로드
+   */
+  getCounselorRoster(): CounselorRosterConfig {
+    const filePath = join(this.configPath, 'counselors.json');
+
+    if (!existsSync(filePath)) {
+      throw new Error(`상담원 명부 파일을 찾을 수 없습니다: ${filePath}`);
+    }
+
+    const stat = require('fs').statSync(filePath);
+    const lastModified = stat.mtime.getTime();
+    const cacheKey = 'counselors';
+
+    if (!this.counselors || this.lastUpdate.get(cacheKey) !== lastModified) {
+      try {
+        const content = readFileSync(filePath, 'utf-8');
+        this.counselors = JSON.parse(content);
+        this.lastUpdate.set(cacheKey, lastModified);
+        console.log(`[Config] 상담원 명부 로드됨`);
+      } catch (error) {
+        console.error(`[Config] 상담원 명부 로드 실패:`, error);
+        if (this.counselors) {
+          return this.counselors;
+        }
+        throw new Error(`상담원 명부 로드 실패: ${error}`);
+      }
+    }
+
+    if (!this.counselors) {
+      throw new Error('상담원 명부를 로드할 수 없습니다');
+    }
+    return this.counselors;
+  }
+
+  /**
+   * 상담원 명부 저장
+   */
+  saveCounselorRoster(roster: CounselorRosterConfig): CounselorRosterConfig {
+    const filePath = join(this.configPath, 'counselors.json');
+    const formatted: CounselorRosterConfig = {
+      ...roster,
+      lastUpdated: new Date().toISOString()
+    };
+
+    writeFileSync(filePath, JSON.stringify(formatted, null, 2));
+    this.counselors = null;
+    this.lastUpdate.delete('counselors');
+    console.log(`[Config] 상담원 명부 저장됨: ${formatted.counselors.length}명`);
+
+    return formatted;
+  }
+
+  /**
+   * 서포트봇 → 상담원 전환 탐지 규칙 로드
+   */
+  getHandoffRules(): HandoffRuleConfig {
+    const filePath = join(this.configPath, 'evaluation', 'handoff-rules.json');
+
+    if (!existsSync(filePath)) {
+      throw new Error(`상담원 전환 규칙 파일을 찾을 수 없습니다: ${filePath}`);
+    }
+
+    const stat = require('fs').statSync(filePath);
+    const lastModified = stat.mtime.getTime();
+    const cacheKey = 'handoff-rules';
+
+    if (!this.handoffRules || this.lastUpdate.get(cacheKey) !== lastModified) {
+      try {
+        const content = readFileSync(filePath, 'utf-8');
+        this.handoffRules = JSON.parse(content);
+        this.lastUpdate.set(cacheKey, lastModified);
+        console.log(`[Config] 상담원 전환 규칙 로드됨`);
+      } catch (error) {
+        console.error(`[Config] 상담원 전환 규칙 로드 실패:`, error);
+        if (this.handoffRules) {
+          return this.handoffRules;
+        }
+        throw new Error(`상담원 전환 규칙 로드 실패: ${error}`);
+      }
+    }
+
+    if (!this.handoffRules) {
+      throw new Error('상담원 전환 규칙을 로드할 수 없습니다');
+    }
+    return this.handoffRules;
+  }
+
+  /**
+   * 운영시간 캘린더 로드
+   */
+  getOperatingHours(): OperatingHoursConfig {
+    const filePath = join(this.configPath, 'operating-hours.json');
+
+    if (!existsSync(filePath)) {
+      throw new Error(`운영시간 설정 파일을 찾을 수 없습니다: ${filePath}`);
+    }
+
+    const stat = require('fs').statSync(filePath);
+    const lastModified = stat.mtime.getTime();
+    const cacheKey = 'operating-hours';
+
+    if (!this.operatingHours || this.lastUpdate.get(cacheKey) !== lastModified) {
+      try {
+        const content = readFileSync(filePath, 'utf-8');
+        this.operatingHours = JSON.parse(content);
+        this.lastUpdate.set(cacheKey, lastModified);
+        console.log(`[Config] 운영시간 설정 로드됨`);
+      } catch (error) {
+        console.error(`[Config] 운영시간 설정 로드 실패:`, error);
+        if (this.operatingHours) {
+          return this.operatingHours;
+        }
+        throw new Error(`운영시간 설정 로드 실패: ${error}`);
+      }
+    }
+
+    if (!this.operatingHours) {
+      throw new Error('운영시간 설정을 로드할 수 없습니다');
+    }
+    return this.operatingHours;
   }
 
   /**
@@ -161,13 +472,10 @@ export class ConfigManager {
         return false;
       }
 
-      // 가중치 합계 검사
-      const totalWeight = criteria.evaluation_criteria.업무능력.weight +
-                         criteria.evaluation_criteria.문장력.weight +
-                         criteria.evaluation_criteria.기본_태도.weight;
-      
-      if (Math.abs(totalWeight - 1.0) > 0.01) {
-        console.warn(`[Config] 가중치 합계 오류: ${totalWeight}`);
+      // 가중치 합계 검사 (섹션 및 섹션별 세부 항목)
+      const weightErrors = this.validateCriteriaWeights(criteria);
+      if (weightErrors.length > 0) {
+        console.warn(`[Config] ${weightErrors.join(', ')}`);
         return false;
       }
 
@@ -185,6 +493,29 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * 평가 기준 가중치 합계 검사 (섹션 및 섹션별 세부 항목)
+   */
+  validateCriteriaWeights(criteria: EvaluationCriteria): string[] {
+    const errors: string[] = [];
+    const sections = Object.entries(criteria.evaluation_criteria);
+    const totalWeight = sections.reduce((sum, [, section]) => sum + section.weight, 0);
+
+    if (Math.abs(totalWeight - 1.0) > 0.01) {
+      errors.push(`가중치 합계 오류: ${totalWeight}`);
+    }
+
+    for (const [name, section] of sections) {
+      const subcriteria = Object.values(section.subcriteria);
+      const subWeight = subcriteria.reduce((sum, item) => sum + item.weight, 0);
+      if (subcriteria.length > 0 && Math.abs(subWeight - 1.0) > 0.01) {
+        errors.push(`${name} 세부 항목 가중치 합계 오류: ${subWeight}`);
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * 설정 정보 반환
    */
@@ -216,9 +547,14 @@ export class ConfigManager {
    * 강제 리로드
    */
   forceReload() {
-    this.criteria = null;
+    this.criteria.clear();
+    this.criteriaRegistry = null;
     this.models = null;
     this.thresholds = null;
+    this.counselors = null;
+    this.handoffRules = null;
+    this.operatingHours = null;
+    this.promptTemplate = null;
     this.lastUpdate.clear();
     console.log(`[Config] 설정 강제 리로드`);
   }
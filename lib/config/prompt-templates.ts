@@ -0,0 +1,246 @@
+import { ConfigManager } from '@/lib/config/manager';
+import { PromptRenderer } from '@/lib/integration/prompt-renderer';
+import { UsageAccounting } from '@/lib/domain/usage-accounting';
+import {
+  ChatSession,
+  PromptPreviewEntry,
+  PromptRevisionInfo,
+  PromptTemplateChanges,
+  PromptTemplateConfig
+} from '@/lib/types/evaluation';
+
+const VERSION_PATTERN = /^\d+\.\d+$/;
+const REQUIRED_PLACEHOLDERS = ['conversation', 'response_format'];
+const REQUIRED_COUNSELOR_PLACEHOLDERS = ['chats', 'response_format'];
+
+/**
+ * 프롬프트 템플릿 리비전 관리 서비스
+ * 편집한 템플릿을 이름 있는 새 버전으로 저장하고(config/prompts/versions), 이전 버전으로 롤백
+ * 롤백도 새 버전으로 저장하므로 과거 평가 결과의 promptTemplate 버전은 항상 같은 내용을 가리킴
+ */
+export class PromptTemplateService {
+  private static instance: PromptTemplateService;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  static getInstance(): PromptTemplateService {
+    if (!this.instance) {
+      this.instance = new PromptTemplateService();
+    }
+    return this.instance;
+  }
+
+  /**
+   * 리비전 목록 (최신 버전 우선)
+   */
+  list(): PromptRevisionInfo[] {
+    const currentVersion = this.getCurrent().version;
+
+    return this.configManager
+      .listPromptTemplateVersions()
+      .sort((a, b) => this.compareVersions(b, a))
+      .map(version => {
+        const template = this.configManager.getPromptTemplate(version);
+        return {
+          version,
+          name: template.name,
+          description: template.description,
+          author: template.author,
+          lastUpdated: template.lastUpdated,
+          based_on: template.based_on,
+          active: version === currentVersion
+        };
+      });
+  }
+
+  getCurrent(): PromptTemplateConfig {
+    return this.configManager.getPromptTemplate();
+  }
+
+  /**
+   * 특정 버전 조회
+   */
+  get(version: string): PromptTemplateConfig | undefined {
+    if (!this.configManager.listPromptTemplateVersions().includes(version)) return undefined;
+    return this.configManager.getPromptTemplate(version);
+  }
+
+  /**
+   * 현재 템플릿에 편집 내용을 적용하여 새 리비전 저장
+   */
+  saveRevision(input: {
+    name: string;
+    author?: string;
+    description?: string;
+    changes: PromptTemplateChanges;
+  }): PromptTemplateConfig {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('리비전 이름을 입력하세요');
+    }
+
+    const current = this.getCurrent();
+    return this.createRevision({
+      ...this.applyChanges(current, input.changes || {}),
+      name,
+      author: input.author?.trim() || current.author,
+      description: input.description?.trim() || name,
+      based_on: current.version
+    });
+  }
+
+  /**
+   * 이전 리비전 내용으로 롤백 (새 리비전으로 저장)
+   */
+  rollback(version: string, author?: string): PromptTemplateConfig {
+    const target = this.get(version);
+    if (!target) {
+      throw new Error(`프롬프트 템플릿 버전을 찾을 수 없습니다: v${version}`);
+    }
+    if (version === this.getCurrent().version) {
+      throw new Error(`이미 현재 버전입니다: v${version}`);
+    }
+
+    return this.createRevision({
+      ...structuredClone(target),
+      name: `v${version} 롤백`,
+      author: author?.trim() || target.author,
+      description: `v${version}${target.name ? ` (${target.name})` : ''} 내용으로 롤백`,
+      based_on: version
+    });
+  }
+
+  /**
+   * 편집 중인 템플릿을 샘플 상담에 적용한 Provider별 프롬프트 미리보기
+   * 비활성 Provider도 포함하며, 토큰 수는 문자 수 기반 추정치
+   */
+  preview(session: ChatSession, changes: PromptTemplateChanges = {}): PromptPreviewEntry[] {
+    const renderer = new PromptRenderer(this.applyChanges(this.getCurrent(), changes));
+    const criteria = this.configManager.getEvaluationCriteria();
+    const { providers } = this.configManager.getModelConfig();
+
+    return Object.entries(providers).map(([provider, config]) => {
+      const { system, user, template } = renderer.render(provider, config.model, { session, criteria });
+      const estimatedTokens = this.estimateTokens(provider, `${system}\n\n${user}`);
+
+      return {
+        provider,
+        model: config.model,
+        enabled: config.enabled,
+        template,
+        system,
+        user,
+        estimatedTokens,
+        estimatedCost: (estimatedTokens / 1000) * (config.cost?.input_per_1k || 0)
+      };
+    });
+  }
+
+  /**
+   * 템플릿 유효성 검증
+   */
+  validateTemplate(template: PromptTemplateConfig): string[] {
+    const errors: string[] = [];
+    const { system, user } = template.templates || {};
+
+    if (!system?.content?.trim()) {
+      errors.push('시스템 프롬프트가 비어 있습니다');
+    }
+    if (!user?.content?.trim()) {
+      errors.push('사용자 프롬프트가 비어 있습니다');
+      return errors;
+    }
+
+    const used = PromptRenderer.findPlaceholders(user.content);
+    for (const placeholder of REQUIRED_PLACEHOLDERS) {
+      if (!used.includes(placeholder)) {
+        errors.push(`사용자 프롬프트에 {{${placeholder}}}가 없습니다`);
+      }
+    }
+    for (const placeholder of used) {
+      if (!PromptRenderer.placeholders.includes(placeholder)) {
+        errors.push(`알 수 없는 placeholder입니다: {{${placeholder}}}`);
+      }
+    }
+
+    const counselor = template.templates?.counselor;
+    if (!counselor?.system?.content?.trim()) {
+      errors.push('상담원 종합 평가 시스템 프롬프트가 비어 있습니다');
+    }
+    if (!counselor?.user?.content?.trim()) {
+      errors.push('상담원 종합 평가 사용자 프롬프트가 비어 있습니다');
+    } else {
+      const counselorUsed = PromptRenderer.findPlaceholders(counselor.user.content);
+      for (const placeholder of REQUIRED_COUNSELOR_PLACEHOLDERS) {
+        if (!counselorUsed.includes(placeholder)) {
+          errors.push(`상담원 종합 평가 사용자 프롬프트에 {{${placeholder}}}가 없습니다`);
+        }
+      }
+      for (const placeholder of counselorUsed) {
+        if (!PromptRenderer.counselorPlaceholders.includes(placeholder)) {
+          errors.push(`상담원 종합 평가 프롬프트에서 알 수 없는 placeholder입니다: {{${placeholder}}}`);
+        }
+      }
+    }
+
+    if (!Array.isArray(template.guidelines?.critical_rules)) {
+      errors.push('guidelines.critical_rules가 누락되었습니다');
+    }
+
+    return errors;
+  }
+
+  private createRevision(template: PromptTemplateConfig): PromptTemplateConfig {
+    const revision = { ...template, version: this.getNextVersion() };
+
+    const errors = this.validateTemplate(revision);
+    if (errors.length > 0) {
+      throw new Error(errors.join(', '));
+    }
+
+    return this.configManager.savePromptTemplate(revision);
+  }
+
+  private applyChanges(base: PromptTemplateConfig, changes: PromptTemplateChanges): PromptTemplateConfig {
+    const template = structuredClone(base);
+
+    if (changes.system !== undefined) template.templates.system.content = changes.system;
+    if (changes.user !== undefined) template.templates.user.content = changes.user;
+    if (template.templates.counselor) {
+      if (changes.counselor_system !== undefined) template.templates.counselor.system.content = changes.counselor_system;
+      if (changes.counselor_user !== undefined) template.templates.counselor.user.content = changes.counselor_user;
+    }
+    if (changes.critical_rules !== undefined) {
+      template.guidelines.critical_rules = changes.critical_rules.map(rule => rule.trim()).filter(Boolean);
+    }
+    if (changes.counselor_guidelines !== undefined) template.guidelines.counselor = changes.counselor_guidelines;
+
+    return template;
+  }
+
+  private estimateTokens(provider: string, text: string): number {
+    return Math.ceil(text.length / UsageAccounting.charsPerToken(provider));
+  }
+
+  /**
+   * 다음 버전 번호 (가장 높은 버전의 minor + 1)
+   */
+  private getNextVersion(): string {
+    const latest = this.configManager
+      .listPromptTemplateVersions()
+      .filter(version => VERSION_PATTERN.test(version))
+      .sort((a, b) => this.compareVersions(a, b))
+      .pop() || '1.0';
+    const [major, minor] = latest.split('.').map(Number);
+    return `${major}.${minor + 1}`;
+  }
+
+  private compareVersions(a: string, b: string): number {
+    const [aMajor = 0, aMinor = 0] = a.split('.').map(Number);
+    const [bMajor = 0, bMinor = 0] = b.split('.').map(Number);
+    return aMajor - bMajor || aMinor - bMinor;
+  }
+}
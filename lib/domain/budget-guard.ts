@@ -0,0 +1,90 @@
+import { BudgetConfig } from '@/lib/types/evaluation';
+
+export type BudgetDecision =
+  | { action: 'proceed' }
+  | { action: 'downgrade' | 'pause'; reason: string };
+
+/**
+ * 배치 실행 예산 한도 판단
+ * 병렬 평가 중에도 한도를 넘지 않도록 상담 시작 시 예상 비용을 예약하고, 완료되면 실제 비용으로 정산
+ */
+export class BudgetGuard {
+  private budget: BudgetConfig;
+  private monthSpent: number;
+  private runSpent = 0;
+  private reserved = 0;
+  private downgraded = false;
+
+  constructor(budget: BudgetConfig, monthSpent: number) {
+    this.budget = budget;
+    this.monthSpent = monthSpent;
+  }
+
+  /**
+   * 다음 상담 평가 가능 여부 (가능하면 예상 비용 예약)
+   */
+  reserve(expectedCost: number): BudgetDecision {
+    const reason = this.exceededLimit(expectedCost);
+
+    if (!reason) {
+      this.reserved += expectedCost;
+      return { action: 'proceed' };
+    }
+
+    const canDowngrade = this.budget.on_limit === 'downgrade' &&
+      !this.downgraded &&
+      Object.keys(this.budget.downgrade || {}).length > 0;
+
+    return { action: canDowngrade ? 'downgrade' : 'pause', reason };
+  }
+
+  /**
+   * 예약 해제 및 실제 비용 반영 (실패한 평가는 actualCost 0)
+   */
+  settle(expectedCost: number, actualCost: number): void {
+    this.reserved = Math.max(0, this.reserved - expectedCost);
+    this.runSpent += actualCost;
+    this.monthSpent += actualCost;
+  }
+
+  markDowngraded(): void {
+    this.downgraded = true;
+  }
+
+  isDowngraded(): boolean {
+    return this.downgraded;
+  }
+
+  getRunSpent(): number {
+    return this.runSpent;
+  }
+
+  getMonthSpent(): number {
+    return this.monthSpent;
+  }
+
+  private exceededLimit(expectedCost: number): string | null {
+    const projected = this.reserved + expectedCost;
+
+    if (this.budget.per_run_usd && this.runSpent + projected > this.budget.per_run_usd) {
+      return `실행당 한도 $${this.budget.per_run_usd} 도달 (사용 $${this.runSpent.toFixed(4)})`;
+    }
+    if (this.budget.per_month_usd && this.monthSpent + projected > this.budget.per_month_usd) {
+      return `월 한도 $${this.budget.per_month_usd} 도달 (이번 달 사용 $${this.monthSpent.toFixed(4)})`;
+    }
+    return null;
+  }
+}
+
+/**
+ * 예산 한도 도달로 시작하지 않은 평가 오류 생성 (실패가 아니므로 재개 시 다시 평가)
+ */
+export function createBudgetExceededError(reason: string): Error {
+  const error: any = new Error(`예산 한도로 평가하지 않음: ${reason}`);
+  error.budgetExceeded = true;
+  return error;
+}
+
+export function isBudgetExceededError(error: any): boolean {
+  return error?.budgetExceeded === true;
+}
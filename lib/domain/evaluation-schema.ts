@@ -0,0 +1,323 @@
+import { CounselorEvaluationResult, EvaluationCriteria, EvaluationResult } from '@/lib/types/evaluation';
+
+const SEVERITIES = ['high', 'medium', 'low', 'none'];
+const EVIDENCE_KEYS = ['positive', 'negative', 'quotes'];
+const FEEDBACK_KEYS = ['strengths', 'weaknesses', 'improvement_priorities'];
+const STRING_ARRAY = { type: 'array', items: { type: 'string' } };
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * 평가 응답 JSON 스키마
+ * 활성 평가 기준의 섹션/세부 항목으로 응답 스키마를 만들고, Provider 응답을 같은 기준으로 검증
+ */
+export class EvaluationSchema {
+  static readonly NAME = 'counseling_evaluation';
+
+  private criteria: EvaluationCriteria;
+
+  constructor(criteria: EvaluationCriteria) {
+    this.criteria = criteria;
+  }
+
+  getCriteria(): EvaluationCriteria {
+    return this.criteria;
+  }
+
+  /**
+   * 구조화 출력 요청에 사용할 스키마 이름
+   */
+  getName(): string {
+    return EvaluationSchema.NAME;
+  }
+
+  /**
+   * JSON Schema (OpenAI json_schema strict 모드 호환: 모든 속성 required, additionalProperties false)
+   * 점수 범위는 strict 모드 지원 여부가 모델마다 달라 스키마에 넣지 않고 validate에서 검사
+   */
+  toJsonSchema(): Record<string, any> {
+    return {
+      type: 'object',
+      properties: {
+        scores: this.toScoresJsonSchema(),
+        evidence: {
+          type: 'object',
+          properties: Object.fromEntries(EVIDENCE_KEYS.map(key => [key, STRING_ARRAY])),
+          required: EVIDENCE_KEYS,
+          additionalProperties: false
+        },
+        improvements: STRING_ARRAY,
+        problematic: { type: 'boolean' },
+        severity: { type: 'string', enum: SEVERITIES }
+      },
+      required: ['scores', 'evidence', 'improvements', 'problematic', 'severity'],
+      additionalProperties: false
+    };
+  }
+
+  /**
+   * 평가 기준 섹션/세부 항목 점수 스키마 (상담 평가와 상담원 종합 평가 공통)
+   */
+  protected toScoresJsonSchema(): Record<string, any> {
+    const { min, max } = this.criteria.scoring.scale;
+
+    const sections = Object.fromEntries(
+      Object.entries(this.criteria.evaluation_criteria).map(([section, config]) => {
+        const items = [...Object.keys(config.subcriteria), 'subtotal'];
+        return [section, {
+          type: 'object',
+          properties: Object.fromEntries(items.map(item => [item, {
+            type: 'number',
+            description: `${min}-${max}점`
+          }])),
+          required: items,
+          additionalProperties: false
+        }];
+      })
+    );
+
+    return {
+      type: 'object',
+      properties: {
+        ...sections,
+        total_score: { type: 'number' }
+      },
+      required: [...Object.keys(sections), 'total_score'],
+      additionalProperties: false
+    };
+  }
+
+  /**
+   * Gemini responseSchema (OpenAPI 부분집합: additionalProperties 미지원, 속성 순서 지정)
+   */
+  toGeminiSchema(): Record<string, any> {
+    const convert = (schema: Record<string, any>): Record<string, any> => {
+      const { additionalProperties, properties, items, ...rest } = schema;
+      const converted: Record<string, any> = { ...rest, type: String(schema.type).toUpperCase() };
+
+      if (properties) {
+        converted.properties = Object.fromEntries(
+          Object.entries(properties).map(([key, value]) => [key, convert(value as Record<string, any>)])
+        );
+        converted.propertyOrdering = Object.keys(properties);
+      }
+      if (items) {
+        converted.items = convert(items);
+      }
+      return converted;
+    };
+
+    return convert(this.toJsonSchema());
+  }
+
+  /**
+   * 응답 검증 (필수 항목, 타입, 점수 범위)
+   */
+  validate(data: any): SchemaValidationResult {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { valid: false, errors: ['응답이 JSON 객체가 아닙니다'] };
+    }
+
+    const errors = this.validateScores(data.scores);
+
+    const evidence = data.evidence;
+    if (!evidence || typeof evidence !== 'object') {
+      errors.push('evidence가 없습니다');
+    } else {
+      EVIDENCE_KEYS
+        .filter(key => !this.isStringArray(evidence[key]))
+        .forEach(key => errors.push(`evidence.${key}는 문자열 배열이어야 합니다`));
+    }
+
+    if (!this.isStringArray(data.improvements)) {
+      errors.push('improvements는 문자열 배열이어야 합니다');
+    }
+
+    if (typeof data.problematic !== 'boolean') {
+      errors.push('problematic은 true/false여야 합니다');
+    }
+
+    if (!SEVERITIES.includes(data.severity)) {
+      errors.push(`severity는 ${SEVERITIES.join('/')} 중 하나여야 합니다`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * 점수 검증 (평가 기준의 모든 세부 항목, 점수 범위)
+   */
+  protected validateScores(scores: any): string[] {
+    const errors: string[] = [];
+    const { min, max } = this.criteria.scoring.scale;
+
+    if (!scores || typeof scores !== 'object') {
+      return ['scores가 없습니다'];
+    }
+
+    for (const [section, config] of Object.entries(this.criteria.evaluation_criteria)) {
+      const reported = scores[section];
+      if (!reported || typeof reported !== 'object') {
+        errors.push(`scores.${section}가 없습니다`);
+        continue;
+      }
+
+      for (const item of Object.keys(config.subcriteria)) {
+        const value = reported[item];
+        if (typeof value !== 'number' || isNaN(value)) {
+          errors.push(`scores.${section}.${item} 점수가 없습니다`);
+        } else if (value < min || value > max) {
+          errors.push(`scores.${section}.${item} 점수가 범위(${min}-${max})를 벗어났습니다: ${value}`);
+        }
+      }
+
+      // 세부 항목이 없는 섹션은 소계로 채점
+      if (Object.keys(config.subcriteria).length === 0 && typeof reported.subtotal !== 'number') {
+        errors.push(`scores.${section}.subtotal 점수가 없습니다`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * 응답 텍스트에서 JSON 추출 (코드 블록 또는 첫 중괄호 범위)
+   */
+  static extractJson(text: string): any {
+    let jsonStr = text.trim();
+
+    const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
+    if (jsonMatch) {
+      jsonStr = jsonMatch[1];
+    } else {
+      const braceMatch = text.match(/\{[\s\S]*\}/);
+      if (braceMatch) {
+        jsonStr = braceMatch[0];
+      }
+    }
+
+    return JSON.parse(jsonStr);
+  }
+
+  /**
+   * 검증된 응답을 평가 결과 필드로 변환
+   */
+  static toResult(data: any): Pick<EvaluationResult, 'scores' | 'evidence' | 'improvements' | 'problematic' | 'severity'> {
+    return {
+      scores: data.scores,
+      evidence: data.evidence,
+      improvements: data.improvements,
+      problematic: data.problematic,
+      severity: data.severity
+    };
+  }
+
+  protected isStringArray(value: any): boolean {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+}
+
+/**
+ * 상담원 종합 평가 응답 JSON 스키마
+ * 점수는 상담 평가와 같은 평가 기준으로 검증하고, 종합 피드백과 문제 상담 목록 형식을 추가로 검사
+ */
+export class CounselorEvaluationSchema extends EvaluationSchema {
+  static readonly COUNSELOR_NAME = 'counselor_evaluation';
+
+  getName(): string {
+    return CounselorEvaluationSchema.COUNSELOR_NAME;
+  }
+
+  toJsonSchema(): Record<string, any> {
+    return {
+      type: 'object',
+      properties: {
+        scores: this.toScoresJsonSchema(),
+        comprehensive_feedback: {
+          type: 'object',
+          properties: Object.fromEntries(FEEDBACK_KEYS.map(key => [key, STRING_ARRAY])),
+          required: FEEDBACK_KEYS,
+          additionalProperties: false
+        },
+        problematic_chats: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              chat_id: { type: 'string' },
+              issues: STRING_ARRAY,
+              severity: { type: 'string' },
+              reason: { type: 'string' }
+            },
+            required: ['chat_id', 'issues', 'severity', 'reason'],
+            additionalProperties: false
+          }
+        },
+        overall_comment: { type: 'string' }
+      },
+      required: ['scores', 'comprehensive_feedback', 'problematic_chats', 'overall_comment'],
+      additionalProperties: false
+    };
+  }
+
+  validate(data: any): SchemaValidationResult {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { valid: false, errors: ['응답이 JSON 객체가 아닙니다'] };
+    }
+
+    const errors = this.validateScores(data.scores);
+
+    const feedback = data.comprehensive_feedback;
+    if (!feedback || typeof feedback !== 'object') {
+      errors.push('comprehensive_feedback가 없습니다');
+    } else {
+      FEEDBACK_KEYS
+        .filter(key => !this.isStringArray(feedback[key]))
+        .forEach(key => errors.push(`comprehensive_feedback.${key}는 문자열 배열이어야 합니다`));
+    }
+
+    if (!Array.isArray(data.problematic_chats)) {
+      errors.push('problematic_chats는 배열이어야 합니다');
+    } else {
+      data.problematic_chats.forEach((chat: any, index: number) => {
+        if (!chat || typeof chat !== 'object' || (typeof chat.chat_id !== 'string' && typeof chat.chat_id !== 'number')) {
+          errors.push(`problematic_chats[${index}].chat_id가 없습니다`);
+        } else if (!this.isStringArray(chat.issues)) {
+          errors.push(`problematic_chats[${index}].issues는 문자열 배열이어야 합니다`);
+        }
+      });
+    }
+
+    if (typeof data.overall_comment !== 'string') {
+      errors.push('overall_comment는 문자열이어야 합니다');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * 검증된 응답을 상담원 종합 평가 결과 필드로 변환
+   */
+  static toCounselorResult(
+    data: any
+  ): Pick<CounselorEvaluationResult, 'scores' | 'comprehensive_feedback' | 'problematic_chats' | 'overall_comment'> {
+    return {
+      scores: data.scores,
+      comprehensive_feedback: {
+        strengths: data.comprehensive_feedback.strengths,
+        weaknesses: data.comprehensive_feedback.weaknesses,
+        improvement_priorities: data.comprehensive_feedback.improvement_priorities
+      },
+      problematic_chats: data.problematic_chats.map((chat: any) => ({
+        chat_id: String(chat.chat_id),
+        issues: chat.issues,
+        severity: chat.severity || '',
+        reason: chat.reason
+      })),
+      overall_comment: data.overall_comment
+    };
+  }
+}
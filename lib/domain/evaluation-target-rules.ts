@@ -0,0 +1,164 @@
+import {
+  FilterConfig,
+  TargetCondition,
+  TargetChatContext,
+  TargetDecision,
+  TargetMessageSender
+} from '@/lib/types/evaluation';
+
+const SENDER_LABELS: Record<TargetMessageSender, string> = {
+  total: '전체',
+  manager: '상담원',
+  user: '고객'
+};
+
+/**
+ * 평가 대상 선정 규칙 엔진
+ * 평가 기준 파일의 filters(FilterConfig)로부터 포함/제외 규칙을 구성하고 상담별 판정 근거를 제공
+ */
+export class EvaluationTargetRules {
+  private filters: FilterConfig;
+  private rule: TargetCondition;
+
+  constructor(filters: FilterConfig) {
+    this.filters = filters;
+    this.rule = filters.rule || EvaluationTargetRules.buildDefaultRule(filters);
+  }
+
+  /**
+   * FilterConfig 항목으로 기본 규칙 구성
+   * 제외 태그 없음 AND 포함 태그 일치 AND 최소 메시지 수 AND 만족도 범위
+   */
+  static buildDefaultRule(filters: FilterConfig): TargetCondition {
+    const conditions: TargetCondition[] = [];
+
+    if (filters.exclude_tags?.length) {
+      conditions.push({ not: { tags_any: filters.exclude_tags } });
+    }
+
+    if (filters.include_tags?.length) {
+      conditions.push({ tags_any: filters.include_tags });
+    }
+
+    for (const [sender, count] of Object.entries(filters.min_messages || {})) {
+      if (typeof count === 'number' && count > 0) {
+        conditions.push({ min_messages: count, sender: sender as TargetMessageSender });
+      }
+    }
+
+    if (filters.rating_range) {
+      conditions.push({ rating: filters.rating_range });
+    }
+
+    return { all: conditions };
+  }
+
+  /**
+   * 상담 평가 대상 여부 판정
+   */
+  evaluate(chat: TargetChatContext): TargetDecision {
+    const explanation: string[] = [];
+    const included = this.check(this.rule, chat, explanation, 0);
+
+    return { included, explanation };
+  }
+
+  /**
+   * 조건 평가 (판정 근거를 explanation에 누적)
+   */
+  private check(condition: TargetCondition, chat: TargetChatContext, explanation: string[], depth: number): boolean {
+    const indent = '  '.repeat(depth);
+
+    if ('all' in condition) {
+      if (depth > 0) explanation.push(`${indent}모두 충족:`);
+      // 모든 조건을 평가하여 전체 근거를 남김
+      const results = condition.all.map(child => this.check(child, chat, explanation, depth > 0 ? depth + 1 : depth));
+      return results.every(Boolean);
+    }
+
+    if ('any' in condition) {
+      explanation.push(`${indent}하나 이상 충족:`);
+      const results = condition.any.map(child => this.check(child, chat, explanation, depth + 1));
+      return results.some(Boolean);
+    }
+
+    if ('not' in condition) {
+      const inner: string[] = [];
+      const result = !this.check(condition.not, chat, inner, 0);
+      const detail = inner.map(line => line.trim().replace(/^[✓✗] /, '')).join('; ');
+      explanation.push(`${indent}${this.mark(result)} 제외 조건 ${result ? '미해당' : '해당'}: ${detail}`);
+      return result;
+    }
+
+    if ('tags_any' in condition) {
+      const matched = this.matchTags(chat.tags, condition.tags_any, condition.match || 'contains');
+      explanation.push(
+        `${indent}${this.mark(matched.length > 0)} 태그 [${condition.tags_any.join(', ')}] 중 일치: ` +
+        (matched.length > 0 ? matched.join(', ') : chat.tags.length > 0 ? `없음 (태그: ${chat.tags.join(', ')})` : '없음 (태그 없음)')
+      );
+      return matched.length > 0;
+    }
+
+    if ('text_any' in condition) {
+      const sender = condition.sender || 'total';
+      const found = condition.text_any.filter(pattern =>
+        this.messagesOf(chat, sender, false).some(message => message.text.includes(pattern))
+      );
+      explanation.push(
+        `${indent}${this.mark(found.length > 0)} ${SENDER_LABELS[sender]} 메시지 문구 일치: ${found.length > 0 ? found.join(', ') : '없음'}`
+      );
+      return found.length > 0;
+    }
+
+    if ('min_messages' in condition) {
+      const sender = condition.sender || 'total';
+      const count = this.messagesOf(chat, sender, true).length;
+      const result = count >= condition.min_messages;
+      explanation.push(
+        `${indent}${this.mark(result)} ${SENDER_LABELS[sender]} 메시지 ${count}개 (최소 ${condition.min_messages}개, 제외 패턴 메시지 미포함)`
+      );
+      return result;
+    }
+
+    if ('rating' in condition) {
+      const { min, max, allow_missing = true } = condition.rating;
+      const range = `${min ?? '-'} ~ ${max ?? '-'}`;
+
+      if (chat.rating === undefined || isNaN(chat.rating)) {
+        explanation.push(`${indent}${this.mark(allow_missing)} 만족도 없음 (허용 범위 ${range}, 미응답 ${allow_missing ? '허용' : '제외'})`);
+        return allow_missing;
+      }
+
+      const result = (min === undefined || chat.rating >= min) && (max === undefined || chat.rating <= max);
+      explanation.push(`${indent}${this.mark(result)} 만족도 ${chat.rating} (허용 범위 ${range})`);
+      return result;
+    }
+
+    explanation.push(`${indent}✗ 알 수 없는 조건: ${JSON.stringify(condition)}`);
+    return false;
+  }
+
+  private matchTags(tags: string[], candidates: string[], match: 'contains' | 'exact'): string[] {
+    return tags
+      .map(tag => tag.trim())
+      .filter(tag => tag.length > 0)
+      .filter(tag => candidates.some(candidate =>
+        candidate.length > 0 && (match === 'exact' ? tag === candidate : tag.includes(candidate))
+      ));
+  }
+
+  /**
+   * 발신자별 메시지 (제외 패턴에 해당하는 메시지는 선택적으로 제외)
+   */
+  private messagesOf(chat: TargetChatContext, sender: TargetMessageSender, skipExcluded: boolean) {
+    return chat.messages.filter(message => {
+      if (sender !== 'total' && message.type !== sender) return false;
+      if (!skipExcluded) return true;
+      return !this.filters.exclude_patterns?.some(pattern => pattern.length > 0 && message.text.includes(pattern));
+    });
+  }
+
+  private mark(result: boolean): string {
+    return result ? '✓' : '✗';
+  }
+}
@@ -2,6 +2,7 @@ import { ConfigManager } from '@/lib/config/manager';
 import { OutlierDetector } from './validators/outlier-detector';
 import { ConsistencyValidator } from './validators/consistency-validator';
 import { ConfidenceCalculator } from './validators/confidence-calculator';
+import { ScoringEngine } from './scoring-engine';
 import { 
   ProviderResult, 
   ConsolidatedResult, 
@@ -549,16 +550,7 @@ export class EvaluationValidator {
   }
 
   private calculateTotalScore(scores: any): number {
-    // 가중치를 적용한 총점 계산
-    const weights = { 업무능력: 0.6, 문장력: 0.25, 기본_태도: 0.15 };
-    let total = 0;
-    
-    Object.entries(weights).forEach(([key, weight]) => {
-      if (scores[key]?.subtotal) {
-        total += scores[key].subtotal * weight;
-      }
-    });
-    
-    return total;
+    // 평가 기준 가중치를 적용한 총점 계산
+    return new ScoringEngine(this.configManager.getEvaluationCriteria()).applyWeights(scores).total_score;
   }
 }
\ No newline at end of file
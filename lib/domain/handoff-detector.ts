@@ -0,0 +1,163 @@
+import { HandoffRule, HandoffDetection } from '@/lib/types/evaluation';
+
+const COUNSELOR_NAMES_PLACEHOLDER = /\{\{counselor_names\}\}/g;
+const FALLBACK_NAME_PATTERN = '[가-힣]{2,4}';
+
+/**
+ * 서포트봇 → 실제 상담원 전환 지점 탐지
+ * config/evaluation/handoff-rules.json의 규칙을 순서대로 적용하여 처음 일치한 규칙을 채택
+ */
+export class HandoffDetector {
+  private rules: HandoffRule[];
+  private counselorNames: string[];
+  private compiledPatterns: Map<string, RegExp[]> = new Map();
+
+  constructor(rules: HandoffRule[], counselorNames: string[]) {
+    this.rules = rules.filter(rule => rule.enabled);
+    this.counselorNames = counselorNames;
+
+    const names = counselorNames.map(name => this.escapeRegExp(name)).join('|') || FALLBACK_NAME_PATTERN;
+    for (const rule of this.rules) {
+      if (rule.type === 'greeting_regex') {
+        this.compiledPatterns.set(
+          rule.id,
+          (rule.patterns || []).map(pattern => new RegExp(pattern.replace(COUNSELOR_NAMES_PLACEHOLDER, names)))
+        );
+      }
+    }
+  }
+
+  /**
+   * 상담원 메시지 목록에서 전환 지점 탐지
+   */
+  detect(messages: any[], getText: (message: any) => string): HandoffDetection {
+    for (const rule of this.rules) {
+      const detection = this.applyRule(rule, messages, getText);
+      if (detection) {
+        return detection;
+      }
+    }
+
+    return { status: 'unmatched', index: -1 };
+  }
+
+  /**
+   * 단일 규칙 적용
+   */
+  private applyRule(
+    rule: HandoffRule,
+    messages: any[],
+    getText: (message: any) => string
+  ): HandoffDetection | null {
+    switch (rule.type) {
+      case 'greeting_regex':
+        return this.matchGreeting(rule, messages, getText);
+      case 'name_keywords':
+        return this.matchNameKeywords(rule, messages, getText);
+      case 'sender_change':
+        return this.matchSenderChange(rule, messages);
+      case 'metadata_flag':
+        return this.matchMetadataFlag(rule, messages);
+      default:
+        console.warn(`[HandoffDetector] 알 수 없는 규칙 유형: ${rule.type} (${rule.id})`);
+        return null;
+    }
+  }
+
+  /**
+   * 인사 메시지 정규식 (메시지 순서 우선, 패턴은 메시지별로 순차 시도)
+   */
+  private matchGreeting(
+    rule: HandoffRule,
+    messages: any[],
+    getText: (message: any) => string
+  ): HandoffDetection | null {
+    const patterns = this.compiledPatterns.get(rule.id) || [];
+
+    for (let i = 0; i < messages.length; i++) {
+      const text = getText(messages[i]);
+
+      for (let j = 0; j < patterns.length; j++) {
+        const match = text.match(patterns[j]);
+        if (match) {
+          return this.matched(rule, i, { patternIndex: j, counselorName: match[1] || '알 수 없음' });
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 상담원 이름 + 키워드가 모두 포함된 첫 메시지
+   */
+  private matchNameKeywords(
+    rule: HandoffRule,
+    messages: any[],
+    getText: (message: any) => string
+  ): HandoffDetection | null {
+    const keywords = rule.keywords || [];
+
+    for (let i = 0; i < messages.length; i++) {
+      const text = getText(messages[i]);
+      const foundName = this.counselorNames.find(name => text.includes(name));
+
+      if (foundName && keywords.every(keyword => text.includes(keyword))) {
+        return this.matched(rule, i, { counselorName: foundName });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 발신자 필드 값이 처음으로 바뀌는 메시지
+   */
+  private matchSenderChange(rule: HandoffRule, messages: any[]): HandoffDetection | null {
+    if (!rule.field || messages.length === 0) return null;
+
+    const initialSender = messages[0][rule.field];
+    if (initialSender === undefined || initialSender === null || initialSender === '') return null;
+
+    for (let i = 1; i < messages.length; i++) {
+      const sender = messages[i][rule.field];
+      if (sender !== undefined && sender !== null && sender !== '' && String(sender) !== String(initialSender)) {
+        return this.matched(rule, i);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 메타데이터 플래그가 설정된 첫 메시지
+   */
+  private matchMetadataFlag(rule: HandoffRule, messages: any[]): HandoffDetection | null {
+    if (!rule.field) return null;
+
+    const expected = String(rule.value ?? 'true');
+    const index = messages.findIndex(message =>
+      message[rule.field as string] !== undefined && String(message[rule.field as string]) === expected
+    );
+
+    return index === -1 ? null : this.matched(rule, index);
+  }
+
+  private matched(
+    rule: HandoffRule,
+    index: number,
+    extra: Pick<HandoffDetection, 'patternIndex' | 'counselorName'> = {}
+  ): HandoffDetection {
+    return {
+      status: 'matched',
+      index,
+      ruleId: rule.id,
+      ruleType: rule.type,
+      ...extra
+    };
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,183 @@
+import {
+  OperatingHoursConfig,
+  OperatingHoursClassification,
+  TimeWindow,
+  Weekday
+} from '@/lib/types/evaluation';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: '월', tue: '화', wed: '수', thu: '목', fri: '금', sat: '토', sun: '일'
+};
+const LOCAL_DATETIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * 운영시간 캘린더
+ * 요일별 운영시간, 휴게시간, 공휴일/회사 휴무일을 설정된 시간대 기준으로 판정
+ */
+export class OperatingHoursCalendar {
+  private config: OperatingHoursConfig;
+  private formatter: Intl.DateTimeFormat;
+  private closures: Map<string, { name: string; type: 'holiday' | 'company_closure' }> = new Map();
+
+  constructor(config: OperatingHoursConfig) {
+    this.config = config;
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: config.timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+
+    for (const holiday of config.holidays || []) {
+      this.closures.set(holiday.date, { name: holiday.name, type: 'holiday' });
+    }
+    // 회사 휴무일이 공휴일보다 우선 표시
+    for (const closure of config.company_closures || []) {
+      this.closures.set(closure.date, { name: closure.name, type: 'company_closure' });
+    }
+  }
+
+  get timezone(): string {
+    return this.config.timezone;
+  }
+
+  /**
+   * 시각 판정 (운영시간 내 / 외 / 판정 불가)
+   */
+  classify(value: string | number | Date | null | undefined): OperatingHoursClassification {
+    const date = this.parseDate(value);
+    if (!date) {
+      return { status: 'unknown', reason: 'unparseable' };
+    }
+
+    const local = this.getLocalParts(date);
+    const localDate = `${local.year}-${local.month}-${local.day}`;
+    const localTime = `${local.hour}:${local.minute}`;
+    const base = { localDate, localTime };
+
+    const closure = this.closures.get(localDate);
+    if (closure) {
+      return { ...base, status: 'off_hours', reason: closure.type, closureName: closure.name };
+    }
+
+    const weekday = WEEKDAYS[new Date(Date.UTC(+local.year, +local.month - 1, +local.day)).getUTCDay()];
+    const windows = this.config.weekly[weekday] || [];
+    if (windows.length === 0) {
+      return { ...base, status: 'off_hours', reason: 'weekly_off' };
+    }
+
+    if (!windows.some(window => this.isInWindow(localTime, window))) {
+      return { ...base, status: 'off_hours', reason: 'outside_window' };
+    }
+
+    const breakWindow = (this.config.breaks || []).find(window => this.isInWindow(localTime, window));
+    if (breakWindow) {
+      return { ...base, status: 'off_hours', reason: 'break', closureName: breakWindow.name };
+    }
+
+    return { ...base, status: 'in_hours', reason: 'within_window' };
+  }
+
+  /**
+   * 운영시간 내 여부 (판정 불가 시 unparseable_as 설정값, 미지정이면 운영시간 외)
+   */
+  isWithinOperatingHours(value: string | number | Date | null | undefined): boolean {
+    // 시각 정보 자체가 없으면 운영시간 외로 간주
+    if (value === null || value === undefined || value === '') return false;
+
+    const { status } = this.classify(value);
+    if (status === 'unknown') {
+      return this.config.unparseable_as === 'in_hours';
+    }
+    return status === 'in_hours';
+  }
+
+  /**
+   * 프롬프트용 운영시간 설명
+   */
+  describe(): string[] {
+    const groups = new Map<string, Weekday[]>();
+    for (const weekday of [...WEEKDAYS.slice(1), WEEKDAYS[0]]) {
+      const windows = this.config.weekly[weekday] || [];
+      const key = windows.length > 0 ? windows.map(w => `${w.start} ~ ${w.end}`).join(', ') : '미운영';
+      groups.set(key, [...(groups.get(key) || []), weekday]);
+    }
+
+    const lines = Array.from(groups.entries()).map(([key, days]) =>
+      `${days.map(day => WEEKDAY_LABELS[day]).join(', ')}: ${key}`
+    );
+
+    for (const window of this.config.breaks || []) {
+      lines.push(`${window.name || '휴게시간'} (미운영): ${window.start} ~ ${window.end}`);
+    }
+    lines.push('공휴일 및 회사 휴무일: 미운영');
+
+    return lines;
+  }
+
+  /**
+   * 타임스탬프/날짜 문자열 파싱
+   * 시간대 표기가 없는 'YYYY-MM-DD HH:mm:ss' 형식은 설정된 시간대 기준으로 해석
+   */
+  parseDate(value: string | number | Date | null | undefined): Date | null {
+    if (value === null || value === undefined || value === '') return null;
+
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value;
+    }
+
+    const text = String(value).trim();
+
+    // 숫자로만 이루어진 타임스탬프 (13자리 밀리초 / 10자리 초)
+    if (/^\d+$/.test(text)) {
+      const timestamp = Number.parseInt(text, 10);
+      return new Date(timestamp > 1000000000000 ? timestamp : timestamp * 1000);
+    }
+
+    const parts = text.match(LOCAL_DATETIME_PATTERN);
+    if (parts) {
+      const [, year, month, day, hour, minute, second = '0'] = parts;
+      const asUtc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+      const offset = this.getOffset(new Date(asUtc));
+      const date = new Date(asUtc - offset);
+      // DST 경계 보정
+      const corrected = this.getOffset(date);
+      return corrected === offset ? date : new Date(asUtc - corrected);
+    }
+
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private isInWindow(time: string, window: TimeWindow): boolean {
+    return time >= window.start && time < window.end;
+  }
+
+  private getLocalParts(date: Date): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', string> {
+    const parts = Object.fromEntries(
+      this.formatter.formatToParts(date).map(part => [part.type, part.value])
+    );
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour,
+      minute: parts.minute,
+      second: parts.second
+    };
+  }
+
+  /**
+   * 설정된 시간대의 UTC 오프셋 (ms)
+   */
+  private getOffset(date: Date): number {
+    const local = this.getLocalParts(date);
+    const asUtc = Date.UTC(+local.year, +local.month - 1, +local.day, +local.hour, +local.minute, +local.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+  }
+}
@@ -0,0 +1,263 @@
+export type TrendGranularity = 'month' | 'week';
+
+/**
+ * 평가 이력의 세부 항목 점수 1건 (평가한 상담 기간의 시작 일자 기준)
+ */
+export interface TrendObservation {
+  runId: string;
+  /** YYYY-MM-DD */
+  periodStart: string;
+  section: string;
+  item: string;
+  score: number;
+}
+
+export interface PeriodStatistics {
+  period: string;
+  mean: number;
+  stdDev: number;
+  n: number;
+}
+
+export interface PeriodChange {
+  from: string;
+  to: string;
+  delta: number;
+  /** Welch t-검정 결과 (두 기간 모두 관측이 2건 이상일 때만) */
+  tStatistic?: number;
+  degreesOfFreedom?: number;
+  pValue?: number;
+  significant: boolean;
+  direction: 'improved' | 'declined' | 'unchanged';
+}
+
+export interface TrendSeries {
+  section: string;
+  item: string;
+  periods: PeriodStatistics[];
+  /** 연속한 기간 사이의 변화 */
+  changes: PeriodChange[];
+  /** 첫 기간 대비 마지막 기간 변화 (기간이 3개 이상일 때) */
+  overall?: PeriodChange;
+}
+
+export interface TTestResult {
+  tStatistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+const DEFAULT_ALPHA = 0.05;
+
+/**
+ * 상담원 성과 추이 분석
+ * 세부 항목 점수를 월/주 단위로 묶어 기간별 평균을 구하고, 기간 사이 변화를 Welch t-검정(양측)으로 판정
+ */
+export class PerformanceTrendAnalyzer {
+  private granularity: TrendGranularity;
+  private alpha: number;
+
+  constructor(options: { granularity?: TrendGranularity; alpha?: number } = {}) {
+    this.granularity = options.granularity || 'month';
+    this.alpha = options.alpha ?? DEFAULT_ALPHA;
+  }
+
+  /**
+   * 날짜(YYYY-MM-DD)의 기간 키 (월: 2025-07, 주: ISO 주차 2025-W28)
+   */
+  static toPeriod(date: string, granularity: TrendGranularity): string {
+    if (granularity === 'month') {
+      return date.slice(0, 7);
+    }
+
+    const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+    const weekday = day.getUTCDay() || 7;
+    day.setUTCDate(day.getUTCDate() + 4 - weekday); // 같은 주의 목요일이 속한 연도가 ISO 연도
+    const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+  }
+
+  /**
+   * 세부 항목별 기간 추이 (항목 순서는 관측 순서 유지)
+   */
+  analyze(observations: TrendObservation[]): TrendSeries[] {
+    const grouped = new Map<string, { section: string; item: string; byPeriod: Map<string, number[]> }>();
+
+    observations.forEach(observation => {
+      const key = `${observation.section}\u0000${observation.item}`;
+      let group = grouped.get(key);
+      if (!group) {
+        group = { section: observation.section, item: observation.item, byPeriod: new Map() };
+        grouped.set(key, group);
+      }
+
+      const period = PerformanceTrendAnalyzer.toPeriod(observation.periodStart, this.granularity);
+      group.byPeriod.set(period, [...(group.byPeriod.get(period) || []), observation.score]);
+    });
+
+    return Array.from(grouped.values()).map(({ section, item, byPeriod }) => {
+      const periods = Array.from(byPeriod.keys()).sort();
+      const samples = periods.map(period => byPeriod.get(period) || []);
+      const changes = periods.slice(1).map((period, index) =>
+        this.compare(periods[index], samples[index], period, samples[index + 1])
+      );
+
+      return {
+        section,
+        item,
+        periods: periods.map((period, index) => ({
+          period,
+          mean: mean(samples[index]),
+          stdDev: Math.sqrt(variance(samples[index])),
+          n: samples[index].length
+        })),
+        changes,
+        ...(periods.length > 2 && {
+          overall: this.compare(periods[0], samples[0], periods[periods.length - 1], samples[samples.length - 1])
+        })
+      };
+    });
+  }
+
+  /**
+   * 두 기간 비교 (관측이 부족하면 검정 없이 평균 차이만 기록하고 유의하지 않은 것으로 처리)
+   */
+  compare(from: string, before: number[], to: string, after: number[]): PeriodChange {
+    const delta = mean(after) - mean(before);
+    const test = welchTTest(before, after);
+    const significant = !!test && test.pValue < this.alpha;
+
+    return {
+      from,
+      to,
+      delta,
+      ...test,
+      significant,
+      direction: !significant ? 'unchanged' : delta > 0 ? 'improved' : 'declined'
+    };
+  }
+}
+
+/**
+ * Welch t-검정 (등분산 가정 없음, 양측 p-value)
+ * 표본이 2건 미만이면 null, 두 표본 모두 분산이 0이면 평균이 같을 때 p=1, 다를 때 p=0
+ */
+export function welchTTest(a: number[], b: number[]): TTestResult | null {
+  if (a.length < 2 || b.length < 2) return null;
+
+  const varianceA = variance(a) / a.length;
+  const varianceB = variance(b) / b.length;
+  const standardError = Math.sqrt(varianceA + varianceB);
+  const delta = mean(b) - mean(a);
+
+  if (standardError === 0) {
+    return { tStatistic: delta === 0 ? 0 : Math.sign(delta) * Infinity, degreesOfFreedom: a.length + b.length - 2, pValue: delta === 0 ? 1 : 0 };
+  }
+
+  const tStatistic = delta / standardError;
+  const degreesOfFreedom =
+    (varianceA + varianceB) ** 2 /
+    (varianceA ** 2 / (a.length - 1) + varianceB ** 2 / (b.length - 1));
+
+  return { tStatistic, degreesOfFreedom, pValue: studentTTwoSidedPValue(tStatistic, degreesOfFreedom) };
+}
+
+/**
+ * t-분포 양측 p-value: I_{df/(df+t²)}(df/2, 1/2)
+ */
+export function studentTTwoSidedPValue(t: number, degreesOfFreedom: number): number {
+  return regularizedIncompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+/**
+ * 양측 유의수준 alpha의 t-분포 임계값 (p-value가 alpha가 되는 t를 이분 탐색)
+ */
+export function studentTCriticalValue(alpha: number, degreesOfFreedom: number): number {
+  let low = 0;
+  let high = 1000;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const middle = (low + high) / 2;
+    if (studentTTwoSidedPValue(middle, degreesOfFreedom) > alpha) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * 표본 분산 (n-1)
+ */
+function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * 정규화 불완전 베타 함수 I_x(a, b) (연분수 전개)
+ */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // 수렴이 빠른 쪽으로 계산
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const EPSILON = 1e-14;
+  const TINY = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < TINY ? TINY : d);
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    const even = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 / (Math.abs(1 + even * d) < TINY ? TINY : 1 + even * d);
+    c = Math.abs(1 + even / c) < TINY ? TINY : 1 + even / c;
+    result *= d * c;
+
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 / (Math.abs(1 + odd * d) < TINY ? TINY : 1 + odd * d);
+    c = Math.abs(1 + odd / c) < TINY ? TINY : 1 + odd / c;
+    const step = d * c;
+    result *= step;
+
+    if (Math.abs(step - 1) < EPSILON) break;
+  }
+  return result;
+}
+
+/**
+ * ln Γ(x) (Lanczos 근사)
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const shifted = x - 1;
+  let sum = 0.99999999999980993;
+  coefficients.forEach((coefficient, index) => {
+    sum += coefficient / (shifted + index + 1);
+  });
+  const t = shifted + coefficients.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
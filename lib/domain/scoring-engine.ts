@@ -0,0 +1,171 @@
+import {
+  EvaluationCriteria,
+  EvaluationResult,
+  ScoreAssessment
+} from '@/lib/types/evaluation';
+
+type Scores = EvaluationResult['scores'];
+
+/**
+ * 평가 기준 기반 점수 계산 엔진
+ * 소계/총점, 문제 상담 여부와 심각도를 평가 기준 파일(evaluation_criteria, scoring)로만 산출
+ */
+export class ScoringEngine {
+  private criteria: EvaluationCriteria;
+
+  constructor(criteria: EvaluationCriteria) {
+    this.criteria = criteria;
+  }
+
+  /**
+   * 평가 섹션 목록 (평가 기준 파일 선언 순서)
+   */
+  get sections(): string[] {
+    return Object.keys(this.criteria.evaluation_criteria);
+  }
+
+  /**
+   * 세부 항목 점수로 소계와 총점을 재계산
+   * 응답에 없는 세부 항목은 제외하고 남은 가중치로 정규화하며, 세부 항목이 하나도 없으면 응답의 소계를 유지
+   */
+  applyWeights(scores: Scores): Scores {
+    const result: any = {};
+    let weightedSum = 0;
+    let weightTotal = 0;
+
+    for (const [section, config] of Object.entries(this.criteria.evaluation_criteria)) {
+      const reported: Record<string, any> = (scores as any)?.[section] || {};
+      const detail: Record<string, number> = {};
+      let sectionSum = 0;
+      let sectionWeight = 0;
+
+      for (const [item, subcriteria] of Object.entries(config.subcriteria)) {
+        const value = reported[item];
+        if (typeof value !== 'number' || isNaN(value)) continue;
+
+        detail[item] = this.clamp(value);
+        sectionSum += detail[item] * subcriteria.weight;
+        sectionWeight += subcriteria.weight;
+      }
+
+      const subtotal = sectionWeight > 0
+        ? sectionSum / sectionWeight
+        : typeof reported.subtotal === 'number' ? this.clamp(reported.subtotal) : undefined;
+
+      if (subtotal === undefined) continue;
+
+      result[section] = { ...detail, subtotal };
+      weightedSum += subtotal * config.weight;
+      weightTotal += config.weight;
+    }
+
+    result.total_score = weightTotal > 0 ? weightedSum / weightTotal : (scores as any)?.total_score;
+
+    return result;
+  }
+
+  /**
+   * 여러 평가의 세부 항목별 평균 (상담별 평가를 상담원 단위로 집계)
+   * 소계/총점은 평균낸 세부 항목 점수로 재계산하며, 세부 항목이 없는 섹션은 소계 평균을 사용
+   */
+  average(scoresList: Scores[]): Scores {
+    const averaged: any = {};
+
+    for (const section of this.sections) {
+      const values: Record<string, number[]> = {};
+      scoresList.forEach(scores => {
+        Object.entries((scores as any)?.[section] || {}).forEach(([item, value]) => {
+          if (typeof value !== 'number' || isNaN(value)) return;
+          (values[item] = values[item] || []).push(value);
+        });
+      });
+
+      averaged[section] = Object.fromEntries(
+        Object.entries(values).map(([item, list]) => [item, list.reduce((sum, value) => sum + value, 0) / list.length])
+      );
+    }
+
+    return this.applyWeights(averaged);
+  }
+
+  /**
+   * 모든 세부 항목을 동일 점수로 채운 기본 점수
+   */
+  getDefaultScores(value: number = 3.0): Scores {
+    return this.applyWeights(this.buildScores(() => value));
+  }
+
+  /**
+   * 프롬프트 응답 형식용 점수 템플릿 (모든 항목 0.0)
+   */
+  buildScoreTemplate(): Scores {
+    const template: any = this.buildScores(() => 0);
+    for (const section of this.sections) {
+      template[section].subtotal = 0;
+    }
+    template.total_score = 0;
+    return template;
+  }
+
+  /**
+   * 문제 상담 여부 및 심각도 판정
+   * scoring.problematic_criteria의 총점/섹션 기준과, 비교 기준 점수(baseline) 대비 relative_threshold 이상 낮은지로 판정
+   * 심각도는 scoring.thresholds 기준: poor 미만 high, average 미만 medium, 그 외 문제 상담은 low
+   */
+  assess(scores: Scores, baseline?: number): ScoreAssessment {
+    const { thresholds, problematic_criteria } = this.criteria.scoring;
+    const reasons: string[] = [];
+    const total = scores.total_score;
+
+    if (typeof total === 'number' && total < problematic_criteria.total_score) {
+      reasons.push(`총점 ${total.toFixed(2)} < 기준 ${problematic_criteria.total_score}`);
+    }
+
+    for (const section of this.sections) {
+      const threshold = this.getSectionThreshold(section);
+      const subtotal = (scores as any)[section]?.subtotal;
+      if (threshold !== undefined && typeof subtotal === 'number' && subtotal < threshold) {
+        reasons.push(`${section} 소계 ${subtotal.toFixed(2)} < 기준 ${threshold}`);
+      }
+    }
+
+    if (
+      typeof total === 'number' &&
+      typeof baseline === 'number' &&
+      baseline - total >= problematic_criteria.relative_threshold
+    ) {
+      reasons.push(`비교 기준 ${baseline.toFixed(2)} 대비 ${(baseline - total).toFixed(2)}점 낮음 (기준 ${problematic_criteria.relative_threshold})`);
+    }
+
+    const problematic = reasons.length > 0;
+    let severity: ScoreAssessment['severity'] = 'none';
+    if (problematic) {
+      severity = total < thresholds.poor ? 'high' : total < thresholds.average ? 'medium' : 'low';
+    }
+
+    return { problematic, severity, reasons };
+  }
+
+  private buildScores(valueOf: (section: string, item: string) => number): any {
+    const scores: any = {};
+    for (const [section, config] of Object.entries(this.criteria.evaluation_criteria)) {
+      scores[section] = Object.fromEntries(
+        Object.keys(config.subcriteria).map(item => [item, valueOf(section, item)])
+      );
+    }
+    return scores;
+  }
+
+  /**
+   * 섹션별 문제 상담 기준 (이전 형식의 밑줄 없는 키도 허용)
+   */
+  private getSectionThreshold(section: string): number | undefined {
+    const criteria = this.criteria.scoring.problematic_criteria;
+    return criteria[section] ?? criteria[section.replace(/_/g, '')];
+  }
+
+  private clamp(value: number): number {
+    const { min, max } = this.criteria.scoring.scale;
+    return Math.min(max, Math.max(min, value));
+  }
+}
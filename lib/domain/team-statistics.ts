@@ -0,0 +1,263 @@
+import { studentTCriticalValue } from '@/lib/domain/performance-trend';
+
+/**
+ * 상담원의 세부 항목 점수 1건 (총점은 section 'total', item 'total_score')
+ */
+export interface TeamScoreObservation {
+  counselorId: string;
+  counselorName: string;
+  section: string;
+  item: string;
+  score: number;
+}
+
+/**
+ * 평가 1건의 분석 상담 수와 문제 상담 수 (제외 처리한 문제 상담은 빼고 집계)
+ */
+export interface TeamChatCountObservation {
+  counselorId: string;
+  counselorName: string;
+  chatsAnalyzed: number;
+  problematicChats: number;
+}
+
+export interface TeamScoreColumn {
+  section: string;
+  item: string;
+}
+
+export interface ScoreDistribution extends TeamScoreColumn {
+  /** 상담원 수 (상담원별 평균 점수의 분포) */
+  n: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  bins: Array<{ from: number; to: number; count: number }>;
+}
+
+export interface CounselorRanking {
+  rank: number;
+  counselorId: string;
+  counselorName: string;
+  /** 기간 내 총점 평균 */
+  mean: number;
+  /** 총점 평균의 신뢰구간 (점수가 2건 이상일 때만, 상담별 평가는 상담마다 1건) */
+  lower?: number;
+  upper?: number;
+  n: number;
+}
+
+export interface ProblematicChatRate {
+  counselorId: string;
+  counselorName: string;
+  chatsAnalyzed: number;
+  problematicChats: number;
+  rate: number;
+}
+
+export interface HeatmapRow {
+  counselorId: string;
+  counselorName: string;
+  /** `${section}.${item}` → 기간 내 평균 점수 */
+  scores: Record<string, number>;
+}
+
+export interface TeamDashboard {
+  scale: { min: number; max: number };
+  confidence: number;
+  counselorCount: number;
+  columns: TeamScoreColumn[];
+  distributions: ScoreDistribution[];
+  rankings: CounselorRanking[];
+  problematicRates: ProblematicChatRate[];
+  heatmap: HeatmapRow[];
+}
+
+const TOTAL_COLUMN: TeamScoreColumn = { section: 'total', item: 'total_score' };
+
+/**
+ * 팀 단위 평가 통계
+ * 상담원마다 기간 내 평가 점수를 평균낸 뒤, 세부 항목별 분포, 총점 순위(t-분포 신뢰구간), 문제 상담 비율, 상담원 × 세부 항목 히트맵을 산출
+ */
+export class TeamStatisticsCalculator {
+  private scale: { min: number; max: number };
+  private confidence: number;
+  private binWidth: number;
+  private sectionOrder: Record<string, string[]>;
+
+  /**
+   * @param options.sectionOrder 평가 기준의 영역/세부 항목 순서 (기준에 없는 항목은 관측 순서로 뒤에 추가)
+   */
+  constructor(options: {
+    scale: { min: number; max: number };
+    confidence?: number;
+    binWidth?: number;
+    sectionOrder?: Record<string, string[]>;
+  }) {
+    this.scale = options.scale;
+    this.confidence = options.confidence ?? 0.95;
+    this.binWidth = options.binWidth ?? 0.5;
+    this.sectionOrder = options.sectionOrder || {};
+  }
+
+  build(scores: TeamScoreObservation[], chatCounts: TeamChatCountObservation[]): TeamDashboard {
+    const counselors = new Map<string, { name: string; byColumn: Map<string, number[]> }>();
+    scores.forEach(observation => {
+      let counselor = counselors.get(observation.counselorId);
+      if (!counselor) {
+        counselor = { name: observation.counselorName, byColumn: new Map() };
+        counselors.set(observation.counselorId, counselor);
+      }
+      counselor.name = observation.counselorName;
+      const key = toColumnKey(observation);
+      counselor.byColumn.set(key, [...(counselor.byColumn.get(key) || []), observation.score]);
+    });
+
+    const entries = Array.from(counselors.entries());
+    const columns = this.getColumns(scores);
+    const heatmap: HeatmapRow[] = entries.map(([counselorId, counselor]) => ({
+      counselorId,
+      counselorName: counselor.name,
+      scores: Object.fromEntries(
+        Array.from(counselor.byColumn.entries()).map(([key, values]) => [key, summarize(values).mean])
+      )
+    }));
+
+    return {
+      scale: this.scale,
+      confidence: this.confidence,
+      counselorCount: entries.length,
+      columns,
+      distributions: [...columns, TOTAL_COLUMN]
+        .map(column => this.getDistribution(column, heatmap))
+        .filter((distribution): distribution is ScoreDistribution => distribution !== null),
+      rankings: this.getRankings(entries.map(([counselorId, counselor]) => ({
+        counselorId,
+        counselorName: counselor.name,
+        values: counselor.byColumn.get(toColumnKey(TOTAL_COLUMN)) || []
+      }))),
+      problematicRates: getProblematicRates(chatCounts),
+      heatmap
+    };
+  }
+
+  /**
+   * 세부 항목 열 (영역 소계 포함, 총점 제외)
+   */
+  private getColumns(scores: TeamScoreObservation[]): TeamScoreColumn[] {
+    const columns: TeamScoreColumn[] = [];
+    const seen = new Set<string>();
+    const add = (section: string, item: string) => {
+      const key = toColumnKey({ section, item });
+      if (section === TOTAL_COLUMN.section || seen.has(key)) return;
+      seen.add(key);
+      columns.push({ section, item });
+    };
+
+    Object.entries(this.sectionOrder).forEach(([section, items]) => {
+      const observed = new Set(scores.filter(score => score.section === section).map(score => score.item));
+      [...items, 'subtotal'].filter(item => observed.has(item)).forEach(item => add(section, item));
+    });
+    scores.forEach(score => add(score.section, score.item));
+    return columns;
+  }
+
+  private getDistribution(column: TeamScoreColumn, heatmap: HeatmapRow[]): ScoreDistribution | null {
+    const key = toColumnKey(column);
+    const values = heatmap.map(row => row.scores[key]).filter((value): value is number => value !== undefined);
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const { mean, stdDev } = summarize(values);
+    const binCount = Math.max(1, Math.ceil((this.scale.max - this.scale.min) / this.binWidth));
+    const bins = Array.from({ length: binCount }, (_, index) => ({
+      from: this.scale.min + index * this.binWidth,
+      to: Math.min(this.scale.min + (index + 1) * this.binWidth, this.scale.max),
+      count: 0
+    }));
+    values.forEach(value => {
+      // 마지막 구간은 최고점 포함, 범위를 벗어난 점수는 양 끝 구간으로
+      const index = Math.floor((value - this.scale.min) / this.binWidth);
+      bins[Math.min(Math.max(index, 0), binCount - 1)].count++;
+    });
+
+    return {
+      ...column,
+      n: values.length,
+      mean,
+      median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+      stdDev,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      bins
+    };
+  }
+
+  /**
+   * 총점 평균 순위 (동점은 같은 순위)
+   */
+  private getRankings(counselors: Array<{ counselorId: string; counselorName: string; values: number[] }>): CounselorRanking[] {
+    const rankings = counselors
+      .filter(counselor => counselor.values.length > 0)
+      .map(counselor => {
+        const { mean, stdDev } = summarize(counselor.values);
+        const n = counselor.values.length;
+        const margin = n > 1 ? (studentTCriticalValue(1 - this.confidence, n - 1) * stdDev) / Math.sqrt(n) : undefined;
+        return {
+          rank: 0,
+          counselorId: counselor.counselorId,
+          counselorName: counselor.counselorName,
+          mean,
+          ...(margin !== undefined && { lower: mean - margin, upper: mean + margin }),
+          n
+        };
+      })
+      .sort((a, b) => b.mean - a.mean || a.counselorName.localeCompare(b.counselorName));
+
+    rankings.forEach((ranking, index) => {
+      ranking.rank = index > 0 && rankings[index - 1].mean === ranking.mean ? rankings[index - 1].rank : index + 1;
+    });
+    return rankings;
+  }
+}
+
+export function toColumnKey(column: TeamScoreColumn): string {
+  return `${column.section}.${column.item}`;
+}
+
+/**
+ * 상담원별 문제 상담 비율 (비율 높은 순)
+ */
+function getProblematicRates(chatCounts: TeamChatCountObservation[]): ProblematicChatRate[] {
+  const totals = new Map<string, ProblematicChatRate>();
+  chatCounts.forEach(count => {
+    const total = totals.get(count.counselorId) || {
+      counselorId: count.counselorId,
+      counselorName: count.counselorName,
+      chatsAnalyzed: 0,
+      problematicChats: 0,
+      rate: 0
+    };
+    total.counselorName = count.counselorName;
+    total.chatsAnalyzed += count.chatsAnalyzed;
+    total.problematicChats += count.problematicChats;
+    totals.set(count.counselorId, total);
+  });
+
+  return Array.from(totals.values())
+    .map(total => ({ ...total, rate: total.chatsAnalyzed > 0 ? total.problematicChats / total.chatsAnalyzed : 0 }))
+    .sort((a, b) => b.rate - a.rate);
+}
+
+/**
+ * 평균과 표본 표준편차 (n-1)
+ */
+function summarize(values: number[]): { mean: number; stdDev: number } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.length > 1 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1) : 0;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
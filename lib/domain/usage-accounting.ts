@@ -0,0 +1,106 @@
+import { CostBreakdown, CostConfig, ProviderConfig, TokenUsage, UsageSummary } from '@/lib/types/evaluation';
+
+// 토큰 추정 비율 (문자 수 / 토큰)
+const CHARS_PER_TOKEN: Record<string, number> = {
+  'openai-gpt5': 4.5,
+  'gemini-25': 4.5
+};
+const DEFAULT_CHARS_PER_TOKEN = 4;
+const ZERO_COST: CostConfig = { input_per_1k: 0, output_per_1k: 0 };
+
+/**
+ * 토큰 사용량 및 비용 집계
+ * Provider 응답의 usage를 기준으로 입력/출력 비용을 나누고, 상담·상담원·배치 단위로 합산
+ */
+export class UsageAccounting {
+  static charsPerToken(provider: string): number {
+    return CHARS_PER_TOKEN[provider] || DEFAULT_CHARS_PER_TOKEN;
+  }
+
+  /**
+   * 모델 단가 (available_models에 등록된 모델이면 해당 단가, 없으면 Provider 기본 단가)
+   */
+  static modelCost(config: ProviderConfig): CostConfig {
+    const availableModels: Array<{ model_id: string; cost: CostConfig }> = (config as any).available_models || [];
+    return availableModels.find(model => model.model_id === config.model)?.cost || config.cost || ZERO_COST;
+  }
+
+  /**
+   * 응답에 usage가 없을 때 문자 수 기반 추정
+   */
+  static estimate(prompt: string, response: string, charsPerToken: number = 4): TokenUsage {
+    const input = Math.ceil(prompt.length / charsPerToken);
+    const output = Math.ceil(response.length / charsPerToken);
+    return { input, output, reasoning: 0, total: input + output, estimated: true };
+  }
+
+  /**
+   * 입력/출력 단가로 비용 계산 (reasoning 토큰은 출력 토큰에 포함되어 출력 단가로 과금)
+   */
+  static cost(usage: TokenUsage, cost: CostConfig): CostBreakdown {
+    const input = (usage.input / 1000) * (cost.input_per_1k || 0);
+    const output = (usage.output / 1000) * (cost.output_per_1k || 0);
+    return { input, output, total: input + output };
+  }
+
+  static emptySummary(): UsageSummary {
+    return {
+      calls: 0,
+      estimatedCalls: 0,
+      tokens: { input: 0, output: 0, reasoning: 0, total: 0 },
+      cost: { input: 0, output: 0, total: 0 }
+    };
+  }
+
+  /**
+   * Provider 호출 결과 합산 (usage가 없는 이전 결과는 tokens/cost 합계만 반영)
+   */
+  static summarize(items: Array<{ usage?: TokenUsage; costBreakdown?: CostBreakdown; tokens?: number; cost?: number }>): UsageSummary {
+    const summary = this.emptySummary();
+
+    items.forEach(item => {
+      summary.calls++;
+
+      if (item.usage) {
+        summary.tokens.input += item.usage.input;
+        summary.tokens.output += item.usage.output;
+        summary.tokens.reasoning += item.usage.reasoning;
+        summary.tokens.total += item.usage.total;
+        if (item.usage.estimated) summary.estimatedCalls++;
+      } else {
+        summary.tokens.total += item.tokens || 0;
+        summary.estimatedCalls++;
+      }
+
+      if (item.costBreakdown) {
+        summary.cost.input += item.costBreakdown.input;
+        summary.cost.output += item.costBreakdown.output;
+        summary.cost.total += item.costBreakdown.total;
+      } else {
+        summary.cost.total += item.cost || 0;
+      }
+    });
+
+    return summary;
+  }
+
+  /**
+   * 집계 결과 병합 (상담 → 상담원 → 배치)
+   */
+  static merge(summaries: Array<UsageSummary | undefined>): UsageSummary {
+    return summaries.reduce<UsageSummary>((merged, summary) => {
+      if (!summary) return merged;
+
+      merged.calls += summary.calls;
+      merged.estimatedCalls += summary.estimatedCalls;
+      merged.tokens.input += summary.tokens.input;
+      merged.tokens.output += summary.tokens.output;
+      merged.tokens.reasoning += summary.tokens.reasoning;
+      merged.tokens.total += summary.tokens.total;
+      merged.cost.input += summary.cost.input;
+      merged.cost.output += summary.cost.output;
+      merged.cost.total += summary.cost.total;
+      return merged;
+    }, this.emptySummary());
+  }
+}
@@ -0,0 +1,89 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { HttpRecorder } from '../http-recorder';
+
+describe('HttpRecorder', () => {
+  const recorder = HttpRecorder.getInstance();
+  let server: Server;
+  let baseUrl: string;
+  let fixturesDir: string;
+  let hits = 0;
+
+  const post = (url: string, body: any) => recorder.fetch('gemini', url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  beforeAll(async () => {
+    fixturesDir = mkdtempSync(join(tmpdir(), 'http-recorder-test-'));
+    server = createServer((req, res) => {
+      hits++;
+      const status = req.url?.startsWith('/limited') ? 429 : 200;
+      res.writeHead(status, { 'Content-Type': 'application/json', ...(status === 429 && { 'Retry-After': '3' }) });
+      res.end(JSON.stringify({ ok: status === 200, hits }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    recorder.configure('live');
+    await new Promise(resolve => server.close(resolve));
+    rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('record 모드는 응답을 fixture로 저장하고 API 키를 기록하지 않는다', async () => {
+    recorder.configure('record', fixturesDir);
+
+    const response = await post(`${baseUrl}/generate?key=secret-key`, { prompt: '평가' });
+
+    expect(await response.json()).toEqual({ ok: true, hits: 1 });
+    const files = readdirSync(fixturesDir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^gemini-[0-9a-f]{16}\.json$/);
+
+    const fixture = readFileSync(join(fixturesDir, files[0]), 'utf-8');
+    expect(fixture).not.toContain('secret-key');
+    expect(JSON.parse(fixture).request).toEqual({
+      method: 'POST',
+      url: `${baseUrl}/generate?key=REDACTED`,
+      body: { prompt: '평가' }
+    });
+  });
+
+  it('replay 모드는 네트워크 호출 없이 같은 요청의 응답을 재생한다', async () => {
+    recorder.configure('replay', fixturesDir);
+
+    // API 키가 달라도 같은 fixture를 사용
+    const response = await post(`${baseUrl}/generate?key=other-key`, { prompt: '평가' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({ ok: true, hits: 1 });
+    expect(hits).toBe(1);
+  });
+
+  it('오류 응답의 상태 코드와 Retry-After도 재생한다', async () => {
+    recorder.configure('record', fixturesDir);
+    await post(`${baseUrl}/limited`, { prompt: '평가' });
+
+    recorder.configure('replay', fixturesDir);
+    const response = await post(`${baseUrl}/limited`, { prompt: '평가' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('3');
+    expect(hits).toBe(2);
+  });
+
+  it('녹화되지 않은 요청은 replay 모드에서 실패한다', async () => {
+    recorder.configure('replay', fixturesDir);
+
+    await expect(post(`${baseUrl}/generate`, { prompt: '다른 요청' }))
+      .rejects.toThrow('재생할 fixture가 없습니다');
+  });
+});
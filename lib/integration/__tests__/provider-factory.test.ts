@@ -0,0 +1,84 @@
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ProviderFactory } from '../provider-factory';
+import { BaseProvider } from '../providers/base-provider';
+
+const COOLDOWN_MS = 30;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * mock/local Provider만 켠 설정 디렉터리에서 회로 차단기 기반 Provider 선택 확인
+ */
+describe('ProviderFactory 회로 차단', () => {
+  const originalCwd = process.cwd();
+  let workDir: string;
+  let factory: ProviderFactory;
+
+  const fail = (provider: BaseProvider, times = 3) => {
+    for (let i = 0; i < times; i++) {
+      factory.recordOutcome(provider, new Error('503 Service Unavailable'));
+    }
+  };
+
+  const describeSelected = (providers: BaseProvider[]) =>
+    providers.map(provider => `${provider.getName()}:${provider.getConfig().model}`);
+
+  beforeAll(async () => {
+    workDir = mkdtempSync(join(tmpdir(), 'provider-factory-test-'));
+    cpSync(join(originalCwd, 'config'), join(workDir, 'config'), { recursive: true });
+
+    const modelsPath = join(workDir, 'config', 'models.json');
+    const models = JSON.parse(readFileSync(modelsPath, 'utf-8'));
+    for (const [name, provider] of Object.entries<any>(models.providers)) {
+      provider.enabled = name === 'mock' || name === 'local';
+    }
+    models.providers.local.base_url = 'http://127.0.0.1:1/v1';
+    models.evaluation_mode = {
+      ...models.evaluation_mode,
+      min_providers: 2,
+      fallback_to_single: false,
+      circuit_breaker: { failure_threshold: 3, cooldown_ms: COOLDOWN_MS }
+    };
+    writeFileSync(modelsPath, JSON.stringify(models, null, 2));
+
+    process.chdir(workDir);
+    factory = ProviderFactory.getInstance();
+    await factory.initializeProviders();
+  });
+
+  afterAll(() => {
+    factory.cleanup();
+    process.chdir(originalCwd);
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('예산 하향으로 모델이 바뀐 Provider는 원래 모델과 별도 회로로 선택한다', () => {
+    fail(factory.getProvider('mock')!);
+
+    expect(() => factory.getProvidersForEvaluation()).toThrow('min_providers(2)');
+
+    const selected = factory.getProvidersForEvaluation({ mock: { model: 'mock-lite' } });
+
+    expect(describeSelected(selected)).toEqual([`local:${factory.getProvider('local')!.getConfig().model}`, 'mock:mock-lite']);
+    expect(factory.getCircuitBreakerStatus()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ provider: 'mock', model: 'mock-evaluator', state: 'open' }),
+      expect.objectContaining({ provider: 'mock', model: 'mock-lite', state: 'closed' })
+    ]));
+  });
+
+  it('min_providers를 채우지 못해 실패하면 잡았던 half-open 시험 호출 기회를 반환한다', async () => {
+    await wait(COOLDOWN_MS + 10);
+    fail(factory.getProvider('local')!);
+
+    // mock은 half-open 시험 호출 기회를 얻지만 local 회로가 열려 있어 선택 실패
+    expect(() => factory.getProvidersForEvaluation()).toThrow('min_providers(2)');
+
+    await wait(COOLDOWN_MS + 10);
+    const selected = factory.getProvidersForEvaluation();
+
+    expect(describeSelected(selected).map(name => name.split(':')[0])).toEqual(['local', 'mock']);
+  });
+});
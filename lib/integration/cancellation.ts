@@ -0,0 +1,25 @@
+/**
+ * 사용자 취소로 중단된 평가 오류 생성 (재시도/기본 점수 대체 대상이 아님)
+ */
+export function createCancelledError(message: string = '평가가 취소되었습니다'): Error {
+  const error: any = new Error(message);
+  error.cancelled = true;
+  return error;
+}
+
+export function isCancelledError(error: any): boolean {
+  return error?.cancelled === true;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createCancelledError();
+  }
+}
+
+/**
+ * 타임아웃 신호와 외부 취소 신호 결합 (둘 중 하나라도 중단되면 요청 중단)
+ */
+export function combineSignals(timeoutSignal: AbortSignal, signal?: AbortSignal): AbortSignal {
+  return signal ? AbortSignal.any([timeoutSignal, signal]) : timeoutSignal;
+}
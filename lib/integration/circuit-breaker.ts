@@ -0,0 +1,118 @@
+import { CircuitBreakerConfig } from '@/lib/types/evaluation';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60000;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  provider: string;
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** open 상태에서 시험 호출을 허용하는 시각 */
+  retryAt?: string;
+  lastFailure?: string;
+  lastFailureAt?: string;
+}
+
+/**
+ * Provider 회로 차단기
+ * 연속 실패가 failure_threshold에 도달하면 open으로 전환해 평가 대상에서 제외하고,
+ * cooldown_ms 뒤 half-open에서 한 번의 시험 호출 결과로 closed(복구) 또는 open(재차단)을 결정
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastFailure?: string;
+  private lastFailureAt?: string;
+  private config: CircuitBreakerConfig = {};
+
+  constructor(private readonly provider: string, private readonly model: string) {}
+
+  configure(config: CircuitBreakerConfig = {}): void {
+    this.config = config;
+  }
+
+  /**
+   * 호출 가능 여부 (open 상태에서 대기 시간이 지나면 half-open으로 전환해 시험 호출 1건 허용)
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.getCooldown()) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+      console.log(`[CircuitBreaker] ${this.label()} half-open (시험 호출 허용)`);
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open' && Date.now() - this.openedAt < this.getCooldown();
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`[CircuitBreaker] ${this.label()} 복구 (closed)`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * 결과를 판단할 수 없는 호출 종료 (취소 등) - half-open 시험 호출 기회만 반환
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    this.lastFailureAt = new Date().toISOString();
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.getFailureThreshold()) {
+      this.open();
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      provider: this.provider,
+      model: this.model,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.state === 'open' && { retryAt: new Date(this.openedAt + this.getCooldown()).toISOString() }),
+      ...(this.lastFailure && { lastFailure: this.lastFailure, lastFailureAt: this.lastFailureAt })
+    };
+  }
+
+  private open(): void {
+    if (this.state !== 'open') {
+      console.warn(`[CircuitBreaker] ${this.label()} 차단 (open, 연속 실패 ${this.consecutiveFailures}회, ${this.getCooldown()}ms 후 재시도)`);
+    }
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.trialInFlight = false;
+  }
+
+  private label(): string {
+    return `${this.provider} (${this.model})`;
+  }
+
+  private getFailureThreshold(): number {
+    return this.config.failure_threshold || DEFAULT_FAILURE_THRESHOLD;
+  }
+
+  private getCooldown(): number {
+    return this.config.cooldown_ms || DEFAULT_COOLDOWN_MS;
+  }
+}
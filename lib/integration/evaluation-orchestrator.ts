@@ -1,13 +1,33 @@
 import { ProviderFactory } from './provider-factory';
 import { ConfigManager } from '@/lib/config/manager';
+import { BaseProvider } from './providers/base-provider';
+import { createCancelledError, isCancelledError } from './cancellation';
+import { ScoringEngine } from '@/lib/domain/scoring-engine';
+import { UsageAccounting } from '@/lib/domain/usage-accounting';
 import { 
   EvaluationRequest, 
   EvaluationResult, 
+  EvaluationCriteria,
   ConsolidatedResult, 
+  Evidence,
+  ConsolidatedCounselorResult,
+  CounselorEvaluationResult,
+  ProblematicChat,
   ProviderResult,
+  ProviderOverrides,
+  RenderedPrompt,
   ThresholdConfig 
 } from '@/lib/types/evaluation';
 
+const SEVERITY_RANK: Record<string, number> = { 높음: 3, 중간: 2, 낮음: 1 };
+
+export interface ChatEvaluationOptions {
+  /** Provider 설정 덮어쓰기 (예산 한도 도달 시 하향 모델 등) */
+  providerOverrides?: ProviderOverrides;
+  /** 사용자 취소 신호 (각 Provider HTTP 호출까지 전달) */
+  signal?: AbortSignal;
+}
+
 /**
  * Multi-LLM 평가 오케스트레이터
  * 여러 LLM Provider의 평가 결과를 조합하고 일관성을 검증
@@ -53,15 +73,16 @@ export class EvaluationOrchestrator {
 
   /**
    * Multi-LLM 평가 실행
+   * providerOverrides로 Provider 설정 일부를 바꿔 실행 가능 (예산 한도 도달 시 하향 모델 등)
    */
-  async evaluateChat(request: EvaluationRequest): Promise<ConsolidatedResult> {
+  async evaluateChat(request: EvaluationRequest, options?: ChatEvaluationOptions): Promise<ConsolidatedResult> {
     const startTime = Date.now();
     
     try {
       console.log(`[Orchestrator] 상담 평가 시작: ChatID ${request.session.chatId}`);
       
       // 사용할 Provider들 선택
-      const providers = this.providerFactory.getProvidersForEvaluation();
+      const providers = this.providerFactory.getProvidersForEvaluation(options?.providerOverrides);
       
       if (providers.length === 0) {
         throw new Error('사용 가능한 평가 Provider가 없습니다.');
@@ -69,27 +90,90 @@ export class EvaluationOrchestrator {
 
       console.log(`[Orchestrator] ${providers.length}개 Provider로 평가 진행: ${providers.map(p => p.getName()).join(', ')}`);
 
-      // 병렬 평가 실행
-      const evaluationResults = await this.executeParallelEvaluations(providers, request);
+      // 병렬 평가 실행 (세부 항목 점수/근거 통합을 위해 Provider별 응답 보관)
+      const outputs = new Map<string, EvaluationResult>();
+      const evaluationResults = await this.executeParallelEvaluations(providers, request, outputs, options?.signal);
       
       // 결과 통합 및 검증
-      const consolidatedResult = await this.consolidateResults(evaluationResults, request);
+      const consolidatedResult = await this.consolidateResults(evaluationResults, request, outputs);
       
       console.log(`[Orchestrator] 평가 완료: ${Date.now() - startTime}ms`);
       
       return consolidatedResult;
     } catch (error) {
-      console.error('[Orchestrator] 평가 실패:', error);
+      if (isCancelledError(error)) {
+        console.log(`[Orchestrator] 평가 취소: ChatID ${request.session.chatId}`);
+      } else {
+        console.error('[Orchestrator] 평가 실패:', error);
+      }
       throw error;
     }
   }
 
+  /**
+   * 상담원 종합 평가 실행 (상담원 단위 Multi-LLM 평가)
+   */
+  async evaluateCounselor(
+    prompt: RenderedPrompt,
+    criteria: EvaluationCriteria,
+    signal?: AbortSignal
+  ): Promise<ConsolidatedCounselorResult> {
+    const startTime = Date.now();
+    const providers = this.providerFactory.getProvidersForEvaluation();
+
+    if (providers.length === 0) {
+      throw new Error('사용 가능한 평가 Provider가 없습니다.');
+    }
+
+    const timeout = this.configManager.getModelConfig().evaluation_mode.comprehensive_timeout;
+    console.log(`[Orchestrator] 상담원 종합 평가: ${providers.map(p => p.getName()).join(', ')}`);
+
+    const scoringEngine = new ScoringEngine(criteria);
+    const outputs = new Map<string, CounselorEvaluationResult>();
+    const providerResults = await this.executeParallel(providers, async (provider) => {
+      const result = await provider.evaluateCounselorWithRetry(prompt.user, prompt.system, criteria, { timeout, signal });
+      result.scores = scoringEngine.applyWeights(result.scores);
+      outputs.set(provider.getName(), result);
+      return result;
+    }, signal);
+
+    const result = this.consolidateCounselorResults(providerResults, outputs, criteria);
+    result.metadata.processingTime = Date.now() - startTime;
+    result.metadata.promptTemplate = prompt.template;
+
+    console.log(`[Orchestrator] 상담원 종합 평가 완료: ${result.metadata.processingTime}ms`);
+
+    return result;
+  }
+
   /**
    * 병렬 평가 실행
    */
   private async executeParallelEvaluations(
-    providers: any[], 
-    request: EvaluationRequest
+    providers: BaseProvider[], 
+    request: EvaluationRequest,
+    outputs: Map<string, EvaluationResult>,
+    signal?: AbortSignal
+  ): Promise<ProviderResult[]> {
+    const scoringEngine = new ScoringEngine(request.criteria);
+
+    // 소계/총점은 평가 기준 가중치로 재계산
+    return this.executeParallel(providers, async (provider) => {
+      const result = await provider.evaluateWithRetry(request, signal);
+      const weighted = { ...result, scores: scoringEngine.applyWeights(result.scores) };
+      outputs.set(provider.getName(), weighted);
+      return weighted;
+    }, signal);
+  }
+
+  /**
+   * Provider 병렬 실행 공통 처리
+   * 취소되면 일부 Provider가 성공했더라도 통합하지 않고 취소 오류로 종료
+   */
+  private async executeParallel(
+    providers: BaseProvider[],
+    run: (provider: BaseProvider) => Promise<Pick<EvaluationResult, 'scores' | 'tokens' | 'cost' | 'usage' | 'costBreakdown' | 'cached'>>,
+    signal?: AbortSignal
   ): Promise<ProviderResult[]> {
     const results: ProviderResult[] = [];
     
@@ -100,10 +184,11 @@ export class EvaluationOrchestrator {
       try {
         console.log(`[Orchestrator] ${provider.getName()} 평가 시작`);
         
-        const result = await provider.evaluateWithRetry(request);
+        const result = await run(provider);
         const responseTime = Date.now() - startTime;
         
         console.log(`[Orchestrator] ${provider.getName()} 평가 완료: ${responseTime}ms`);
+        this.providerFactory.recordOutcome(provider);
         
         return {
           name: provider.getName(),
@@ -112,22 +197,35 @@ export class EvaluationOrchestrator {
           responseTime,
           tokens: result.tokens || 0,
           cost: result.cost || 0,
-          success: true
+          usage: result.usage,
+          costBreakdown: result.costBreakdown,
+          success: true,
+          ...(result.cached && { cached: true })
         } as ProviderResult;
       } catch (error) {
         const responseTime = Date.now() - startTime;
+        this.providerFactory.recordOutcome(provider, error);
         
-        console.error(`[Orchestrator] ${provider.getName()} 평가 실패:`, error);
+        if (isCancelledError(error)) {
+          console.log(`[Orchestrator] ${provider.getName()} 평가 취소: ${responseTime}ms`);
+        } else {
+          console.error(`[Orchestrator] ${provider.getName()} 평가 실패:`, error);
+        }
         
+        // 응답 검증 실패·복구 재요청 등 응답을 받은 뒤 실패한 호출도 사용량/비용 기록
+        const { usage, costBreakdown } = (error || {}) as Pick<ProviderResult, 'usage' | 'costBreakdown'>;
         return {
           name: provider.getName(),
           model: provider.getConfig().model,
           scores: {},
           responseTime,
-          tokens: 0,
-          cost: 0,
+          tokens: usage?.total || 0,
+          cost: costBreakdown?.total || 0,
+          usage,
+          costBreakdown,
           success: false,
-          error: error instanceof Error ? error.message : '알 수 없는 오류'
+          error: error instanceof Error ? error.message : '알 수 없는 오류',
+          parseFailure: (error as any)?.parseFailure === true
         } as ProviderResult;
       }
     });
@@ -143,23 +241,39 @@ export class EvaluationOrchestrator {
       }
     });
 
+    // 취소/전체 실패로 끝나도 이미 받은 응답의 사용량은 정산할 수 있도록 오류에 포함
+    const usage = UsageAccounting.summarize(this.billableResults(results));
+
+    if (signal?.aborted) {
+      throw Object.assign(createCancelledError(), { usage });
+    }
+
     // 최소 하나의 성공적인 평가가 필요
     const successfulResults = results.filter(r => r.success);
     if (successfulResults.length === 0) {
-      throw new Error('모든 Provider에서 평가가 실패했습니다.');
+      throw Object.assign(new Error('모든 Provider에서 평가가 실패했습니다.'), { usage });
     }
 
-    console.log(`[Orchestrator] ${successfulResults.length}/${results.length} Provider 평가 성공`);
+    const parseFailures = results.filter(r => r.parseFailure).length;
+    console.log(`[Orchestrator] ${successfulResults.length}/${results.length} Provider 평가 성공${parseFailures > 0 ? ` (응답 형식 오류 ${parseFailures}건 제외)` : ''}`);
     
     return results;
   }
 
+  /**
+   * 사용량 집계 대상 (캐시 적중은 호출하지 않았으므로 제외, 실패한 호출은 사용량이 기록된 경우만 포함)
+   */
+  private billableResults(results: ProviderResult[]): ProviderResult[] {
+    return results.filter(r => !r.cached && (r.success || r.usage));
+  }
+
   /**
    * 결과 통합 및 검증
    */
   private async consolidateResults(
     providerResults: ProviderResult[], 
-    request: EvaluationRequest
+    request: EvaluationRequest,
+    outputs: Map<string, EvaluationResult>
   ): Promise<ConsolidatedResult> {
     const successfulResults = providerResults.filter(r => r.success);
     
@@ -180,7 +294,22 @@ export class EvaluationOrchestrator {
     const confidence = this.calculateConfidence(validation.consistency, outliers.length, successfulResults.length);
     
     // 증거 통합
-    const evidence = this.consolidateEvidence(successfulResults);
+    const successfulOutputs = successfulResults.filter(r => outputs.has(r.name));
+    const evidence = this.consolidateEvidence(successfulOutputs.map(r => outputs.get(r.name)!));
+
+    // 문제 상담 판정 (평가 기준 scoring 설정)
+    const scoringEngine = new ScoringEngine(request.criteria);
+
+    // 세부 항목 점수 통합 (상담원 종합 평가와 같은 방식)
+    const detailScores = successfulOutputs.length > 0
+      ? scoringEngine.applyWeights(this.unflattenScores(this.consolidateScores(
+          successfulOutputs.map(r => ({ ...r, scores: this.flattenScores(outputs.get(r.name)!.scores) }))
+        )))
+      : undefined;
+    const assessment = scoringEngine.assess({
+      ...Object.fromEntries(scoringEngine.sections.map(section => [section, { subtotal: consolidatedScores[section] }])),
+      total_score: consolidatedScores.total_score
+    } as EvaluationResult['scores']);
     
     const result: ConsolidatedResult = {
       scores: {
@@ -196,7 +325,10 @@ export class EvaluationOrchestrator {
         outliers
       },
       providers: providerResults,
+      detailScores,
       evidence,
+      assessment,
+      usage: UsageAccounting.summarize(this.billableResults(providerResults)),
       metadata: {
         criteriaVersion: request.criteria.version,
         processingTime: Date.now(),
@@ -209,6 +341,137 @@ export class EvaluationOrchestrator {
     return result;
   }
 
+  /**
+   * 상담원 종합 평가 결과 통합
+   * 항목별 점수는 IQR 기반으로 통합하고, 서술형 피드백은 통합 총점에 가장 가까운 Provider 결과를 채택
+   */
+  private consolidateCounselorResults(
+    providerResults: ProviderResult[],
+    outputs: Map<string, CounselorEvaluationResult>,
+    criteria: EvaluationCriteria
+  ): ConsolidatedCounselorResult {
+    const successfulResults = providerResults.filter(r => r.success && outputs.has(r.name));
+
+    if (successfulResults.length === 0) {
+      throw new Error('통합할 성공적인 평가 결과가 없습니다.');
+    }
+
+    // 세부 항목 점수 통합
+    const flatResults = successfulResults.map(r => ({
+      ...r,
+      scores: this.flattenScores(outputs.get(r.name)!.scores)
+    }));
+    const scores = new ScoringEngine(criteria).applyWeights(this.unflattenScores(this.consolidateScores(flatResults)));
+
+    // 일관성/아웃라이어/신뢰도 검증
+    const validation = this.validateConsistency(successfulResults);
+    const outliers = this.detectOutliers(successfulResults);
+    const confidence = this.calculateConfidence(validation.consistency, outliers.length, successfulResults.length);
+
+    // 서술형 결과는 통합 총점에 가장 가까운 Provider 기준
+    const consolidatedTotal = scores.total_score;
+    const primary = successfulResults.reduce((best, current) =>
+      Math.abs((current.scores.total_score ?? 0) - consolidatedTotal) <
+      Math.abs((best.scores.total_score ?? 0) - consolidatedTotal) ? current : best
+    );
+    const primaryOutput = outputs.get(primary.name)!;
+
+    console.log(`[Orchestrator] 상담원 종합 결과 통합 - 신뢰도: ${confidence.toFixed(2)}, 일관성: ${validation.consistency.toFixed(2)}, 기준 Provider: ${primary.name}`);
+
+    return {
+      scores,
+      comprehensive_feedback: primaryOutput.comprehensive_feedback,
+      problematic_chats: this.mergeProblematicChats(successfulResults.map(r => outputs.get(r.name)!)),
+      overall_comment: primaryOutput.overall_comment,
+      validation: {
+        consistency: validation.consistency,
+        confidence,
+        reliability: this.determineReliability(confidence, validation.consistency),
+        outliers
+      },
+      providers: providerResults,
+      usage: UsageAccounting.summarize(this.billableResults(providerResults)),
+      metadata: {
+        criteriaVersion: criteria.version,
+        processingTime: 0,
+        timestamp: new Date().toISOString(),
+        primaryProvider: primary.name,
+        totalCost: providerResults.reduce((sum, r) => sum + (r.cost || 0), 0)
+      }
+    };
+  }
+
+  /**
+   * Provider별 문제 상담 병합 (chat_id 기준, 심각도는 가장 높은 값 채택)
+   */
+  private mergeProblematicChats(outputs: CounselorEvaluationResult[]): ProblematicChat[] {
+    const merged = new Map<string, ProblematicChat>();
+
+    outputs.forEach(output => {
+      output.problematic_chats.forEach(chat => {
+        const chatId = String(chat.chat_id);
+        const existing = merged.get(chatId);
+
+        if (!existing) {
+          merged.set(chatId, {
+            ...chat,
+            chat_id: chatId,
+            issues: chat.issues || [],
+            flagged_by: output.provider ? [output.provider] : []
+          });
+          return;
+        }
+
+        existing.issues = Array.from(new Set([...existing.issues, ...(chat.issues || [])]));
+        if ((SEVERITY_RANK[chat.severity] || 0) > (SEVERITY_RANK[existing.severity] || 0)) {
+          existing.severity = chat.severity;
+        }
+        existing.reason = existing.reason || chat.reason;
+        if (output.provider) {
+          existing.flagged_by = [...(existing.flagged_by || []), output.provider];
+        }
+      });
+    });
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * 섹션별 점수 객체를 "섹션.항목" 키로 평탄화
+   */
+  private flattenScores(scores: EvaluationResult['scores']): Record<string, number> {
+    const flat: Record<string, number> = {};
+
+    Object.entries(scores || {}).forEach(([section, value]) => {
+      if (typeof value === 'number') {
+        flat[section] = value;
+      } else if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([item, score]) => {
+          if (typeof score === 'number') {
+            flat[`${section}.${item}`] = score;
+          }
+        });
+      }
+    });
+
+    return flat;
+  }
+
+  private unflattenScores(flat: Record<string, number>): EvaluationResult['scores'] {
+    const scores: any = {};
+
+    Object.entries(flat).forEach(([key, value]) => {
+      const [section, item] = key.split('.');
+      if (item) {
+        scores[section] = { ...(scores[section] || {}), [item]: value };
+      } else {
+        scores[section] = value;
+      }
+    });
+
+    return scores;
+  }
+
   /**
    * 점수 통합 (IQR 기반)
    */
@@ -374,18 +637,21 @@ export class EvaluationOrchestrator {
   }
 
   /**
-   * 증거 통합
+   * 증거 통합 (Provider별 근거와 인용문을 중복 없이 합침)
    */
-  private consolidateEvidence(results: ProviderResult[]): any {
+  private consolidateEvidence(outputs: EvaluationResult[]): Evidence {
     const evidence = {
       positive: new Set<string>(),
       negative: new Set<string>(),
       quotes: new Set<string>()
     };
 
-    results.forEach(result => {
-      // Provider별 증거 통합 (실제 구현에서는 result에서 evidence 추출)
-      // 현재는 기본 구조만 제공
+    outputs.forEach(output => {
+      (['positive', 'negative', 'quotes'] as const).forEach(kind => {
+        (output.evidence?.[kind] || []).forEach(text => {
+          if (typeof text === 'string' && text.trim()) evidence[kind].add(text.trim());
+        });
+      });
     });
 
     return {
@@ -398,24 +664,17 @@ export class EvaluationOrchestrator {
   /**
    * 점수 추출
    */
-  private extractScores(result: EvaluationResult): Record<string, number> {
+  private extractScores(result: Pick<EvaluationResult, 'scores'>): Record<string, number> {
     const scores: Record<string, number> = {};
     
-    if (result.scores) {
-      // 각 섹션의 subtotal 추출
-      if (result.scores.업무능력?.subtotal) {
-        scores.업무능력 = result.scores.업무능력.subtotal;
+    // 각 섹션의 subtotal 및 total_score 추출
+    Object.entries(result.scores || {}).forEach(([key, value]) => {
+      if (typeof value === 'number') {
+        scores[key] = value;
+      } else if (typeof value?.subtotal === 'number') {
+        scores[key] = value.subtotal;
       }
-      if (result.scores.문장력?.subtotal) {
-        scores.문장력 = result.scores.문장력.subtotal;
-      }
-      if (result.scores.기본_태도?.subtotal) {
-        scores.기본_태도 = result.scores.기본_태도.subtotal;
-      }
-      if (result.scores.total_score) {
-        scores.total_score = result.scores.total_score;
-      }
-    }
+    });
     
     return scores;
   }
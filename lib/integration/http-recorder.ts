@@ -0,0 +1,167 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+export type HttpRecordMode = 'live' | 'record' | 'replay';
+
+interface HttpFixture {
+  provider: string;
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    body: any;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    contentType: string | null;
+    retryAfter?: string | null;
+    body: string;
+  };
+}
+
+/**
+ * Provider HTTP 호출 녹화/재생
+ * LLM_HTTP_MODE=record면 실제 응답을 fixture 파일로 저장하고, replay면 네트워크 없이 저장된 응답을 반환 (기본 live)
+ * fixture는 LLM_FIXTURES_DIR(기본 fixtures/llm)에 요청 메서드·URL·본문 해시로 저장하며 API 키는 기록하지 않음
+ */
+export class HttpRecorder {
+  private static instance: HttpRecorder;
+  private mode: HttpRecordMode;
+  private fixturesDir: string;
+
+  private constructor() {
+    this.mode = this.parseMode(process.env.LLM_HTTP_MODE);
+    this.fixturesDir = process.env.LLM_FIXTURES_DIR || join(process.cwd(), 'fixtures', 'llm');
+
+    if (this.mode !== 'live') {
+      console.log(`[HttpRecorder] ${this.mode} 모드 (${this.fixturesDir})`);
+    }
+  }
+
+  static getInstance(): HttpRecorder {
+    if (!this.instance) {
+      this.instance = new HttpRecorder();
+    }
+    return this.instance;
+  }
+
+  getMode(): HttpRecordMode {
+    return this.mode;
+  }
+
+  /**
+   * 모드 변경 (테스트 코드에서 환경변수 없이 전환할 때 사용)
+   */
+  configure(mode: HttpRecordMode, fixturesDir?: string): void {
+    this.mode = mode;
+    if (fixturesDir) {
+      this.fixturesDir = fixturesDir;
+    }
+  }
+
+  /**
+   * 모드에 따라 실제 호출, 녹화 또는 재생
+   */
+  async fetch(provider: string, url: string, init: RequestInit = {}): Promise<Response> {
+    if (this.mode === 'live') {
+      return fetch(url, init);
+    }
+
+    const method = (init.method || 'GET').toUpperCase();
+    const safeUrl = this.redactUrl(url);
+    const body = typeof init.body === 'string' ? init.body : '';
+    const fixturePath = join(this.fixturesDir, this.getFixtureName(provider, method, safeUrl, body));
+
+    if (this.mode === 'replay') {
+      if (!existsSync(fixturePath)) {
+        throw new Error(`[HttpRecorder] 재생할 fixture가 없습니다: ${fixturePath} (${method} ${safeUrl})`);
+      }
+
+      const fixture: HttpFixture = JSON.parse(readFileSync(fixturePath, 'utf-8'));
+      return new Response(fixture.response.body, {
+        status: fixture.response.status,
+        statusText: fixture.response.statusText,
+        headers: this.getResponseHeaders(fixture)
+      });
+    }
+
+    // record: 실제 호출 후 응답 본문을 저장하고 같은 내용의 Response 반환
+    const response = await fetch(url, init);
+    const responseBody = await response.text();
+
+    const fixture: HttpFixture = {
+      provider,
+      recordedAt: new Date().toISOString(),
+      request: {
+        method,
+        url: safeUrl,
+        body: this.parseBody(body)
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers.get('content-type'),
+        retryAfter: response.headers.get('retry-after'),
+        body: responseBody
+      }
+    };
+
+    if (!existsSync(this.fixturesDir)) {
+      mkdirSync(this.fixturesDir, { recursive: true });
+    }
+    writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+    console.log(`[HttpRecorder] 녹화 완료: ${fixturePath} (${response.status})`);
+
+    return new Response(responseBody, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: this.getResponseHeaders(fixture)
+    });
+  }
+
+  /**
+   * 재생에 필요한 응답 헤더 (Content-Type, 호출 한도 처리용 Retry-After)
+   */
+  private getResponseHeaders(fixture: HttpFixture): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (fixture.response.contentType) {
+      headers['Content-Type'] = fixture.response.contentType;
+    }
+    if (fixture.response.retryAfter) {
+      headers['Retry-After'] = fixture.response.retryAfter;
+    }
+    return headers;
+  }
+
+  private getFixtureName(provider: string, method: string, url: string, body: string): string {
+    const hash = createHash('sha256').update(`${method} ${url}\n${body}`).digest('hex');
+    return `${provider}-${hash.slice(0, 16)}.json`;
+  }
+
+  /**
+   * URL 쿼리의 API 키 제거 (Gemini는 key 쿼리 파라미터 사용)
+   */
+  private redactUrl(url: string): string {
+    return url.replace(/([?&](?:key|api_key)=)[^&]*/gi, '$1REDACTED');
+  }
+
+  private parseBody(body: string): any {
+    try {
+      return body ? JSON.parse(body) : null;
+    } catch {
+      return body;
+    }
+  }
+
+  private parseMode(value: string | undefined): HttpRecordMode {
+    if (value === 'record' || value === 'replay') {
+      return value;
+    }
+    if (value && value !== 'live') {
+      console.warn(`[HttpRecorder] 알 수 없는 LLM_HTTP_MODE: ${value} (live로 실행)`);
+    }
+    return 'live';
+  }
+}
@@ -0,0 +1,212 @@
+import { OperatingHoursCalendar } from '@/lib/domain/operating-hours-calendar';
+import { ScoringEngine } from '@/lib/domain/scoring-engine';
+import {
+  CounselorEvaluationRequest,
+  EvaluationCriteria,
+  EvaluationRequest,
+  PromptOverride,
+  PromptTemplateConfig,
+  RenderedPrompt
+} from '@/lib/types/evaluation';
+
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+const DEFAULT_CONVERSATION_LIMITS = { max_messages: 15, max_chars: 200 };
+
+/**
+ * 프롬프트 렌더러
+ * config/prompts/base-template.json 템플릿에 Provider별 재정의를 적용하여 평가 프롬프트를 생성
+ */
+export class PromptRenderer {
+  /**
+   * 사용자 템플릿에서 사용할 수 있는 placeholder
+   */
+  static readonly placeholders = [
+    'managerId',
+    'date',
+    'channel',
+    'operating_hours',
+    'criteria',
+    'conversation',
+    'response_format',
+    'guidelines',
+    'provider_instructions'
+  ];
+
+  /**
+   * 상담원 종합 평가 템플릿에서 사용할 수 있는 placeholder (가이드라인에서는 counselor_names 사용 가능)
+   */
+  static readonly counselorPlaceholders = [
+    'counselorId',
+    'counselorName',
+    'evaluationDate',
+    'chat_count',
+    'real_manager_message_count',
+    'timezone',
+    'operating_hours',
+    'guidelines',
+    'counselor_names',
+    'chats',
+    'response_format'
+  ];
+
+  private template: PromptTemplateConfig;
+
+  constructor(template: PromptTemplateConfig) {
+    this.template = template;
+  }
+
+  get version(): string {
+    return this.template.version;
+  }
+
+  /**
+   * 상담 평가 프롬프트 렌더링
+   */
+  render(providerName: string, model: string, request: EvaluationRequest): RenderedPrompt {
+    const resolved = this.resolveOverride(providerName, model);
+    const override: PromptOverride = resolved?.override || { version: '' };
+    const { templates } = this.template;
+
+    const system = override.system ??
+      (override.system_append ? `${templates.system.content}\n${override.system_append}` : templates.system.content);
+
+    const user = PromptRenderer.fill(override.user ?? templates.user.content, {
+      ...this.buildVariables(request, override),
+      provider_instructions: override.instructions ? `\n\n${override.instructions}` : ''
+    });
+
+    return {
+      system,
+      user,
+      template: {
+        version: this.template.version,
+        ...(resolved && { override: `${resolved.key}@${resolved.override.version}` })
+      }
+    };
+  }
+
+  /**
+   * 상담원 종합 평가 프롬프트 렌더링 (상담원의 전체 상담을 하나의 프롬프트로 구성, 모든 Provider 공통)
+   * @param counselorNames 서포트봇 인사 메시지에 쓰이는 상담원 이름 (가이드라인의 {{counselor_names}})
+   */
+  renderCounselor(
+    request: CounselorEvaluationRequest,
+    criteria: EvaluationCriteria,
+    operatingHours: OperatingHoursCalendar,
+    counselorNames: string[] = []
+  ): RenderedPrompt {
+    const counselor = this.template.templates.counselor;
+    if (!counselor) {
+      throw new Error(`프롬프트 템플릿 v${this.template.version}에 상담원 종합 평가 템플릿(templates.counselor)이 없습니다`);
+    }
+
+    const chats = request.chats
+      .map((chat, idx) => `
+📞 상담 ${idx + 1} (ChatID: ${chat.chatId})
+- 태그: [${chat.tags.join(', ')}]
+- **운영 시간 내 문의 여부: ${chat.openedDuringOperatingHours ? '✅ 예' : '❌ 아니오'}**
+- 실제 상담원 메시지: ${chat.realManagerMessageCount}개 (평가 대상)
+
+실제 상담원 대화 내용 (서포트봇 제외):
+${chat.conversation
+  .map((msg, msgIdx) => `${msgIdx + 1}. ${msg.type === 'user' ? '👤 고객' : '🎧 상담원'}: ${msg.text.slice(0, 300)}`)
+  .join('\n')}
+
+---
+`)
+      .join('\n');
+
+    const responseFormat = {
+      counselor_id: request.counselorId,
+      counselor_name: request.counselorName,
+      evaluation_date: request.evaluationDate,
+      total_chats_analyzed: request.chats.length,
+      scores: new ScoringEngine(criteria).buildScoreTemplate(),
+      ...counselor.response_format
+    };
+
+    const variables: Record<string, string> = {
+      counselorId: request.counselorId,
+      counselorName: request.counselorName,
+      evaluationDate: request.evaluationDate,
+      chat_count: String(request.chats.length),
+      real_manager_message_count: String(request.totalRealManagerMessages),
+      timezone: operatingHours.timezone,
+      operating_hours: operatingHours.describe().map(line => `- ${line}`).join('\n'),
+      counselor_names: counselorNames.join(', '),
+      chats,
+      response_format: JSON.stringify(responseFormat, null, 2)
+    };
+    // 가이드라인은 상담원 명부 등 요청 정보로 치환한 뒤 프롬프트에 삽입
+    variables.guidelines = PromptRenderer.fill(request.guidelines || '', variables);
+
+    return {
+      system: PromptRenderer.fill(counselor.system.content, variables),
+      user: PromptRenderer.fill(counselor.user.content, variables),
+      template: { version: this.template.version }
+    };
+  }
+
+  /**
+   * Provider/모델에 적용할 재정의 선택
+   * "Provider:모델 키워드" 형식이 Provider 이름 단독보다 우선
+   */
+  resolveOverride(providerName: string, model: string): { key: string; override: PromptOverride } | undefined {
+    const overrides = this.template.providers || {};
+    const modelName = (model || '').toLowerCase();
+
+    const modelKey = Object.keys(overrides).find(key => {
+      const [provider, keyword] = key.split(':');
+      return provider === providerName && !!keyword && modelName.includes(keyword.toLowerCase());
+    });
+
+    const key = modelKey || (overrides[providerName] ? providerName : undefined);
+    return key ? { key, override: overrides[key] } : undefined;
+  }
+
+  /**
+   * {{placeholder}} 치환 (값이 없는 placeholder는 빈 문자열)
+   */
+  static fill(text: string, variables: Record<string, string>): string {
+    return text.replace(PLACEHOLDER_PATTERN, (_, key) => variables[key] ?? '');
+  }
+
+  /**
+   * 텍스트에 사용된 placeholder 이름 목록
+   */
+  static findPlaceholders(text: string): string[] {
+    return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+  }
+
+  private buildVariables(request: EvaluationRequest, override: PromptOverride): Record<string, string> {
+    const { session, criteria } = request;
+    const limits = { ...DEFAULT_CONVERSATION_LIMITS, ...this.template.conversation, ...override.conversation };
+
+    const conversation = session.messages
+      .filter(msg => msg.type === 'manager')
+      .slice(0, limits.max_messages) // 메시지 수 제한
+      .map(msg => `상담원: ${msg.text.slice(0, limits.max_chars)}`)
+      .join('\n');
+
+    const operatingHours = session.metadata.operatingHours === 'off_hours'
+      ? '아니오 (신속한 응대 항목은 5.0점 부여)'
+      : session.metadata.operatingHours === 'in_hours' ? '예' : '확인 불가';
+
+    // 응답 형식의 scores는 평가 기준 항목으로 생성
+    const responseFormat = {
+      scores: new ScoringEngine(criteria).buildScoreTemplate(),
+      ...this.template.templates.response_format
+    };
+
+    return {
+      managerId: session.managerId,
+      date: String(session.metadata.startTime),
+      channel: session.metadata.channel || '',
+      operating_hours: operatingHours,
+      criteria: JSON.stringify(criteria, null, 2),
+      conversation,
+      response_format: JSON.stringify(responseFormat, null, 2),
+      guidelines: this.template.guidelines.critical_rules.map(rule => `- ${rule}`).join('\n')
+    };
+  }
+}
@@ -4,7 +4,12 @@ import { OpenAIProvider } from './providers/openai-provider';
 import { OpenAIGPT5Provider } from './providers/openai-gpt5-provider';
 import { GeminiProvider } from './providers/gemini-provider';
 import { Gemini25Provider } from './providers/gemini-25-provider';
-import { ModelConfig, ProviderConfig } from '@/lib/types/evaluation';
+import { AnthropicProvider } from './providers/anthropic-provider';
+import { OpenAICompatibleProvider } from './providers/openai-compatible-provider';
+import { MockProvider } from './providers/mock-provider';
+import { CircuitBreaker, CircuitBreakerStatus } from './circuit-breaker';
+import { isCancelledError } from './cancellation';
+import { ModelConfig, ProviderConfig, ProviderOverrides } from '@/lib/types/evaluation';
 
 /**
  * Provider Factory 클래스
@@ -14,6 +19,12 @@ export class ProviderFactory {
   private static instance: ProviderFactory;
   private configManager: ConfigManager;
   private providers: Map<string, BaseProvider> = new Map();
+  /** 설정 일부를 덮어쓴 Provider 인스턴스 (예산 하향 등) */
+  private variants: Map<string, BaseProvider> = new Map();
+  /** Provider·모델별 회로 차단기 (예산 하향 등으로 모델이 바뀌면 별도 회로, 설정 새로고침 후에도 유지) */
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  /** 회로 차단으로 min_providers를 채우지 못할 때 사용할 대체 Provider */
+  private fallbackProvider: BaseProvider | null = null;
 
   private constructor() {
     this.configManager = ConfigManager.getInstance();
@@ -37,6 +48,8 @@ export class ProviderFactory {
       
       // 기존 Provider들 정리
       this.providers.clear();
+      this.variants.clear();
+      this.fallbackProvider = null;
       
       // 각 Provider 설정을 확인하고 초기화
       for (const [providerName, config] of Object.entries(modelConfig.providers)) {
@@ -62,6 +75,8 @@ export class ProviderFactory {
         throw new Error('사용 가능한 Provider가 없습니다.');
       }
 
+      this.fallbackProvider = await this.prepareFallbackProvider(modelConfig);
+
       console.log(`[ProviderFactory] 총 ${this.providers.size}개 Provider 초기화 완료`);
     } catch (error) {
       console.error('[ProviderFactory] Provider 초기화 실패:', error);
@@ -82,6 +97,12 @@ export class ProviderFactory {
         return new GeminiProvider(config);
       case 'gemini-25':
         return new Gemini25Provider(config);
+      case 'anthropic':
+        return new AnthropicProvider(config);
+      case 'local':
+        return new OpenAICompatibleProvider(config);
+      case 'mock':
+        return new MockProvider(config);
       default:
         throw new Error(`지원하지 않는 Provider: ${name}`);
     }
@@ -115,6 +136,15 @@ export class ProviderFactory {
       throw new Error('GOOGLE_AI_API_KEY 환경변수가 설정되지 않았습니다.');
     }
 
+    if (provider.getName() === 'anthropic' && !process.env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY 환경변수가 설정되지 않았습니다.');
+    }
+
+    // 로컬 모델은 API 키 대신 서버 주소 필요 (인증이 필요한 서버만 LOCAL_LLM_API_KEY 사용)
+    if (provider.getName() === 'local' && !config.base_url && !process.env.LOCAL_LLM_BASE_URL) {
+      throw new Error('local Provider의 base_url 또는 LOCAL_LLM_BASE_URL 환경변수가 설정되지 않았습니다.');
+    }
+
     console.log(`[ProviderFactory] ${provider.getName()} Provider 검증 완료`);
   }
 
@@ -152,10 +182,19 @@ export class ProviderFactory {
 
   /**
    * 평가에 사용할 Provider들 선택
+   * overrides가 있으면 해당 Provider는 설정을 덮어쓴 인스턴스로 대체한 뒤 그 모델의 회로 상태로 선택
+   */
+  getProvidersForEvaluation(overrides?: ProviderOverrides): BaseProvider[] {
+    return this.selectProvidersForEvaluation(overrides);
+  }
+
+  /**
+   * 회로가 차단된 Provider를 건너뛰고 선택, 부족하면 대체 Provider로 보충
    */
-  getProvidersForEvaluation(): BaseProvider[] {
+  private selectProvidersForEvaluation(overrides?: ProviderOverrides): BaseProvider[] {
     const modelConfig = this.configManager.getModelConfig();
-    const activeProviders = this.getActiveProviders();
+    const activeProviders = this.getActiveProviders()
+      .map(provider => this.applyOverride(provider, overrides?.[provider.getName()]));
 
     if (activeProviders.length === 0) {
       throw new Error('사용 가능한 Provider가 없습니다.');
@@ -163,19 +202,155 @@ export class ProviderFactory {
 
     // Multi-LLM 모드인 경우
     if (this.isMultiLLMAvailable()) {
-      console.log('[ProviderFactory] Multi-LLM 모드로 평가 실행');
-      return activeProviders.slice(0, modelConfig.evaluation_mode.min_providers);
+      const minProviders = modelConfig.evaluation_mode.min_providers;
+      const selected = this.selectAvailable(activeProviders, minProviders, overrides);
+
+      if (selected.length >= minProviders) {
+        console.log('[ProviderFactory] Multi-LLM 모드로 평가 실행');
+        return selected;
+      }
+
+      if (selected.length > 0 && modelConfig.evaluation_mode.fallback_to_single) {
+        console.warn(`[ProviderFactory] 회로 차단으로 ${selected.length}/${minProviders}개 Provider로 평가 실행`);
+        return selected;
+      }
+
+      // 평가하지 않으므로 선택하며 잡은 half-open 시험 호출 기회 반환
+      selected.forEach(provider => this.getBreaker(provider).release());
+      throw new Error(`회로 차단으로 min_providers(${minProviders})를 충족하지 못했습니다: ${this.getOpenCircuits().join(', ')}`);
     }
 
-    // Single LLM 모드인 경우 (첫 번째 활성화된 Provider 사용)
-    if (modelConfig.evaluation_mode.fallback_to_single && activeProviders.length > 0) {
+    // Single LLM 모드인 경우 (회로가 닫힌 첫 번째 Provider 사용)
+    if (modelConfig.evaluation_mode.fallback_to_single) {
+      const selected = this.selectAvailable(activeProviders, 1, overrides);
+      if (selected.length === 0) {
+        throw new Error(`모든 Provider의 회로가 차단되었습니다: ${this.getOpenCircuits().join(', ')}`);
+      }
+
       console.log('[ProviderFactory] Single LLM 모드로 평가 실행');
-      return [activeProviders[0]];
+      return selected;
     }
 
     throw new Error('Multi-LLM 모드 요구사항을 만족하지 못했고, fallback도 비활성화되어 있습니다.');
   }
 
+  /**
+   * 설정 순서대로 호출 가능한 Provider를 count개까지 선택하고, 모자라면 대체 Provider 추가
+   */
+  private selectAvailable(providers: BaseProvider[], count: number, overrides?: ProviderOverrides): BaseProvider[] {
+    const selected: BaseProvider[] = [];
+
+    for (const provider of providers) {
+      if (selected.length >= count) break;
+      if (this.getBreaker(provider).tryAcquire()) {
+        selected.push(provider);
+      }
+    }
+
+    const fallback = this.fallbackProvider && this.applyOverride(this.fallbackProvider, overrides?.[this.fallbackProvider.getName()]);
+    if (
+      selected.length < count &&
+      fallback &&
+      !selected.some(provider => provider.getName() === fallback.getName()) &&
+      this.getBreaker(fallback).tryAcquire()
+    ) {
+      console.warn(`[ProviderFactory] 대체 Provider 사용: ${fallback.getName()} (${fallback.getConfig().model})`);
+      selected.push(fallback);
+    }
+
+    return selected;
+  }
+
+  /**
+   * 평가 결과를 회로 차단기에 반영 (취소와 응답 형식 오류는 Provider 장애로 보지 않음)
+   */
+  recordOutcome(provider: BaseProvider, error?: any): void {
+    const breaker = this.getBreaker(provider);
+
+    if (!error) {
+      breaker.recordSuccess();
+    } else if (isCancelledError(error) || error?.parseFailure) {
+      breaker.release();
+    } else {
+      breaker.recordFailure(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Provider·모델별 회로 상태 (활성 Provider, 대체 Provider, 설정을 덮어쓴 인스턴스)
+   */
+  getCircuitBreakerStatus(): CircuitBreakerStatus[] {
+    const providers = [
+      ...this.providers.values(),
+      ...(this.fallbackProvider ? [this.fallbackProvider] : []),
+      ...this.variants.values()
+    ];
+    const breakers = new Map(providers.map(provider => [this.getBreakerKey(provider), this.getBreaker(provider)]));
+    return Array.from(breakers.values()).map(breaker => breaker.getStatus());
+  }
+
+  private getOpenCircuits(): string[] {
+    return this.getCircuitBreakerStatus()
+      .filter(status => status.state !== 'closed')
+      .map(status => `${status.provider} (${status.model})`);
+  }
+
+  private getBreaker(provider: BaseProvider): CircuitBreaker {
+    const key = this.getBreakerKey(provider);
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(provider.getName(), provider.getConfig().model);
+      this.breakers.set(key, breaker);
+    }
+    breaker.configure(this.configManager.getModelConfig().evaluation_mode.circuit_breaker);
+    return breaker;
+  }
+
+  private getBreakerKey(provider: BaseProvider): string {
+    return `${provider.getName()}:${provider.getConfig().model}`;
+  }
+
+  /**
+   * 대체 Provider 생성 (evaluation_mode.circuit_breaker.fallback, 비활성 Provider 설정도 사용 가능)
+   */
+  private async prepareFallbackProvider(modelConfig: ModelConfig): Promise<BaseProvider | null> {
+    const fallback = modelConfig.evaluation_mode.circuit_breaker?.fallback;
+    if (!fallback) return null;
+
+    const { provider: name, ...override } = fallback;
+    const baseConfig = modelConfig.providers[name];
+    if (!baseConfig) {
+      console.error(`[ProviderFactory] 대체 Provider 설정이 없습니다: ${name}`);
+      return null;
+    }
+
+    try {
+      const provider = this.createProvider(name, { ...baseConfig, ...override, enabled: true });
+      await this.validateProvider(provider);
+      console.log(`[ProviderFactory] 대체 Provider 준비: ${name} (${provider.getConfig().model})`);
+      return provider;
+    } catch (error) {
+      console.error(`[ProviderFactory] 대체 Provider 초기화 실패 (${name}):`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 설정을 덮어쓴 Provider 인스턴스 (같은 덮어쓰기는 인스턴스 재사용)
+   */
+  private applyOverride(provider: BaseProvider, override?: ProviderOverrides[string]): BaseProvider {
+    if (!override || Object.keys(override).length === 0) return provider;
+
+    const key = `${provider.getName()}:${JSON.stringify(override)}`;
+    let variant = this.variants.get(key);
+    if (!variant) {
+      variant = this.createProvider(provider.getName(), { ...provider.getConfig(), ...override });
+      this.variants.set(key, variant);
+      console.log(`[ProviderFactory] ${provider.getName()} Provider 설정 변경: ${JSON.stringify(override)}`);
+    }
+    return variant;
+  }
+
   /**
    * 모든 Provider 상태 확인
    */
@@ -196,6 +371,22 @@ export class ProviderFactory {
     return results;
   }
 
+  /**
+   * 저장 전 설정으로 Provider 연결 확인 (설정 화면의 연결 테스트용)
+   */
+  async testProviderConfig(name: string, config: ProviderConfig): Promise<{success: boolean, message: string, responseTime?: number}> {
+    try {
+      const provider = this.createProvider(name, config);
+      await this.validateProvider(provider);
+      return await provider.healthCheck();
+    } catch (error) {
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : '알 수 없는 오류'
+      };
+    }
+  }
+
   /**
    * Provider 통계 정보 수집
    */
@@ -243,13 +434,19 @@ export class ProviderFactory {
     activeProviders: number;
     multiLLMAvailable: boolean;
     providers: string[];
+    fallbackProvider: string | null;
+    circuitBreakers: CircuitBreakerStatus[];
   } {
     return {
       initialized: this.providers.size > 0,
       totalProviders: this.providers.size,
       activeProviders: this.getActiveProviders().length,
       multiLLMAvailable: this.isMultiLLMAvailable(),
-      providers: this.getProviderNames()
+      providers: this.getProviderNames(),
+      fallbackProvider: this.fallbackProvider
+        ? `${this.fallbackProvider.getName()} (${this.fallbackProvider.getConfig().model})`
+        : null,
+      circuitBreakers: this.getCircuitBreakerStatus()
     };
   }
 
@@ -269,6 +466,8 @@ export class ProviderFactory {
    */
   cleanup(): void {
     this.providers.clear();
+    this.variants.clear();
+    this.fallbackProvider = null;
     console.log('[ProviderFactory] 정리 완료');
   }
 }
\ No newline at end of file
@@ -0,0 +1,313 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { AnthropicProvider } from '../anthropic-provider';
+import { ConfigManager } from '@/lib/config/manager';
+import { EvaluationCriteria, EvaluationRequest, ProviderConfig } from '@/lib/types/evaluation';
+
+interface RecordedRequest {
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+interface MockReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Anthropic Messages API 모의 서버 (응답 큐를 순서대로 반환하고 받은 요청을 기록)
+ */
+class MockAnthropicServer {
+  readonly requests: RecordedRequest[] = [];
+  private replies: MockReply[] = [];
+  private server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/v1/messages`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  reply(...replies: MockReply[]): void {
+    this.replies.push(...replies);
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.replies = [];
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      this.requests.push({ headers: req.headers, body: JSON.parse(raw) });
+
+      const reply = this.replies.shift() || { status: 500, body: { error: { message: '응답이 준비되지 않았습니다' } } };
+      res.writeHead(reply.status || 200, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(JSON.stringify(reply.body));
+    });
+  }
+}
+
+const USAGE = { input_tokens: 1200, output_tokens: 300 };
+
+const message = (text: string, usage = USAGE) => ({
+  id: 'msg_test',
+  type: 'message',
+  role: 'assistant',
+  content: [{ type: 'text', text }],
+  stop_reason: 'end_turn',
+  usage
+});
+
+// 응답 스키마 도구 호출 응답 (tool_choice로 강제한 도구)
+const toolMessage = (name: string, input: any, usage = USAGE) => ({
+  id: 'msg_test',
+  type: 'message',
+  role: 'assistant',
+  content: [{ type: 'tool_use', id: 'toolu_test', name, input }],
+  stop_reason: 'tool_use',
+  usage
+});
+
+const buildScores = (criteria: EvaluationCriteria, score: number) => {
+  const scores: Record<string, any> = { total_score: score };
+  for (const [section, config] of Object.entries(criteria.evaluation_criteria)) {
+    scores[section] = {
+      ...Object.fromEntries(Object.keys(config.subcriteria).map(item => [item, score])),
+      subtotal: score
+    };
+  }
+  return scores;
+};
+
+const evaluationResponse = (criteria: EvaluationCriteria, score = 4.2) => ({
+  scores: buildScores(criteria, score),
+  evidence: { positive: ['문의 내용을 정확히 파악함'], negative: [], quotes: ['확인해 드리겠습니다'] },
+  improvements: [],
+  problematic: false,
+  severity: 'none'
+});
+
+describe('AnthropicProvider', () => {
+  const server = new MockAnthropicServer();
+  const originalApiKey = process.env.ANTHROPIC_API_KEY;
+  let cacheDir: string;
+  let criteria: EvaluationCriteria;
+  let config: ProviderConfig;
+  let requestCount = 0;
+
+  // 응답 캐시에 걸리지 않도록 요청마다 다른 상담 내용 사용
+  const createRequest = (): EvaluationRequest => {
+    requestCount++;
+    return {
+      session: {
+        chatId: `chat-${requestCount}`,
+        userId: 'user-1',
+        managerId: 'manager-1',
+        messages: [
+          { type: 'user', text: '대출 한도 조회가 안 됩니다', timestamp: new Date('2025-07-10T01:00:00Z') },
+          { type: 'manager', text: `확인해 드리겠습니다. 잠시만 기다려 주세요. (${requestCount})`, timestamp: new Date('2025-07-10T01:01:00Z') }
+        ],
+        metadata: { startTime: new Date('2025-07-10T01:00:00Z'), channel: 'test' }
+      },
+      criteria
+    };
+  };
+
+  beforeAll(async () => {
+    cacheDir = mkdtempSync(join(tmpdir(), 'anthropic-provider-test-'));
+    process.env.EVALUATION_CACHE_DIR = cacheDir;
+
+    criteria = ConfigManager.getInstance().getEvaluationCriteria();
+    config = {
+      enabled: true,
+      model: 'claude-test',
+      temperature: 1.5,
+      max_tokens: 2000,
+      timeout: 5000,
+      retry: { max_attempts: 3, backoff_multiplier: 1, initial_delay: 10 },
+      cost: { input_per_1k: 0.003, output_per_1k: 0.015 },
+      endpoint: await server.start()
+    };
+  });
+
+  beforeEach(() => {
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+  });
+
+  afterEach(() => {
+    server.reset();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    rmSync(cacheDir, { recursive: true, force: true });
+    if (originalApiKey === undefined) {
+      delete process.env.ANTHROPIC_API_KEY;
+    } else {
+      process.env.ANTHROPIC_API_KEY = originalApiKey;
+    }
+  });
+
+  it('Messages API 형식으로 요청하고 도구 호출 응답과 사용량을 평가 결과로 변환한다', async () => {
+    server.reply({ body: toolMessage('counseling_evaluation', evaluationResponse(criteria)) });
+
+    const result = await new AnthropicProvider(config).evaluate(createRequest());
+
+    expect(server.requests).toHaveLength(1);
+    const [{ headers, body }] = server.requests;
+    expect(headers['x-api-key']).toBe('test-key');
+    expect(headers['anthropic-version']).toBe('2023-06-01');
+    expect(body.model).toBe('claude-test');
+    expect(body.max_tokens).toBe(2000);
+    expect(body.temperature).toBe(1);
+    expect(typeof body.system).toBe('string');
+    expect(body.messages).toHaveLength(1);
+    expect(body.messages[0].role).toBe('user');
+    expect(body.messages[0].content).toContain('상담원: 확인해 드리겠습니다');
+    expect(body.tools).toHaveLength(1);
+    expect(body.tools[0].name).toBe('counseling_evaluation');
+    expect(body.tools[0].input_schema.required).toEqual(['scores', 'evidence', 'improvements', 'problematic', 'severity']);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'counseling_evaluation' });
+
+    expect(result.provider).toBe('anthropic');
+    expect(result.model).toBe('claude-test');
+    expect(result.scores.total_score).toBe(4.2);
+    expect(result.severity).toBe('none');
+    expect(result.repairAttempts).toBe(0);
+    expect(result.usage).toMatchObject({ input: 1200, output: 300, total: 1500, estimated: false });
+    expect(result.cost).toBeCloseTo(1.2 * 0.003 + 0.3 * 0.015, 6);
+  });
+
+  it('도구 호출 없이 text로 응답하면 여러 text 블록을 이어 붙여 파싱한다', async () => {
+    const text = JSON.stringify(evaluationResponse(criteria, 3.5));
+    server.reply({
+      body: {
+        ...message(''),
+        content: [
+          { type: 'text', text: text.slice(0, 40) },
+          { type: 'text', text: text.slice(40) }
+        ]
+      }
+    });
+
+    const result = await new AnthropicProvider(config).evaluate(createRequest());
+
+    expect(result.scores.total_score).toBe(3.5);
+  });
+
+  it('응답 검증에 실패하면 오류 내용을 붙여 복구 재요청하고 사용량을 합산한다', async () => {
+    server.reply(
+      { body: toolMessage('counseling_evaluation', { scores: {} }, { input_tokens: 1000, output_tokens: 50 }) },
+      { body: toolMessage('counseling_evaluation', evaluationResponse(criteria), { input_tokens: 1100, output_tokens: 300 }) }
+    );
+
+    const result = await new AnthropicProvider(config).evaluate(createRequest());
+
+    expect(server.requests).toHaveLength(2);
+    expect(server.requests[1].body.messages[0].content).toContain('## 응답 형식 오류');
+    expect(result.repairAttempts).toBe(1);
+    expect(result.usage).toMatchObject({ input: 2100, output: 350, total: 2450 });
+  });
+
+  it('재시도 전 시도에서 받은 응답의 사용량을 결과에 합산한다', async () => {
+    server.reply(
+      { body: toolMessage('counseling_evaluation', { scores: {} }, { input_tokens: 1000, output_tokens: 50 }) },
+      { status: 503, body: { type: 'error', error: { type: 'overloaded_error', message: 'overloaded' } } },
+      { body: toolMessage('counseling_evaluation', evaluationResponse(criteria)) }
+    );
+
+    const result = await new AnthropicProvider(config).evaluateWithRetry(createRequest());
+
+    expect(server.requests).toHaveLength(3);
+    expect(result.usage).toMatchObject({ input: 2200, output: 350, total: 2550 });
+    expect(result.tokens).toBe(2550);
+  });
+
+  it('429 응답은 재시도하고 성공한 응답을 반환한다', async () => {
+    server.reply(
+      { status: 429, headers: { 'retry-after': '0' }, body: { type: 'error', error: { type: 'rate_limit_error', message: 'rate limited' } } },
+      { body: toolMessage('counseling_evaluation', evaluationResponse(criteria)) }
+    );
+
+    const result = await new AnthropicProvider(config).evaluateWithRetry(createRequest());
+
+    expect(server.requests).toHaveLength(2);
+    expect(result.scores.total_score).toBe(4.2);
+  });
+
+  it('400 응답은 재시도하지 않고 상태 코드를 담은 오류로 실패한다', async () => {
+    server.reply({ status: 400, body: { type: 'error', error: { type: 'invalid_request_error', message: 'bad request' } } });
+
+    await expect(new AnthropicProvider(config).evaluateWithRetry(createRequest()))
+      .rejects.toMatchObject({ status: 400, message: expect.stringContaining('Anthropic API 오류: 400') });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('API 키가 없으면 호출하지 않고 실패한다', async () => {
+    delete process.env.ANTHROPIC_API_KEY;
+
+    await expect(new AnthropicProvider(config).evaluate(createRequest()))
+      .rejects.toThrow('Anthropic API 키가 설정되지 않았습니다');
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('상담원 종합 평가도 응답 스키마로 요청하고 검증한다', async () => {
+    const counselorResponse = {
+      scores: buildScores(criteria, 3.9),
+      comprehensive_feedback: {
+        strengths: ['친절한 응대'],
+        weaknesses: ['답변 지연'],
+        improvement_priorities: ['응답 속도 개선']
+      },
+      problematic_chats: [{ chat_id: 'chat-1', issues: ['답변 지연'], severity: '중간', reason: '확인 후 회신 누락' }],
+      overall_comment: '전반적으로 양호'
+    };
+    server.reply(
+      { body: toolMessage('counselor_evaluation', { ...counselorResponse, comprehensive_feedback: { strengths: '친절한 응대' } }) },
+      { body: toolMessage('counselor_evaluation', counselorResponse) }
+    );
+
+    const result = await new AnthropicProvider(config)
+      .evaluateCounselorWithRetry('종합 평가 요청', '종합 평가 시스템 프롬프트', criteria);
+
+    const [{ body }] = server.requests;
+    expect(body.system).toBe('종합 평가 시스템 프롬프트');
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'counselor_evaluation' });
+    expect(body.tools[0].input_schema.required).toEqual(['scores', 'comprehensive_feedback', 'problematic_chats', 'overall_comment']);
+    expect(server.requests[1].body.messages[0].content).toContain('comprehensive_feedback.strengths는 문자열 배열이어야 합니다');
+
+    expect(result.repairAttempts).toBe(1);
+    expect(result.scores.total_score).toBe(3.9);
+    expect(result.comprehensive_feedback.strengths).toEqual(['친절한 응대']);
+    expect(result.problematic_chats).toEqual([counselorResponse.problematic_chats[0]]);
+    expect(result.overall_comment).toBe('전반적으로 양호');
+    expect(result.usage?.total).toBe(3000);
+  });
+
+  it('상담원 종합 평가 응답이 복구 후에도 형식에 맞지 않으면 사용량을 담은 parseFailure 오류로 실패한다', async () => {
+    server.reply(
+      { body: message('종합 평가를 완료했습니다.') },
+      { body: message('{"scores": {}}') }
+    );
+
+    await expect(new AnthropicProvider(config).evaluateCounselorWithRetry('종합 평가 요청', '시스템', criteria))
+      .rejects.toMatchObject({
+        parseFailure: true,
+        usage: { input: 2400, output: 600, total: 3000 },
+        costBreakdown: { total: expect.closeTo(2 * (1.2 * 0.003 + 0.3 * 0.015), 6) }
+      });
+    expect(server.requests).toHaveLength(2);
+  });
+});
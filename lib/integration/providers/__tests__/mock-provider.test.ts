@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockProvider } from '../mock-provider';
+import { ConfigManager } from '@/lib/config/manager';
+import { EvaluationCriteria, EvaluationRequest, MockProviderOptions, ProviderConfig } from '@/lib/types/evaluation';
+
+describe('MockProvider', () => {
+  let cacheDir: string;
+  let criteria: EvaluationCriteria;
+  let requestCount = 0;
+
+  const createProvider = (mock: MockProviderOptions, config: Partial<ProviderConfig> = {}): MockProvider => new MockProvider({
+    enabled: true,
+    model: 'mock-evaluator',
+    temperature: 0.1,
+    max_tokens: 4000,
+    timeout: 5000,
+    retry: { max_attempts: 3, backoff_multiplier: 1, initial_delay: 10 },
+    cost: { input_per_1k: 0, output_per_1k: 0 },
+    endpoint: '',
+    mock,
+    ...config
+  } as ProviderConfig);
+
+  // 응답 캐시와 시드 키가 겹치지 않도록 요청마다 다른 상담 내용 사용
+  const createRequest = (): EvaluationRequest => {
+    requestCount++;
+    return {
+      session: {
+        chatId: `mock-chat-${requestCount}`,
+        userId: 'user-1',
+        managerId: 'manager-1',
+        messages: [
+          { type: 'manager', text: `확인해 드리겠습니다. (${requestCount})`, timestamp: new Date('2025-07-10T01:01:00Z') }
+        ],
+        metadata: { startTime: new Date('2025-07-10T01:00:00Z'), channel: 'test' }
+      },
+      criteria
+    };
+  };
+
+  beforeAll(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), 'mock-provider-test-'));
+    process.env.EVALUATION_CACHE_DIR = cacheDir;
+    criteria = ConfigManager.getInstance().getEvaluationCriteria();
+  });
+
+  afterAll(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('같은 시드와 상담이면 같은 점수를 반환한다', async () => {
+    const request = createRequest();
+
+    const first = await createProvider({ seed: 3 }).evaluate(request);
+    const second = await createProvider({ seed: 3 }).evaluate(request);
+
+    expect(second.scores).toEqual(first.scores);
+    expect(first.scores.total_score).toBeGreaterThanOrEqual(2.5);
+    expect(first.scores.total_score).toBeLessThanOrEqual(4.8);
+    expect(first.usage?.estimated).toBe(true);
+  });
+
+  it('잘못된 JSON 응답은 복구 재요청으로 처리한다', async () => {
+    const provider = createProvider({ script: [{ type: 'malformed', text: '{"scores":' }, { type: 'result', score: 4 }] });
+
+    const result = await provider.evaluate(createRequest());
+
+    expect(result.repairAttempts).toBe(1);
+    expect(result.scores.total_score).toBe(4);
+  });
+
+  it('복구 재요청 후에도 형식이 맞지 않으면 parseFailure 오류로 실패한다', async () => {
+    const provider = createProvider({ script: [{ type: 'malformed', text: 'not json' }] });
+
+    await expect(provider.evaluateWithRetry(createRequest())).rejects.toMatchObject({ parseFailure: true });
+  });
+
+  it('재시도 가능한 오류는 재시도하고 스크립트 결과를 반환한다', async () => {
+    const provider = createProvider({
+      script: [
+        { type: 'error', status: 503, message: '일시적 오류' },
+        { type: 'result', score: 2, result: { improvements: ['답변 정확성 개선 필요'] } }
+      ]
+    });
+
+    const result = await provider.evaluateWithRetry(createRequest());
+
+    expect(result.scores.total_score).toBe(2);
+    expect(result.problematic).toBe(true);
+    expect(result.improvements).toEqual(['답변 정확성 개선 필요']);
+  });
+
+  it('max_tokens나 verbosity가 바뀌면 캐시된 응답을 사용하지 않는다', async () => {
+    const request = createRequest();
+    const evaluate = (score: number, config: Partial<ProviderConfig>) =>
+      createProvider({ script: [{ type: 'result', score }] }, config).evaluateWithRetry(request);
+
+    expect((await evaluate(3, { verbosity: 'low' })).scores.total_score).toBe(3);
+    expect((await evaluate(4, { verbosity: 'low' })).scores.total_score).toBe(3);
+    expect((await evaluate(4, { verbosity: 'high' })).scores.total_score).toBe(4);
+    expect((await evaluate(5, { verbosity: 'low', max_tokens: 8000 })).scores.total_score).toBe(5);
+  });
+});
@@ -0,0 +1,118 @@
+import { BaseProvider, CompletionOptions, ReportedUsage } from './base-provider';
+import { combineSignals } from '../cancellation';
+import { EvaluationSchema } from '@/lib/domain/evaluation-schema';
+import { ProviderCompletion } from '@/lib/types/evaluation';
+
+const DEFAULT_ENDPOINT = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicResponse {
+  text: string;
+  usage: ReportedUsage | null;
+}
+
+/**
+ * Anthropic Claude Provider 구현
+ * Messages API를 사용한 상담 평가 서비스 (OpenAI/Gemini와 교차 검증용)
+ */
+export class AnthropicProvider extends BaseProvider {
+  constructor(config: any) {
+    super('anthropic', config);
+  }
+
+  /**
+   * 프롬프트 직접 실행
+   */
+  protected async complete(
+    prompt: string,
+    systemPrompt: string,
+    options?: CompletionOptions
+  ): Promise<ProviderCompletion> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('Anthropic API 키가 설정되지 않았습니다.');
+    }
+
+    const response = await this.callAPI(prompt, apiKey, systemPrompt, options?.timeout, options?.schema, options?.signal);
+
+    return this.buildCompletion(response.text, systemPrompt + prompt, response.usage);
+  }
+
+  /**
+   * Anthropic Messages API 호출
+   * endpoint는 models.json 설정을 따르므로 로컬 모의 서버로 대체 가능
+   */
+  private async callAPI(
+    prompt: string,
+    apiKey: string,
+    systemPrompt: string,
+    timeout: number = this.config.timeout,
+    schema?: EvaluationSchema,
+    signal?: AbortSignal
+  ): Promise<AnthropicResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await this.fetch(this.config.endpoint || DEFAULT_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          system: systemPrompt,
+          messages: [
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          // Anthropic temperature 범위는 0-1
+          temperature: Math.min(this.config.temperature, 1),
+          max_tokens: this.config.max_tokens,
+          // 응답 스키마를 도구 입력 스키마로 전달하고 해당 도구 호출을 강제해 구조화 출력
+          ...(schema && {
+            tools: [{
+              name: schema.getName(),
+              description: '평가 결과를 지정된 응답 형식으로 제출',
+              input_schema: schema.toJsonSchema()
+            }],
+            tool_choice: { type: 'tool', name: schema.getName() }
+          })
+        }),
+        signal: combineSignals(controller.signal, signal)
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw await this.createHttpError('Anthropic API 오류', response);
+      }
+
+      const data = await response.json();
+      const content: any[] = data.content || [];
+      const toolUse = content.find(block => block.type === 'tool_use');
+      const text = toolUse
+        ? JSON.stringify(toolUse.input)
+        : content
+            .filter(block => block.type === 'text')
+            .map(block => block.text)
+            .join('');
+
+      if (!text) {
+        throw new Error(`Anthropic 응답에 텍스트가 없습니다 (stop_reason: ${data.stop_reason})`);
+      }
+
+      return {
+        text,
+        usage: data.usage ? { input: data.usage.input_tokens, output: data.usage.output_tokens } : null
+      };
+    } catch (error) {
+      clearTimeout(timeoutId);
+      throw error;
+    }
+  }
+}
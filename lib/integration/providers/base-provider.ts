@@ -1,4 +1,42 @@
-import { EvaluationRequest, EvaluationResult, ProviderConfig } from '@/lib/types/evaluation';
+import { ConfigManager } from '@/lib/config/manager';
+import { PromptRenderer } from '../prompt-renderer';
+import { HttpRecorder } from '../http-recorder';
+import { createCancelledError, isCancelledError, throwIfCancelled } from '../cancellation';
+import { parseRetryAfter, RateLimiter, RateLimiterRegistry } from '../rate-limiter';
+import { ResponseCache } from '../response-cache';
+import { CounselorEvaluationSchema, EvaluationSchema, SchemaValidationResult } from '@/lib/domain/evaluation-schema';
+import { UsageAccounting } from '@/lib/domain/usage-accounting';
+import {
+  EvaluationCriteria,
+  EvaluationRequest,
+  EvaluationResult,
+  ProviderConfig,
+  ProviderCompletion,
+  CounselorEvaluationResult,
+  CostBreakdown,
+  CostConfig,
+  RenderedPrompt,
+  TokenUsage
+} from '@/lib/types/evaluation';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 1;
+
+export interface CompletionOptions {
+  timeout?: number;
+  /** 지정 시 Provider의 구조화 출력 모드(json_schema, responseSchema, tool input_schema)로 응답 형식 강제 */
+  schema?: EvaluationSchema;
+  /** 사용자 취소 신호 (Provider HTTP 호출까지 전달) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Provider 응답에 포함된 토큰 사용량 (reasoning은 output에 포함된 값)
+ */
+export interface ReportedUsage {
+  input: number;
+  output: number;
+  reasoning?: number;
+}
 
 /**
  * Base Provider 추상 클래스
@@ -15,9 +53,190 @@ export abstract class BaseProvider {
   }
 
   /**
-   * 상담 평가 실행 (추상 메서드)
+   * 프롬프트 직접 실행 (추상 메서드)
+   * 상담 평가와 상담원 종합 평가 모두 이 메서드로 Provider API를 호출
+   */
+  protected abstract complete(
+    prompt: string,
+    systemPrompt: string,
+    options?: CompletionOptions
+  ): Promise<ProviderCompletion>;
+
+  /**
+   * 상담 평가 실행
+   * 평가 기준으로 만든 응답 스키마로 구조화 출력을 요청하고, 검증에 실패하면 오류 내용을 붙여 복구 재요청
+   * 복구 후에도 실패하면 기본 점수로 대체하지 않고 parseFailure 오류로 처리
+   */
+  async evaluate(request: EvaluationRequest, signal?: AbortSignal): Promise<EvaluationResult> {
+    const startTime = Date.now();
+
+    try {
+      const { system, user: prompt, template } = this.renderPrompt(request);
+      const schema = new EvaluationSchema(request.criteria);
+      const { data, completions, repairAttempts } = await this.completeWithRepair(prompt, system, schema, { signal });
+
+      // 복구 재요청까지 포함한 사용량
+      const { usage, costBreakdown } = this.sumCompletions(completions);
+
+      return {
+        ...EvaluationSchema.toResult(data),
+        provider: this.name,
+        model: this.config.model,
+        responseTime: Date.now() - startTime,
+        tokens: usage.total,
+        cost: costBreakdown.total,
+        usage,
+        costBreakdown,
+        promptTemplate: template,
+        repairAttempts
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw this.carryUsage(createCancelledError(`${this.name} Provider 평가가 취소되었습니다`), error);
+      }
+      throw this.handleError(error, `${this.name} 평가 실행 중 오류 발생`);
+    }
+  }
+
+  /**
+   * 상담원 종합 평가 실행
+   * 종합 평가 응답 스키마로 구조화 출력을 요청하고 상담 평가와 같은 방식으로 검증/복구 재요청
+   */
+  async evaluateCounselor(
+    prompt: string,
+    systemPrompt: string,
+    criteria: EvaluationCriteria,
+    options?: Omit<CompletionOptions, 'schema'>
+  ): Promise<CounselorEvaluationResult> {
+    const startTime = Date.now();
+
+    try {
+      const schema = new CounselorEvaluationSchema(criteria);
+      const { data, completions, repairAttempts } = await this.completeWithRepair(prompt, systemPrompt, schema, options);
+      const { usage, costBreakdown } = this.sumCompletions(completions);
+
+      return {
+        ...CounselorEvaluationSchema.toCounselorResult(data),
+        provider: this.name,
+        model: this.config.model,
+        responseTime: Date.now() - startTime,
+        tokens: usage.total,
+        cost: costBreakdown.total,
+        usage,
+        costBreakdown,
+        repairAttempts
+      };
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        throw this.carryUsage(createCancelledError(`${this.name} Provider 평가가 취소되었습니다`), error);
+      }
+      throw this.handleError(error, `${this.name} 종합 평가 실행 중 오류 발생`);
+    }
+  }
+
+  /**
+   * 구조화 출력 요청 및 응답 검증 (실패 시 최대 max_repair_attempts회 복구 재요청)
+   * 검증 실패나 복구 재요청 중 오류로 끝나도 이미 받은 응답의 사용량은 오류에 담아 정산
    */
-  abstract evaluate(request: EvaluationRequest): Promise<EvaluationResult>;
+  private async completeWithRepair(
+    prompt: string,
+    systemPrompt: string,
+    schema: EvaluationSchema,
+    options: Omit<CompletionOptions, 'schema'> = {}
+  ): Promise<{ data: any; completions: ProviderCompletion[]; repairAttempts: number }> {
+    const maxRepairAttempts = this.getMaxRepairAttempts();
+    const completions: ProviderCompletion[] = [];
+
+    try {
+      let completion = await this.complete(prompt, systemPrompt, { ...options, schema });
+      completions.push(completion);
+      let parsed = this.parseEvaluation(completion.text, schema);
+      let repairAttempts = 0;
+
+      while (!parsed.valid && repairAttempts < maxRepairAttempts) {
+        repairAttempts++;
+        console.warn(`${this.name} Provider 응답 검증 실패, 복구 재요청 ${repairAttempts}/${maxRepairAttempts}: ${parsed.errors.join(', ')}`);
+
+        throwIfCancelled(options.signal);
+        completion = await this.complete(this.buildRepairPrompt(prompt, completion.text, parsed.errors), systemPrompt, { ...options, schema });
+        completions.push(completion);
+        parsed = this.parseEvaluation(completion.text, schema);
+      }
+
+      if (!parsed.valid) {
+        const error: any = new Error(`응답 검증 실패 (복구 재요청 ${repairAttempts}회): ${parsed.errors.slice(0, 5).join(', ')}`);
+        error.parseFailure = true;
+        throw error;
+      }
+
+      return { data: parsed.data, completions, repairAttempts };
+    } catch (error: any) {
+      if (completions.length > 0 && error && typeof error === 'object') {
+        Object.assign(error, this.sumCompletions(completions));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 평가 프롬프트 렌더링 (공통 템플릿 + Provider별 재정의)
+   */
+  protected renderPrompt(request: EvaluationRequest): RenderedPrompt {
+    const template = ConfigManager.getInstance().getPromptTemplate();
+    return new PromptRenderer(template).render(this.name, this.config.model, request);
+  }
+
+  /**
+   * Provider HTTP 호출 (LLM_HTTP_MODE에 따라 실제 호출/녹화/재생)
+   */
+  protected fetch(url: string, init?: RequestInit): Promise<Response> {
+    return HttpRecorder.getInstance().fetch(this.name, url, init);
+  }
+
+  /**
+   * 응답 텍스트와 사용량으로 실행 결과 생성
+   * Provider가 usage를 반환하지 않으면 문자 수 기반으로 추정하고 estimated로 표시
+   */
+  protected buildCompletion(text: string, prompt: string, reported?: ReportedUsage | null): ProviderCompletion {
+    const usage: TokenUsage = reported
+      ? {
+          input: reported.input || 0,
+          output: reported.output || 0,
+          reasoning: reported.reasoning || 0,
+          total: (reported.input || 0) + (reported.output || 0),
+          estimated: false
+        }
+      : UsageAccounting.estimate(prompt, text, UsageAccounting.charsPerToken(this.name));
+    const costBreakdown = UsageAccounting.cost(usage, this.getModelCost());
+
+    return {
+      text,
+      tokens: usage.total,
+      cost: costBreakdown.total,
+      usage,
+      costBreakdown
+    };
+  }
+
+  /**
+   * 선택된 모델의 단가
+   */
+  protected getModelCost(): CostConfig {
+    return UsageAccounting.modelCost(this.config);
+  }
+
+  /**
+   * 여러 호출의 사용량 합산
+   */
+  private sumCompletions(
+    completions: Array<{ usage?: TokenUsage; costBreakdown?: CostBreakdown }>
+  ): Pick<ProviderCompletion, 'usage' | 'costBreakdown'> {
+    const summary = UsageAccounting.summarize(completions);
+    return {
+      usage: { ...summary.tokens, estimated: summary.estimatedCalls > 0 },
+      costBreakdown: summary.cost
+    };
+  }
 
   /**
    * Provider 이름 반환
@@ -43,32 +262,142 @@ export abstract class BaseProvider {
   /**
    * 재시도 로직이 포함된 평가 실행
    */
-  async evaluateWithRetry(request: EvaluationRequest): Promise<EvaluationResult> {
+  async evaluateWithRetry(request: EvaluationRequest, signal?: AbortSignal): Promise<EvaluationResult> {
+    const { system, user } = this.renderPrompt(request);
+
+    // 같은 상담·프롬프트·모델 설정으로 평가한 결과가 있으면 Provider를 호출하지 않음
+    const cache = ResponseCache.getInstance();
+    const cacheKey = cache.isEnabled()
+      ? ResponseCache.createKey({
+          provider: this.name,
+          model: this.config.model,
+          temperature: this.config.temperature,
+          maxTokens: this.config.max_tokens,
+          reasoningEffort: this.config.reasoningEffort,
+          verbosity: this.config.verbosity,
+          criteriaVersion: request.criteria.version,
+          messages: request.session.messages,
+          prompt: { system, user }
+        })
+      : null;
+
+    const cached = cacheKey ? cache.get(this.name, cacheKey) : null;
+    if (cached) {
+      console.log(`${this.name} Provider 캐시 적중: ${request.session.chatId}`);
+      return this.fromCache(cached.result);
+    }
+
+    const result = await this.withRetry(() => this.evaluate(request, signal), signal, this.estimateRequestTokens(user, system));
+
+    if (cacheKey) {
+      cache.set({
+        key: cacheKey,
+        provider: this.name,
+        model: this.config.model,
+        criteriaVersion: request.criteria.version,
+        chatId: request.session.chatId,
+        result
+      });
+    }
+    return result;
+  }
+
+  /**
+   * 캐시된 평가 결과 (이번 실행에서는 호출하지 않았으므로 사용량/비용 0)
+   */
+  private fromCache(result: EvaluationResult): EvaluationResult {
+    return {
+      ...result,
+      responseTime: 0,
+      tokens: 0,
+      cost: 0,
+      usage: { input: 0, output: 0, reasoning: 0, total: 0, estimated: false },
+      costBreakdown: { input: 0, output: 0, total: 0 },
+      repairAttempts: 0,
+      cached: true
+    };
+  }
+
+  /**
+   * 재시도 로직이 포함된 상담원 종합 평가 실행
+   */
+  async evaluateCounselorWithRetry(
+    prompt: string,
+    systemPrompt: string,
+    criteria: EvaluationCriteria,
+    options?: Omit<CompletionOptions, 'schema'>
+  ): Promise<CounselorEvaluationResult> {
+    return this.withRetry(
+      () => this.evaluateCounselor(prompt, systemPrompt, criteria, options),
+      options?.signal,
+      this.estimateRequestTokens(prompt, systemPrompt)
+    );
+  }
+
+  /**
+   * 공통 재시도 루프 (지수 백오프)
+   * 시도마다 Provider 호출 한도(models.json rate_limit)를 통과한 뒤 실행하고, Retry-After를 받으면 그 시간만큼 대기
+   * 취소되면 진행 중인 호출과 재시도 대기를 모두 중단
+   */
+  protected async withRetry<T extends { usage?: TokenUsage; costBreakdown?: CostBreakdown; tokens?: number; cost?: number }>(
+    operation: () => Promise<T>,
+    signal?: AbortSignal,
+    estimatedTokens: number = 0
+  ): Promise<T> {
     this.retryCount = 0;
+    // 실패한 시도에서 받은 응답의 사용량 (재시도 성공 시 결과에 합산, 최종 실패 시 오류에 포함)
+    const spent: Array<{ usage?: TokenUsage; costBreakdown?: CostBreakdown }> = [];
+    const withSpent = (error: any) => spent.length > 0 ? Object.assign(error, this.sumCompletions(spent)) : error;
     
     for (let attempt = 1; attempt <= this.config.retry.max_attempts; attempt++) {
       try {
-        const result = await this.evaluate(request);
+        throwIfCancelled(signal);
+        const lease = await this.getRateLimiter().acquire(estimatedTokens, signal);
+        let result: T;
+        try {
+          result = await operation();
+        } catch (error: any) {
+          // 대기 중인 다른 요청이 먼저 실행되지 않도록 반환 전에 Retry-After 반영
+          if (error?.retryAfterMs) {
+            this.getRateLimiter().pauseFor(error.retryAfterMs);
+          }
+          lease.release(error?.usage?.total);
+          throw error;
+        }
+        lease.release(result.usage?.total);
         this.retryCount = 0; // 성공 시 재시도 카운트 리셋
-        return result;
-      } catch (error) {
+        return spent.length > 0 ? this.addSpentUsage(result, spent) : result;
+      } catch (error: any) {
         this.retryCount = attempt;
+        if (error?.usage) {
+          spent.push({ usage: error.usage, costBreakdown: error.costBreakdown });
+        }
+
+        if (signal?.aborted || isCancelledError(error)) {
+          throw withSpent(createCancelledError(`${this.name} Provider 평가가 취소되었습니다`));
+        }
         
         if (attempt === this.config.retry.max_attempts) {
           // 최대 재시도 횟수 도달
-          throw this.handleError(error, `${this.name} Provider 최대 재시도 횟수 초과`);
+          throw withSpent(this.handleError(error, `${this.name} Provider 최대 재시도 횟수 초과`));
         }
 
         // 재시도 가능한 오류인지 확인
         if (!this.isRetryableError(error)) {
-          throw this.handleError(error, `${this.name} Provider 재시도 불가능한 오류`);
+          throw withSpent(this.handleError(error, `${this.name} Provider 재시도 불가능한 오류`));
         }
 
-        // 지수 백오프 대기
-        const delayMs = this.config.retry.initial_delay * Math.pow(this.config.retry.backoff_multiplier, attempt - 1);
+        // 지수 백오프 대기 (Retry-After가 더 길면 그만큼 대기)
+        const backoffMs = this.config.retry.initial_delay * Math.pow(this.config.retry.backoff_multiplier, attempt - 1);
+        const delayMs = Math.max(backoffMs, error?.retryAfterMs || 0);
         console.warn(`${this.name} Provider 재시도 ${attempt}/${this.config.retry.max_attempts} (${delayMs}ms 후)`);
+
+        // 호출 한도 초과 응답이면 같은 Provider의 다른 요청도 함께 대기
+        if (error?.status === 429) {
+          this.getRateLimiter().pauseFor(delayMs);
+        }
         
-        await this.delay(delayMs);
+        await this.delay(delayMs, signal);
       }
     }
 
@@ -76,12 +405,104 @@ export abstract class BaseProvider {
     throw new Error(`${this.name} Provider 예상치 못한 오류`);
   }
 
+  /**
+   * 실패한 시도의 사용량을 성공한 결과에 합산
+   */
+  private addSpentUsage<T extends { usage?: TokenUsage; costBreakdown?: CostBreakdown; tokens?: number; cost?: number }>(
+    result: T,
+    spent: Array<{ usage?: TokenUsage; costBreakdown?: CostBreakdown }>
+  ): T {
+    const { usage, costBreakdown } = this.sumCompletions([result, ...spent]);
+    return { ...result, usage, costBreakdown, tokens: usage.total, cost: costBreakdown.total };
+  }
+
+  /**
+   * 원래 오류에 담긴 사용량을 새 오류로 옮김 (실패한 호출의 비용도 정산되도록)
+   */
+  private carryUsage(target: Error, source: any): Error {
+    if (source?.usage) {
+      Object.assign(target, { usage: source.usage, costBreakdown: source.costBreakdown });
+    }
+    return target;
+  }
+
+  /**
+   * Provider 호출 한도 (같은 이름의 Provider 인스턴스끼리 공유)
+   */
+  protected getRateLimiter(): RateLimiter {
+    return RateLimiterRegistry.getInstance().get(this.name, this.config.rate_limit);
+  }
+
+  /**
+   * 호출 한도에 예약할 토큰 (입력 추정치 + 최대 출력 토큰, 응답 후 실제 사용량으로 정산)
+   */
+  protected estimateRequestTokens(prompt: string, systemPrompt: string): number {
+    const input = UsageAccounting.estimate(`${systemPrompt}\n${prompt}`, '', UsageAccounting.charsPerToken(this.name)).input;
+    return input + (this.config.max_tokens || 0);
+  }
+
+  /**
+   * HTTP 오류 응답을 상태 코드와 Retry-After가 담긴 오류로 변환
+   */
+  protected async createHttpError(context: string, response: Response): Promise<Error> {
+    const errorText = await response.text();
+    const error: any = new Error(`${context}: ${response.status} - ${errorText}`);
+    error.status = response.status;
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfterMs !== undefined) {
+      error.retryAfterMs = retryAfterMs;
+    }
+    return error;
+  }
+
+  /**
+   * 평가 응답 JSON 추출 및 스키마 검증
+   */
+  protected parseEvaluation(text: string, schema: EvaluationSchema): SchemaValidationResult & { data?: any } {
+    let data: any;
+    try {
+      data = EvaluationSchema.extractJson(text);
+    } catch (error) {
+      return { valid: false, errors: [`JSON 파싱 실패: ${error instanceof Error ? error.message : error}`] };
+    }
+
+    return { ...schema.validate(data), data };
+  }
+
+  /**
+   * 복구 재요청 프롬프트 (원래 요청 + 이전 응답 + 검증 오류)
+   */
+  protected buildRepairPrompt(prompt: string, previousResponse: string, errors: string[]): string {
+    return [
+      prompt,
+      '',
+      '## 이전 응답',
+      previousResponse.slice(0, 4000),
+      '',
+      '## 응답 형식 오류',
+      ...errors.map(error => `- ${error}`),
+      '',
+      '위 오류를 모두 수정하여 지정된 응답 형식의 JSON 객체만 다시 출력하세요.'
+    ].join('\n');
+  }
+
+  /**
+   * 응답 검증 실패 시 최대 복구 재요청 횟수 (models.json evaluation_mode.max_repair_attempts)
+   */
+  private getMaxRepairAttempts(): number {
+    return ConfigManager.getInstance().getModelConfig().evaluation_mode.max_repair_attempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  }
+
   /**
    * 재시도 가능한 오류인지 판단
    */
   protected isRetryableError(error: any): boolean {
     if (!error) return false;
 
+    // 응답 형식 오류는 evaluate에서 이미 복구 재요청을 거침
+    if (error.parseFailure) return false;
+
     const errorMessage = error.message?.toLowerCase() || '';
     const statusCode = error.status || error.statusCode;
 
@@ -129,14 +550,35 @@ export abstract class BaseProvider {
       originalError: error
     });
 
-    return new Error(fullMessage);
+    // 재시도 판단을 위해 HTTP 상태 코드 유지
+    const standardized: any = new Error(fullMessage);
+    standardized.status = error?.status ?? error?.statusCode;
+    standardized.parseFailure = error?.parseFailure === true;
+    standardized.cancelled = isCancelledError(error);
+    standardized.retryAfterMs = error?.retryAfterMs;
+    return this.carryUsage(standardized, error);
   }
 
   /**
-   * 지연 실행
+   * 지연 실행 (취소 시 즉시 중단)
    */
-  protected delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  protected delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createCancelledError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(createCancelledError());
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
@@ -203,7 +645,7 @@ export abstract class BaseProvider {
               total_score: 2.5,
               업무능력: 2.0,
               문장력: 2.0,
-              기본태도: 2.0,
+              기본_태도: 2.0,
               relative_threshold: 0.8
             }
           },
@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import { BaseProvider, CompletionOptions } from './base-provider';
+import { ConfigManager } from '@/lib/config/manager';
+import { CounselorEvaluationSchema } from '@/lib/domain/evaluation-schema';
+import { ScoringEngine } from '@/lib/domain/scoring-engine';
+import {
+  EvaluationCriteria,
+  EvaluationResult,
+  MockProviderOptions,
+  MockScriptStep,
+  ProviderCompletion
+} from '@/lib/types/evaluation';
+
+const DEFAULT_SCORE_RANGE = { min: 2.5, max: 4.8 };
+const DEFAULT_FAILURE_STATUS = 503;
+
+/**
+ * 오프라인 테스트용 Mock Provider
+ * 외부 API 없이 시드 기반 난수 또는 스크립트로 평가 응답을 생성 (지연, 실패, 잘못된 JSON 재현 가능)
+ * 난수는 시드·프롬프트·시도 횟수로만 결정되므로 병렬 실행 순서와 무관하게 같은 결과를 반환
+ */
+export class MockProvider extends BaseProvider {
+  private callCount = 0;
+  private attempts: Map<string, number> = new Map();
+
+  constructor(config: any) {
+    super('mock', config);
+  }
+
+  /**
+   * 프롬프트 직접 실행
+   * 응답 스키마 종류에 따라 상담 평가 응답 또는 상담원 종합 평가 응답 생성
+   */
+  protected async complete(
+    prompt: string,
+    systemPrompt: string,
+    options?: CompletionOptions
+  ): Promise<ProviderCompletion> {
+    // 프롬프트에 상담 내용이 포함되므로 프롬프트 해시를 상담별 키로 사용
+    const key = createHash('sha256').update(systemPrompt + prompt).digest('hex').slice(0, 16);
+    const schema = options?.schema;
+    const criteria = schema?.getCriteria() || this.getCriteria();
+    const text = await this.respond(key, score => !schema || schema instanceof CounselorEvaluationSchema
+      ? this.buildCounselorResponse(criteria, score)
+      : this.buildEvaluationResponse(criteria, score), options?.signal);
+
+    // Mock 응답은 usage가 없으므로 추정치로 기록
+    return this.buildCompletion(text, systemPrompt + prompt);
+  }
+
+  /**
+   * Mock 호출 통계 초기화 (스크립트 재생 위치, 시도 횟수)
+   */
+  reset(): void {
+    this.callCount = 0;
+    this.attempts.clear();
+  }
+
+  /**
+   * 스크립트 또는 시드 기반으로 응답 텍스트 결정
+   * 같은 키의 재호출(재시도)은 시도 횟수를 시드에 포함해 다른 결과가 나올 수 있음
+   */
+  private async respond(
+    key: string,
+    build: (score: () => number) => string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const options = this.getOptions();
+    const attempt = (this.attempts.get(key) || 0) + 1;
+    this.attempts.set(key, attempt);
+
+    const random = this.createRandom(`${options.seed ?? 0}:${key}:${attempt}`);
+    const script = options.script || [];
+    const step: MockScriptStep | undefined = script.length > 0
+      ? script[this.callCount++ % script.length]
+      : undefined;
+
+    await this.delay(step?.latency_ms ?? this.getLatency(options, random), signal);
+
+    const { min, max } = options.score_range || DEFAULT_SCORE_RANGE;
+    const score = () => Math.round((min + random() * (max - min)) * 10) / 10;
+
+    if (step) {
+      return this.runStep(step, score, build);
+    }
+
+    if (random() < (options.failure_rate || 0)) {
+      throw this.createFailure(options.failure_status || DEFAULT_FAILURE_STATUS, `Mock 호출 실패 (시도 ${attempt})`);
+    }
+
+    const text = build(score);
+    if (random() < (options.malformed_rate || 0)) {
+      return this.truncate(text);
+    }
+
+    return text;
+  }
+
+  private runStep(step: MockScriptStep, score: () => number, build: (score: () => number) => string): string {
+    switch (step.type) {
+      case 'error':
+        throw this.createFailure(step.status || DEFAULT_FAILURE_STATUS, step.message || 'Mock 스크립트 오류', step.retry_after_ms);
+      case 'malformed':
+        return step.text ?? this.truncate(build(score));
+      case 'result': {
+        const fixedScore = step.score;
+        const response = JSON.parse(build(fixedScore !== undefined ? () => fixedScore : score));
+        return JSON.stringify({ ...response, ...step.result });
+      }
+      default:
+        throw new Error(`지원하지 않는 Mock 스크립트 단계: ${(step as any).type}`);
+    }
+  }
+
+  /**
+   * 평가 응답 JSON 생성 (평가 기준의 모든 세부 항목 점수 포함)
+   */
+  private buildEvaluationResponse(criteria: EvaluationCriteria, score: () => number): string {
+    const scores = this.buildScores(criteria, score);
+    const problematic = scores.total_score < criteria.scoring.problematic_criteria.total_score;
+
+    return JSON.stringify({
+      scores,
+      evidence: {
+        positive: ['고객 문의를 정확히 파악함'],
+        negative: problematic ? ['답변이 불충분함'] : [],
+        quotes: []
+      },
+      improvements: problematic ? ['답변 정확성 개선 필요'] : [],
+      problematic,
+      severity: problematic ? 'medium' : 'none'
+    });
+  }
+
+  /**
+   * 상담원 종합 평가 응답 JSON 생성
+   */
+  private buildCounselorResponse(criteria: EvaluationCriteria, score: () => number): string {
+    const scores = this.buildScores(criteria, score);
+
+    return JSON.stringify({
+      scores,
+      comprehensive_feedback: {
+        strengths: ['일관된 응대 태도'],
+        weaknesses: ['일부 답변 지연'],
+        improvement_priorities: ['응답 속도 개선']
+      },
+      problematic_chats: [],
+      overall_comment: 'Mock 종합 평가'
+    });
+  }
+
+  private buildScores(criteria: EvaluationCriteria, valueOf: () => number): EvaluationResult['scores'] {
+    const raw: any = {};
+    for (const [section, config] of Object.entries(criteria.evaluation_criteria)) {
+      raw[section] = Object.fromEntries(Object.keys(config.subcriteria).map(item => [item, valueOf()]));
+      // 세부 항목이 없는 기준(healthCheck 등)은 소계로 대체
+      if (Object.keys(config.subcriteria).length === 0) {
+        raw[section].subtotal = valueOf();
+      }
+    }
+    return new ScoringEngine(criteria).applyWeights(raw);
+  }
+
+  private getOptions(): MockProviderOptions {
+    return this.config.mock || {};
+  }
+
+  private getCriteria(): EvaluationCriteria {
+    return ConfigManager.getInstance().getEvaluationCriteria();
+  }
+
+  private getLatency(options: MockProviderOptions, random: () => number): number {
+    const latency = options.latency_ms;
+    if (latency === undefined) return 0;
+    if (typeof latency === 'number') return latency;
+    return Math.round(latency.min + random() * (latency.max - latency.min));
+  }
+
+  private createFailure(status: number, message: string, retryAfterMs?: number): Error {
+    const error: any = new Error(`Mock API 오류: ${status} - ${message}`);
+    error.status = status;
+    if (retryAfterMs !== undefined) {
+      error.retryAfterMs = retryAfterMs;
+    }
+    return error;
+  }
+
+  /**
+   * 잘못된 JSON (응답 중간에서 잘림)
+   */
+  private truncate(text: string): string {
+    return text.slice(0, Math.floor(text.length / 2));
+  }
+
+  /**
+   * 문자열 시드 기반 난수 생성기 (mulberry32)
+   */
+  private createRandom(seed: string): () => number {
+    let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
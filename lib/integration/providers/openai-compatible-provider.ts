@@ -0,0 +1,163 @@
+import { BaseProvider, CompletionOptions, ReportedUsage } from './base-provider';
+import { combineSignals } from '../cancellation';
+import { EvaluationSchema } from '@/lib/domain/evaluation-schema';
+import { ProviderCompletion } from '@/lib/types/evaluation';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+interface CompletionResponse {
+  text: string;
+  usage: ReportedUsage | null;
+}
+
+/**
+ * OpenAI 호환 로컬 모델 Provider 구현
+ * Ollama, vLLM, llama.cpp server 등 /v1/chat/completions를 제공하는 서버로 평가 (상담 데이터가 외부로 전송되지 않음)
+ * base_url은 models.json 또는 LOCAL_LLM_BASE_URL 환경변수로 지정하며, 비용은 기본 0으로 계산
+ */
+export class OpenAICompatibleProvider extends BaseProvider {
+  constructor(config: any) {
+    super('local', config);
+  }
+
+  /**
+   * 프롬프트 직접 실행
+   */
+  protected async complete(
+    prompt: string,
+    systemPrompt: string,
+    options?: CompletionOptions
+  ): Promise<ProviderCompletion> {
+    const response = await this.callAPI(prompt, systemPrompt, options?.timeout, options?.schema, options?.signal);
+
+    return this.buildCompletion(response.text, systemPrompt + prompt, response.usage);
+  }
+
+  /**
+   * 로컬 서버 상태 확인
+   * 평가 요청 대신 /models 목록으로 서버 응답과 설정된 모델 존재 여부만 확인
+   */
+  async healthCheck(): Promise<{success: boolean, message: string, responseTime?: number}> {
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), Math.min(this.config.timeout, 10000));
+
+    try {
+      const response = await this.fetch(`${this.getBaseUrl()}/models`, {
+        headers: this.getHeaders(),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status} - ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      const models: string[] = (data.data || []).map((model: any) => model.id);
+
+      if (models.length > 0 && !models.includes(this.config.model)) {
+        return {
+          success: false,
+          message: `${this.name} Provider 오류: 서버에 ${this.config.model} 모델이 없습니다 (사용 가능: ${models.join(', ')})`,
+          responseTime: Date.now() - startTime
+        };
+      }
+
+      return {
+        success: true,
+        message: `${this.name} Provider 정상 작동 (${this.getBaseUrl()})`,
+        responseTime: Date.now() - startTime
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `${this.name} Provider 오류: ${this.getBaseUrl()} 연결 실패 - ${error instanceof Error ? error.message : '알 수 없는 오류'}`,
+        responseTime: Date.now() - startTime
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * OpenAI 호환 Chat Completions API 호출
+   */
+  private async callAPI(
+    prompt: string,
+    systemPrompt: string,
+    timeout: number = this.config.timeout,
+    schema?: EvaluationSchema,
+    signal?: AbortSignal
+  ): Promise<CompletionResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await this.fetch(`${this.getBaseUrl()}/chat/completions`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: [
+            {
+              role: 'system',
+              content: systemPrompt
+            },
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          temperature: this.config.temperature,
+          max_tokens: this.config.max_tokens,
+          // 응답 스키마는 json_schema로 전달 (JSON 모드를 지원하지 않는 서버는 json_mode: false로 설정하고 응답 검증에만 사용)
+          ...(this.config.json_mode !== false && {
+            response_format: schema
+              ? { type: 'json_schema', json_schema: { name: schema.getName(), strict: true, schema: schema.toJsonSchema() } }
+              : { type: 'json_object' }
+          })
+        }),
+        signal: combineSignals(controller.signal, signal)
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw await this.createHttpError('로컬 모델 API 오류', response);
+      }
+
+      const data = await response.json();
+      return { text: data.choices?.[0]?.message?.content || '', usage: this.parseUsage(data.usage) };
+    } catch (error) {
+      clearTimeout(timeoutId);
+      throw error;
+    }
+  }
+
+  private getBaseUrl(): string {
+    return (process.env.LOCAL_LLM_BASE_URL || this.config.base_url || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  /**
+   * 요청 헤더 (vLLM --api-key 등 인증을 요구하는 서버는 LOCAL_LLM_API_KEY 사용)
+   */
+  private getHeaders(): Record<string, string> {
+    const apiKey = process.env.LOCAL_LLM_API_KEY;
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` })
+    };
+  }
+
+  /**
+   * usage 변환 (서버가 usage를 반환하지 않으면 문자 수 기반 추정)
+   */
+  private parseUsage(usage: any): ReportedUsage | null {
+    if (!usage) return null;
+    return {
+      input: usage.prompt_tokens,
+      output: usage.completion_tokens,
+      reasoning: usage.completion_tokens_details?.reasoning_tokens || 0
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import { createCancelledError } from './cancellation';
+import { RateLimitConfig } from '@/lib/types/evaluation';
+
+const MINUTE_MS = 60000;
+
+export interface RateLimitLease {
+  /** 호출 종료 시 반환 (실제 사용 토큰을 넘기면 예약한 추정 토큰과의 차이를 정산) */
+  release(actualTokens?: number): void;
+}
+
+export interface RateLimitStatus {
+  provider: string;
+  /** 한도 대기 중인 요청 수 */
+  queued: number;
+  /** 실행 중인 요청 수 */
+  active: number;
+  limits: RateLimitConfig;
+  /** Retry-After 등으로 호출을 멈춘 경우 재개 시각 */
+  pausedUntil?: string;
+}
+
+interface QueuedRequest {
+  tokens: number;
+  resolve: (lease: RateLimitLease) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * 분당 한도 토큰 버킷 (1분 동안 capacity만큼 균등하게 채워짐)
+ */
+class TokenBucket {
+  private available: number;
+  private lastRefill = Date.now();
+
+  constructor(readonly capacity: number) {
+    this.available = capacity;
+  }
+
+  /**
+   * amount만큼 꺼낼 수 있을 때까지 남은 시간 (ms, 0이면 즉시 가능)
+   */
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity) - this.available;
+    return needed <= 0 ? 0 : Math.ceil((needed / this.capacity) * MINUTE_MS);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  /**
+   * 추정치와 실제 사용량 차이 정산 (양수면 반환, 음수면 추가 차감)
+   */
+  adjust(amount: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available + amount);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + ((now - this.lastRefill) / MINUTE_MS) * this.capacity);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Provider별 호출 한도 (분당 요청 수, 분당 토큰 수, 동시 실행 수)
+ * 한도를 넘는 요청은 도착 순서대로 대기열에서 기다리며, Retry-After를 받으면 해당 시간 동안 모든 호출을 멈춤
+ */
+export class RateLimiter {
+  private limits: RateLimitConfig = {};
+  private requestBucket?: TokenBucket;
+  private tokenBucket?: TokenBucket;
+  private queue: QueuedRequest[] = [];
+  private active = 0;
+  private pausedUntil = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly provider: string,
+    private readonly onChange: () => void
+  ) {}
+
+  /**
+   * 한도 설정 반영 (값이 바뀐 버킷만 새로 생성)
+   */
+  configure(limits: RateLimitConfig = {}): void {
+    if (limits.requests_per_minute !== this.limits.requests_per_minute) {
+      this.requestBucket = limits.requests_per_minute ? new TokenBucket(limits.requests_per_minute) : undefined;
+    }
+    if (limits.tokens_per_minute !== this.limits.tokens_per_minute) {
+      this.tokenBucket = limits.tokens_per_minute ? new TokenBucket(limits.tokens_per_minute) : undefined;
+    }
+    this.limits = { ...limits };
+  }
+
+  /**
+   * 호출 허가 대기 (취소되면 대기열에서 빠지고 취소 오류)
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<RateLimitLease> {
+    if (signal?.aborted) {
+      return Promise.reject(createCancelledError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: QueuedRequest = { tokens, resolve, reject, signal };
+
+      if (signal) {
+        request.onAbort = () => {
+          this.queue = this.queue.filter(queued => queued !== request);
+          reject(createCancelledError());
+          this.onChange();
+        };
+        signal.addEventListener('abort', request.onAbort, { once: true });
+      }
+
+      this.queue.push(request);
+      this.drain();
+      if (this.queue.includes(request)) {
+        this.onChange();
+      }
+    });
+  }
+
+  /**
+   * Retry-After 등 Provider가 요청한 시간 동안 새 호출 중단
+   */
+  pauseFor(ms: number): void {
+    const until = Date.now() + ms;
+    if (until <= this.pausedUntil) return;
+
+    this.pausedUntil = until;
+    console.warn(`[RateLimiter] ${this.provider} 호출 일시 중단 (${Math.ceil(ms / 1000)}초)`);
+    this.onChange();
+    this.schedule(ms);
+  }
+
+  getStatus(): RateLimitStatus {
+    return {
+      provider: this.provider,
+      queued: this.queue.length,
+      active: this.active,
+      limits: this.limits,
+      ...(this.pausedUntil > Date.now() && { pausedUntil: new Date(this.pausedUntil).toISOString() })
+    };
+  }
+
+  /**
+   * 대기열 앞에서부터 한도 안에 드는 요청 실행 (순서를 지키기 위해 앞 요청이 막히면 뒤 요청도 대기)
+   */
+  private drain(): void {
+    while (this.queue.length > 0) {
+      const pauseWait = this.pausedUntil - Date.now();
+      if (pauseWait > 0) {
+        this.schedule(pauseWait);
+        return;
+      }
+
+      if (this.limits.max_concurrent && this.active >= this.limits.max_concurrent) {
+        return; // 실행 중인 요청이 끝나면 다시 시도
+      }
+
+      const request = this.queue[0];
+      const wait = Math.max(this.requestBucket?.waitTime(1) || 0, this.tokenBucket?.waitTime(request.tokens) || 0);
+      if (wait > 0) {
+        this.schedule(wait);
+        return;
+      }
+
+      this.queue.shift();
+      if (request.onAbort) {
+        request.signal?.removeEventListener('abort', request.onAbort);
+      }
+      this.requestBucket?.take(1);
+      this.tokenBucket?.take(request.tokens);
+      this.active++;
+      request.resolve(this.createLease(request.tokens));
+      this.onChange();
+    }
+  }
+
+  private createLease(tokens: number): RateLimitLease {
+    let released = false;
+
+    return {
+      release: (actualTokens?: number) => {
+        if (released) return;
+        released = true;
+
+        this.active--;
+        if (actualTokens !== undefined) {
+          this.tokenBucket?.adjust(Math.min(tokens, this.tokenBucket.capacity) - actualTokens);
+        }
+        this.drain();
+        this.onChange();
+      }
+    };
+  }
+
+  private schedule(ms: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, ms);
+  }
+}
+
+/**
+ * Provider 이름별 호출 한도 등록소
+ * 같은 Provider의 모든 인스턴스(예산 하향 모델 포함)와 동시에 실행 중인 평가가 하나의 한도를 공유
+ */
+export class RateLimiterRegistry {
+  private static instance: RateLimiterRegistry;
+  private limiters = new Map<string, RateLimiter>();
+  private listeners = new Set<(status: RateLimitStatus[]) => void>();
+
+  static getInstance(): RateLimiterRegistry {
+    if (!this.instance) {
+      this.instance = new RateLimiterRegistry();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Provider 호출 한도 조회 (models.json 변경이 반영되도록 조회할 때마다 설정 갱신)
+   */
+  get(provider: string, limits?: RateLimitConfig): RateLimiter {
+    let limiter = this.limiters.get(provider);
+    if (!limiter) {
+      limiter = new RateLimiter(provider, () => this.notify());
+      this.limiters.set(provider, limiter);
+    }
+    limiter.configure(limits);
+    return limiter;
+  }
+
+  /**
+   * Provider별 대기열 현황
+   */
+  getStatus(): RateLimitStatus[] {
+    return Array.from(this.limiters.values()).map(limiter => limiter.getStatus());
+  }
+
+  /**
+   * 대기열 변경 구독 (구독 해제 함수 반환)
+   */
+  subscribe(listener: (status: RateLimitStatus[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+/**
+ * Retry-After 헤더 해석 (초 단위 숫자 또는 HTTP 날짜, ms로 반환)
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
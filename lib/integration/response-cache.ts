@@ -0,0 +1,255 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ConfigManager } from '@/lib/config/manager';
+import { EvaluationResult, Message, ProviderResult, RenderedPrompt } from '@/lib/types/evaluation';
+
+const PROVIDER_DIR_PATTERN = /^[a-z0-9-]+$/;
+
+export interface ResponseCacheKeyParts {
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  reasoningEffort?: string;
+  verbosity?: string;
+  criteriaVersion: string;
+  messages: Message[];
+  prompt: Pick<RenderedPrompt, 'system' | 'user'>;
+}
+
+export interface ResponseCacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  criteriaVersion: string;
+  chatId: string;
+  createdAt: string;
+  expiresAt?: string;
+  result: EvaluationResult;
+}
+
+export interface ResponseCacheInvalidation {
+  provider?: string;
+  chatId?: string;
+  criteriaVersion?: string;
+  /** true면 만료된 항목만 삭제 */
+  expiredOnly?: boolean;
+}
+
+export interface CacheHitSummary {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  byProvider: Record<string, { hits: number; misses: number; hitRate: number }>;
+}
+
+/**
+ * Provider 평가 응답 캐시
+ * 정규화한 대화 내용, 렌더링된 프롬프트, 평가 기준 버전, 모델과 생성 설정(temperature, max_tokens, reasoningEffort, verbosity)의 해시를 키로 평가 결과를 저장해
+ * 같은 상담을 다시 평가할 때 Provider를 재호출(재과금)하지 않음
+ * EVALUATION_CACHE_DIR(기본 data/cache)에 Provider별 디렉터리로 저장하며, models.json cache.ttl_hours가 지나면 만료
+ */
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private cacheDir: string;
+  private stats: Record<string, { hits: number; misses: number }> = {};
+
+  private constructor() {
+    this.cacheDir = process.env.EVALUATION_CACHE_DIR || join(process.cwd(), 'data', 'cache');
+  }
+
+  static getInstance(): ResponseCache {
+    if (!this.instance) {
+      this.instance = new ResponseCache();
+    }
+    return this.instance;
+  }
+
+  isEnabled(): boolean {
+    return ConfigManager.getInstance().getModelConfig().cache?.enabled === true;
+  }
+
+  /**
+   * 캐시 키 생성 (메시지 시각 등 평가 결과와 무관한 값은 제외하고 공백을 정규화)
+   */
+  static createKey(parts: ResponseCacheKeyParts): string {
+    const normalized = {
+      provider: parts.provider,
+      model: parts.model,
+      temperature: parts.temperature,
+      maxTokens: parts.maxTokens,
+      reasoningEffort: parts.reasoningEffort || null,
+      verbosity: parts.verbosity || null,
+      criteriaVersion: parts.criteriaVersion,
+      messages: parts.messages.map(message => [message.type, this.normalizeText(message.text)]),
+      prompt: [this.normalizeText(parts.prompt.system), this.normalizeText(parts.prompt.user)]
+    };
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  }
+
+  /**
+   * 캐시 조회 (만료된 항목은 삭제하고 미스로 처리)
+   */
+  get(provider: string, key: string): ResponseCacheEntry | null {
+    const filePath = this.getEntryPath(provider, key);
+    let entry: ResponseCacheEntry | null = null;
+
+    if (existsSync(filePath)) {
+      try {
+        entry = JSON.parse(readFileSync(filePath, 'utf-8'));
+      } catch (error) {
+        console.error(`[ResponseCache] 캐시 파일 읽기 실패 (${filePath}):`, error);
+      }
+    }
+
+    if (entry && this.isExpired(entry)) {
+      this.remove(filePath);
+      entry = null;
+    }
+
+    const stats = this.stats[provider] || (this.stats[provider] = { hits: 0, misses: 0 });
+    if (entry) {
+      stats.hits++;
+    } else {
+      stats.misses++;
+    }
+    return entry;
+  }
+
+  set(entry: Omit<ResponseCacheEntry, 'createdAt' | 'expiresAt'>): void {
+    const ttlHours = ConfigManager.getInstance().getModelConfig().cache?.ttl_hours;
+    const now = Date.now();
+    const stored: ResponseCacheEntry = {
+      ...entry,
+      createdAt: new Date(now).toISOString(),
+      ...(ttlHours && ttlHours > 0 && { expiresAt: new Date(now + ttlHours * 3600000).toISOString() })
+    };
+
+    // 캐시 저장 실패가 평가 실패로 처리되지 않도록 분리
+    try {
+      const filePath = this.getEntryPath(entry.provider, entry.key);
+      mkdirSync(join(this.cacheDir, entry.provider), { recursive: true });
+      writeFileSync(`${filePath}.tmp`, JSON.stringify(stored));
+      renameSync(`${filePath}.tmp`, filePath);
+    } catch (error) {
+      console.error('[ResponseCache] 캐시 저장 실패:', error);
+    }
+  }
+
+  /**
+   * 조건에 맞는 캐시 항목 삭제 (조건이 없으면 전체 삭제), 삭제한 항목 수 반환
+   */
+  invalidate(filter: ResponseCacheInvalidation = {}): number {
+    let removed = 0;
+
+    for (const provider of this.listProviders()) {
+      if (filter.provider && filter.provider !== provider) continue;
+
+      const providerDir = join(this.cacheDir, provider);
+      for (const fileName of readdirSync(providerDir).filter(name => name.endsWith('.json'))) {
+        const filePath = join(providerDir, fileName);
+        const needsEntry = filter.chatId || filter.criteriaVersion || filter.expiredOnly;
+        const entry = needsEntry ? this.readEntry(filePath) : null;
+
+        if (needsEntry && entry) {
+          if (filter.chatId && entry.chatId !== filter.chatId) continue;
+          if (filter.criteriaVersion && entry.criteriaVersion !== filter.criteriaVersion) continue;
+          if (filter.expiredOnly && !this.isExpired(entry)) continue;
+        }
+
+        this.remove(filePath);
+        removed++;
+      }
+    }
+
+    console.log(`[ResponseCache] 캐시 ${removed}건 삭제 (${JSON.stringify(filter)})`);
+    return removed;
+  }
+
+  /**
+   * 캐시 현황 (저장된 항목 수와 이 프로세스의 적중률)
+   */
+  getStats(): { enabled: boolean; ttlHours: number | null; entries: Record<string, number> } & CacheHitSummary {
+    const entries: Record<string, number> = {};
+    for (const provider of this.listProviders()) {
+      entries[provider] = readdirSync(join(this.cacheDir, provider)).filter(name => name.endsWith('.json')).length;
+    }
+
+    return {
+      enabled: this.isEnabled(),
+      ttlHours: ConfigManager.getInstance().getModelConfig().cache?.ttl_hours || null,
+      entries,
+      ...ResponseCache.toHitSummary(this.stats)
+    };
+  }
+
+  /**
+   * 상담 평가 결과의 Provider별 캐시 적중률 (배치 요약용)
+   */
+  static summarizeHits(providerResults: ProviderResult[]): CacheHitSummary {
+    const counts: Record<string, { hits: number; misses: number }> = {};
+
+    providerResults.filter(result => result.success).forEach(result => {
+      const count = counts[result.name] || (counts[result.name] = { hits: 0, misses: 0 });
+      if (result.cached) {
+        count.hits++;
+      } else {
+        count.misses++;
+      }
+    });
+
+    return this.toHitSummary(counts);
+  }
+
+  private static toHitSummary(counts: Record<string, { hits: number; misses: number }>): CacheHitSummary {
+    const rate = (hits: number, misses: number) => (hits + misses > 0 ? hits / (hits + misses) : 0);
+    const hits = Object.values(counts).reduce((sum, count) => sum + count.hits, 0);
+    const misses = Object.values(counts).reduce((sum, count) => sum + count.misses, 0);
+
+    return {
+      hits,
+      misses,
+      hitRate: rate(hits, misses),
+      byProvider: Object.fromEntries(
+        Object.entries(counts).map(([provider, count]) => [provider, { ...count, hitRate: rate(count.hits, count.misses) }])
+      )
+    };
+  }
+
+  private static normalizeText(text: string): string {
+    return (text || '').replace(/\s+/g, ' ').trim();
+  }
+
+  private isExpired(entry: ResponseCacheEntry): boolean {
+    return !!entry.expiresAt && new Date(entry.expiresAt).getTime() <= Date.now();
+  }
+
+  private getEntryPath(provider: string, key: string): string {
+    if (!PROVIDER_DIR_PATTERN.test(provider)) {
+      throw new Error(`유효하지 않은 Provider 이름입니다: ${provider}`);
+    }
+    return join(this.cacheDir, provider, `${key}.json`);
+  }
+
+  private listProviders(): string[] {
+    if (!existsSync(this.cacheDir)) return [];
+    return readdirSync(this.cacheDir).filter(name => PROVIDER_DIR_PATTERN.test(name));
+  }
+
+  private readEntry(filePath: string): ResponseCacheEntry | null {
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private remove(filePath: string): void {
+    try {
+      unlinkSync(filePath);
+    } catch (error) {
+      console.error(`[ResponseCache] 캐시 파일 삭제 실패 (${filePath}):`, error);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import {
+  assertValidKey,
+  getContentType,
+  getStorageRouteUrl,
+  type StorageAdapter,
+  type StorageObjectData,
+  type StoredObject,
+  type StoredObjectInfo
+} from './storage-adapter';
+
+/**
+ * 로컬 파일 저장소 (로컬/사내 서버 실행용)
+ * STORAGE_LOCAL_DIR(기본 data/storage) 아래에 key 경로 그대로 저장하고 /api/storage로 내려줌
+ */
+export class LocalFileStorage implements StorageAdapter {
+  readonly backend = 'local' as const;
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(process.cwd(), rootDir);
+  }
+
+  async put(key: string, body: string | Buffer, contentType: string): Promise<StoredObject> {
+    const filePath = this.getFilePath(key);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(`${filePath}.tmp`, body);
+    renameSync(`${filePath}.tmp`, filePath);
+
+    return {
+      key,
+      url: getStorageRouteUrl(key),
+      downloadUrl: getStorageRouteUrl(key, true),
+      size: Buffer.byteLength(body)
+    };
+  }
+
+  async get(key: string): Promise<StorageObjectData | null> {
+    const filePath = this.getFilePath(key);
+    if (!existsSync(filePath)) return null;
+
+    return { body: readFileSync(filePath), contentType: getContentType(key) };
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => {
+      const filePath = this.getFilePath(key);
+      if (existsSync(filePath)) {
+        unlinkSync(filePath);
+      }
+    });
+  }
+
+  async list(prefix: string): Promise<StoredObjectInfo[]> {
+    return this.listKeys([])
+      .filter(key => key.startsWith(prefix))
+      .sort()
+      .map(key => {
+        const stats = statSync(this.getFilePath(key));
+        return {
+          key,
+          url: getStorageRouteUrl(key),
+          downloadUrl: getStorageRouteUrl(key, true),
+          size: stats.size,
+          uploadedAt: stats.mtime.toISOString()
+        };
+      });
+  }
+
+  /**
+   * 디렉터리 아래 파일 key 목록 (저장 중인 .tmp 파일 제외)
+   */
+  private listKeys(segments: string[]): string[] {
+    const dirPath = join(this.rootDir, ...segments);
+    if (!existsSync(dirPath)) return [];
+
+    return readdirSync(dirPath, { withFileTypes: true }).flatMap(entry => {
+      if (entry.isDirectory()) return this.listKeys([...segments, entry.name]);
+      return entry.isFile() && !entry.name.endsWith('.tmp') ? [[...segments, entry.name].join('/')] : [];
+    });
+  }
+
+  private getFilePath(key: string): string {
+    assertValidKey(key);
+    return join(this.rootDir, ...key.split('/'));
+  }
+}
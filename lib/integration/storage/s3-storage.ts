@@ -0,0 +1,203 @@
+import { createHash, createHmac } from 'crypto';
+import {
+  assertValidKey,
+  getStorageRouteUrl,
+  type StorageAdapter,
+  type StorageObjectData,
+  type StoredObject,
+  type StoredObjectInfo
+} from './storage-adapter';
+
+export interface S3StorageConfig {
+  /** 예: https://s3.ap-northeast-2.amazonaws.com, http://minio:9000 */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** 공개 버킷/CDN 주소 (없으면 /api/storage로 내려줌) */
+  publicUrl?: string;
+}
+
+/**
+ * S3 호환 저장소 (AWS S3, MinIO 등)
+ * SDK 없이 Signature V4로 서명한 path-style 요청(endpoint/bucket/key)을 보냄
+ */
+export class S3Storage implements StorageAdapter {
+  readonly backend = 's3' as const;
+
+  constructor(private readonly config: S3StorageConfig) {
+    const missing = (['endpoint', 'bucket', 'accessKeyId', 'secretAccessKey'] as const).filter(name => !config[name]);
+    if (missing.length > 0) {
+      throw new Error(`S3 저장소 설정이 없습니다: ${missing.join(', ')} (S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)`);
+    }
+  }
+
+  async put(key: string, body: string | Buffer, contentType: string): Promise<StoredObject> {
+    const buffer = Buffer.isBuffer(body) ? body : Buffer.from(body);
+    const response = await this.request('PUT', key, buffer, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 파일 저장 실패 (${response.status}): ${await response.text()}`);
+    }
+
+    return this.toStoredObject(key, buffer.length);
+  }
+
+  async get(key: string): Promise<StorageObjectData | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 파일 조회 실패 (${response.status}): ${await response.text()}`);
+    }
+
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream'
+    };
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(
+      keys.map(async key => {
+        const response = await this.request('DELETE', key);
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`S3 파일 삭제 실패 (${response.status}): ${key}`);
+        }
+      })
+    );
+  }
+
+  /**
+   * ListObjectsV2로 prefix 아래 파일 목록 조회 (1,000건씩 이어서 조회)
+   */
+  async list(prefix: string): Promise<StoredObjectInfo[]> {
+    const objects: StoredObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = {
+        'list-type': '2',
+        ...(prefix && { prefix }),
+        ...(continuationToken && { 'continuation-token': continuationToken })
+      };
+      const response = await this.request('GET', '', undefined, undefined, query);
+      const xml = await response.text();
+      if (!response.ok) {
+        throw new Error(`S3 파일 목록 조회 실패 (${response.status}): ${xml}`);
+      }
+
+      for (const [, contents] of Array.from(xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g))) {
+        const key = decodeXml(readXmlTag(contents, 'Key') || '');
+        objects.push({
+          ...this.toStoredObject(key, Number(readXmlTag(contents, 'Size')) || 0),
+          uploadedAt: new Date(readXmlTag(contents, 'LastModified') || 0).toISOString()
+        });
+      }
+      continuationToken = readXmlTag(xml, 'IsTruncated') === 'true'
+        ? decodeXml(readXmlTag(xml, 'NextContinuationToken') || '') || undefined
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  private toStoredObject(key: string, size: number): StoredObject {
+    const publicUrl = this.config.publicUrl && `${this.config.publicUrl.replace(/\/$/, '')}/${encodeKey(key)}`;
+    return {
+      key,
+      url: publicUrl || getStorageRouteUrl(key),
+      downloadUrl: publicUrl || getStorageRouteUrl(key, true),
+      size
+    };
+  }
+
+  /**
+   * key가 ''이면 버킷 요청 (파일 목록 조회)
+   */
+  private request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    contentType?: string,
+    query: Record<string, string> = {}
+  ): Promise<Response> {
+    if (key) assertValidKey(key);
+    const url = new URL(this.config.endpoint);
+    const bucketPath = `${url.pathname.replace(/\/$/, '')}/${encodeURIComponent(this.config.bucket)}`;
+    const path = key ? `${bucketPath}/${encodeKey(key)}` : bucketPath;
+    const queryString = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': sha256(body || ''),
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType })
+    };
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      method,
+      path,
+      queryString,
+      names.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      headers['x-amz-content-sha256']
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = [date, this.config.region, 's3', 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => hmac(key, part),
+      `AWS4${this.config.secretAccessKey}`
+    );
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    const { host, ...requestHeaders } = headers;
+    return fetch(`${url.protocol}//${host}${path}${queryString ? `?${queryString}` : ''}`, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body: body && new Uint8Array(body)
+    });
+  }
+}
+
+/**
+ * S3 key 경로 인코딩 (RFC 3986, '/'는 유지)
+ */
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function readXmlTag(xml: string, tag: string): string | undefined {
+  return xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1];
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
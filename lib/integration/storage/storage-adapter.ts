@@ -0,0 +1,65 @@
+export type StorageBackend = 'vercel-blob' | 'local' | 's3';
+
+export interface StoredObject {
+  key: string;
+  /** 브라우저에서 열 수 있는 주소 */
+  url: string;
+  downloadUrl: string;
+  size: number;
+}
+
+export interface StoredObjectInfo extends StoredObject {
+  /** 마지막 저장 시각 (ISO 8601) */
+  uploadedAt: string;
+}
+
+export interface StorageObjectData {
+  body: Buffer;
+  contentType: string;
+}
+
+/**
+ * 아카이브 원본, 보고서 등 파일 저장소
+ * key는 'archives/파일명'처럼 '/'로 구분한 경로 (같은 key로 다시 저장하면 덮어씀)
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  put(key: string, body: string | Buffer, contentType: string): Promise<StoredObject>;
+  /** 저장된 파일 조회 (없으면 null) */
+  get(key: string): Promise<StorageObjectData | null>;
+  delete(keys: string[]): Promise<void>;
+  /** prefix로 시작하는 파일 목록 (하위 경로 포함, ''이면 전체) */
+  list(prefix: string): Promise<StoredObjectInfo[]>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * 파일 확장자로 Content-Type 추정 (메타데이터를 따로 저장하지 않는 저장소용)
+ */
+export function getContentType(key: string): string {
+  const extension = key.split('.').pop()?.toLowerCase() || '';
+  return CONTENT_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * 저장소 파일을 앱에서 내려주는 주소 (/api/storage, 외부에서 직접 열 수 없는 저장소용)
+ */
+export function getStorageRouteUrl(key: string, download = false): string {
+  return `/api/storage?key=${encodeURIComponent(key)}${download ? '&download=true' : ''}`;
+}
+
+/**
+ * 경로 조작('..', 절대 경로)을 막기 위한 key 검증
+ */
+export function assertValidKey(key: string): void {
+  const segments = key.split('/');
+  if (!key || key.startsWith('/') || segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    throw new Error(`유효하지 않은 저장소 key입니다: ${key}`);
+  }
+}
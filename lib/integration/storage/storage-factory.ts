@@ -0,0 +1,39 @@
+import { LocalFileStorage } from './local-file-storage';
+import { S3Storage } from './s3-storage';
+import type { StorageAdapter, StorageBackend } from './storage-adapter';
+import { VercelBlobStorage } from './vercel-blob-storage';
+
+let adapter: StorageAdapter | undefined;
+
+/**
+ * 환경 변수로 선택한 파일 저장소
+ * STORAGE_BACKEND(vercel-blob | local | s3)를 지정하지 않으면 BLOB_READ_WRITE_TOKEN이 있을 때 Vercel Blob, 없으면 로컬 파일
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!adapter) {
+    const backend = (process.env.STORAGE_BACKEND || (process.env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : 'local')) as StorageBackend;
+
+    switch (backend) {
+      case 'vercel-blob':
+        adapter = new VercelBlobStorage();
+        break;
+      case 'local':
+        adapter = new LocalFileStorage(process.env.STORAGE_LOCAL_DIR || 'data/storage');
+        break;
+      case 's3':
+        adapter = new S3Storage({
+          endpoint: process.env.S3_ENDPOINT || '',
+          region: process.env.S3_REGION || 'us-east-1',
+          bucket: process.env.S3_BUCKET || '',
+          accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+          publicUrl: process.env.S3_PUBLIC_URL
+        });
+        break;
+      default:
+        throw new Error(`지원하지 않는 저장소입니다: ${backend} (vercel-blob, local, s3 중 선택)`);
+    }
+    console.log(`[StorageAdapter] 파일 저장소: ${backend}`);
+  }
+  return adapter;
+}
@@ -0,0 +1,77 @@
+import { BlobNotFoundError, del, head, list, put } from '@vercel/blob';
+import {
+  assertValidKey,
+  type StorageAdapter,
+  type StorageObjectData,
+  type StoredObject,
+  type StoredObjectInfo
+} from './storage-adapter';
+
+/**
+ * Vercel Blob Storage (BLOB_READ_WRITE_TOKEN 필요, 공개 URL로 바로 열 수 있음)
+ */
+export class VercelBlobStorage implements StorageAdapter {
+  readonly backend = 'vercel-blob' as const;
+
+  async put(key: string, body: string | Buffer, contentType: string): Promise<StoredObject> {
+    assertValidKey(key);
+    const blob = await put(key, body, {
+      access: 'public',
+      contentType,
+      allowOverwrite: true
+    });
+
+    return {
+      key,
+      url: blob.url,
+      downloadUrl: blob.downloadUrl || blob.url,
+      size: Buffer.byteLength(body)
+    };
+  }
+
+  async get(key: string): Promise<StorageObjectData | null> {
+    let url: string;
+    try {
+      url = (await head(key)).url;
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) return null;
+      throw error;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Vercel Blob 파일 조회 실패 (${response.status}): ${key}`);
+    }
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream'
+    };
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) {
+      await del(keys);
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObjectInfo[]> {
+    const objects: StoredObjectInfo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await list({ prefix: prefix || undefined, cursor });
+      page.blobs.forEach(blob => {
+        objects.push({
+          key: blob.pathname,
+          url: blob.url,
+          downloadUrl: blob.downloadUrl || blob.url,
+          size: blob.size,
+          uploadedAt: new Date(blob.uploadedAt).toISOString()
+        });
+      });
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+
+    return objects;
+  }
+}
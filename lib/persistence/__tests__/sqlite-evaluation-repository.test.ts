@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { PerformanceTrendAnalyzer } from '@/lib/domain/performance-trend';
+import { SqliteEvaluationRepository } from '../sqlite-evaluation-repository';
+
+const chatScores = (score: number) => ({
+  업무능력: { 고객_질문_내용_파악: score, subtotal: score },
+  total_score: score
+});
+
+const perChatEvaluation = (month: string, scores: number[]) => ({
+  counselor_id: '5',
+  counselor_name: '이하늘',
+  evaluation_mode: 'per_chat',
+  total_chats_analyzed: scores.length,
+  chat_period: { start: `${month}-01`, end: `${month}-${String(scores.length).padStart(2, '0')}` },
+  scores: chatScores(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+  chat_evaluations: [
+    ...scores.map((score, index) => ({
+      chat_id: `${month}-chat-${index + 1}`,
+      status: 'evaluated',
+      local_date: `${month}-${String(index + 1).padStart(2, '0')}`,
+      scores: chatScores(score)
+    })),
+    { chat_id: `${month}-failed`, status: 'failed', error: '평가 실패' }
+  ]
+});
+
+const comprehensiveEvaluation = (totalScore: number) => ({
+  counselor_id: '6',
+  counselor_name: '강지희',
+  total_chats_analyzed: 4,
+  chat_period: { start: '2025-07-01', end: '2025-07-31' },
+  scores: chatScores(totalScore)
+});
+
+describe('SqliteEvaluationRepository 점수 이력', () => {
+  it('상담별 평가는 상담마다 표본으로 기록해 기간 사이 Welch t-검정을 수행한다', async () => {
+    const repository = new SqliteEvaluationRepository(':memory:');
+    await repository.saveArchive({ type: 'evaluation', filename: 'july.json', data: { evaluations: [perChatEvaluation('2025-07', [3, 3.2, 2.8])] } });
+    await repository.saveArchive({ type: 'evaluation', filename: 'august.json', data: { evaluations: [perChatEvaluation('2025-08', [4.4, 4.6, 4.5])] } });
+
+    const history = await repository.listScoreHistory({ counselorId: '5', section: 'total' });
+
+    expect(history.map(record => [record.chatId, record.periodStart, record.score])).toEqual([
+      ['2025-07-chat-1', '2025-07-01', 3],
+      ['2025-07-chat-2', '2025-07-02', 3.2],
+      ['2025-07-chat-3', '2025-07-03', 2.8],
+      ['2025-08-chat-1', '2025-08-01', 4.4],
+      ['2025-08-chat-2', '2025-08-02', 4.6],
+      ['2025-08-chat-3', '2025-08-03', 4.5]
+    ]);
+
+    const [series] = new PerformanceTrendAnalyzer().analyze(history);
+    expect(series.periods.map(period => period.n)).toEqual([3, 3]);
+    expect(series.changes[0]).toMatchObject({ from: '2025-07', to: '2025-08', significant: true, direction: 'improved' });
+    expect(series.changes[0].pValue).toBeLessThan(0.05);
+  });
+
+  it('같은 상담 기간은 최근 저장한 평가만 조회하고, 최근 아카이브를 삭제하면 이전 평가를 다시 조회한다', async () => {
+    const repository = new SqliteEvaluationRepository(':memory:');
+    await repository.saveArchive({
+      type: 'evaluation',
+      filename: 'first.json',
+      createdAt: '2025-08-01T00:00:00.000Z',
+      data: { evaluations: [comprehensiveEvaluation(3.5)] }
+    });
+    const latest = await repository.saveArchive({
+      type: 'counselor_evaluations',
+      filename: 'modified.json',
+      createdAt: '2025-08-02T00:00:00.000Z',
+      data: { evaluations: [comprehensiveEvaluation(4.1)] }
+    });
+
+    const totalScores = async () =>
+      (await repository.listScoreHistory({ counselorId: '6', section: 'total' })).map(record => record.score);
+
+    expect(await totalScores()).toEqual([4.1]);
+    expect(await repository.listHistoryCounselors()).toEqual([expect.objectContaining({ counselorId: '6', runs: 1 })]);
+
+    await repository.deleteArchive(latest.id);
+
+    expect(await totalScores()).toEqual([3.5]);
+  });
+});
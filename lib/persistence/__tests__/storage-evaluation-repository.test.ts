@@ -0,0 +1,152 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LocalFileStorage } from '@/lib/integration/storage/local-file-storage';
+import { importLegacyArchives } from '../legacy-archive-import';
+import { StorageEvaluationRepository } from '../storage-evaluation-repository';
+
+const evaluationArchive = (counselorId: string, totalScore: number) => ({
+  analyzedAt: '2025-08-01T00:00:00.000Z',
+  criteriaVersion: 'v1.0',
+  evaluations: [
+    {
+      counselor_id: counselorId,
+      counselor_name: `상담원 ${counselorId}`,
+      total_chats_analyzed: 3,
+      chat_period: { start: '2025-07-01', end: '2025-07-31' },
+      scores: { 업무능력: { 고객_질문_내용_파악: totalScore, subtotal: totalScore }, total_score: totalScore },
+      multi_llm: { providers: [{ name: 'mock', model: 'mock-evaluator', success: true, total_score: totalScore }] }
+    }
+  ]
+});
+
+/**
+ * 로컬 파일 저장소를 공유하는 저장소 인스턴스 두 개로 서버리스 인스턴스 간 동기화 확인
+ */
+describe('StorageEvaluationRepository', () => {
+  let storageDir: string;
+  let storage: LocalFileStorage;
+
+  beforeAll(() => {
+    storageDir = mkdtempSync(join(tmpdir(), 'storage-repository-test-'));
+    storage = new LocalFileStorage(storageDir);
+  });
+
+  afterAll(() => {
+    rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('다른 인스턴스가 저장/삭제한 아카이브와 코멘트를 조회에 반영한다', async () => {
+    const writer = new StorageEvaluationRepository(storage);
+    const reader = new StorageEvaluationRepository(storage);
+
+    const data = evaluationArchive('5', 4.2);
+    const stored = await storage.put('archives/evaluation.json', JSON.stringify(data), 'application/json');
+    const archive = await writer.saveArchive({
+      type: 'counselor_evaluations',
+      filename: 'evaluation.json',
+      storageKey: stored.key,
+      data
+    });
+    const comment = await writer.addComment({
+      chatId: 'chat-1',
+      managerId: '5',
+      managerName: '상담원 5',
+      comment: '인사말 확인',
+      createdBy: 'qa'
+    });
+
+    expect((await reader.listArchives()).map(record => record.id)).toEqual([archive.id]);
+    expect(await reader.getArchiveData(archive.id)).toEqual(data);
+    expect(await reader.listEvaluationResults({ counselorId: '5' })).toEqual([
+      expect.objectContaining({ runId: archive.id, totalScore: 4.2, chatsAnalyzed: 3 })
+    ]);
+    expect((await reader.listComments({ chatId: 'chat-1' })).map(record => record.id)).toEqual([comment.id]);
+
+    await reader.deleteArchive(archive.id);
+    await reader.deleteComment(comment.id);
+
+    expect(await writer.listArchives()).toEqual([]);
+    expect(await writer.listEvaluationResults()).toEqual([]);
+    expect(await writer.listComments()).toEqual([]);
+  });
+
+  it('원본을 내려받지 않고 문서의 색인 행으로 조회하고, 원본과 메시지는 필요할 때만 내려받는다', async () => {
+    const indexStorage = new LocalFileStorage(join(storageDir, 'index'));
+    const writer = new StorageEvaluationRepository(indexStorage);
+
+    const data = evaluationArchive('7', 3.6);
+    const stored = await indexStorage.put('archives/evaluation.json', JSON.stringify(data), 'application/json');
+    const evaluation = await writer.saveArchive({ type: 'counselor_evaluations', filename: 'evaluation.json', storageKey: stored.key, data });
+    const upload = await writer.saveArchive({
+      type: 'upload',
+      filename: 'upload.json',
+      data: {
+        uploadedAt: '2025-07-10T00:00:00.000Z',
+        files: [],
+        organizedData: {
+          user: [{ id: 'user-1' }],
+          chat: [{ chat_id: 'chat-1', manager_id: '7' }],
+          message: [{ chat_id: 'chat-1', type: 'user', text: '문의드립니다' }]
+        }
+      }
+    });
+
+    const reader = new StorageEvaluationRepository(indexStorage);
+    const get = vi.spyOn(indexStorage, 'get');
+    const fetchedKeys = () => get.mock.calls.map(([key]) => key);
+
+    expect(await reader.listEvaluationResults({ counselorId: '7' })).toEqual([
+      expect.objectContaining({ runId: evaluation.id, totalScore: 3.6 })
+    ]);
+    expect((await reader.listChats({ managerId: '7' })).map(chat => chat.chatId)).toEqual(['chat-1']);
+    expect(fetchedKeys().every(key => key.startsWith('repository/archives/'))).toBe(true);
+
+    get.mockClear();
+    expect(await reader.getArchiveData(evaluation.id)).toEqual(data);
+    expect(fetchedKeys()).toEqual([stored.key]);
+
+    get.mockClear();
+    expect((await reader.listMessages(upload.id, 'chat-1')).map(message => message.data.text)).toEqual(['문의드립니다']);
+    expect(await reader.listMessages(upload.id, 'chat-1')).toHaveLength(1);
+    expect(fetchedKeys()).toEqual([`repository/data/${upload.id}.json`]);
+
+    get.mockRestore();
+  });
+
+  it('이전 형식 문서(원본 포함)는 원본으로 색인한다', async () => {
+    const legacyStorage = new LocalFileStorage(join(storageDir, 'legacy-document'));
+    const record = {
+      id: 'archive-legacy',
+      type: 'counselor_evaluations',
+      filename: 'evaluation.json',
+      size: 0,
+      createdAt: '2025-08-01T00:00:00.000Z'
+    };
+    const data = evaluationArchive('8', 4.4);
+    await legacyStorage.put('repository/archives/archive-legacy.json', JSON.stringify({ record, data }), 'application/json');
+
+    const repository = new StorageEvaluationRepository(legacyStorage);
+
+    expect(await repository.listEvaluationResults({ counselorId: '8' })).toEqual([
+      expect.objectContaining({ runId: 'archive-legacy', totalScore: 4.4 })
+    ]);
+    expect(await repository.getArchiveData('archive-legacy')).toEqual(data);
+  });
+
+  it('최상위 경로의 이전 아카이브를 파일명의 타입과 저장 시각으로 한 번만 등록한다', async () => {
+    const repository = new StorageEvaluationRepository(storage);
+    const filename = 'counselor_evaluations_archive_2025-07-10T01-02-03-456Z.json';
+    await storage.put(filename, JSON.stringify(evaluationArchive('6', 3.8)), 'application/json');
+
+    const imported = await importLegacyArchives(repository, storage);
+
+    expect(imported).toEqual([
+      expect.objectContaining({ type: 'counselor_evaluations', filename, storageKey: filename, criteriaVersion: 'v1.0' })
+    ]);
+    expect(await repository.listEvaluationResults({ counselorId: '6' })).toHaveLength(1);
+    expect(await importLegacyArchives(repository, storage)).toEqual([]);
+    expect(await repository.listArchives()).toHaveLength(1);
+  });
+});
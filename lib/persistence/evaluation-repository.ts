@@ -0,0 +1,208 @@
+/**
+ * 아카이브 문서 (업로드 데이터, 평가 결과, 가이드라인 등 저장 단위)
+ */
+export interface ArchiveRecord {
+  id: string;
+  type: string;
+  filename: string;
+  description?: string;
+  criteriaVersion?: string;
+  /** 원본 문서 크기 (JSON 문자열 길이) */
+  size: number;
+  createdAt: string;
+  /** 파일 저장소에 올린 원본 문서 사본 */
+  storageKey?: string;
+  storageUrl?: string;
+}
+
+export interface ArchiveInput {
+  type: string;
+  filename: string;
+  description?: string;
+  criteriaVersion?: string;
+  storageKey?: string;
+  storageUrl?: string;
+  /** 기존 문서를 가져올 때 원래 저장 시각 (없으면 현재 시각) */
+  createdAt?: string;
+  data: any;
+}
+
+export interface ArchiveFilter {
+  type?: string;
+  criteriaVersion?: string;
+  limit?: number;
+}
+
+export interface UploadFileInfo {
+  fileName: string;
+  sheetName?: string | null;
+  dataType: string;
+  recordCount: number;
+  headers: string[];
+  fileType?: string;
+}
+
+export interface UploadRecord {
+  id: string;
+  uploadedAt: string;
+  files: UploadFileInfo[];
+  counts: { users: number; chats: number; messages: number };
+}
+
+export interface ChatRecord {
+  uploadId: string;
+  chatId: string;
+  managerId?: string;
+  createdAt?: string;
+  data: any;
+}
+
+export interface MessageRecord {
+  uploadId: string;
+  chatId: string;
+  seq: number;
+  type?: string;
+  createdAt?: string;
+  data: any;
+}
+
+export interface EvaluationRunRecord {
+  id: string;
+  kind: string;
+  criteriaVersion?: string;
+  /** 취소로 일부 상담원만 평가된 결과 */
+  partial: boolean;
+  counselorCount: number;
+  averageScore?: number;
+  evaluatedAt: string;
+}
+
+export interface EvaluationRunFilter {
+  kind?: string;
+  criteriaVersion?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+/**
+ * 평가 실행의 상담원별 결과 (수기 조정 점수가 있으면 adjustedTotalScore에 별도 기록)
+ */
+export interface EvaluationResultRecord {
+  runId: string;
+  counselorId: string;
+  counselorName: string;
+  evaluatedAt: string;
+  criteriaVersion?: string;
+  totalScore: number;
+  adjustedTotalScore?: number;
+  chatsAnalyzed: number;
+  problematicChats: number;
+  scores: any;
+  adjustedScores?: any;
+}
+
+export interface EvaluationResultFilter {
+  runId?: string;
+  counselorId?: string;
+  criteriaVersion?: string;
+  since?: string;
+  until?: string;
+}
+
+export interface ProviderResultRecord {
+  runId: string;
+  counselorId: string;
+  provider: string;
+  model: string;
+  success: boolean;
+  totalScore?: number;
+  responseTime: number;
+  tokens: number;
+  cost: number;
+  error?: string;
+}
+
+export interface ProviderResultFilter {
+  runId?: string;
+  counselorId?: string;
+  provider?: string;
+}
+
+/**
+ * 상담원의 세부 항목 점수 이력 1건 (평가한 상담 기간 기준, 총점은 section 'total')
+ * 같은 상담원·상담 기간을 여러 번 저장했으면 최근 저장한 평가의 이력만 조회
+ */
+export interface ScoreHistoryRecord {
+  runId: string;
+  counselorId: string;
+  counselorName: string;
+  /** 평가한 상담의 첫/마지막 일자 (YYYY-MM-DD, 상담별 점수는 상담 일자) */
+  periodStart: string;
+  periodEnd: string;
+  /** 상담별 평가 점수의 상담 ID (없으면 상담 기간 전체의 상담원 점수) */
+  chatId?: string;
+  criteriaVersion?: string;
+  section: string;
+  item: string;
+  score: number;
+}
+
+export interface ScoreHistoryFilter {
+  runId?: string;
+  counselorId?: string;
+  criteriaVersion?: string;
+  section?: string;
+  /** 상담 기간 시작 일자 기준 */
+  since?: string;
+  until?: string;
+}
+
+export interface HistoryCounselorRecord {
+  counselorId: string;
+  counselorName: string;
+  runs: number;
+  firstPeriod: string;
+  lastPeriod: string;
+}
+
+export interface CommentRecord {
+  id: string;
+  chatId: string;
+  managerId: string;
+  managerName: string;
+  comment: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+/**
+ * 평가 이력 저장소
+ * 아카이브 문서를 저장하면서 업로드(상담/메시지)와 평가 결과(상담원별, Provider별)를 조회 가능한 행으로 함께 기록
+ */
+export interface EvaluationRepository {
+  saveArchive(input: ArchiveInput): Promise<ArchiveRecord>;
+  getArchive(id: string): Promise<ArchiveRecord | null>;
+  /** 저장한 원본 문서 (업로드 데이터는 상담/메시지 행에서 복원) */
+  getArchiveData(id: string): Promise<any | null>;
+  listArchives(filter?: ArchiveFilter): Promise<ArchiveRecord[]>;
+  /** 아카이브와 함께 기록한 업로드/평가 결과 행도 삭제 */
+  deleteArchive(id: string): Promise<boolean>;
+  /** type을 지정하지 않으면 전체 삭제, 삭제한 아카이브 반환 */
+  deleteArchives(type?: string): Promise<ArchiveRecord[]>;
+
+  listUploads(): Promise<UploadRecord[]>;
+  listChats(filter: { uploadId?: string; managerId?: string; chatId?: string }): Promise<ChatRecord[]>;
+  listMessages(uploadId: string, chatId: string): Promise<MessageRecord[]>;
+
+  listEvaluationRuns(filter?: EvaluationRunFilter): Promise<EvaluationRunRecord[]>;
+  listEvaluationResults(filter?: EvaluationResultFilter): Promise<EvaluationResultRecord[]>;
+  listProviderResults(filter?: ProviderResultFilter): Promise<ProviderResultRecord[]>;
+  listScoreHistory(filter?: ScoreHistoryFilter): Promise<ScoreHistoryRecord[]>;
+  /** 점수 이력이 있는 상담원 목록 */
+  listHistoryCounselors(): Promise<HistoryCounselorRecord[]>;
+
+  addComment(comment: Omit<CommentRecord, 'id' | 'createdAt'>): Promise<CommentRecord>;
+  listComments(filter?: { chatId?: string; managerId?: string }): Promise<CommentRecord[]>;
+  deleteComment(id: string): Promise<boolean>;
+}
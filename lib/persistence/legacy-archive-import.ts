@@ -0,0 +1,62 @@
+import type { StorageAdapter } from '@/lib/integration/storage/storage-adapter';
+import type { ArchiveRecord, EvaluationRepository } from '@/lib/persistence/evaluation-repository';
+
+// 아카이브 API 파일명의 저장 시각 (예: 2025-07-10T01-02-03-456Z)
+const TIMESTAMP_PATTERN = /_(archive_)?\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.json$/;
+
+/**
+ * 평가 이력 저장소 도입 전 파일 저장소 최상위 경로(Vercel Blob)에 저장한 아카이브 JSON을 저장소에 등록
+ * 원본은 그대로 두고 storageKey로 연결하며, 이미 등록한 파일은 건너뜀
+ */
+export async function importLegacyArchives(
+  repository: EvaluationRepository,
+  storage: StorageAdapter
+): Promise<ArchiveRecord[]> {
+  const legacy = (await storage.list('')).filter(object => !object.key.includes('/') && object.key.endsWith('.json'));
+  if (legacy.length === 0) return [];
+
+  // 저장소 도입 초기에는 Blob 최상위 경로에 저장하며 파일명을 기록
+  const registered = new Set<string>();
+  (await repository.listArchives()).forEach(archive => {
+    registered.add(archive.filename);
+    if (archive.storageKey) registered.add(archive.storageKey);
+  });
+
+  const imported: ArchiveRecord[] = [];
+  for (const object of legacy) {
+    if (registered.has(object.key)) continue;
+
+    try {
+      const file = await storage.get(object.key);
+      if (!file) continue;
+      const data = JSON.parse(file.body.toString('utf-8'));
+
+      imported.push(
+        await repository.saveArchive({
+          type: getLegacyArchiveType(object.key),
+          filename: object.key,
+          criteriaVersion: data?.criteriaVersion || data?.metadata?.criteriaVersion,
+          storageKey: object.key,
+          storageUrl: object.downloadUrl,
+          createdAt: object.uploadedAt,
+          data
+        })
+      );
+    } catch (error) {
+      console.error(`[LegacyArchiveImport] 아카이브 가져오기 실패 (${object.key}):`, error);
+    }
+  }
+
+  if (imported.length > 0) {
+    console.log(`[LegacyArchiveImport] 이전 아카이브 ${imported.length}건 등록`);
+  }
+  return imported;
+}
+
+/**
+ * 파일명에서 아카이브 타입 추정 ({type}_archive_{시각}.json, 자동 저장은 {type}_{시각}.json)
+ */
+function getLegacyArchiveType(filename: string): string {
+  const match = filename.match(TIMESTAMP_PATTERN);
+  return match ? filename.slice(0, match.index) : 'legacy';
+}
@@ -0,0 +1,34 @@
+import { join } from 'path';
+import { getStorageAdapter } from '@/lib/integration/storage/storage-factory';
+import type { EvaluationRepository } from '@/lib/persistence/evaluation-repository';
+import { SqliteEvaluationRepository } from '@/lib/persistence/sqlite-evaluation-repository';
+import { StorageEvaluationRepository } from '@/lib/persistence/storage-evaluation-repository';
+
+export type RepositoryBackend = 'sqlite' | 'storage';
+
+let repository: EvaluationRepository | undefined;
+
+/**
+ * 환경 변수로 선택한 평가 이력 저장소
+ * EVALUATION_REPOSITORY(sqlite | storage)를 지정하지 않으면 Vercel(읽기 전용 파일 시스템)에서는 파일 저장소, 그 외에는 SQLite
+ */
+export function getEvaluationRepository(): EvaluationRepository {
+  if (!repository) {
+    const backend = (process.env.EVALUATION_REPOSITORY || (process.env.VERCEL ? 'storage' : 'sqlite')) as RepositoryBackend;
+
+    switch (backend) {
+      case 'sqlite':
+        repository = new SqliteEvaluationRepository(
+          process.env.EVALUATION_DB_PATH || join(process.cwd(), 'data', 'evaluations.db')
+        );
+        break;
+      case 'storage':
+        repository = new StorageEvaluationRepository(getStorageAdapter());
+        break;
+      default:
+        throw new Error(`지원하지 않는 평가 이력 저장소입니다: ${backend} (sqlite, storage 중 선택)`);
+    }
+    console.log(`[EvaluationRepository] 평가 이력 저장소: ${backend}`);
+  }
+  return repository;
+}
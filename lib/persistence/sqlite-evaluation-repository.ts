@@ -0,0 +1,846 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type {
+  ArchiveFilter,
+  ArchiveInput,
+  ArchiveRecord,
+  ChatRecord,
+  CommentRecord,
+  EvaluationRepository,
+  EvaluationResultFilter,
+  EvaluationResultRecord,
+  EvaluationRunFilter,
+  EvaluationRunRecord,
+  HistoryCounselorRecord,
+  MessageRecord,
+  ProviderResultFilter,
+  ProviderResultRecord,
+  ScoreHistoryFilter,
+  ScoreHistoryRecord,
+  UploadFileInfo,
+  UploadRecord
+} from '@/lib/persistence/evaluation-repository';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS archives (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    description TEXT,
+    criteria_version TEXT,
+    size INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    storage_key TEXT,
+    storage_url TEXT,
+    payload TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_archives_type ON archives (type, created_at);
+
+  CREATE TABLE IF NOT EXISTS uploads (
+    id TEXT PRIMARY KEY REFERENCES archives (id) ON DELETE CASCADE,
+    uploaded_at TEXT NOT NULL,
+    files TEXT NOT NULL,
+    users TEXT NOT NULL,
+    chat_count INTEGER NOT NULL,
+    message_count INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS chats (
+    upload_id TEXT NOT NULL REFERENCES uploads (id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    chat_id TEXT NOT NULL,
+    manager_id TEXT,
+    created_at TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (upload_id, seq)
+  );
+  CREATE INDEX IF NOT EXISTS idx_chats_chat ON chats (chat_id);
+  CREATE INDEX IF NOT EXISTS idx_chats_manager ON chats (manager_id);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    upload_id TEXT NOT NULL REFERENCES uploads (id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    chat_id TEXT NOT NULL,
+    type TEXT,
+    created_at TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (upload_id, seq)
+  );
+  CREATE INDEX IF NOT EXISTS idx_messages_chat ON messages (upload_id, chat_id);
+
+  CREATE TABLE IF NOT EXISTS evaluation_runs (
+    id TEXT PRIMARY KEY REFERENCES archives (id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    criteria_version TEXT,
+    partial INTEGER NOT NULL,
+    counselor_count INTEGER NOT NULL,
+    average_score REAL,
+    evaluated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_evaluation_runs_evaluated ON evaluation_runs (evaluated_at);
+
+  CREATE TABLE IF NOT EXISTS evaluation_results (
+    run_id TEXT NOT NULL REFERENCES evaluation_runs (id) ON DELETE CASCADE,
+    counselor_id TEXT NOT NULL,
+    counselor_name TEXT NOT NULL,
+    evaluated_at TEXT NOT NULL,
+    criteria_version TEXT,
+    total_score REAL NOT NULL,
+    adjusted_total_score REAL,
+    chats_analyzed INTEGER NOT NULL,
+    problematic_chats INTEGER NOT NULL,
+    scores TEXT NOT NULL,
+    adjusted_scores TEXT,
+    PRIMARY KEY (run_id, counselor_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_evaluation_results_counselor ON evaluation_results (counselor_id, evaluated_at);
+
+  CREATE TABLE IF NOT EXISTS provider_results (
+    run_id TEXT NOT NULL REFERENCES evaluation_runs (id) ON DELETE CASCADE,
+    counselor_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    total_score REAL,
+    response_time INTEGER NOT NULL,
+    tokens INTEGER NOT NULL,
+    cost REAL NOT NULL,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_provider_results_run ON provider_results (run_id, counselor_id);
+
+  CREATE TABLE IF NOT EXISTS score_history (
+    run_id TEXT NOT NULL REFERENCES evaluation_runs (id) ON DELETE CASCADE,
+    counselor_id TEXT NOT NULL,
+    counselor_name TEXT NOT NULL,
+    period_start TEXT NOT NULL,
+    period_end TEXT NOT NULL,
+    criteria_version TEXT,
+    section TEXT NOT NULL,
+    item TEXT NOT NULL,
+    score REAL NOT NULL,
+    chat_id TEXT,
+    scope_start TEXT NOT NULL,
+    scope_end TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_score_history_counselor ON score_history (counselor_id, period_start);
+  CREATE INDEX IF NOT EXISTS idx_score_history_scope ON score_history (counselor_id, scope_start, scope_end);
+
+  CREATE TABLE IF NOT EXISTS comments (
+    id TEXT PRIMARY KEY,
+    chat_id TEXT NOT NULL,
+    manager_id TEXT NOT NULL,
+    manager_name TEXT NOT NULL,
+    comment TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    created_by TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_comments_chat ON comments (chat_id, created_at);
+`;
+
+// 아카이브에서 파생한 색인 테이블 (메시지 행 제외)
+const INDEX_TABLES = {
+  uploads: 'id',
+  chats: 'upload_id',
+  evaluation_runs: 'id',
+  evaluation_results: 'run_id',
+  provider_results: 'run_id',
+  score_history: 'run_id'
+} as const;
+
+/**
+ * 아카이브에서 파생한 색인 테이블 행 (원본 없이 색인을 복원할 때 사용)
+ * 메시지 행은 업로드 원본과 크기가 비슷하므로 제외하고 필요할 때 restoreMessages로 추가
+ */
+export type ArchiveIndexRows = Partial<Record<keyof typeof INDEX_TABLES, Array<Record<string, unknown>>>>;
+
+// 점수 이력 h(아카이브 a) 중 같은 상담원·평가 범위를 더 최근에 저장한 아카이브가 없는 행만 사용
+// (최근 아카이브를 삭제하면 이전 평가가 다시 사용됨)
+const LATEST_SCORE_HISTORY = `NOT EXISTS (
+  SELECT 1 FROM score_history n JOIN archives na ON na.id = n.run_id
+  WHERE n.counselor_id = h.counselor_id AND n.scope_start = h.scope_start AND n.scope_end = h.scope_end
+    AND (na.created_at > a.created_at OR (na.created_at = a.created_at AND na.rowid > a.rowid))
+)`;
+
+/**
+ * SQLite 평가 이력 저장소
+ * 아카이브 원본 문서와 함께 업로드 데이터는 상담/메시지 행으로, 상담원별 평가 결과는 상담원/Provider별 행으로 나눠 저장
+ * dbPath 파일에 저장하며(':memory:'면 메모리), 처음 열 때 테이블을 생성
+ */
+export class SqliteEvaluationRepository implements EvaluationRepository {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      mkdirSync(dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+    this.db.exec(SCHEMA);
+  }
+
+  async saveArchive(input: ArchiveInput): Promise<ArchiveRecord> {
+    const record: ArchiveRecord = {
+      id: `archive-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      type: input.type,
+      filename: input.filename,
+      description: input.description,
+      criteriaVersion: input.criteriaVersion,
+      size: JSON.stringify(input.data).length,
+      createdAt: input.createdAt || new Date().toISOString(),
+      storageKey: input.storageKey,
+      storageUrl: input.storageUrl
+    };
+    this.restoreArchive(record, input.data);
+    return record;
+  }
+
+  /**
+   * 이미 id가 정해진 아카이브 기록 (다른 저장소에 보관한 아카이브를 다시 색인할 때 사용)
+   */
+  restoreArchive(record: ArchiveRecord, data: any): void {
+    const upload = data?.organizedData ? data : null;
+    const evaluations = extractCounselorEvaluations(data);
+
+    this.db.transaction(() => {
+      // 업로드 데이터는 상담/메시지 행으로 저장하므로 원본 문서에서 제외
+      const payload = upload ? { ...upload, organizedData: undefined, files: toFileInfos(upload.files) } : data;
+      this.db
+        .prepare(
+          `INSERT INTO archives (id, type, filename, description, criteria_version, size, created_at, storage_key, storage_url, payload)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          record.id,
+          record.type,
+          record.filename,
+          record.description ?? null,
+          record.criteriaVersion ?? null,
+          record.size,
+          record.createdAt,
+          record.storageKey ?? null,
+          record.storageUrl ?? null,
+          JSON.stringify(payload)
+        );
+
+      if (upload) {
+        this.insertUpload(record.id, upload, record.createdAt);
+      }
+      if (evaluations) {
+        this.insertEvaluationRun(record, data, evaluations);
+      }
+    })();
+
+    console.log(
+      `[SqliteEvaluationRepository] 아카이브 저장: ${record.id} (${record.type}${upload ? ', 업로드' : ''}${evaluations ? `, 상담원 평가 ${evaluations.length}명` : ''})`
+    );
+  }
+
+  /**
+   * 아카이브에서 파생한 색인 행 조회
+   */
+  exportIndexRows(id: string): ArchiveIndexRows {
+    const rows: ArchiveIndexRows = {};
+    (Object.keys(INDEX_TABLES) as Array<keyof typeof INDEX_TABLES>).forEach(table => {
+      const tableRows = this.db
+        .prepare(`SELECT * FROM ${table} WHERE ${INDEX_TABLES[table]} = ? ORDER BY rowid`)
+        .all(id) as Array<Record<string, unknown>>;
+      if (tableRows.length > 0) rows[table] = tableRows;
+    });
+    return rows;
+  }
+
+  /**
+   * 원본 없이 아카이브 기록과 파생 색인 행만 복원 (원본 문서는 저장하지 않으므로 getArchiveData는 null)
+   */
+  restoreIndexRows(record: ArchiveRecord, rows: ArchiveIndexRows): void {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO archives (id, type, filename, description, criteria_version, size, created_at, storage_key, storage_url, payload)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'null')`
+        )
+        .run(
+          record.id,
+          record.type,
+          record.filename,
+          record.description ?? null,
+          record.criteriaVersion ?? null,
+          record.size,
+          record.createdAt,
+          record.storageKey ?? null,
+          record.storageUrl ?? null
+        );
+
+      (Object.keys(INDEX_TABLES) as Array<keyof typeof INDEX_TABLES>).forEach(table => {
+        const tableRows = rows[table] || [];
+        if (tableRows.length === 0) return;
+
+        // 문서의 행에서 현재 스키마 컬럼만 사용
+        const columns = this.getColumns(table);
+        const insert = this.db.prepare(
+          `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+        );
+        tableRows.forEach(row => insert.run(...columns.map(column => row[column] ?? null)));
+      });
+    })();
+  }
+
+  /**
+   * 업로드 아카이브 원본의 메시지 행 추가 (restoreIndexRows로 복원한 업로드의 메시지를 조회할 때 사용)
+   */
+  restoreMessages(uploadId: string, upload: any): void {
+    const exists = this.db.prepare('SELECT 1 FROM uploads WHERE id = ?').get(uploadId);
+    const hasMessages = this.db.prepare('SELECT 1 FROM messages WHERE upload_id = ? LIMIT 1').get(uploadId);
+    if (!exists || hasMessages) return;
+
+    this.db.transaction(() => this.insertMessages(uploadId, upload?.organizedData?.message || []))();
+  }
+
+  async getArchive(id: string): Promise<ArchiveRecord | null> {
+    const row = this.db.prepare('SELECT * FROM archives WHERE id = ?').get(id);
+    return row ? toArchiveRecord(row) : null;
+  }
+
+  async getArchiveData(id: string): Promise<any | null> {
+    const row = this.db.prepare('SELECT payload FROM archives WHERE id = ?').get(id) as { payload: string } | undefined;
+    if (!row) return null;
+
+    const data = JSON.parse(row.payload);
+    if (data === null) return null;
+    const upload = this.db.prepare('SELECT users FROM uploads WHERE id = ?').get(id) as { users: string } | undefined;
+    if (upload) {
+      const selectRows = (table: 'chats' | 'messages') =>
+        (this.db.prepare(`SELECT data FROM ${table} WHERE upload_id = ? ORDER BY seq`).all(id) as Array<{ data: string }>)
+          .map(chatRow => JSON.parse(chatRow.data));
+      data.organizedData = { user: JSON.parse(upload.users), chat: selectRows('chats'), message: selectRows('messages') };
+    }
+    return data;
+  }
+
+  async listArchives(filter: ArchiveFilter = {}): Promise<ArchiveRecord[]> {
+    const where = buildWhere({ type: filter.type, criteria_version: filter.criteriaVersion });
+    const rows = this.db
+      .prepare(`SELECT * FROM archives ${where.clause} ORDER BY created_at DESC ${filter.limit ? 'LIMIT ?' : ''}`)
+      .all(...where.params, ...(filter.limit ? [filter.limit] : []));
+    return rows.map(toArchiveRecord);
+  }
+
+  async deleteArchive(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM archives WHERE id = ?').run(id).changes > 0;
+  }
+
+  async deleteArchives(type?: string): Promise<ArchiveRecord[]> {
+    const archives = await this.listArchives({ type });
+    this.db.transaction(() => {
+      const remove = this.db.prepare('DELETE FROM archives WHERE id = ?');
+      archives.forEach(archive => remove.run(archive.id));
+    })();
+    return archives;
+  }
+
+  async listUploads(): Promise<UploadRecord[]> {
+    const rows = this.db
+      .prepare('SELECT id, uploaded_at, files, users, chat_count, message_count FROM uploads ORDER BY uploaded_at DESC')
+      .all() as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      uploadedAt: row.uploaded_at,
+      files: JSON.parse(row.files),
+      counts: { users: JSON.parse(row.users).length, chats: row.chat_count, messages: row.message_count }
+    }));
+  }
+
+  async listChats(filter: { uploadId?: string; managerId?: string; chatId?: string }): Promise<ChatRecord[]> {
+    const where = buildWhere({ upload_id: filter.uploadId, manager_id: filter.managerId, chat_id: filter.chatId });
+    const rows = this.db.prepare(`SELECT * FROM chats ${where.clause} ORDER BY upload_id, seq`).all(...where.params) as any[];
+
+    return rows.map(row => ({
+      uploadId: row.upload_id,
+      chatId: row.chat_id,
+      managerId: row.manager_id ?? undefined,
+      createdAt: row.created_at ?? undefined,
+      data: JSON.parse(row.data)
+    }));
+  }
+
+  async listMessages(uploadId: string, chatId: string): Promise<MessageRecord[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM messages WHERE upload_id = ? AND chat_id = ? ORDER BY seq')
+      .all(uploadId, chatId) as any[];
+
+    return rows.map(row => ({
+      uploadId: row.upload_id,
+      chatId: row.chat_id,
+      seq: row.seq,
+      type: row.type ?? undefined,
+      createdAt: row.created_at ?? undefined,
+      data: JSON.parse(row.data)
+    }));
+  }
+
+  async listEvaluationRuns(filter: EvaluationRunFilter = {}): Promise<EvaluationRunRecord[]> {
+    const where = buildWhere(
+      { kind: filter.kind, criteria_version: filter.criteriaVersion },
+      { column: 'evaluated_at', since: filter.since, until: filter.until }
+    );
+    const rows = this.db
+      .prepare(`SELECT * FROM evaluation_runs ${where.clause} ORDER BY evaluated_at DESC ${filter.limit ? 'LIMIT ?' : ''}`)
+      .all(...where.params, ...(filter.limit ? [filter.limit] : [])) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      kind: row.kind,
+      criteriaVersion: row.criteria_version ?? undefined,
+      partial: row.partial === 1,
+      counselorCount: row.counselor_count,
+      averageScore: row.average_score ?? undefined,
+      evaluatedAt: row.evaluated_at
+    }));
+  }
+
+  async listEvaluationResults(filter: EvaluationResultFilter = {}): Promise<EvaluationResultRecord[]> {
+    const where = buildWhere(
+      { run_id: filter.runId, counselor_id: filter.counselorId, criteria_version: filter.criteriaVersion },
+      { column: 'evaluated_at', since: filter.since, until: filter.until }
+    );
+    const rows = this.db
+      .prepare(`SELECT * FROM evaluation_results ${where.clause} ORDER BY evaluated_at, counselor_id`)
+      .all(...where.params) as any[];
+
+    return rows.map(row => ({
+      runId: row.run_id,
+      counselorId: row.counselor_id,
+      counselorName: row.counselor_name,
+      evaluatedAt: row.evaluated_at,
+      criteriaVersion: row.criteria_version ?? undefined,
+      totalScore: row.total_score,
+      adjustedTotalScore: row.adjusted_total_score ?? undefined,
+      chatsAnalyzed: row.chats_analyzed,
+      problematicChats: row.problematic_chats,
+      scores: JSON.parse(row.scores),
+      adjustedScores: row.adjusted_scores ? JSON.parse(row.adjusted_scores) : undefined
+    }));
+  }
+
+  async listProviderResults(filter: ProviderResultFilter = {}): Promise<ProviderResultRecord[]> {
+    const where = buildWhere({ run_id: filter.runId, counselor_id: filter.counselorId, provider: filter.provider });
+    const rows = this.db
+      .prepare(`SELECT * FROM provider_results ${where.clause} ORDER BY run_id, counselor_id, provider`)
+      .all(...where.params) as any[];
+
+    return rows.map(row => ({
+      runId: row.run_id,
+      counselorId: row.counselor_id,
+      provider: row.provider,
+      model: row.model,
+      success: row.success === 1,
+      totalScore: row.total_score ?? undefined,
+      responseTime: row.response_time,
+      tokens: row.tokens,
+      cost: row.cost,
+      error: row.error ?? undefined
+    }));
+  }
+
+  async listScoreHistory(filter: ScoreHistoryFilter = {}): Promise<ScoreHistoryRecord[]> {
+    const where = buildWhere(
+      {
+        'h.run_id': filter.runId,
+        'h.counselor_id': filter.counselorId,
+        'h.criteria_version': filter.criteriaVersion,
+        'h.section': filter.section
+      },
+      { column: 'h.period_start', since: filter.since, until: filter.until },
+      [LATEST_SCORE_HISTORY]
+    );
+    const rows = this.db
+      .prepare(
+        `SELECT h.* FROM score_history h JOIN archives a ON a.id = h.run_id ${where.clause}
+         ORDER BY h.period_start, h.run_id, h.rowid`
+      )
+      .all(...where.params) as any[];
+
+    return rows.map(row => ({
+      runId: row.run_id,
+      counselorId: row.counselor_id,
+      counselorName: row.counselor_name,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      chatId: row.chat_id ?? undefined,
+      criteriaVersion: row.criteria_version ?? undefined,
+      section: row.section,
+      item: row.item,
+      score: row.score
+    }));
+  }
+
+  async listHistoryCounselors(): Promise<HistoryCounselorRecord[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT h.counselor_id, MAX(h.counselor_name) AS counselor_name, COUNT(DISTINCT h.run_id) AS runs,
+                MIN(h.period_start) AS first_period, MAX(h.period_end) AS last_period
+         FROM score_history h JOIN archives a ON a.id = h.run_id
+         WHERE ${LATEST_SCORE_HISTORY}
+         GROUP BY h.counselor_id ORDER BY counselor_name`
+      )
+      .all() as any[];
+
+    return rows.map(row => ({
+      counselorId: row.counselor_id,
+      counselorName: row.counselor_name,
+      runs: row.runs,
+      firstPeriod: row.first_period,
+      lastPeriod: row.last_period
+    }));
+  }
+
+  async addComment(comment: Omit<CommentRecord, 'id' | 'createdAt'>): Promise<CommentRecord> {
+    const record: CommentRecord = {
+      id: `comment_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      ...comment,
+      createdAt: new Date().toISOString()
+    };
+    this.restoreComment(record);
+    return record;
+  }
+
+  /**
+   * 이미 id가 정해진 코멘트 기록 (다른 저장소에 보관한 코멘트를 다시 색인할 때 사용)
+   */
+  restoreComment(record: CommentRecord): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO comments (id, chat_id, manager_id, manager_name, comment, created_at, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(record.id, record.chatId, record.managerId, record.managerName, record.comment, record.createdAt, record.createdBy);
+  }
+
+  async listComments(filter: { chatId?: string; managerId?: string } = {}): Promise<CommentRecord[]> {
+    const where = buildWhere({ chat_id: filter.chatId, manager_id: filter.managerId });
+    const rows = this.db.prepare(`SELECT * FROM comments ${where.clause} ORDER BY created_at DESC`).all(...where.params) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      chatId: row.chat_id,
+      managerId: row.manager_id,
+      managerName: row.manager_name,
+      comment: row.comment,
+      createdAt: row.created_at,
+      createdBy: row.created_by
+    }));
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM comments WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * 이전 스키마 갱신
+   * - Blob 사본 주소 컬럼 → 파일 저장소 key/주소 (Vercel Blob은 주소로도 삭제 가능)
+   * - 점수 이력에 상담 ID와 평가 범위(상담원의 상담 기간) 추가
+   */
+  private migrate(): void {
+    const columns = this.getColumns('archives');
+    if (columns.includes('blob_url')) {
+      this.db.exec(`
+        ALTER TABLE archives RENAME COLUMN blob_url TO storage_url;
+        ALTER TABLE archives ADD COLUMN storage_key TEXT;
+        UPDATE archives SET storage_key = storage_url WHERE storage_url IS NOT NULL;
+      `);
+      console.log('[SqliteEvaluationRepository] archives 테이블 갱신 (blob_url → storage_key, storage_url)');
+    }
+
+    const historyColumns = this.getColumns('score_history');
+    if (historyColumns.length > 0 && !historyColumns.includes('scope_start')) {
+      this.db.exec(`
+        ALTER TABLE score_history ADD COLUMN chat_id TEXT;
+        ALTER TABLE score_history ADD COLUMN scope_start TEXT NOT NULL DEFAULT '';
+        ALTER TABLE score_history ADD COLUMN scope_end TEXT NOT NULL DEFAULT '';
+        UPDATE score_history SET scope_start = period_start, scope_end = period_end;
+      `);
+      console.log('[SqliteEvaluationRepository] score_history 테이블 갱신 (chat_id, scope_start, scope_end)');
+    }
+  }
+
+  private getColumns(table: string): string[] {
+    return (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name);
+  }
+
+  private insertUpload(id: string, upload: any, createdAt: string): void {
+    const { user = [], chat = [], message = [] } = upload.organizedData;
+
+    this.db
+      .prepare('INSERT INTO uploads (id, uploaded_at, files, users, chat_count, message_count) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(id, upload.uploadedAt || createdAt, JSON.stringify(toFileInfos(upload.files)), JSON.stringify(user), chat.length, message.length);
+
+    const insertChat = this.db.prepare(
+      'INSERT INTO chats (upload_id, seq, chat_id, manager_id, created_at, data) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    chat.forEach((row: any, seq: number) => {
+      insertChat.run(
+        id,
+        seq,
+        toText(row.chat_id ?? row.chatId) ?? '',
+        toText(row.manager_id ?? row.managerId) ?? null,
+        toText(row.createdAt ?? row.created_at ?? row.date) ?? null,
+        JSON.stringify(row)
+      );
+    });
+
+    this.insertMessages(id, message);
+  }
+
+  private insertMessages(id: string, message: any[]): void {
+    const insertMessage = this.db.prepare(
+      'INSERT INTO messages (upload_id, seq, chat_id, type, created_at, data) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    message.forEach((row: any, seq: number) => {
+      insertMessage.run(
+        id,
+        seq,
+        toText(row.chat_id ?? row.chatId) ?? '',
+        toText(row.type ?? row.personType) ?? null,
+        toText(row.createdAt ?? row.created_at ?? row.date) ?? null,
+        JSON.stringify(row)
+      );
+    });
+  }
+
+  private insertEvaluationRun(archive: ArchiveRecord, data: any, evaluations: any[]): void {
+    const evaluatedAt = toIsoString(data.analyzedAt || data.modifiedAt) || archive.createdAt;
+    // 기본 점수로 채운 평가 실패 결과는 이력/평균에서 제외
+    const completed = evaluations.filter(evaluation => !evaluation.evaluation_failed);
+    const totalScores = completed.map(evaluation => getTotalScore(evaluation.adjusted_scores || evaluation.scores));
+    const scored = totalScores.filter((score): score is number => score !== undefined);
+
+    this.db
+      .prepare(
+        `INSERT INTO evaluation_runs (id, kind, criteria_version, partial, counselor_count, average_score, evaluated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        archive.id,
+        archive.type,
+        archive.criteriaVersion ?? null,
+        data.partial ? 1 : 0,
+        evaluations.length,
+        scored.length > 0 ? scored.reduce((sum, score) => sum + score, 0) / scored.length : null,
+        evaluatedAt
+      );
+
+    const insertResult = this.db.prepare(
+      `INSERT OR REPLACE INTO evaluation_results
+       (run_id, counselor_id, counselor_name, evaluated_at, criteria_version, total_score, adjusted_total_score,
+        chats_analyzed, problematic_chats, scores, adjusted_scores)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertProvider = this.db.prepare(
+      `INSERT INTO provider_results
+       (run_id, counselor_id, provider, model, success, total_score, response_time, tokens, cost, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    completed.forEach(evaluation => {
+      const counselorId = toText(evaluation.counselor_id);
+      if (!counselorId) return;
+
+      insertResult.run(
+        archive.id,
+        counselorId,
+        evaluation.counselor_name || counselorId,
+        evaluatedAt,
+        evaluation.criteria_version || archive.criteriaVersion || null,
+        getTotalScore(evaluation.scores) ?? 0,
+        evaluation.adjusted_scores ? getTotalScore(evaluation.adjusted_scores) ?? null : null,
+        evaluation.total_chats_analyzed || 0,
+        (evaluation.problematic_chats || []).filter((chat: any) => !chat.is_excluded).length,
+        JSON.stringify(evaluation.scores || {}),
+        evaluation.adjusted_scores ? JSON.stringify(evaluation.adjusted_scores) : null
+      );
+
+      (evaluation.multi_llm?.providers || []).forEach((provider: any) => {
+        insertProvider.run(
+          archive.id,
+          counselorId,
+          provider.name,
+          provider.model || '',
+          provider.success ? 1 : 0,
+          typeof provider.total_score === 'number' ? provider.total_score : null,
+          provider.responseTime || 0,
+          provider.tokens || 0,
+          provider.cost || 0,
+          provider.error ?? null
+        );
+      });
+
+      this.insertScoreHistory(archive.id, {
+        counselorId,
+        counselorName: evaluation.counselor_name || counselorId,
+        period: evaluation.chat_period,
+        observedAt: evaluatedAt,
+        criteriaVersion: evaluation.criteria_version || archive.criteriaVersion,
+        scores: evaluation.adjusted_scores || evaluation.scores,
+        // 수기 조정한 점수는 상담원 단위로만 있으므로 상담별 점수 대신 기록
+        chats: evaluation.adjusted_scores
+          ? []
+          : (evaluation.chat_evaluations || [])
+              .filter((chat: any) => chat.status === 'evaluated' && chat.scores)
+              .map((chat: any) => ({ chatId: String(chat.chat_id), date: chat.local_date, scores: chat.scores }))
+      });
+    });
+  }
+
+  /**
+   * 상담원의 세부 항목 점수를 평가한 상담 기간(평가 범위) 기준으로 기록
+   * 상담별 평가 점수가 있으면 상담마다 상담 일자로 기록해 기간별 표본으로 사용하고, 없으면 상담 기간 점수 1건으로 기록
+   * 같은 평가 범위를 다시 저장한 경우(수정/종합 평가 아카이브) 조회할 때 최근 저장분만 사용
+   */
+  private insertScoreHistory(
+    runId: string,
+    entry: {
+      counselorId: string;
+      counselorName: string;
+      period?: { start?: string; end?: string };
+      observedAt: string;
+      criteriaVersion?: string;
+      scores: any;
+      chats: Array<{ chatId: string; date?: string; scores: any }>;
+    }
+  ): void {
+    const scopeStart = entry.period?.start || entry.observedAt.slice(0, 10);
+    const scopeEnd = entry.period?.end || scopeStart;
+    const samples = entry.chats.length > 0
+      ? entry.chats.map(chat => ({ chatId: chat.chatId, start: chat.date || scopeStart, end: chat.date || scopeEnd, scores: chat.scores }))
+      : [{ chatId: null, start: scopeStart, end: scopeEnd, scores: entry.scores }];
+
+    const insert = this.db.prepare(
+      `INSERT INTO score_history
+       (run_id, counselor_id, counselor_name, period_start, period_end, criteria_version, section, item, score,
+        chat_id, scope_start, scope_end)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    samples.forEach(sample => {
+      toScoreRows(sample.scores).forEach(row => {
+        insert.run(
+          runId,
+          entry.counselorId,
+          entry.counselorName,
+          sample.start,
+          sample.end,
+          entry.criteriaVersion ?? null,
+          row.section,
+          row.item,
+          row.score,
+          sample.chatId,
+          scopeStart,
+          scopeEnd
+        );
+      });
+    });
+  }
+}
+
+/**
+ * 상담원별 평가 결과 목록 추출 (자동 저장은 evaluations, 종합 평가 아카이브는 data.counselorEvaluations)
+ */
+function extractCounselorEvaluations(data: any): any[] | null {
+  const evaluations = data?.evaluations ?? data?.data?.counselorEvaluations;
+  return Array.isArray(evaluations) ? evaluations : null;
+}
+
+/**
+ * 평가 점수를 세부 항목 행으로 펼침 (영역별 항목과 소계, 총점은 total/total_score)
+ */
+function toScoreRows(scores: any): Array<{ section: string; item: string; score: number }> {
+  if (!scores || typeof scores !== 'object') return [];
+
+  const rows: Array<{ section: string; item: string; score: number }> = [];
+  Object.entries(scores).forEach(([section, items]) => {
+    if (!items || typeof items !== 'object') return;
+    Object.entries(items as Record<string, unknown>).forEach(([item, value]) => {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        rows.push({ section, item, score: value });
+      }
+    });
+  });
+
+  const total = getTotalScore(scores);
+  if (total !== undefined) {
+    rows.push({ section: 'total', item: 'total_score', score: total });
+  }
+  return rows;
+}
+
+function toFileInfos(files: any[] = []): UploadFileInfo[] {
+  return files.map(file => ({
+    fileName: file.fileName,
+    sheetName: file.sheetName ?? null,
+    dataType: file.dataType,
+    recordCount: file.recordCount ?? file.data?.length ?? 0,
+    headers: file.headers || [],
+    fileType: file.fileType
+  }));
+}
+
+function toArchiveRecord(row: any): ArchiveRecord {
+  return {
+    id: row.id,
+    type: row.type,
+    filename: row.filename,
+    description: row.description ?? undefined,
+    criteriaVersion: row.criteria_version ?? undefined,
+    size: row.size,
+    createdAt: row.created_at,
+    storageKey: row.storage_key ?? undefined,
+    storageUrl: row.storage_url ?? undefined
+  };
+}
+
+function getTotalScore(scores: any): number | undefined {
+  const total = Number(scores?.total_score);
+  return Number.isFinite(total) ? total : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+function toIsoString(value: unknown): string | undefined {
+  if (!value) return undefined;
+  const time = new Date(String(value)).getTime();
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * 값이 있는 조건만 모아 WHERE 절 생성 (기간 조건은 since 이상, until 미만, required는 항상 포함)
+ */
+function buildWhere(
+  equals: Record<string, string | undefined>,
+  range?: { column: string; since?: string; until?: string },
+  required: string[] = []
+): { clause: string; params: string[] } {
+  const conditions: string[] = [...required];
+  const params: string[] = [];
+
+  Object.entries(equals).forEach(([column, value]) => {
+    if (value === undefined) return;
+    conditions.push(`${column} = ?`);
+    params.push(value);
+  });
+  if (range?.since) {
+    conditions.push(`${range.column} >= ?`);
+    params.push(range.since);
+  }
+  if (range?.until) {
+    conditions.push(`${range.column} < ?`);
+    params.push(range.until);
+  }
+
+  return { clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
@@ -0,0 +1,288 @@
+import type { StorageAdapter } from '@/lib/integration/storage/storage-adapter';
+import type {
+  ArchiveFilter,
+  ArchiveInput,
+  ArchiveRecord,
+  ChatRecord,
+  CommentRecord,
+  EvaluationRepository,
+  EvaluationResultFilter,
+  EvaluationResultRecord,
+  EvaluationRunFilter,
+  EvaluationRunRecord,
+  HistoryCounselorRecord,
+  MessageRecord,
+  ProviderResultFilter,
+  ProviderResultRecord,
+  ScoreHistoryFilter,
+  ScoreHistoryRecord,
+  UploadRecord
+} from '@/lib/persistence/evaluation-repository';
+import { ArchiveIndexRows, SqliteEvaluationRepository } from '@/lib/persistence/sqlite-evaluation-repository';
+
+const ARCHIVES_PREFIX = 'repository/archives/';
+const COMMENTS_PREFIX = 'repository/comments/';
+const DATA_PREFIX = 'repository/data/';
+
+interface StoredArchiveDocument {
+  record: ArchiveRecord;
+  /** 아카이브에서 파생한 색인 행 (이전 형식 문서는 없으므로 원본으로 색인) */
+  index?: ArchiveIndexRows;
+  /** 이전 형식: 원본 사본(record.storageKey)이 없을 때 문서에 함께 저장한 원본 */
+  data?: any;
+}
+
+/**
+ * 파일 저장소 기반 평가 이력 저장소 (로컬 파일을 쓸 수 없는 Vercel 등)
+ * 아카이브/코멘트를 repository/ 아래 문서로 저장하고, 조회는 문서를 읽어 만든 메모리 SQLite 색인으로 처리
+ * 아카이브 문서에는 기록과 파생 색인 행만 저장하고 원본은 따로 두어, 색인을 만들 때 원본을 내려받지 않음
+ * (원본은 getArchiveData, 메시지는 해당 업로드를 처음 조회할 때만 내려받음)
+ * 다른 인스턴스가 저장/삭제한 문서도 반영하도록 작업마다 문서 목록을 확인해 색인을 갱신
+ */
+export class StorageEvaluationRepository implements EvaluationRepository {
+  private index = new SqliteEvaluationRepository(':memory:');
+  /** 색인에 반영한 문서 key */
+  private indexed = new Set<string>();
+  /** 메시지 행을 색인에 추가한 업로드 아카이브 id */
+  private messagesLoaded = new Set<string>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly storage: StorageAdapter) {}
+
+  async saveArchive(input: ArchiveInput): Promise<ArchiveRecord> {
+    return this.exclusive(async () => {
+      await this.loadChanges();
+      const record = await this.index.saveArchive(input);
+      const key = `${ARCHIVES_PREFIX}${record.id}.json`;
+      const document: StoredArchiveDocument = { record, index: this.index.exportIndexRows(record.id) };
+
+      try {
+        // 원본 사본(record.storageKey)이 없으면 원본을 따로 저장한 뒤 문서 저장 (문서가 있으면 원본도 있음)
+        if (!record.storageKey) {
+          await this.storage.put(`${DATA_PREFIX}${record.id}.json`, JSON.stringify(input.data), 'application/json');
+        }
+        await this.storage.put(key, JSON.stringify(document), 'application/json');
+      } catch (error) {
+        await this.index.deleteArchive(record.id);
+        throw error;
+      }
+      this.indexed.add(key);
+      this.messagesLoaded.add(record.id);
+      return record;
+    });
+  }
+
+  getArchive(id: string): Promise<ArchiveRecord | null> {
+    return this.read(() => this.index.getArchive(id));
+  }
+
+  async getArchiveData(id: string): Promise<any | null> {
+    const record = await this.getArchive(id);
+    return record ? this.readArchiveData(record) : null;
+  }
+
+  listArchives(filter?: ArchiveFilter): Promise<ArchiveRecord[]> {
+    return this.read(() => this.index.listArchives(filter));
+  }
+
+  async deleteArchive(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      await this.loadChanges();
+      const deleted = await this.index.deleteArchive(id);
+      if (deleted) {
+        await this.removeArchiveDocuments([id]);
+      }
+      return deleted;
+    });
+  }
+
+  async deleteArchives(type?: string): Promise<ArchiveRecord[]> {
+    return this.exclusive(async () => {
+      await this.loadChanges();
+      const archives = await this.index.deleteArchives(type);
+      await this.removeArchiveDocuments(archives.map(archive => archive.id));
+      return archives;
+    });
+  }
+
+  listUploads(): Promise<UploadRecord[]> {
+    return this.read(() => this.index.listUploads());
+  }
+
+  listChats(filter: { uploadId?: string; managerId?: string; chatId?: string }): Promise<ChatRecord[]> {
+    return this.read(() => this.index.listChats(filter));
+  }
+
+  listMessages(uploadId: string, chatId: string): Promise<MessageRecord[]> {
+    return this.read(async () => {
+      await this.loadMessages(uploadId);
+      return this.index.listMessages(uploadId, chatId);
+    });
+  }
+
+  listEvaluationRuns(filter?: EvaluationRunFilter): Promise<EvaluationRunRecord[]> {
+    return this.read(() => this.index.listEvaluationRuns(filter));
+  }
+
+  listEvaluationResults(filter?: EvaluationResultFilter): Promise<EvaluationResultRecord[]> {
+    return this.read(() => this.index.listEvaluationResults(filter));
+  }
+
+  listProviderResults(filter?: ProviderResultFilter): Promise<ProviderResultRecord[]> {
+    return this.read(() => this.index.listProviderResults(filter));
+  }
+
+  listScoreHistory(filter?: ScoreHistoryFilter): Promise<ScoreHistoryRecord[]> {
+    return this.read(() => this.index.listScoreHistory(filter));
+  }
+
+  listHistoryCounselors(): Promise<HistoryCounselorRecord[]> {
+    return this.read(() => this.index.listHistoryCounselors());
+  }
+
+  async addComment(comment: Omit<CommentRecord, 'id' | 'createdAt'>): Promise<CommentRecord> {
+    return this.exclusive(async () => {
+      await this.loadChanges();
+      const record = await this.index.addComment(comment);
+      const key = `${COMMENTS_PREFIX}${record.id}.json`;
+
+      try {
+        await this.storage.put(key, JSON.stringify(record), 'application/json');
+      } catch (error) {
+        await this.index.deleteComment(record.id);
+        throw error;
+      }
+      this.indexed.add(key);
+      return record;
+    });
+  }
+
+  listComments(filter?: { chatId?: string; managerId?: string }): Promise<CommentRecord[]> {
+    return this.read(() => this.index.listComments(filter));
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      await this.loadChanges();
+      const deleted = await this.index.deleteComment(id);
+      if (deleted) {
+        await this.removeDocuments([`${COMMENTS_PREFIX}${id}.json`]);
+      }
+      return deleted;
+    });
+  }
+
+  private read<T>(query: () => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      await this.loadChanges();
+      return query();
+    });
+  }
+
+  /**
+   * 색인 갱신과 저장/삭제가 겹치지 않도록 작업을 순서대로 실행
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * 저장소의 문서 목록과 색인을 비교해 새 문서는 색인에 추가하고 사라진 문서는 색인에서 삭제
+   */
+  private async loadChanges(): Promise<void> {
+    const keys = new Set(
+      (await this.storage.list('repository/'))
+        .map(object => object.key)
+        .filter(key => key.startsWith(ARCHIVES_PREFIX) || key.startsWith(COMMENTS_PREFIX))
+    );
+
+    for (const key of Array.from(this.indexed)) {
+      if (keys.has(key)) continue;
+      if (key.startsWith(ARCHIVES_PREFIX)) {
+        const id = toDocumentId(key, ARCHIVES_PREFIX);
+        await this.index.deleteArchive(id);
+        this.messagesLoaded.delete(id);
+      } else {
+        await this.index.deleteComment(toDocumentId(key, COMMENTS_PREFIX));
+      }
+      this.indexed.delete(key);
+    }
+
+    for (const key of Array.from(keys)) {
+      if (this.indexed.has(key)) continue;
+      if (key.startsWith(ARCHIVES_PREFIX)) {
+        await this.loadArchive(key);
+      } else if (key.startsWith(COMMENTS_PREFIX)) {
+        const comment = await this.readJson<CommentRecord>(key);
+        if (comment) this.index.restoreComment(comment);
+      }
+      this.indexed.add(key);
+    }
+  }
+
+  private async loadArchive(key: string): Promise<void> {
+    const document = await this.readJson<StoredArchiveDocument>(key);
+    if (!document) return;
+
+    const { record } = document;
+    if (document.index) {
+      this.index.restoreIndexRows(record, document.index);
+      return;
+    }
+
+    // 이전 형식 문서는 원본으로 색인
+    const data = record.storageKey ? await this.readJson(record.storageKey) : document.data;
+    if (data === null || data === undefined) {
+      console.warn(`[StorageEvaluationRepository] 아카이브 원본을 찾을 수 없습니다: ${record.id} (${record.storageKey})`);
+    }
+    this.index.restoreArchive(record, data ?? null);
+    this.messagesLoaded.add(record.id);
+  }
+
+  /**
+   * 업로드 아카이브의 메시지 행을 처음 조회할 때 원본에서 색인에 추가
+   */
+  private async loadMessages(uploadId: string): Promise<void> {
+    if (this.messagesLoaded.has(uploadId)) return;
+
+    const record = await this.index.getArchive(uploadId);
+    if (!record) return;
+
+    const data = await this.readArchiveData(record);
+    if (data) this.index.restoreMessages(uploadId, data);
+    this.messagesLoaded.add(uploadId);
+  }
+
+  /**
+   * 아카이브 원본 (원본 사본, 따로 저장한 원본, 이전 형식 문서 순)
+   */
+  private async readArchiveData(record: ArchiveRecord): Promise<any | null> {
+    if (record.storageKey) {
+      return this.readJson(record.storageKey);
+    }
+    const data = await this.readJson(`${DATA_PREFIX}${record.id}.json`);
+    if (data !== null) return data;
+    return (await this.readJson<StoredArchiveDocument>(`${ARCHIVES_PREFIX}${record.id}.json`))?.data ?? null;
+  }
+
+  private async readJson<T = any>(key: string): Promise<T | null> {
+    const object = await this.storage.get(key);
+    return object ? JSON.parse(object.body.toString('utf-8')) : null;
+  }
+
+  private async removeDocuments(keys: string[]): Promise<void> {
+    await this.storage.delete(keys);
+    keys.forEach(key => this.indexed.delete(key));
+  }
+
+  private async removeArchiveDocuments(ids: string[]): Promise<void> {
+    await this.removeDocuments(ids.flatMap(id => [`${ARCHIVES_PREFIX}${id}.json`, `${DATA_PREFIX}${id}.json`]));
+    ids.forEach(id => this.messagesLoaded.delete(id));
+  }
+}
+
+function toDocumentId(key: string, prefix: string): string {
+  return key.slice(prefix.length, -'.json'.length);
+}
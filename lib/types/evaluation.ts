@@ -3,6 +3,9 @@ export interface EvaluationCriteria {
   version: string;
   lastUpdated: string;
   author: string;
+  description?: string;
+  /** 복제 원본 버전 */
+  based_on?: string;
   evaluation_criteria: {
     업무능력: CriteriaSection;
     문장력: CriteriaSection;
@@ -35,19 +38,55 @@ export interface ScoringConfig {
     average: number;
     poor: number;
   };
+  /** 총점/섹션 소계별 문제 상담 기준 (키: total_score, relative_threshold, 섹션명) */
   problematic_criteria: {
     total_score: number;
-    업무능력: number;
-    문장력: number;
-    기본태도: number;
     relative_threshold: number;
+    [section: string]: number;
   };
 }
 
+export interface ScoreAssessment {
+  problematic: boolean;
+  severity: 'high' | 'medium' | 'low' | 'none';
+  reasons: string[];
+}
+
 export interface FilterConfig {
   exclude_patterns: string[];
   exclude_tags: string[];
   include_tags: string[];
+  min_messages?: Partial<Record<TargetMessageSender, number>>;
+  rating_range?: {
+    min?: number;
+    max?: number;
+    allow_missing?: boolean;
+  };
+  rule?: TargetCondition; // 지정 시 위 항목으로 구성되는 기본 규칙 대신 사용
+}
+
+// 평가 대상 선정 규칙 (불리언 조합)
+export type TargetMessageSender = 'total' | 'manager' | 'user';
+
+export type TargetCondition =
+  | { all: TargetCondition[] }
+  | { any: TargetCondition[] }
+  | { not: TargetCondition }
+  | { tags_any: string[]; match?: 'contains' | 'exact' }
+  | { text_any: string[]; sender?: TargetMessageSender }
+  | { min_messages: number; sender?: TargetMessageSender }
+  | { rating: { min?: number; max?: number; allow_missing?: boolean } };
+
+export interface TargetChatContext {
+  chatId: string;
+  tags: string[];
+  messages: Array<{ type: string; text: string }>;
+  rating?: number;
+}
+
+export interface TargetDecision {
+  included: boolean;
+  explanation: string[];
 }
 
 export interface ChatSession {
@@ -63,6 +102,7 @@ export interface ChatSession {
     tags?: string[];
     rating?: number;
     duration?: number;
+    operatingHours?: OperatingHoursStatus;
   };
 }
 
@@ -90,6 +130,14 @@ export interface EvaluationResult {
   responseTime?: number;
   tokens?: number;
   cost?: number;
+  /** 평가에 사용된 프롬프트 템플릿 버전 */
+  promptTemplate?: PromptTemplateVersion;
+  /** 응답 스키마 검증 실패로 복구 재요청한 횟수 */
+  repairAttempts?: number;
+  usage?: TokenUsage;
+  costBreakdown?: CostBreakdown;
+  /** 응답 캐시에서 가져온 결과 (Provider를 호출하지 않아 사용량/비용 0) */
+  cached?: boolean;
 }
 
 export interface ScoreDetail {
@@ -118,7 +166,12 @@ export interface ConsolidatedResult {
     outliers: number[];
   };
   providers: ProviderResult[];
+  /** Provider별 세부 항목 점수를 통합한 결과 (소계/총점은 평가 기준 가중치로 재계산) */
+  detailScores?: EvaluationResult['scores'];
   evidence: Evidence;
+  assessment: ScoreAssessment;
+  /** Provider 호출 사용량 합계 */
+  usage?: UsageSummary;
   metadata: {
     criteriaVersion: string;
     processingTime: number;
@@ -135,6 +188,11 @@ export interface ProviderResult {
   cost: number;
   success: boolean;
   error?: string;
+  /** 응답 스키마 검증 실패 (복구 재요청 후에도 실패해 점수 통합에서 제외) */
+  parseFailure?: boolean;
+  usage?: TokenUsage;
+  costBreakdown?: CostBreakdown;
+  cached?: boolean;
 }
 
 export interface ModelConfig {
@@ -144,7 +202,104 @@ export interface ModelConfig {
     multi_llm: boolean;
     min_providers: number;
     fallback_to_single: boolean;
+    comprehensive_timeout?: number; // 상담원 종합 평가 요청 타임아웃 (ms)
+    max_repair_attempts?: number; // 응답 스키마 검증 실패 시 복구 재요청 횟수 (기본 1)
+    circuit_breaker?: CircuitBreakerConfig;
   };
+  budget?: BudgetConfig;
+  cache?: ResponseCacheConfig;
+}
+
+// 평가 응답 캐시 (models.json cache)
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  /** 캐시 유효 시간 (시간, 0 또는 미설정 시 만료 없음) */
+  ttl_hours?: number;
+}
+
+// Provider 회로 차단 (models.json evaluation_mode.circuit_breaker)
+export interface CircuitBreakerConfig {
+  /** 차단할 연속 실패 횟수 (기본 3) */
+  failure_threshold?: number;
+  /** 차단 후 시험 호출까지 대기 시간 (ms, 기본 60000) */
+  cooldown_ms?: number;
+  /** 차단으로 min_providers를 채우지 못할 때 대신 사용할 Provider (providers 설정에 덮어쓸 값, 비활성 Provider도 가능) */
+  fallback?: Partial<ProviderConfig> & { provider: string };
+}
+
+// 평가 비용 한도 (models.json budget)
+export interface BudgetConfig {
+  /** 배치 실행 1회 한도 (USD, 0 또는 미설정 시 제한 없음) */
+  per_run_usd?: number;
+  /** 월 누적 한도 (USD, 0 또는 미설정 시 제한 없음) */
+  per_month_usd?: number;
+  /** 한도 도달 시 동작: pause=남은 상담 평가 중단, downgrade=하향 모델로 전환 후 계속 (하향 후에도 초과하면 중단) */
+  on_limit: 'pause' | 'downgrade';
+  /** Provider별 하향 설정 (모델, reasoningEffort 등) */
+  downgrade?: ProviderOverrides;
+  /** 사전 비용 추정 기준 */
+  estimate?: {
+    /** 상담 1건당 예상 출력 토큰 (추론 토큰 제외) */
+    output_tokens: number;
+    /** reasoning effort별 상담 1건당 예상 추론 토큰 */
+    reasoning_tokens: Record<string, number>;
+  };
+}
+
+// Provider 설정 일부 덮어쓰기 (예산 하향 등)
+export type ProviderOverrides = Record<string, Partial<ProviderConfig>>;
+
+// Provider별 사전 비용 추정
+export interface ProviderCostForecast {
+  provider: string;
+  model: string;
+  reasoningEffort?: string;
+  /** 현재 평가 모드에서 실제 평가에 사용되는 Provider인지 (min_providers 초과분은 제외) */
+  selected: boolean;
+  chats: number;
+  tokens: Omit<TokenUsage, 'estimated'>;
+  cost: CostBreakdown;
+  perChatCost: number;
+}
+
+// 배치 실행 전 비용 추정 결과
+export interface CostForecast {
+  chats: number;
+  providers: ProviderCostForecast[];
+  tokens: Omit<TokenUsage, 'estimated'>;
+  cost: CostBreakdown;
+  perChatCost: number;
+  /** budget.downgrade 적용 시 추정 (하향 설정이 있을 때만) */
+  downgraded?: {
+    providers: ProviderCostForecast[];
+    cost: CostBreakdown;
+    perChatCost: number;
+  };
+  budget: BudgetStatus;
+}
+
+export interface BudgetStatus {
+  month: string;
+  monthSpent: number;
+  perRunLimit?: number;
+  perMonthLimit?: number;
+  monthRemaining?: number;
+  onLimit: BudgetConfig['on_limit'];
+  /** 추정 비용 기준 한도 초과 여부 */
+  exceedsRunLimit: boolean;
+  exceedsMonthLimit: boolean;
+}
+
+// 배치 실행 중 예산 적용 결과
+export interface BatchBudgetReport {
+  forecast: CostForecast;
+  runSpent: number;
+  monthSpent: number;
+  downgraded: boolean;
+  paused: boolean;
+  reason?: string;
+  /** 예산 한도로 평가하지 않은 상담 */
+  pendingChatIds: string[];
 }
 
 export interface ProviderConfig {
@@ -156,6 +311,57 @@ export interface ProviderConfig {
   retry: RetryConfig;
   cost: CostConfig;
   endpoint: string;
+  base_url?: string;   // OpenAI 호환 서버 주소 (local Provider)
+  json_mode?: boolean; // response_format(json_schema/json_object) 사용 여부 (local Provider, 기본 true)
+  mock?: MockProviderOptions; // mock Provider 동작 설정
+  rate_limit?: RateLimitConfig; // Provider 호출 한도
+  reasoningEffort?: string; // 추론 강도 (openai-gpt5 Provider, 기본 medium)
+  verbosity?: string; // 응답 상세도 (openai-gpt5 Provider, 기본 medium)
+}
+
+// Provider 호출 한도 (미설정 항목은 제한 없음)
+export interface RateLimitConfig {
+  /** 분당 요청 수 */
+  requests_per_minute?: number;
+  /** 분당 토큰 수 (요청 시 입력 추정치 + max_tokens를 예약하고 응답 후 실제 사용량으로 정산) */
+  tokens_per_minute?: number;
+  /** 동시 실행 요청 수 */
+  max_concurrent?: number;
+}
+
+// 오프라인 테스트용 mock Provider 설정
+export interface MockProviderOptions {
+  /** 난수 시드 (같은 시드·상담 ID면 항상 같은 결과) */
+  seed?: number;
+  /** 응답 지연 (고정값 또는 범위, ms) */
+  latency_ms?: number | { min: number; max: number };
+  /** 호출 실패 확률 (0-1) */
+  failure_rate?: number;
+  /** 실패 시 HTTP 상태 코드 (기본 503, 재시도 대상) */
+  failure_status?: number;
+  /** 잘못된 JSON 응답 확률 (0-1) */
+  malformed_rate?: number;
+  /** 세부 항목 점수 범위 (기본 2.5-4.8) */
+  score_range?: { min: number; max: number };
+  /** 지정 시 호출 순서대로 반복 재생 (시드 기반 생성보다 우선) */
+  script?: MockScriptStep[];
+}
+
+export interface MockScriptStep {
+  type: 'result' | 'error' | 'malformed';
+  /** result: 모든 세부 항목에 적용할 점수 */
+  score?: number;
+  /** result: 응답 JSON에 덮어쓸 필드 (evidence, improvements 등) */
+  result?: Record<string, any>;
+  /** error: HTTP 상태 코드와 메시지 */
+  status?: number;
+  message?: string;
+  /** error: Retry-After (ms) */
+  retry_after_ms?: number;
+  /** malformed: 그대로 반환할 응답 텍스트 */
+  text?: string;
+  /** 이 단계에만 적용할 지연 (ms) */
+  latency_ms?: number;
 }
 
 export interface RetryConfig {
@@ -224,4 +430,313 @@ export interface EvaluationRequest {
     timeout?: number;
     retries?: number;
   };
-}
\ No newline at end of file
+}
+
+// 상담원 명부 (config/counselors.json)
+export interface CounselorProfile {
+  id: string;
+  name: string;
+  active: boolean;
+  evaluation_target: boolean;
+}
+
+export interface CounselorRosterConfig {
+  version: string;
+  lastUpdated: string;
+  counselors: CounselorProfile[];
+}
+
+// 서포트봇 → 상담원 전환 탐지 규칙 (config/evaluation/handoff-rules.json)
+export type HandoffRuleType = 'greeting_regex' | 'name_keywords' | 'sender_change' | 'metadata_flag';
+
+export interface HandoffRule {
+  id: string;
+  type: HandoffRuleType;
+  enabled: boolean;
+  description?: string;
+  patterns?: string[];
+  keywords?: string[];
+  field?: string;
+  value?: string | number | boolean;
+}
+
+export interface HandoffRuleConfig {
+  version: string;
+  lastUpdated: string;
+  description?: string;
+  rules: HandoffRule[];
+}
+
+export interface HandoffDetection {
+  status: 'matched' | 'unmatched';
+  index: number;
+  ruleId?: string;
+  ruleType?: HandoffRuleType;
+  patternIndex?: number;
+  counselorName?: string;
+}
+
+// 운영시간 캘린더 (config/operating-hours.json)
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export type OperatingHoursStatus = 'in_hours' | 'off_hours' | 'unknown';
+
+export interface TimeWindow {
+  start: string; // HH:mm
+  end: string;   // HH:mm
+  name?: string;
+}
+
+export interface ClosureDay {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface OperatingHoursConfig {
+  version: string;
+  lastUpdated: string;
+  description?: string;
+  timezone: string;
+  weekly: Record<Weekday, TimeWindow[]>;
+  breaks: TimeWindow[];
+  holidays: ClosureDay[];
+  company_closures: ClosureDay[];
+  /** 시각을 해석할 수 없는 상담의 운영시간 내 여부 (기본 off_hours, 판정 결과는 unknown으로 별도 집계) */
+  unparseable_as: 'in_hours' | 'off_hours';
+}
+
+export interface OperatingHoursClassification {
+  status: OperatingHoursStatus;
+  reason: 'within_window' | 'outside_window' | 'break' | 'weekly_off' | 'holiday' | 'company_closure' | 'unparseable';
+  localDate?: string; // YYYY-MM-DD (설정된 시간대 기준)
+  localTime?: string; // HH:mm
+  closureName?: string;
+}
+
+// 상담원 종합 평가 (상담원 단위 Multi-LLM 평가)
+export interface ProviderCompletion {
+  text: string;
+  tokens: number;
+  cost: number;
+  usage: TokenUsage;
+  costBreakdown: CostBreakdown;
+}
+
+// 토큰 사용량 (output은 reasoning을 포함한 과금 대상 출력 토큰 전체)
+export interface TokenUsage {
+  input: number;
+  output: number;
+  reasoning: number;
+  total: number;
+  /** 응답에 usage가 없어 문자 수로 추정한 값 */
+  estimated: boolean;
+}
+
+export interface CostBreakdown {
+  input: number;
+  output: number;
+  total: number;
+}
+
+// 상담/상담원/배치 단위 사용량 합계
+export interface UsageSummary {
+  calls: number;
+  estimatedCalls: number;
+  tokens: Omit<TokenUsage, 'estimated'>;
+  cost: CostBreakdown;
+}
+
+export interface CounselorChatInput {
+  chatId: string;
+  tags: string[];
+  openedDuringOperatingHours: boolean;
+  realManagerMessageCount: number;
+  conversation: Array<{ type: 'user' | 'manager'; text: string }>;
+}
+
+/**
+ * 상담원 평가 방식
+ * comprehensive: 상담원의 전체 상담을 하나의 프롬프트로 평가, per_chat: 상담마다 개별 평가한 뒤 상담원 단위로 집계
+ */
+export type CounselorEvaluationMode = 'comprehensive' | 'per_chat';
+
+export interface CounselorEvaluationRequest {
+  counselorId: string;
+  counselorName: string;
+  chats: CounselorChatInput[];
+  guidelines: string;
+  totalRealManagerMessages: number;
+  evaluationDate: string;
+  /** 평가에 사용할 평가 기준 버전 (미지정 시 활성 버전) */
+  criteriaVersion?: string;
+}
+
+export interface ProblematicChat {
+  chat_id: string;
+  issues: string[];
+  severity: string;
+  reason?: string;
+  flagged_by?: string[];
+}
+
+export interface ComprehensiveFeedback {
+  strengths: string[];
+  weaknesses: string[];
+  improvement_priorities: string[];
+}
+
+export interface CounselorEvaluationResult {
+  scores: EvaluationResult['scores'];
+  comprehensive_feedback: ComprehensiveFeedback;
+  problematic_chats: ProblematicChat[];
+  overall_comment: string;
+  provider?: string;
+  model?: string;
+  responseTime?: number;
+  tokens?: number;
+  cost?: number;
+  usage?: TokenUsage;
+  costBreakdown?: CostBreakdown;
+  /** 응답 검증 실패로 복구 재요청한 횟수 */
+  repairAttempts?: number;
+}
+
+export interface ConsolidatedCounselorResult {
+  scores: EvaluationResult['scores'];
+  comprehensive_feedback: ComprehensiveFeedback;
+  problematic_chats: ProblematicChat[];
+  overall_comment: string;
+  validation: ConsolidatedResult['validation'];
+  providers: ProviderResult[];
+  usage?: UsageSummary;
+  metadata: ConsolidatedResult['metadata'] & {
+    primaryProvider: string;
+    totalCost: number;
+    /** 사용한 프롬프트 템플릿 버전 */
+    promptTemplate?: PromptTemplateVersion;
+  };
+}
+
+export interface CriteriaVersionRegistry {
+  active_version: string;
+  history: Array<{
+    version: string;
+    activated_at: string;
+  }>;
+  lastUpdated: string;
+}
+
+export interface CriteriaVersionInfo {
+  version: string;
+  lastUpdated: string;
+  author: string;
+  description?: string;
+  based_on?: string;
+  active: boolean;
+}
+
+export interface CriteriaDiffEntry {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface PromptConversationLimits {
+  max_messages?: number;
+  max_chars?: number;
+}
+
+/**
+ * Provider별 프롬프트 재정의
+ * 키는 Provider 이름 또는 "Provider:모델 키워드" (예: gemini-25:pro)
+ */
+export interface PromptOverride {
+  version: string;
+  description?: string;
+  /** 시스템 프롬프트 전체 교체 */
+  system?: string;
+  /** 시스템 프롬프트 뒤에 추가 */
+  system_append?: string;
+  /** 사용자 프롬프트 전체 교체 */
+  user?: string;
+  /** 사용자 프롬프트의 {{provider_instructions}} 위치에 삽입 */
+  instructions?: string;
+  conversation?: PromptConversationLimits;
+}
+
+export interface PromptTemplateConfig {
+  version: string;
+  lastUpdated?: string;
+  description?: string;
+  /** 리비전 이름 */
+  name?: string;
+  author?: string;
+  /** 복제/롤백 원본 버전 */
+  based_on?: string;
+  templates: {
+    system: { role: 'system'; content: string };
+    user: { role: 'user'; content: string };
+    /** 응답 형식 예시 (scores는 평가 기준으로부터 생성) */
+    response_format: Record<string, unknown>;
+    /** 상담원 종합 평가 프롬프트 (v1.2부터, 이전 버전 템플릿에는 없음) */
+    counselor?: {
+      system: { role: 'system'; content: string };
+      user: { role: 'user'; content: string };
+      /** 응답 형식 예시 (상담원 정보와 scores는 요청/평가 기준으로부터 생성) */
+      response_format: Record<string, unknown>;
+    };
+  };
+  conversation?: PromptConversationLimits;
+  providers?: Record<string, PromptOverride>;
+  guidelines: {
+    critical_rules: string[];
+    /** 상담원 종합 평가 가이드라인 (자유 형식) */
+    counselor?: string;
+  };
+}
+
+/**
+ * 프롬프트 편집 내용 (지정한 항목만 현재 템플릿에 적용)
+ */
+export interface PromptTemplateChanges {
+  system?: string;
+  user?: string;
+  counselor_system?: string;
+  counselor_user?: string;
+  critical_rules?: string[];
+  counselor_guidelines?: string;
+}
+
+export interface PromptRevisionInfo {
+  version: string;
+  name?: string;
+  description?: string;
+  author?: string;
+  lastUpdated?: string;
+  based_on?: string;
+  active: boolean;
+}
+
+export interface PromptPreviewEntry {
+  provider: string;
+  model: string;
+  enabled: boolean;
+  template: PromptTemplateVersion;
+  system: string;
+  user: string;
+  estimatedTokens: number;
+  estimatedCost: number;
+}
+
+export interface PromptTemplateVersion {
+  version: string;
+  /** 적용된 Provider 재정의 ("키@버전") */
+  override?: string;
+}
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+  template: PromptTemplateVersion;
+}
@@ -118,6 +118,61 @@ export const availableModels: ModelOption[] = [
       accuracy: 'good',
       cost_efficiency: 'high'
     }
+  },
+
+  // Anthropic 모델들
+  {
+    id: 'anthropic-claude-sonnet-4',
+    name: 'claude-sonnet-4-20250514',
+    display_name: 'Claude Sonnet 4',
+    description: '정교한 근거 제시와 일관된 채점, 타 모델군과의 교차 검증에 적합',
+    provider: 'anthropic',
+    cost: {
+      input_per_1k: 0.003,
+      output_per_1k: 0.015
+    },
+    features: ['교차 검증', '상세한 근거', '지시 준수', 'Messages API'],
+    performance: {
+      speed: 'medium',
+      accuracy: 'excellent',
+      cost_efficiency: 'low'
+    }
+  },
+  {
+    id: 'anthropic-claude-haiku-35',
+    name: 'claude-3-5-haiku-20241022',
+    display_name: 'Claude 3.5 Haiku',
+    description: '빠르고 저렴한 Claude 모델, 대량 교차 검증용',
+    provider: 'anthropic',
+    cost: {
+      input_per_1k: 0.0008,
+      output_per_1k: 0.004
+    },
+    features: ['빠른 응답', '비용 효율', '교차 검증'],
+    performance: {
+      speed: 'fast',
+      accuracy: 'high',
+      cost_efficiency: 'medium'
+    }
+  },
+
+  // 로컬 모델 (OpenAI 호환 서버)
+  {
+    id: 'local-qwen25-14b',
+    name: 'qwen2.5:14b-instruct',
+    display_name: 'Qwen 2.5 14B (로컬)',
+    description: 'Ollama/vLLM 등 사내 OpenAI 호환 서버에서 실행, 상담 데이터 외부 전송 없음',
+    provider: 'local',
+    cost: {
+      input_per_1k: 0.00,
+      output_per_1k: 0.00
+    },
+    features: ['외부 전송 없음', '비용 없음', 'OpenAI 호환 API'],
+    performance: {
+      speed: 'slow',
+      accuracy: 'good',
+      cost_efficiency: 'high'
+    }
   }
 ];
 
@@ -263,7 +318,9 @@ export function compareModels(modelIds: string[]): ModelComparison {
 export function convertToProviderConfig(modelOption: ModelOption, overrides: any = {}): any {
   const baseConfig = {
     enabled: true,
-    model: modelOption.name.startsWith('models/') ? modelOption.name : `models/${modelOption.name}`,
+    model: !modelOption.provider.startsWith('gemini') || modelOption.name.startsWith('models/')
+      ? modelOption.name
+      : `models/${modelOption.name}`,
     temperature: 0.1,
     max_tokens: 4000,
     timeout: 30000,
@@ -285,6 +342,11 @@ export function convertToProviderConfig(modelOption: ModelOption, overrides: any
     baseConfig.top_p = 0.95;
     baseConfig.top_k = 40;
     baseConfig.endpoint = 'https://generativelanguage.googleapis.com/v1beta/models';
+  } else if (modelOption.provider === 'anthropic') {
+    baseConfig.endpoint = 'https://api.anthropic.com/v1/messages';
+  } else if (modelOption.provider === 'local') {
+    baseConfig.base_url = 'http://localhost:11434/v1';
+    baseConfig.timeout = 120000;
   }
 
   return baseConfig;